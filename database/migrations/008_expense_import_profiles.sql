@@ -0,0 +1,61 @@
+-- Budget Simple Expense Import Profiles
+-- Migration: 008_expense_import_profiles.sql
+-- Description: Saved per-bank CSV column mappings for the expense import wizard, and
+-- the statement row each imported expense came from
+
+-- ========================================
+-- IMPORT PROFILES TABLE
+-- ========================================
+
+-- Create enum for how a statement signs its amounts
+CREATE TYPE import_amount_sign AS ENUM (
+  'NEGATIVE_IS_EXPENSE',
+  'POSITIVE_IS_EXPENSE',
+  'DEBIT_CREDIT_COLUMNS'
+);
+
+-- One saved mapping per bank so repeat imports skip the mapping step
+CREATE TABLE import_profiles (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  bank_name TEXT NOT NULL,
+  delimiter TEXT NOT NULL DEFAULT ',',
+  date_format TEXT NOT NULL DEFAULT 'YYYY-MM-DD',
+  amount_sign import_amount_sign NOT NULL DEFAULT 'NEGATIVE_IS_EXPENSE',
+  has_header BOOLEAN NOT NULL DEFAULT true,
+  column_mapping JSONB NOT NULL DEFAULT '{}', -- ExpenseImportData field -> CSV column index
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- Single-character delimiters only (comma, semicolon, tab, pipe)
+  CONSTRAINT valid_delimiter CHECK (char_length(delimiter) = 1),
+
+  -- Bank names are unique per user so saving overwrites the previous mapping
+  UNIQUE(user_id, bank_name)
+);
+
+-- ========================================
+-- ADD RAW_DATA COLUMN TO EXPENSES
+-- ========================================
+
+-- The statement row as parsed, kept for reference; NULL for manually entered expenses
+ALTER TABLE expenses
+ADD COLUMN raw_data JSONB;
+
+-- ========================================
+-- INDEXES AND TRIGGERS
+-- ========================================
+
+CREATE INDEX idx_import_profiles_user_id ON import_profiles(user_id);
+
+CREATE TRIGGER update_import_profiles_updated_at BEFORE UPDATE ON import_profiles FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ========================================
+-- ROW LEVEL SECURITY
+-- ========================================
+
+ALTER TABLE import_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can only manage their own import profiles
+CREATE POLICY import_profiles_user_isolation ON import_profiles
+    FOR ALL USING (user_id = auth.uid());
@@ -0,0 +1,23 @@
+-- Budget Simple Expense External IDs
+-- Migration: 009_expense_external_ids.sql
+-- Description: Store the bank's transaction identifier (OFX FITID) on imported expenses
+-- so re-importing an overlapping statement never creates duplicates
+
+-- ========================================
+-- ADD EXTERNAL_ID COLUMN
+-- ========================================
+
+-- Identifier assigned by the source statement; NULL for manually entered expenses
+ALTER TABLE expenses 
+ADD COLUMN external_id TEXT;
+
+-- ========================================
+-- INDEXES
+-- ========================================
+
+-- A statement transaction can only be imported once per user
+CREATE UNIQUE INDEX idx_expenses_user_external_id ON expenses(user_id, external_id) WHERE external_id IS NOT NULL;
+
+-- ========================================
+-- MIGRATION COMPLETE
+-- ========================================
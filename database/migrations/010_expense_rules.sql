@@ -0,0 +1,61 @@
+-- Budget Simple Expense Auto-Categorization Rules
+-- Migration: 010_expense_rules.sql
+-- Description: User-defined rules that fill in category, budget item and type on new expenses
+
+-- ========================================
+-- EXPENSE RULES TABLE
+-- ========================================
+
+-- Rules run in ascending priority order; all set conditions must match
+CREATE TABLE expense_rules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  priority INTEGER NOT NULL DEFAULT 1,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+
+  -- Conditions
+  description_contains TEXT,
+  description_regex TEXT,
+  min_amount DECIMAL(10,2),
+  max_amount DECIMAL(10,2),
+
+  -- Actions
+  set_category TEXT,
+  set_budget_item_id UUID REFERENCES budget_items(id) ON DELETE SET NULL,
+  set_budget_payment BOOLEAN NOT NULL DEFAULT false,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT has_condition CHECK (
+    description_contains IS NOT NULL OR
+    description_regex IS NOT NULL OR
+    min_amount IS NOT NULL OR
+    max_amount IS NOT NULL
+  ),
+  CONSTRAINT valid_amount_range CHECK (
+    (min_amount IS NULL OR min_amount >= 0) AND
+    (max_amount IS NULL OR max_amount >= 0) AND
+    (min_amount IS NULL OR max_amount IS NULL OR min_amount <= max_amount)
+  ),
+  CONSTRAINT positive_priority CHECK (priority > 0)
+);
+
+-- ========================================
+-- INDEXES AND TRIGGERS
+-- ========================================
+
+CREATE INDEX idx_expense_rules_user_priority ON expense_rules(user_id, priority) WHERE is_active = true;
+
+CREATE TRIGGER update_expense_rules_updated_at BEFORE UPDATE ON expense_rules FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ========================================
+-- ROW LEVEL SECURITY
+-- ========================================
+
+ALTER TABLE expense_rules ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can only manage their own rules
+CREATE POLICY expense_rules_user_isolation ON expense_rules
+    FOR ALL USING (user_id = auth.uid());
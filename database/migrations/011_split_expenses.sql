@@ -0,0 +1,35 @@
+-- Budget Simple Split Expenses
+-- Migration: 011_split_expenses.sql
+-- Description: Let one transaction be split into lines with their own category and
+-- budget item. The parent row keeps the bank transaction; its lines are expense rows
+-- pointing at it, and spending totals count the lines instead of the parent
+
+-- ========================================
+-- ADD SPLIT COLUMNS
+-- ========================================
+
+-- Set on a split line; lines are removed with their parent
+ALTER TABLE expenses 
+ADD COLUMN parent_expense_id UUID REFERENCES expenses(id) ON DELETE CASCADE;
+
+-- Set on a transaction that has been split into lines
+ALTER TABLE expenses 
+ADD COLUMN is_split BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- ========================================
+-- CONSTRAINTS
+-- ========================================
+
+-- Lines cannot themselves be split
+ALTER TABLE expenses 
+ADD CONSTRAINT no_nested_splits CHECK (NOT (is_split AND parent_expense_id IS NOT NULL));
+
+-- ========================================
+-- INDEXES
+-- ========================================
+
+CREATE INDEX idx_expenses_parent_expense_id ON expenses(parent_expense_id) WHERE parent_expense_id IS NOT NULL;
+
+-- ========================================
+-- MIGRATION COMPLETE
+-- ========================================
@@ -0,0 +1,120 @@
+-- Budget Simple Recurring Expenses
+-- Migration: 012_recurring_expenses.sql
+-- Description: Recurring expense schedules (subscriptions, fixed bills) that post into
+-- pay periods as they are generated, either directly or as drafts awaiting confirmation
+
+-- ========================================
+-- ENUMS
+-- ========================================
+
+-- Unit for custom intervals, e.g. every 3 months
+CREATE TYPE recurrence_interval_unit AS ENUM ('DAYS', 'WEEKS', 'MONTHS');
+
+-- What happened to a scheduled occurrence
+CREATE TYPE recurring_occurrence_status AS ENUM ('PENDING', 'POSTED', 'SKIPPED');
+
+-- ========================================
+-- RECURRING EXPENSES TABLE
+-- ========================================
+
+-- Either a standard cadence or a custom interval is set. Occurrences are counted from
+-- start_date so monthly dates never drift; next_date is the first one not yet handled
+CREATE TABLE recurring_expenses (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  description TEXT NOT NULL,
+  amount DECIMAL(10,2) NOT NULL,
+  category TEXT NOT NULL,
+  budget_item_id UUID REFERENCES budget_items(id) ON DELETE SET NULL,
+  cadence income_cadence,
+  interval_count INTEGER,
+  interval_unit recurrence_interval_unit,
+  start_date DATE NOT NULL,
+  next_date DATE NOT NULL,
+  end_date DATE,
+  auto_post BOOLEAN NOT NULL DEFAULT true, -- false creates drafts to confirm
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT positive_amount CHECK (amount > 0),
+  CONSTRAINT has_one_schedule CHECK (
+    (cadence IS NOT NULL AND interval_count IS NULL AND interval_unit IS NULL) OR
+    (cadence IS NULL AND interval_count > 0 AND interval_unit IS NOT NULL)
+  ),
+  CONSTRAINT valid_schedule_dates CHECK (
+    next_date >= start_date AND (end_date IS NULL OR end_date >= start_date)
+  )
+);
+
+-- ========================================
+-- RECURRING EXPENSE OCCURRENCES TABLE
+-- ========================================
+
+-- One row per occurrence that has been posted, drafted or skipped. The unique key
+-- keeps an occurrence from ever being posted twice
+CREATE TABLE recurring_expense_occurrences (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  recurring_expense_id UUID NOT NULL REFERENCES recurring_expenses(id) ON DELETE CASCADE,
+  occurrence_date DATE NOT NULL,
+  status recurring_occurrence_status NOT NULL,
+  pay_period_id UUID REFERENCES pay_periods(id) ON DELETE SET NULL,
+  expense_id UUID REFERENCES expenses(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT unique_occurrence UNIQUE (recurring_expense_id, occurrence_date)
+);
+
+-- ========================================
+-- LINK EXPENSES TO THEIR SCHEDULE
+-- ========================================
+
+ALTER TABLE expenses 
+ADD COLUMN recurring_expense_id UUID REFERENCES recurring_expenses(id) ON DELETE SET NULL;
+
+-- Scheduled bills may be posted ahead of their date when the pay period is created
+CREATE OR REPLACE FUNCTION trigger_validate_expense()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.description := sanitize_text_input(NEW.description);
+    NEW.category := sanitize_text_input(NEW.category);
+    NEW.amount := sanitize_monetary_amount(NEW.amount);
+    
+    IF NEW.amount <= 0 THEN
+        RAISE EXCEPTION 'Expense amount must be positive';
+    END IF;
+    
+    IF NEW.recurring_expense_id IS NULL AND NEW.date > CURRENT_DATE + INTERVAL '7 days' THEN
+        RAISE EXCEPTION 'Expense date cannot be more than 7 days in the future';
+    END IF;
+    
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ========================================
+-- INDEXES AND TRIGGERS
+-- ========================================
+
+CREATE INDEX idx_recurring_expenses_user_next_date ON recurring_expenses(user_id, next_date) WHERE is_active = true;
+CREATE INDEX idx_recurring_occurrences_user_status ON recurring_expense_occurrences(user_id, status);
+
+CREATE TRIGGER update_recurring_expenses_updated_at BEFORE UPDATE ON recurring_expenses FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_recurring_expense_occurrences_updated_at BEFORE UPDATE ON recurring_expense_occurrences FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ========================================
+-- ROW LEVEL SECURITY
+-- ========================================
+
+ALTER TABLE recurring_expenses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recurring_expense_occurrences ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can only manage their own schedules
+CREATE POLICY recurring_expenses_user_isolation ON recurring_expenses
+    FOR ALL USING (user_id = auth.uid());
+
+-- Policy: Users can only manage their own occurrences
+CREATE POLICY recurring_expense_occurrences_user_isolation ON recurring_expense_occurrences
+    FOR ALL USING (user_id = auth.uid());
@@ -0,0 +1,38 @@
+-- Budget Simple Refunds and Credits
+-- Migration: 013_refunds.sql
+-- Description: Record refunds, returns and credits as their own expense type. Amounts
+-- stay positive like every other expense; spending totals subtract refunds. A refund
+-- can point back at the expense it reverses
+
+-- ========================================
+-- EXPENSE TYPE
+-- ========================================
+
+ALTER TYPE expense_type ADD VALUE IF NOT EXISTS 'REFUND';
+
+-- ========================================
+-- ADD REFUND COLUMNS
+-- ========================================
+
+-- The expense this refund reverses; kept as an unlinked credit if it is deleted
+ALTER TABLE expenses 
+ADD COLUMN refund_of_expense_id UUID REFERENCES expenses(id) ON DELETE SET NULL;
+
+-- ========================================
+-- CONSTRAINTS
+-- ========================================
+
+-- An expense cannot refund itself. The new enum value cannot be used in this
+-- transaction, so the link-requires-REFUND check is enforced by the application
+ALTER TABLE expenses 
+ADD CONSTRAINT no_self_refund CHECK (refund_of_expense_id IS NULL OR refund_of_expense_id <> id);
+
+-- ========================================
+-- INDEXES
+-- ========================================
+
+CREATE INDEX idx_expenses_refund_of_expense_id ON expenses(refund_of_expense_id) WHERE refund_of_expense_id IS NOT NULL;
+
+-- ========================================
+-- MIGRATION COMPLETE
+-- ========================================
@@ -0,0 +1,37 @@
+-- Budget Simple Expense Tags and Notes
+-- Migration: 014_expense_tags_notes.sql
+-- Description: Free-form tags (e.g. "vacation-2026", "work-reimbursable") and a notes
+-- field on expenses. Tags cut across categories and pay periods so spending for a
+-- trip or project can be totalled in one place
+
+-- ========================================
+-- ADD TAG AND NOTE COLUMNS
+-- ========================================
+
+-- Lowercase, hyphenated tags; normalized by the application
+ALTER TABLE expenses 
+ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE expenses 
+ADD COLUMN notes TEXT;
+
+-- ========================================
+-- CONSTRAINTS
+-- ========================================
+
+ALTER TABLE expenses 
+ADD CONSTRAINT max_tags CHECK (cardinality(tags) <= 10);
+
+ALTER TABLE expenses 
+ADD CONSTRAINT max_notes_length CHECK (notes IS NULL OR char_length(notes) <= 2000);
+
+-- ========================================
+-- INDEXES
+-- ========================================
+
+-- Supports tag filters (tags @> ARRAY['tag'])
+CREATE INDEX idx_expenses_tags ON expenses USING GIN (tags);
+
+-- ========================================
+-- MIGRATION COMPLETE
+-- ========================================
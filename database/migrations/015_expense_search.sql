@@ -0,0 +1,58 @@
+-- Budget Simple Expense Search and Saved Filters
+-- Migration: 015_expense_search.sql
+-- Description: Full-text search over expense descriptions and notes, and named filter
+-- presets saved per user (e.g. "Dining this quarter")
+
+-- ========================================
+-- FULL-TEXT SEARCH
+-- ========================================
+
+-- Kept up to date by Postgres whenever description or notes change
+ALTER TABLE expenses 
+ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(description, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(notes, '')), 'B')
+) STORED;
+
+CREATE INDEX idx_expenses_search_vector ON expenses USING GIN (search_vector);
+
+-- ========================================
+-- EXPENSE FILTER PRESETS TABLE
+-- ========================================
+
+-- Filters are stored as the same JSON the expense list uses
+CREATE TABLE expense_filter_presets (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  filters JSONB NOT NULL DEFAULT '{}',
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT unique_preset_name UNIQUE (user_id, name),
+  CONSTRAINT preset_name_not_empty CHECK (char_length(trim(name)) > 0),
+  CONSTRAINT filters_is_object CHECK (jsonb_typeof(filters) = 'object')
+);
+
+-- ========================================
+-- INDEXES AND TRIGGERS
+-- ========================================
+
+CREATE INDEX idx_expense_filter_presets_user_id ON expense_filter_presets(user_id);
+
+CREATE TRIGGER update_expense_filter_presets_updated_at BEFORE UPDATE ON expense_filter_presets FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ========================================
+-- ROW LEVEL SECURITY
+-- ========================================
+
+ALTER TABLE expense_filter_presets ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can only manage their own presets
+CREATE POLICY expense_filter_presets_user_isolation ON expense_filter_presets
+    FOR ALL USING (user_id = auth.uid());
+
+-- ========================================
+-- MIGRATION COMPLETE
+-- ========================================
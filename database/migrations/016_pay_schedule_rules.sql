@@ -0,0 +1,39 @@
+-- Budget Simple Pay Schedule Rules
+-- Migration: 016_pay_schedule_rules.sql
+-- Description: Per-income-source pay date rules. Anchor days set which days of the month
+-- payday falls on, and paydays on weekends or holidays move to a nearby business day
+
+-- ========================================
+-- ENUMS
+-- ========================================
+
+-- Where a payday that falls on a weekend or holiday moves to
+CREATE TYPE business_day_adjustment AS ENUM ('NONE', 'PREVIOUS', 'NEXT');
+
+-- Bundled holiday calendars; US_BANK follows the Federal Reserve, which does not
+-- observe holidays that fall on a Saturday
+CREATE TYPE holiday_calendar AS ENUM ('NONE', 'US_FEDERAL', 'US_BANK');
+
+-- ========================================
+-- ADD PAY SCHEDULE COLUMNS
+-- ========================================
+
+-- Days of the month for semi-monthly (two days), monthly, quarterly and annual pay;
+-- 31 means the last day of the month. NULL keeps the cadence defaults (1st and 16th
+-- for semi-monthly, otherwise the 1st)
+ALTER TABLE income_sources 
+ADD COLUMN pay_anchor_days SMALLINT[],
+ADD COLUMN business_day_adjustment business_day_adjustment NOT NULL DEFAULT 'NONE',
+ADD COLUMN holiday_calendar holiday_calendar NOT NULL DEFAULT 'NONE';
+
+-- ========================================
+-- CONSTRAINTS
+-- ========================================
+
+ALTER TABLE income_sources 
+ADD CONSTRAINT valid_pay_anchor_days CHECK (
+  pay_anchor_days IS NULL OR (
+    cardinality(pay_anchor_days) BETWEEN 1 AND 2 AND
+    1 <= ALL(pay_anchor_days) AND 31 >= ALL(pay_anchor_days)
+  )
+);
@@ -0,0 +1,74 @@
+-- Budget Simple Household Budget Periods
+-- Migration: 017_household_budget_periods.sql
+-- Description: Combined budgeting mode for households with more than one income source.
+-- A household budget period follows its own cadence, collects every paycheck landing in
+-- its date window, and budgets against their combined net pay
+
+-- ========================================
+-- ENUMS
+-- ========================================
+
+-- PER_SOURCE keeps one set of pay periods per income source; HOUSEHOLD combines them
+CREATE TYPE budget_mode AS ENUM ('PER_SOURCE', 'HOUSEHOLD');
+
+-- ========================================
+-- ADD HOUSEHOLD SETTINGS TO USERS
+-- ========================================
+
+-- Household periods step by household_cadence, counting weekly and bi-weekly windows
+-- from household_start_date
+ALTER TABLE users
+ADD COLUMN budget_mode budget_mode NOT NULL DEFAULT 'PER_SOURCE',
+ADD COLUMN household_cadence income_cadence NOT NULL DEFAULT 'monthly',
+ADD COLUMN household_start_date DATE;
+
+-- ========================================
+-- HOUSEHOLD PAY PERIODS
+-- ========================================
+
+-- A household period is not bound to one income source
+ALTER TABLE pay_periods
+ALTER COLUMN income_source_id DROP NOT NULL;
+
+-- ========================================
+-- PAY PERIOD DEPOSITS TABLE
+-- ========================================
+
+-- The paychecks that make up a household period's expected income
+CREATE TABLE pay_period_deposits (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  pay_period_id UUID NOT NULL REFERENCES pay_periods(id) ON DELETE CASCADE,
+  income_source_id UUID NOT NULL REFERENCES income_sources(id) ON DELETE CASCADE,
+  pay_date DATE NOT NULL,
+  expected_net DECIMAL(10,2) NOT NULL CHECK (expected_net > 0),
+  gross_amount DECIMAL(10,2) NOT NULL CHECK (gross_amount > 0),
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT unique_pay_period_deposit UNIQUE (pay_period_id, income_source_id, pay_date)
+);
+
+-- ========================================
+-- INDEXES AND TRIGGERS
+-- ========================================
+
+CREATE INDEX idx_pay_period_deposits_pay_period_id ON pay_period_deposits(pay_period_id);
+CREATE INDEX idx_pay_period_deposits_user_id ON pay_period_deposits(user_id);
+
+CREATE TRIGGER update_pay_period_deposits_updated_at BEFORE UPDATE ON pay_period_deposits FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ========================================
+-- ROW LEVEL SECURITY
+-- ========================================
+
+ALTER TABLE pay_period_deposits ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can only manage their own deposits
+CREATE POLICY pay_period_deposits_user_isolation ON pay_period_deposits
+    FOR ALL USING (user_id = auth.uid());
+
+-- ========================================
+-- MIGRATION COMPLETE
+-- ========================================
@@ -0,0 +1,72 @@
+-- Budget Simple Variable Income
+-- Migration: 018_variable_income.sql
+-- Description: Irregular-income mode for gig and freelance earners. Deposits are logged as
+-- they arrive, and each one funds the budget items of its pay period in priority order
+-- until the money runs out
+
+-- ========================================
+-- ADD VARIABLE INCOME FLAG
+-- ========================================
+
+-- Variable sources have no paydays; they budget in calendar months, and gross_amount and
+-- net_amount hold a typical month used until there is enough deposit history
+ALTER TABLE income_sources
+ADD COLUMN is_variable BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE income_sources
+ADD CONSTRAINT variable_income_is_monthly CHECK (NOT is_variable OR cadence = 'monthly');
+
+-- ========================================
+-- ADD FUNDED AMOUNT TO ALLOCATIONS
+-- ========================================
+
+-- How much of expected_amount deposits have covered so far
+ALTER TABLE allocations
+ADD COLUMN funded_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (funded_amount >= 0);
+
+-- ========================================
+-- INCOME DEPOSITS TABLE
+-- ========================================
+
+-- fundings records how much of the deposit went to each allocation, as
+-- [{ "allocation_id", "budget_item_id", "amount" }], so a deposit can be removed again
+CREATE TABLE income_deposits (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  income_source_id UUID NOT NULL REFERENCES income_sources(id) ON DELETE CASCADE,
+  pay_period_id UUID REFERENCES pay_periods(id) ON DELETE SET NULL,
+  deposit_date DATE NOT NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  notes TEXT,
+  fundings JSONB NOT NULL DEFAULT '[]',
+  unallocated_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (unallocated_amount >= 0),
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT fundings_is_array CHECK (jsonb_typeof(fundings) = 'array')
+);
+
+-- ========================================
+-- INDEXES AND TRIGGERS
+-- ========================================
+
+CREATE INDEX idx_income_deposits_user_date ON income_deposits(user_id, deposit_date DESC);
+CREATE INDEX idx_income_deposits_income_source_id ON income_deposits(income_source_id);
+CREATE INDEX idx_income_deposits_pay_period_id ON income_deposits(pay_period_id);
+
+CREATE TRIGGER update_income_deposits_updated_at BEFORE UPDATE ON income_deposits FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ========================================
+-- ROW LEVEL SECURITY
+-- ========================================
+
+ALTER TABLE income_deposits ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can only manage their own deposits
+CREATE POLICY income_deposits_user_isolation ON income_deposits
+    FOR ALL USING (user_id = auth.uid());
+
+-- ========================================
+-- MIGRATION COMPLETE
+-- ========================================
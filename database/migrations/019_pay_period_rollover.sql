@@ -0,0 +1,74 @@
+-- Budget Simple Scheduled Pay Period Rollover
+-- Migration: 019_pay_period_rollover.sql
+-- Description: Per-user policy for completing pay periods once they end, a log of the
+-- actions taken by the scheduled rollover job, and unique period start dates so that
+-- overlapping job runs cannot create the same pay period twice
+
+-- ========================================
+-- ENUMS
+-- ========================================
+
+-- MANUAL never completes automatically; WHEN_PAID completes an ended period once every
+-- allocation is paid; ON_END completes a period as soon as it ends
+CREATE TYPE period_completion_policy AS ENUM ('MANUAL', 'WHEN_PAID', 'ON_END');
+
+CREATE TYPE pay_period_job_action AS ENUM ('CREATED', 'COMPLETED', 'FAILED');
+
+-- ========================================
+-- ADD COMPLETION POLICY TO USERS
+-- ========================================
+
+-- Periods keep being completed by hand until the user opts in
+ALTER TABLE users
+ADD COLUMN period_completion_policy period_completion_policy NOT NULL DEFAULT 'MANUAL';
+
+-- ========================================
+-- ONE PAY PERIOD PER START DATE
+-- ========================================
+
+CREATE UNIQUE INDEX unique_income_source_pay_period_start
+  ON pay_periods(income_source_id, start_date)
+  WHERE income_source_id IS NOT NULL;
+
+CREATE UNIQUE INDEX unique_household_pay_period_start
+  ON pay_periods(user_id, start_date)
+  WHERE income_source_id IS NULL;
+
+-- ========================================
+-- PAY PERIOD JOB LOG TABLE
+-- ========================================
+
+-- One row per action taken by a run of the rollover job. Written with the service role.
+CREATE TABLE pay_period_job_log (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  run_id UUID NOT NULL,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  pay_period_id UUID REFERENCES pay_periods(id) ON DELETE SET NULL,
+  income_source_id UUID REFERENCES income_sources(id) ON DELETE SET NULL,
+  action pay_period_job_action NOT NULL,
+  message TEXT NOT NULL,
+  as_of DATE NOT NULL,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ========================================
+-- INDEXES
+-- ========================================
+
+CREATE INDEX idx_pay_period_job_log_user_id ON pay_period_job_log(user_id, created_at DESC);
+CREATE INDEX idx_pay_period_job_log_run_id ON pay_period_job_log(run_id);
+
+-- ========================================
+-- ROW LEVEL SECURITY
+-- ========================================
+
+ALTER TABLE pay_period_job_log ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can read the job's actions on their own pay periods
+CREATE POLICY pay_period_job_log_user_isolation ON pay_period_job_log
+    FOR SELECT USING (user_id = auth.uid());
+
+-- ========================================
+-- MIGRATION COMPLETE
+-- ========================================
@@ -0,0 +1,34 @@
+-- Budget Simple Envelope Rollover
+-- Migration: 020_envelope_rollover.sql
+-- Description: Per-budget-item rollover of unspent and overspent allocations. When a pay
+-- period completes, each allocation's balance (carried in + allocated - spent) is carried
+-- into the same budget item's allocation in the next pay period of the same series
+
+-- ========================================
+-- ENUMS
+-- ========================================
+
+-- RESET starts every period from zero; CARRY_SURPLUS carries unspent money forward;
+-- CARRY_DEFICIT carries overspending forward; CARRY_BOTH carries either
+CREATE TYPE rollover_mode AS ENUM ('RESET', 'CARRY_SURPLUS', 'CARRY_DEFICIT', 'CARRY_BOTH');
+
+-- ========================================
+-- ADD ROLLOVER SETTING TO BUDGET ITEMS
+-- ========================================
+
+ALTER TABLE budget_items
+ADD COLUMN rollover_mode rollover_mode NOT NULL DEFAULT 'RESET';
+
+-- ========================================
+-- ADD CARRIED BALANCES TO ALLOCATIONS
+-- ========================================
+
+-- carried_in comes from the previous period and is negative for a carried deficit;
+-- carried_out is what the allocation passes on once its period completes
+ALTER TABLE allocations
+ADD COLUMN carried_in DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN carried_out DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- ========================================
+-- MIGRATION COMPLETE
+-- ========================================
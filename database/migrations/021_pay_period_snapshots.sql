@@ -0,0 +1,57 @@
+-- Budget Simple Pay Period Snapshots
+-- Migration: 021_pay_period_snapshots.sql
+-- Description: A frozen copy of the budget items and income figures of each completed pay
+-- period, so history, reconciliation and trends stay accurate after budget items are
+-- renamed, recategorised or deleted
+
+-- ========================================
+-- PAY PERIOD SNAPSHOTS TABLE
+-- ========================================
+
+-- items holds one entry per allocation as
+-- [{ "allocation_id", "budget_item_id", "name", "category", "calc_type", "value",
+--    "expected_amount", "actual_amount", "status", "carried_in", "carried_out" }]
+-- budget_item_id is kept for reference only; the item may no longer exist
+CREATE TABLE pay_period_snapshots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  pay_period_id UUID NOT NULL REFERENCES pay_periods(id) ON DELETE CASCADE,
+  income_source_name TEXT NOT NULL,
+  gross_income DECIMAL(10,2) NOT NULL DEFAULT 0,
+  expected_net DECIMAL(10,2) NOT NULL,
+  actual_net DECIMAL(10,2),
+  items JSONB NOT NULL DEFAULT '[]',
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT unique_pay_period_snapshot UNIQUE (pay_period_id),
+  CONSTRAINT snapshot_items_is_array CHECK (jsonb_typeof(items) = 'array')
+);
+
+-- ========================================
+-- INDEXES
+-- ========================================
+
+CREATE INDEX idx_pay_period_snapshots_user_id ON pay_period_snapshots(user_id);
+
+-- ========================================
+-- ROW LEVEL SECURITY
+-- ========================================
+
+ALTER TABLE pay_period_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Policies: Users can read, take and discard snapshots of their own pay periods. There is
+-- no update policy; reactivating a period discards its snapshot and completing it again
+-- takes a new one.
+CREATE POLICY pay_period_snapshots_user_isolation ON pay_period_snapshots
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY pay_period_snapshots_user_insert ON pay_period_snapshots
+    FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY pay_period_snapshots_user_delete ON pay_period_snapshots
+    FOR DELETE USING (user_id = auth.uid());
+
+-- ========================================
+-- MIGRATION COMPLETE
+-- ========================================
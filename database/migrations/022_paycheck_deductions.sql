@@ -0,0 +1,30 @@
+-- Budget Simple Paycheck Deductions
+-- Migration: 022_paycheck_deductions.sql
+-- Description: Gross-to-net breakdown of each income source's paycheck, and budget items
+-- that are taken out of the paycheck before it is deposited
+
+-- ========================================
+-- ADD PAYCHECK DEDUCTIONS TO INCOME SOURCES
+-- ========================================
+
+-- paycheck_deductions holds the per-paycheck deductions as
+-- [{ "name", "type", "amount" }] where type is PRE_TAX, TAX, POST_TAX or EMPLOYER_MATCH.
+-- When there are any, net_amount is derived from them by the app.
+ALTER TABLE income_sources
+ADD COLUMN paycheck_deductions JSONB NOT NULL DEFAULT '[]';
+
+ALTER TABLE income_sources
+ADD CONSTRAINT paycheck_deductions_is_array CHECK (jsonb_typeof(paycheck_deductions) = 'array');
+
+-- ========================================
+-- ADD PAYCHECK DEDUCTION FLAG TO BUDGET ITEMS
+-- ========================================
+
+-- Items such as a 401k contribution are withheld by the employer, so they are left out of
+-- the allocations made from take-home pay
+ALTER TABLE budget_items
+ADD COLUMN deducted_from_paycheck BOOLEAN NOT NULL DEFAULT false;
+
+-- ========================================
+-- MIGRATION COMPLETE
+-- ========================================
@@ -0,0 +1,21 @@
+-- Budget Simple Calendar Feed
+-- Migration: 023_calendar_feed.sql
+-- Description: Secret token for each user's iCalendar feed of paydays, bill due dates and
+-- pay period completion reminders. Calendar apps can't sign in, so the token in the feed
+-- URL is what identifies the user.
+
+-- ========================================
+-- ADD CALENDAR FEED TOKEN TO USERS
+-- ========================================
+
+-- NULL while the feed is turned off. Regenerating the token breaks any URL shared before.
+ALTER TABLE users
+ADD COLUMN calendar_feed_token TEXT;
+
+CREATE UNIQUE INDEX unique_calendar_feed_token
+  ON users(calendar_feed_token)
+  WHERE calendar_feed_token IS NOT NULL;
+
+-- ========================================
+-- MIGRATION COMPLETE
+-- ========================================
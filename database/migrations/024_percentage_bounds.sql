@@ -0,0 +1,94 @@
+-- Budget Simple Percentage Bounds
+-- Migration: 024_percentage_bounds.sql
+-- Description: Minimum and maximum amounts for percentage budget items, and an overflow
+-- item that receives anything above the maximum
+
+-- ========================================
+-- ADD BOUNDS TO BUDGET ITEMS
+-- ========================================
+
+-- Bounds are amounts on the item's own cadence, like a fixed item's value, and only
+-- apply to GROSS_PERCENT, NET_PERCENT and REMAINING_PERCENT items
+ALTER TABLE budget_items
+ADD COLUMN min_amount DECIMAL(10,2) DEFAULT NULL CHECK (min_amount >= 0),
+ADD COLUMN max_amount DECIMAL(10,2) DEFAULT NULL CHECK (max_amount > 0),
+ADD COLUMN overflow_target_id UUID DEFAULT NULL REFERENCES budget_items(id) ON DELETE SET NULL;
+
+ALTER TABLE budget_items
+ADD CONSTRAINT budget_items_bounds_order CHECK (
+    min_amount IS NULL OR max_amount IS NULL OR min_amount <= max_amount
+);
+
+-- ========================================
+-- VALIDATION FUNCTIONS
+-- ========================================
+
+-- Validate bounds and the overflow target of a budget item
+CREATE OR REPLACE FUNCTION validate_percentage_bounds(
+    item_id UUID,
+    item_user_id UUID,
+    calc_type calc_type,
+    min_amount DECIMAL(10,2),
+    max_amount DECIMAL(10,2),
+    overflow_target_id UUID
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+    -- Fixed items already have an exact amount
+    IF calc_type = 'FIXED' THEN
+        RETURN min_amount IS NULL AND max_amount IS NULL AND overflow_target_id IS NULL;
+    END IF;
+
+    IF overflow_target_id IS NULL THEN
+        RETURN TRUE;
+    END IF;
+
+    -- Overflow only exists above a maximum, and can't go back to the item itself
+    IF max_amount IS NULL OR overflow_target_id = item_id THEN
+        RETURN FALSE;
+    END IF;
+
+    -- The overflow item must be one of the user's own active items
+    RETURN EXISTS (
+        SELECT 1 FROM budget_items
+        WHERE id = overflow_target_id
+        AND user_id = item_user_id
+        AND is_active = true
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- ========================================
+-- UPDATE BUDGET ITEM VALIDATION TRIGGER
+-- ========================================
+
+CREATE OR REPLACE FUNCTION trigger_validate_budget_item()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.name := sanitize_text_input(NEW.name);
+    NEW.value := sanitize_monetary_amount(NEW.value);
+    NEW.min_amount := sanitize_monetary_amount(NEW.min_amount);
+    NEW.max_amount := sanitize_monetary_amount(NEW.max_amount);
+
+    IF NOT validate_percentage_value(NEW.calc_type, NEW.value) THEN
+        RAISE EXCEPTION 'Invalid value % for calculation type %', NEW.value, NEW.calc_type;
+    END IF;
+
+    IF NOT validate_percentage_bounds(
+        NEW.id, NEW.user_id, NEW.calc_type, NEW.min_amount, NEW.max_amount, NEW.overflow_target_id
+    ) THEN
+        RAISE EXCEPTION 'Invalid bounds for % budget item: minimum %, maximum %, overflow item %',
+            NEW.calc_type, NEW.min_amount, NEW.max_amount, NEW.overflow_target_id;
+    END IF;
+
+    IF NEW.priority < 0 OR NEW.priority > 1000 THEN
+        RAISE EXCEPTION 'Priority must be between 0 and 1000';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ========================================
+-- MIGRATION COMPLETE
+-- ========================================
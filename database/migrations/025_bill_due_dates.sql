@@ -0,0 +1,35 @@
+-- Budget Simple Bill Due Dates
+-- Migration: 025_bill_due_dates.sql
+-- Description: Due dates on fixed budget items, and whether each bill is split evenly
+-- across pay periods or funded in full by the pay period it falls due in
+
+-- ========================================
+-- ENUMS
+-- ========================================
+
+-- SPLIT_EVENLY pro-rates the bill across every pay period; BEFORE_DUE_DATE allocates the
+-- whole amount from the paycheck that precedes each due date, and nothing otherwise
+CREATE TYPE bill_funding_strategy AS ENUM ('SPLIT_EVENLY', 'BEFORE_DUE_DATE');
+
+-- ========================================
+-- ADD DUE DATES TO BUDGET ITEMS
+-- ========================================
+
+-- due_date is any one due date; the bill falls due again at the item's cadence before
+-- and after it
+ALTER TABLE budget_items
+ADD COLUMN due_date DATE DEFAULT NULL,
+ADD COLUMN funding_strategy bill_funding_strategy NOT NULL DEFAULT 'SPLIT_EVENLY';
+
+-- Funding by due date needs a due date and a fixed amount to fund
+ALTER TABLE budget_items
+ADD CONSTRAINT budget_items_due_date_funding CHECK (
+    funding_strategy = 'SPLIT_EVENLY' OR (due_date IS NOT NULL AND calc_type = 'FIXED')
+);
+
+CREATE INDEX idx_budget_items_due_date ON budget_items(user_id, due_date)
+    WHERE due_date IS NOT NULL;
+
+-- ========================================
+-- MIGRATION COMPLETE
+-- ========================================
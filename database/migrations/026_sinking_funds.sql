@@ -0,0 +1,36 @@
+-- Budget Simple Sinking Funds
+-- Migration: 026_sinking_funds.sql
+-- Description: Sinking-fund budget items that save towards a non-monthly expense. A fund's
+-- balance is its opening balance plus every started pay period's allocation, less the
+-- expenses paid from it
+
+-- ========================================
+-- ADD SINKING FUNDS TO BUDGET ITEMS
+-- ========================================
+
+-- target_amount and target_date are what the fund needs and by when; opening_balance is
+-- money already saved before the fund was set up
+ALTER TABLE budget_items
+ADD COLUMN is_sinking_fund BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN target_amount DECIMAL(10,2) DEFAULT NULL CHECK (target_amount > 0),
+ADD COLUMN target_date DATE DEFAULT NULL,
+ADD COLUMN opening_balance DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (opening_balance >= 0);
+
+-- Every sinking fund has a target, and only sinking funds do
+ALTER TABLE budget_items
+ADD CONSTRAINT budget_items_sinking_fund_target CHECK (
+    (is_sinking_fund AND target_amount IS NOT NULL AND target_date IS NOT NULL)
+    OR (NOT is_sinking_fund AND target_amount IS NULL AND target_date IS NULL
+        AND opening_balance = 0)
+);
+
+CREATE INDEX idx_budget_items_sinking_funds ON budget_items(user_id)
+    WHERE is_sinking_fund = true;
+
+-- Expenses paid from a fund are looked up by budget item across all pay periods
+CREATE INDEX idx_expenses_budget_item ON expenses(budget_item_id)
+    WHERE budget_item_id IS NOT NULL;
+
+-- ========================================
+-- MIGRATION COMPLETE
+-- ========================================
@@ -0,0 +1,51 @@
+-- Budget Simple Savings Goals
+-- Migration: 027_savings_goals.sql
+-- Description: Savings goals with a target amount and date, optionally linked to the
+-- budget item that saves towards them
+
+-- ========================================
+-- SAVINGS GOALS TABLE
+-- ========================================
+
+-- current_balance is kept up to date by the user, as the money usually sits in a
+-- savings account outside the budget
+CREATE TABLE savings_goals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  target_amount DECIMAL(10,2) NOT NULL,
+  target_date DATE NOT NULL,
+  current_balance DECIMAL(10,2) NOT NULL DEFAULT 0,
+  budget_item_id UUID REFERENCES budget_items(id) ON DELETE SET NULL,
+  priority INTEGER NOT NULL DEFAULT 0, -- Lower numbers first, as for budget items
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT positive_target_amount CHECK (target_amount > 0),
+  CONSTRAINT non_negative_current_balance CHECK (current_balance >= 0),
+  CONSTRAINT valid_goal_priority CHECK (priority >= 0 AND priority <= 1000)
+);
+
+-- ========================================
+-- INDEXES AND TRIGGERS
+-- ========================================
+
+CREATE INDEX idx_savings_goals_user_priority ON savings_goals(user_id, priority);
+CREATE INDEX idx_savings_goals_budget_item ON savings_goals(budget_item_id)
+    WHERE budget_item_id IS NOT NULL;
+
+CREATE TRIGGER update_savings_goals_updated_at BEFORE UPDATE ON savings_goals FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ========================================
+-- ROW LEVEL SECURITY
+-- ========================================
+
+ALTER TABLE savings_goals ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can only manage their own goals
+CREATE POLICY savings_goals_user_isolation ON savings_goals
+    FOR ALL USING (user_id = auth.uid());
+
+-- ========================================
+-- MIGRATION COMPLETE
+-- ========================================
@@ -0,0 +1,66 @@
+-- Budget Simple Debt Accounts
+-- Migration: 028_debt_accounts.sql
+-- Description: Debt accounts with a balance, APR and minimum payment, optionally linked
+-- to the budget item that pays them, and the user's payoff plan
+
+-- ========================================
+-- ENUMS
+-- ========================================
+
+-- highest_interest is the avalanche method and smallest_balance the snowball; custom
+-- pays debts off by their payoff_order
+CREATE TYPE debt_payoff_priority AS ENUM ('highest_interest', 'smallest_balance', 'custom');
+
+-- ========================================
+-- ADD PAYOFF PLAN TO USERS
+-- ========================================
+
+ALTER TABLE users
+ADD COLUMN debt_payoff_priority debt_payoff_priority NOT NULL DEFAULT 'highest_interest';
+
+-- ========================================
+-- DEBT ACCOUNTS TABLE
+-- ========================================
+
+-- balance is kept up to date by the user from their statements
+CREATE TABLE debt_accounts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  balance DECIMAL(10,2) NOT NULL,
+  apr DECIMAL(5,2) NOT NULL DEFAULT 0, -- Annual percentage rate, e.g. 19.99
+  minimum_payment DECIMAL(10,2) NOT NULL DEFAULT 0, -- Monthly
+  budget_item_id UUID REFERENCES budget_items(id) ON DELETE SET NULL,
+  payoff_order INTEGER NOT NULL DEFAULT 0, -- Custom plans, lowest first
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT non_negative_debt_balance CHECK (balance >= 0),
+  CONSTRAINT valid_debt_apr CHECK (apr >= 0 AND apr <= 100),
+  CONSTRAINT non_negative_minimum_payment CHECK (minimum_payment >= 0),
+  CONSTRAINT valid_payoff_order CHECK (payoff_order >= 0 AND payoff_order <= 1000)
+);
+
+-- ========================================
+-- INDEXES AND TRIGGERS
+-- ========================================
+
+CREATE INDEX idx_debt_accounts_user ON debt_accounts(user_id, payoff_order);
+CREATE INDEX idx_debt_accounts_budget_item ON debt_accounts(budget_item_id)
+    WHERE budget_item_id IS NOT NULL;
+
+CREATE TRIGGER update_debt_accounts_updated_at BEFORE UPDATE ON debt_accounts FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ========================================
+-- ROW LEVEL SECURITY
+-- ========================================
+
+ALTER TABLE debt_accounts ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can only manage their own debts
+CREATE POLICY debt_accounts_user_isolation ON debt_accounts
+    FOR ALL USING (user_id = auth.uid());
+
+-- ========================================
+-- MIGRATION COMPLETE
+-- ========================================
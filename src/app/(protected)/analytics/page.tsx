@@ -5,9 +5,11 @@ import { Badge } from "@/components/ui/badge";
 import { TrendingUp, PieChart, BarChart, Calendar } from "lucide-react";
 import { SpendingTrendsChart } from "@/components/analytics/spending-trends-chart";
 import { CategoryBreakdownChart } from "@/components/analytics/category-breakdown-chart";
+import { TagBreakdownTable } from "@/components/analytics/tag-breakdown-table";
 import {
   useSpendingTrends,
   useCategoryAnalytics,
+  useTagAnalytics,
 } from "@/lib/hooks/useExpenseAnalytics";
 
 export default function AnalyticsPage() {
@@ -36,6 +38,13 @@ export default function AnalyticsPage() {
     end_date: new Date().toISOString().split("T")[0],
   });
 
+  // Tag totals cover all time so a trip or project is counted in full
+  const {
+    tagBreakdown,
+    loading: tagLoading,
+    error: tagError,
+  } = useTagAnalytics();
+
   return (
     <div className="container mx-auto p-6 space-y-6">
       <div className="flex items-center justify-between">
@@ -125,6 +134,15 @@ export default function AnalyticsPage() {
           error={categoryError}
         />
 
+        {/* Tag Breakdown */}
+        <div className="lg:col-span-2">
+          <TagBreakdownTable
+            data={tagBreakdown}
+            loading={tagLoading}
+            error={tagError}
+          />
+        </div>
+
         {/* Placeholder for Budget vs Actual */}
         <Card>
           <CardHeader>
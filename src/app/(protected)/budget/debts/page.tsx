@@ -0,0 +1,131 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { AlertCircle, ArrowLeft, Loader2, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DebtAccountForm } from "@/components/budget/debt-account-form";
+import { DebtAccountList } from "@/components/budget/debt-account-list";
+import { DebtPayoffPlanner } from "@/components/budget/debt-payoff-planner";
+import { useDebts } from "@/lib/hooks/use-debts";
+import type {
+  DebtAccountFormData,
+  DebtAccountWithBudgetItem,
+} from "@/lib/types/debts";
+
+export default function DebtsPage() {
+  const {
+    accounts,
+    priority,
+    budgetedMonthly,
+    loading,
+    saving,
+    error,
+    createDebt,
+    updateDebt,
+    deleteDebt,
+    setPayoffPriority,
+  } = useDebts();
+  const [showForm, setShowForm] = useState(false);
+  const [editingAccount, setEditingAccount] =
+    useState<DebtAccountWithBudgetItem | null>(null);
+  const showPayoffOrder = priority === "custom";
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingAccount(null);
+  };
+
+  const handleSubmit = async (data: DebtAccountFormData) => {
+    const saved = editingAccount
+      ? await updateDebt(editingAccount.id, data)
+      : await createDebt(data);
+
+    if (saved) closeForm();
+    return saved;
+  };
+
+  const handleEdit = (account: DebtAccountWithBudgetItem) => {
+    setEditingAccount(account);
+    setShowForm(true);
+  };
+
+  const handleDelete = async (account: DebtAccountWithBudgetItem) => {
+    if (
+      !confirm(`Delete the debt "${account.name}"? Its budget item is kept.`)
+    ) {
+      return;
+    }
+    await deleteDebt(account.id);
+  };
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center space-x-4">
+          <Link href="/budget">
+            <Button variant="outline" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Budget
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Debt Payoff</h1>
+            <p className="text-muted-foreground">
+              Your debts, and when you&apos;ll be free of them
+            </p>
+          </div>
+        </div>
+
+        {!showForm && (
+          <Button onClick={() => setShowForm(true)} size="sm">
+            <Plus className="h-4 w-4 mr-2" />
+            New Debt
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="flex items-center space-x-2">
+            <AlertCircle className="h-4 w-4 text-red-600" />
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {showForm && (
+        <DebtAccountForm
+          key={editingAccount?.id || "new"}
+          account={editingAccount}
+          showPayoffOrder={showPayoffOrder}
+          onSubmit={handleSubmit}
+          onCancel={closeForm}
+        />
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+        </div>
+      ) : (
+        <>
+          <DebtAccountList
+            accounts={accounts}
+            showPayoffOrder={showPayoffOrder}
+            onEdit={handleEdit}
+            onDelete={handleDelete}
+          />
+          <DebtPayoffPlanner
+            accounts={accounts}
+            priority={priority}
+            budgetedMonthly={budgetedMonthly}
+            saving={saving}
+            onPriorityChange={setPayoffPriority}
+          />
+        </>
+      )}
+    </div>
+  );
+}
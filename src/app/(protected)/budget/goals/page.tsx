@@ -0,0 +1,149 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { AlertCircle, ArrowLeft, Loader2, PiggyBank, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { SavingsGoalForm } from "@/components/budget/savings-goal-form";
+import { SavingsGoalList } from "@/components/budget/savings-goal-list";
+import { useSavingsGoals } from "@/lib/hooks/use-savings-goals";
+import type {
+  SavingsGoalFormData,
+  SavingsGoalWithProgress,
+} from "@/lib/types/savings-goals";
+
+export default function SavingsGoalsPage() {
+  const {
+    goals,
+    loading,
+    saving,
+    error,
+    createGoal,
+    updateGoal,
+    deleteGoal,
+    matchBudgetItem,
+  } = useSavingsGoals();
+  const [showForm, setShowForm] = useState(false);
+  const [editingGoal, setEditingGoal] =
+    useState<SavingsGoalWithProgress | null>(null);
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingGoal(null);
+  };
+
+  const handleSubmit = async (data: SavingsGoalFormData) => {
+    const saved = editingGoal
+      ? await updateGoal(editingGoal.id, data)
+      : await createGoal(data);
+
+    if (saved) closeForm();
+    return saved;
+  };
+
+  const handleEdit = (goal: SavingsGoalWithProgress) => {
+    setEditingGoal(goal);
+    setShowForm(true);
+  };
+
+  const handleDelete = async (goal: SavingsGoalWithProgress) => {
+    if (
+      !confirm(
+        `Delete the savings goal "${goal.name}"? Its budget item is kept.`
+      )
+    ) {
+      return;
+    }
+    await deleteGoal(goal.id);
+  };
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center space-x-4">
+          <Link href="/budget">
+            <Button variant="outline" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Budget
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Savings Goals</h1>
+            <p className="text-muted-foreground">
+              What you&apos;re saving for, and what it takes each pay period
+            </p>
+          </div>
+        </div>
+
+        {!showForm && (
+          <Button onClick={() => setShowForm(true)} size="sm">
+            <Plus className="h-4 w-4 mr-2" />
+            New Savings Goal
+          </Button>
+        )}
+      </div>
+
+      {/* Instructions Card */}
+      <Card className="bg-green-50 border-green-200">
+        <CardContent className="pt-6">
+          <div className="flex items-start space-x-3">
+            <PiggyBank className="h-5 w-5 text-green-600 mt-0.5" />
+            <div className="space-y-1">
+              <h3 className="font-medium text-green-900">
+                How Savings Goals Work
+              </h3>
+              <ul className="text-sm text-green-700 space-y-1">
+                <li>
+                  • Each goal works out what to set aside every pay period to
+                  reach its target in time
+                </li>
+                <li>
+                  • Link a Savings budget item, or create one, to put that
+                  amount in your budget
+                </li>
+                <li>
+                  • Goals are behind schedule when their budget item sets aside
+                  too little
+                </li>
+              </ul>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="flex items-center space-x-2">
+            <AlertCircle className="h-4 w-4 text-red-600" />
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {showForm && (
+        <SavingsGoalForm
+          key={editingGoal?.id || "new"}
+          goal={editingGoal}
+          onSubmit={handleSubmit}
+          onCancel={closeForm}
+        />
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+        </div>
+      ) : (
+        <SavingsGoalList
+          goals={goals}
+          saving={saving}
+          onEdit={handleEdit}
+          onDelete={handleDelete}
+          onMatchBudgetItem={matchBudgetItem}
+        />
+      )}
+    </div>
+  );
+}
@@ -8,7 +8,8 @@ import { DependencyManager } from "@/components/budget/dependency-manager";
 import { PriorityOrdering } from "@/components/budget/priority-ordering";
 import { ValidationDashboard } from "@/components/budget/validation-dashboard";
 import { ValidationStatus } from "@/components/budget/validation-status";
-import { Plus } from "lucide-react";
+import Link from "next/link";
+import { CreditCard, PiggyBank, Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -180,23 +181,37 @@ export default function BudgetPage() {
                 />
               </div>
             </div>
-            <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
-              <DialogTrigger asChild>
-                <Button>
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add Budget Item
+            <div className="flex items-center gap-3">
+              <Link href="/budget/goals">
+                <Button variant="outline">
+                  <PiggyBank className="h-4 w-4 mr-2" />
+                  Savings Goals
                 </Button>
-              </DialogTrigger>
-              <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
-                <DialogHeader>
-                  <DialogTitle>Add Budget Item</DialogTitle>
-                </DialogHeader>
-                <BudgetItemForm
-                  onSuccess={handleFormSuccess}
-                  onCancel={() => setIsFormOpen(false)}
-                />
-              </DialogContent>
-            </Dialog>
+              </Link>
+              <Link href="/budget/debts">
+                <Button variant="outline">
+                  <CreditCard className="h-4 w-4 mr-2" />
+                  Debt Payoff
+                </Button>
+              </Link>
+              <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+                <DialogTrigger asChild>
+                  <Button>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Budget Item
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                  <DialogHeader>
+                    <DialogTitle>Add Budget Item</DialogTitle>
+                  </DialogHeader>
+                  <BudgetItemForm
+                    onSuccess={handleFormSuccess}
+                    onCancel={() => setIsFormOpen(false)}
+                  />
+                </DialogContent>
+              </Dialog>
+            </div>
           </div>
 
           {/* Main Content */}
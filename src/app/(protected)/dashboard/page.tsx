@@ -23,6 +23,8 @@ import {
 import { BudgetHealthDashboard } from "@/components/budget/budget-health-indicator";
 import { usePayPeriods } from "@/lib/hooks/use-pay-periods";
 import { useBudgetHealth } from "@/lib/hooks/use-budget-balance";
+import { usePayPeriodDeposits } from "@/lib/hooks/use-household-budget";
+import { PayPeriodDeposits } from "@/components/pay-periods/pay-period-deposits";
 
 export default function DashboardPage() {
   const { user, loading } = useAuth();
@@ -32,6 +34,7 @@ export default function DashboardPage() {
   const activePayPeriod =
     payPeriods?.find((p) => p.status === "ACTIVE") || payPeriods?.[0];
   const { health } = useBudgetHealth(activePayPeriod?.id || null);
+  const { deposits } = usePayPeriodDeposits(activePayPeriod?.id || null);
 
   if (loading) {
     return (
@@ -112,6 +115,9 @@ export default function DashboardPage() {
               </CardContent>
             </Card>
           )}
+
+          {/* Paychecks making up a household period */}
+          <PayPeriodDeposits deposits={deposits} />
         </div>
 
         {/* Quick Actions */}
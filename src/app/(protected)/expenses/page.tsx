@@ -1,14 +1,17 @@
 "use client";
 
-import { useState } from "react";
-import { Plus, Receipt, RefreshCw } from "lucide-react";
+import { useState, Suspense } from "react";
+import Link from "next/link";
+import { Plus, Receipt, RefreshCw, Repeat, Upload, Wand2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { ExpenseForm } from "@/components/expenses/expense-form";
 import { ExpenseHistory } from "@/components/expenses/expense-history";
+import { StatementImportWizard } from "@/components/expenses/statement-import-wizard";
 
 export default function ExpensesPage() {
   const [showForm, setShowForm] = useState(false);
+  const [showImport, setShowImport] = useState(false);
 
   const handleRefresh = () => {
     // ExpenseHistory component handles its own data refreshing via useExpenses hook
@@ -20,6 +23,11 @@ export default function ExpensesPage() {
     // ExpenseHistory will automatically refresh via real-time subscriptions
   };
 
+  const handleImportComplete = () => {
+    setShowImport(false);
+    // ExpenseHistory will automatically refresh via real-time subscriptions
+  };
+
   return (
     <div className="container mx-auto p-6 space-y-6">
       {/* Header */}
@@ -42,6 +50,26 @@ export default function ExpensesPage() {
           >
             <RefreshCw className="h-4 w-4" />
           </Button>
+          <Link href="/expenses/rules">
+            <Button variant="outline" size="sm">
+              <Wand2 className="h-4 w-4 mr-2" />
+              Rules
+            </Button>
+          </Link>
+          <Link href="/expenses/recurring">
+            <Button variant="outline" size="sm">
+              <Repeat className="h-4 w-4 mr-2" />
+              Recurring
+            </Button>
+          </Link>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowImport(!showImport)}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
           <Button onClick={() => setShowForm(!showForm)} size="sm">
             <Plus className="h-4 w-4 mr-2" />
             Add Expense
@@ -69,6 +97,24 @@ export default function ExpensesPage() {
                 <li>
                   • Filter by date range, category, amount, or search text
                 </li>
+                <li>
+                  • Import bank statements instead of re-typing transactions
+                </li>
+                <li>
+                  • Set up rules to categorize matching expenses automatically
+                </li>
+                <li>
+                  • Split a receipt across several categories or budget items
+                </li>
+                <li>
+                  • Record refunds and credits against the original purchase
+                </li>
+                <li>
+                  • Schedule recurring bills to post into each new pay period
+                </li>
+                <li>
+                  • Save filters as presets and share filtered views by link
+                </li>
                 <li>• Track spending patterns and analyze expense history</li>
               </ul>
             </div>
@@ -86,8 +132,24 @@ export default function ExpensesPage() {
           />
         )}
 
+        {/* Statement Import - Shows when Import is clicked */}
+        {showImport && (
+          <StatementImportWizard
+            onComplete={handleImportComplete}
+            onCancel={() => setShowImport(false)}
+          />
+        )}
+
         {/* Expense History with Filters and List */}
-        <ExpenseHistory />
+        <Suspense
+          fallback={
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+            </div>
+          }
+        >
+          <ExpenseHistory />
+        </Suspense>
       </div>
     </div>
   );
@@ -0,0 +1,204 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { AlertCircle, ArrowLeft, Loader2, Plus, Repeat } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { RecurringExpenseForm } from "@/components/expenses/recurring-expense-form";
+import { RecurringExpenseList } from "@/components/expenses/recurring-expense-list";
+import { PendingRecurringExpenses } from "@/components/expenses/pending-recurring-expenses";
+import { useAuth } from "@/lib/auth/auth-context";
+import {
+  usePendingRecurringExpenses,
+  useRecurringExpenses,
+} from "@/lib/hooks/use-recurring-expenses";
+import { getBudgetItemsForUser } from "@/lib/database/client-queries";
+import type {
+  PendingRecurringExpense,
+  RecurringExpense,
+  RecurringExpenseFormData,
+  UpcomingOccurrence,
+} from "@/lib/types/recurring-expenses";
+
+export default function RecurringExpensesPage() {
+  const { user } = useAuth();
+  const {
+    recurringExpenses,
+    upcoming,
+    loading,
+    error,
+    createRecurringExpense,
+    updateRecurringExpense,
+    deleteRecurringExpense,
+    skipOccurrence,
+    unskipOccurrence,
+  } = useRecurringExpenses();
+  const {
+    pending,
+    error: pendingError,
+    confirmDraft,
+    dismissDraft,
+  } = usePendingRecurringExpenses();
+  const [showForm, setShowForm] = useState(false);
+  const [editingRecurring, setEditingRecurring] =
+    useState<RecurringExpense | null>(null);
+  const [budgetItemNames, setBudgetItemNames] = useState<
+    Record<string, string>
+  >({});
+
+  // Budget item names for summaries (including inactive items)
+  useEffect(() => {
+    if (!user) return;
+
+    getBudgetItemsForUser(user.id, true).then((items) =>
+      setBudgetItemNames(
+        Object.fromEntries(items.map((item) => [item.id, item.name]))
+      )
+    );
+  }, [user]);
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingRecurring(null);
+  };
+
+  const handleSubmit = async (data: RecurringExpenseFormData) => {
+    const saved = editingRecurring
+      ? await updateRecurringExpense(editingRecurring.id, data)
+      : await createRecurringExpense(data);
+
+    if (saved) closeForm();
+    return saved !== null;
+  };
+
+  const handleEdit = (recurring: RecurringExpense) => {
+    setEditingRecurring(recurring);
+    setShowForm(true);
+  };
+
+  const handleDelete = async (recurring: RecurringExpense) => {
+    if (
+      !confirm(
+        `Delete the recurring expense "${recurring.description}"? Expenses it already posted are kept.`
+      )
+    ) {
+      return;
+    }
+    await deleteRecurringExpense(recurring.id);
+  };
+
+  const handleSkip = async (occurrence: UpcomingOccurrence) => {
+    await skipOccurrence(occurrence.recurring_expense.id, occurrence.date);
+  };
+
+  const handleUnskip = async (occurrence: UpcomingOccurrence) => {
+    await unskipOccurrence(occurrence.recurring_expense.id, occurrence.date);
+  };
+
+  const handleConfirm = async (draft: PendingRecurringExpense) => {
+    await confirmDraft(draft.id);
+  };
+
+  const handleDismiss = async (draft: PendingRecurringExpense) => {
+    await dismissDraft(draft);
+  };
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center space-x-4">
+          <Link href="/expenses">
+            <Button variant="outline" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Expenses
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">
+              Recurring Expenses
+            </h1>
+            <p className="text-muted-foreground">
+              Bills and subscriptions that post into each new pay period
+            </p>
+          </div>
+        </div>
+
+        {!showForm && (
+          <Button onClick={() => setShowForm(true)} size="sm">
+            <Plus className="h-4 w-4 mr-2" />
+            New Recurring Expense
+          </Button>
+        )}
+      </div>
+
+      {/* Instructions Card */}
+      <Card className="bg-purple-50 border-purple-200">
+        <CardContent className="pt-6">
+          <div className="flex items-start space-x-3">
+            <Repeat className="h-5 w-5 text-purple-600 mt-0.5" />
+            <div className="space-y-1">
+              <h3 className="font-medium text-purple-900">
+                How Recurring Expenses Work
+              </h3>
+              <ul className="text-sm text-purple-700 space-y-1">
+                <li>
+                  • When a new pay period is generated, every occurrence that
+                  falls inside it is added as an expense
+                </li>
+                <li>
+                  • Turn off automatic posting to get a draft you confirm
+                  instead
+                </li>
+                <li>
+                  • Skip a single occurrence without changing the schedule
+                </li>
+              </ul>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {(error || pendingError) && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="flex items-center space-x-2">
+            <AlertCircle className="h-4 w-4 text-red-600" />
+            <p className="text-sm text-red-600">{error || pendingError}</p>
+          </div>
+        </div>
+      )}
+
+      <PendingRecurringExpenses
+        pending={pending}
+        onConfirm={handleConfirm}
+        onDismiss={handleDismiss}
+      />
+
+      {showForm && (
+        <RecurringExpenseForm
+          key={editingRecurring?.id || "new"}
+          recurringExpense={editingRecurring}
+          onSubmit={handleSubmit}
+          onCancel={closeForm}
+        />
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+        </div>
+      ) : (
+        <RecurringExpenseList
+          recurringExpenses={recurringExpenses}
+          upcoming={upcoming}
+          budgetItemNames={budgetItemNames}
+          onEdit={handleEdit}
+          onDelete={handleDelete}
+          onSkip={handleSkip}
+          onUnskip={handleUnskip}
+        />
+      )}
+    </div>
+  );
+}
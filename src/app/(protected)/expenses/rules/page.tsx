@@ -0,0 +1,158 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { AlertCircle, ArrowLeft, Loader2, Plus, Wand2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { ExpenseRuleForm } from "@/components/expenses/expense-rule-form";
+import { ExpenseRuleList } from "@/components/expenses/expense-rule-list";
+import { useAuth } from "@/lib/auth/auth-context";
+import { useExpenseRules } from "@/lib/hooks/use-expense-rules";
+import { getBudgetItemsForUser } from "@/lib/database/client-queries";
+import type {
+  ExpenseRule,
+  ExpenseRuleFormData,
+} from "@/lib/types/expense-rules";
+
+export default function ExpenseRulesPage() {
+  const { user } = useAuth();
+  const { rules, loading, error, createRule, updateRule, deleteRule } =
+    useExpenseRules();
+  const [showForm, setShowForm] = useState(false);
+  const [editingRule, setEditingRule] = useState<ExpenseRule | null>(null);
+  const [budgetItemNames, setBudgetItemNames] = useState<
+    Record<string, string>
+  >({});
+
+  // Budget item names for rule summaries (including inactive items)
+  useEffect(() => {
+    if (!user) return;
+
+    getBudgetItemsForUser(user.id, true).then((items) =>
+      setBudgetItemNames(
+        Object.fromEntries(items.map((item) => [item.id, item.name]))
+      )
+    );
+  }, [user]);
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingRule(null);
+  };
+
+  const handleSubmit = async (data: ExpenseRuleFormData) => {
+    const saved = editingRule
+      ? await updateRule(editingRule.id, data)
+      : await createRule(data);
+
+    if (saved) closeForm();
+    return saved !== null;
+  };
+
+  const handleEdit = (rule: ExpenseRule) => {
+    setEditingRule(rule);
+    setShowForm(true);
+  };
+
+  const handleDelete = async (rule: ExpenseRule) => {
+    if (!confirm(`Delete the rule "${rule.name}"?`)) return;
+    await deleteRule(rule.id);
+  };
+
+  const handleToggleActive = async (rule: ExpenseRule) => {
+    await updateRule(rule.id, { is_active: !rule.is_active });
+  };
+
+  const nextPriority =
+    rules.length > 0 ? Math.max(...rules.map((rule) => rule.priority)) + 1 : 1;
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center space-x-4">
+          <Link href="/expenses">
+            <Button variant="outline" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Expenses
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Expense Rules</h1>
+            <p className="text-muted-foreground">
+              Categorize new and imported expenses automatically
+            </p>
+          </div>
+        </div>
+
+        {!showForm && (
+          <Button onClick={() => setShowForm(true)} size="sm">
+            <Plus className="h-4 w-4 mr-2" />
+            New Rule
+          </Button>
+        )}
+      </div>
+
+      {/* Instructions Card */}
+      <Card className="bg-purple-50 border-purple-200">
+        <CardContent className="pt-6">
+          <div className="flex items-start space-x-3">
+            <Wand2 className="h-5 w-5 text-purple-600 mt-0.5" />
+            <div className="space-y-1">
+              <h3 className="font-medium text-purple-900">How Rules Work</h3>
+              <ul className="text-sm text-purple-700 space-y-1">
+                <li>
+                  • Rules run in priority order whenever an expense is added or
+                  imported
+                </li>
+                <li>
+                  • The first matching rule to set a field wins; later rules can
+                  still fill in other fields
+                </li>
+                <li>
+                  • A category, budget item or budget payment you choose
+                  yourself is never overridden
+                </li>
+              </ul>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="flex items-center space-x-2">
+            <AlertCircle className="h-4 w-4 text-red-600" />
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {showForm && (
+        <ExpenseRuleForm
+          key={editingRule?.id || "new"}
+          rule={editingRule}
+          defaultPriority={nextPriority}
+          budgetItemNames={budgetItemNames}
+          onSubmit={handleSubmit}
+          onCancel={closeForm}
+        />
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+        </div>
+      ) : (
+        <ExpenseRuleList
+          rules={rules}
+          budgetItemNames={budgetItemNames}
+          onEdit={handleEdit}
+          onDelete={handleDelete}
+          onToggleActive={handleToggleActive}
+        />
+      )}
+    </div>
+  );
+}
@@ -17,6 +17,7 @@ import {
   Edit,
   Trash2,
   History,
+  Wallet,
 } from "lucide-react";
 import { getAllIncomeSourcesForUser } from "@/lib/database/client-queries";
 import {
@@ -26,6 +27,7 @@ import {
 import type { IncomeSource } from "@/types/database";
 import { IncomeSourceForm } from "@/components/income/income-source-form";
 import { IncomeHistory } from "@/components/income/income-history";
+import { VariableIncomePanel } from "@/components/income/variable-income-panel";
 import { formatCurrency } from "@/lib/utils/currency";
 import { formatCadence } from "@/lib/utils/cadence";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -263,6 +265,10 @@ export default function IncomePage() {
         <Tabs defaultValue="sources" className="space-y-6">
           <TabsList>
             <TabsTrigger value="sources">Income Sources</TabsTrigger>
+            <TabsTrigger value="deposits">
+              <Wallet className="h-4 w-4 mr-2" />
+              Deposits
+            </TabsTrigger>
             <TabsTrigger value="history">
               <History className="h-4 w-4 mr-2" />
               History
@@ -370,7 +376,10 @@ export default function IncomePage() {
                         </div>
                       </div>
                       <CardDescription>
-                        {formatCadence(source.cadence)} • Started{" "}
+                        {source.is_variable
+                          ? "Variable income"
+                          : formatCadence(source.cadence)}{" "}
+                        • Started{" "}
                         {new Date(source.start_date).toLocaleDateString()}
                         {source.end_date && (
                           <>
@@ -386,14 +395,20 @@ export default function IncomePage() {
                         <div className="grid grid-cols-2 gap-4">
                           <div>
                             <p className="text-sm text-gray-600">
-                              Gross Income
+                              {source.is_variable
+                                ? "Typical Month (Gross)"
+                                : "Gross Income"}
                             </p>
                             <p className="text-lg font-semibold text-gray-900">
                               {formatCurrency(source.gross_amount)}
                             </p>
                           </div>
                           <div>
-                            <p className="text-sm text-gray-600">Net Income</p>
+                            <p className="text-sm text-gray-600">
+                              {source.is_variable
+                                ? "Typical Month (Net)"
+                                : "Net Income"}
+                            </p>
                             <p className="text-lg font-semibold text-green-600">
                               {formatCurrency(source.net_amount)}
                             </p>
@@ -403,7 +418,11 @@ export default function IncomePage() {
                         <div className="flex items-center gap-2 text-sm text-gray-600">
                           <Calendar className="h-4 w-4" />
                           <span>
-                            Paid {formatCadence(source.cadence).toLowerCase()}
+                            {source.is_variable
+                              ? "Deposits logged as they arrive"
+                              : `Paid ${formatCadence(
+                                  source.cadence
+                                ).toLowerCase()}`}
                           </span>
                         </div>
 
@@ -446,6 +465,10 @@ export default function IncomePage() {
             )}
           </TabsContent>
 
+          <TabsContent value="deposits" className="space-y-6">
+            <VariableIncomePanel incomeSources={incomeSources} />
+          </TabsContent>
+
           <TabsContent value="history" className="space-y-6">
             <IncomeHistory userId={user?.id} />
           </TabsContent>
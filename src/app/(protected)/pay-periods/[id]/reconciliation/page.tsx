@@ -12,7 +12,9 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { ExportMenu } from "@/components/common/export-menu";
 import { useReconciliationData } from "@/lib/hooks/use-pay-period-history";
+import { useDataExport } from "@/lib/hooks/use-data-export";
 import { VARIANCE_THRESHOLDS } from "@/lib/types/pay-periods";
 import Link from "next/link";
 import { useParams } from "next/navigation";
@@ -96,6 +98,11 @@ export default function ReconciliationPage() {
   const { reconciliationData, isLoading, error } = useReconciliationData({
     payPeriodId,
   });
+  const {
+    exporting,
+    error: exportError,
+    exportReconciliation,
+  } = useDataExport();
 
   if (isLoading) {
     return (
@@ -167,14 +174,35 @@ export default function ReconciliationPage() {
           </div>
         </div>
 
-        <div
-          className={`px-3 py-1 rounded-full border text-sm font-medium flex items-center space-x-2 ${statusInfo.color}`}
-        >
-          {statusInfo.icon}
-          <span>{statusInfo.label}</span>
+        <div className="flex items-center space-x-3">
+          <ExportMenu
+            exporting={exporting}
+            onExport={(format) =>
+              exportReconciliation(
+                payPeriodId,
+                format,
+                String(reconciliationData.start_date).slice(0, 10)
+              )
+            }
+          />
+          <div
+            className={`px-3 py-1 rounded-full border text-sm font-medium flex items-center space-x-2 ${statusInfo.color}`}
+          >
+            {statusInfo.icon}
+            <span>{statusInfo.label}</span>
+          </div>
         </div>
       </div>
 
+      {exportError && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="flex items-center space-x-2">
+            <AlertCircle className="h-4 w-4 text-red-600" />
+            <p className="text-sm text-red-600">{exportError}</p>
+          </div>
+        </div>
+      )}
+
       {/* Overview Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         <Card>
@@ -7,6 +7,7 @@ import {
   TrendingUp,
   TrendingDown,
   Filter,
+  AlertCircle,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -18,7 +19,9 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { ExportMenu } from "@/components/common/export-menu";
 import { usePayPeriodHistory } from "@/lib/hooks/use-pay-period-history";
+import { useDataExport } from "@/lib/hooks/use-data-export";
 import Link from "next/link";
 
 // Utility functions
@@ -63,15 +66,22 @@ export default function PayPeriodHistoryPage() {
     "last_3_months" | "last_6_months" | "last_year" | "all_time"
   >("last_6_months");
 
-  const { historyData, isLoading, error, updateFilters } = usePayPeriodHistory({
-    initialFilters: {
-      completed_only: true,
-      sort_by: sortBy,
-      sort_order: "desc",
-      date_range: dateRange,
-      limit: 50,
-    },
-  });
+  const { historyData, isLoading, error, updateFilters, currentFilters } =
+    usePayPeriodHistory({
+      initialFilters: {
+        completed_only: true,
+        sort_by: sortBy,
+        sort_order: "desc",
+        date_range: dateRange,
+        limit: 50,
+      },
+    });
+
+  const {
+    exporting,
+    error: exportError,
+    exportPayPeriodHistory,
+  } = useDataExport();
 
   const handleSortChange = (newSort: "date" | "variance" | "completion") => {
     setSortBy(newSort);
@@ -105,8 +115,23 @@ export default function PayPeriodHistoryPage() {
             </p>
           </div>
         </div>
+
+        <ExportMenu
+          exporting={exporting}
+          disabled={!historyData?.data.length}
+          onExport={(format) => exportPayPeriodHistory(currentFilters, format)}
+        />
       </div>
 
+      {exportError && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="flex items-center space-x-2">
+            <AlertCircle className="h-4 w-4 text-red-600" />
+            <p className="text-sm text-red-600">{exportError}</p>
+          </div>
+        </div>
+      )}
+
       {/* Filters */}
       <Card>
         <CardHeader className="pb-4">
@@ -1,16 +1,32 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { CheckCircle2, Calendar, RefreshCw, History } from "lucide-react";
+import {
+  AlertCircle,
+  CheckCircle2,
+  Calendar,
+  RefreshCw,
+  History,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { PayPeriodSelector, AllocationList } from "@/components/allocations";
 import { PayPeriodStatusManager } from "@/components/pay-periods/pay-period-status-manager";
+import { HouseholdBudgetSettings } from "@/components/pay-periods/household-budget-settings";
+import { PayPeriodDeposits } from "@/components/pay-periods/pay-period-deposits";
+import { PayPeriodRolloverSettings } from "@/components/pay-periods/pay-period-rollover-settings";
+import { CalendarFeedSettings } from "@/components/pay-periods/calendar-feed-settings";
 import { BudgetBalanceDashboard } from "@/components/budget/budget-balance-dashboard";
 import { PayPeriod } from "@/lib/types/pay-periods";
 import { usePayPeriods } from "@/lib/hooks/use-pay-periods";
+import {
+  useHouseholdBudget,
+  usePayPeriodDeposits,
+} from "@/lib/hooks/use-household-budget";
+import { usePayPeriodRollover } from "@/lib/hooks/use-pay-period-rollover";
+import { useCalendarFeed } from "@/lib/hooks/use-calendar-feed";
 
 // Simple date formatting function
 const formatDateRange = (startDate: string, endDate: string) => {
@@ -30,7 +46,31 @@ export default function PayPeriodsPage() {
     isLoading,
     error,
     checkCanAutoComplete,
+    generateNextHouseholdPayPeriod,
+    isGenerating,
   } = usePayPeriods();
+  const {
+    settings: budgetSettings,
+    saving: savingSettings,
+    error: settingsError,
+    saveSettings,
+  } = useHouseholdBudget();
+  const { deposits } = usePayPeriodDeposits(selectedPayPeriod?.id || null);
+  const {
+    policy: completionPolicy,
+    jobLog,
+    saving: savingPolicy,
+    error: rolloverError,
+    savePolicy,
+  } = usePayPeriodRollover();
+  const {
+    token: feedToken,
+    loading: loadingFeed,
+    saving: savingFeed,
+    error: feedError,
+    regenerate: regenerateFeed,
+    revoke: revokeFeed,
+  } = useCalendarFeed();
 
   // Check if pay period can auto-complete when selected
   useEffect(() => {
@@ -96,6 +136,44 @@ export default function PayPeriodsPage() {
         </div>
       </div>
 
+      {/* Budgeting Mode */}
+      {budgetSettings && (
+        <HouseholdBudgetSettings
+          key={JSON.stringify(budgetSettings)}
+          settings={budgetSettings}
+          saving={savingSettings}
+          generating={isGenerating}
+          onSave={saveSettings}
+          onGenerate={generateNextHouseholdPayPeriod}
+        />
+      )}
+      {completionPolicy && (
+        <PayPeriodRolloverSettings
+          policy={completionPolicy}
+          jobLog={jobLog}
+          saving={savingPolicy}
+          onPolicyChange={savePolicy}
+        />
+      )}
+      {!loadingFeed && (
+        <CalendarFeedSettings
+          token={feedToken}
+          saving={savingFeed}
+          onRegenerate={regenerateFeed}
+          onRevoke={revokeFeed}
+        />
+      )}
+      {(settingsError || rolloverError || feedError) && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="flex items-center space-x-2">
+            <AlertCircle className="h-4 w-4 text-red-600" />
+            <p className="text-sm text-red-600">
+              {settingsError || rolloverError || feedError}
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* Pay Period Selection */}
       <Card>
         <CardHeader className="pb-4">
@@ -196,12 +274,13 @@ export default function PayPeriodsPage() {
 
         {/* Status Manager Sidebar */}
         {selectedPayPeriod && (
-          <div className="lg:col-span-1">
+          <div className="lg:col-span-1 space-y-6">
             <PayPeriodStatusManager
               payPeriod={selectedPayPeriod}
               onStatusChange={handleStatusChange}
               canAutoComplete={canAutoComplete}
             />
+            <PayPeriodDeposits deposits={deposits} />
           </div>
         )}
       </div>
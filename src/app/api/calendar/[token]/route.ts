@@ -0,0 +1,46 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { CalendarFeedService } from "@/lib/services/calendar-feed-service";
+
+// Built from live data on every request, so calendar apps pick up changes
+export const dynamic = "force-dynamic";
+
+// Tokens are 64 hex characters; anything else is rejected before a lookup
+const TOKEN_PATTERN = /^[0-9a-f]{64}$/;
+
+// iCalendar feed subscribed to as /api/calendar/<token>.ics. Calendar apps
+// can't sign in, so the secret token in the URL identifies the user.
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const token = (await params).token.replace(/\.ics$/, "");
+  if (!TOKEN_PATTERN.test(token)) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  try {
+    const feedService = new CalendarFeedService(createAdminClient());
+    const userId = await feedService.findUserByToken(token);
+    if (!userId) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const today = new Date().toISOString().split("T")[0];
+    const calendar = await feedService.buildFeed(userId, today);
+
+    return new NextResponse(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="budget-simple.ics"',
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (e) {
+    console.error("[CalendarFeed] Failed to build feed:", e);
+    return NextResponse.json(
+      { error: "Failed to build calendar feed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { PayPeriodRolloverService } from "@/lib/services/pay-period-rollover-service";
+
+// Always run on request; never serve a cached rollover result
+export const dynamic = "force-dynamic";
+
+// Scheduled pay period rollover, invoked daily by the cron in vercel.json.
+// Outside production `?as_of=YYYY-MM-DD` simulates the clock, so repeated
+// runs and catch-up after missed days can be tried locally.
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (
+    !cronSecret ||
+    request.headers.get("authorization") !== `Bearer ${cronSecret}`
+  ) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const today = new Date().toISOString().split("T")[0];
+  const requestedDate = request.nextUrl.searchParams.get("as_of");
+  if (requestedDate && process.env.NODE_ENV === "production") {
+    return NextResponse.json(
+      { error: "as_of can only be set outside production" },
+      { status: 400 }
+    );
+  }
+  if (requestedDate && !/^\d{4}-\d{2}-\d{2}$/.test(requestedDate)) {
+    return NextResponse.json(
+      { error: "as_of must be a YYYY-MM-DD date" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const rolloverService = new PayPeriodRolloverService(createAdminClient());
+    const result = await rolloverService.runForAllUsers(requestedDate || today);
+
+    return NextResponse.json(result);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : "Unexpected error";
+    console.error("[PayPeriodRollover] Run failed:", e);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
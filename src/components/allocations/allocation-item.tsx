@@ -1,7 +1,7 @@
 "use client";
 
 import { useState } from "react";
-import { Check, X, Edit3, DollarSign } from "lucide-react";
+import { Check, X, Edit3, DollarSign, AlertTriangle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
@@ -11,6 +11,8 @@ import { AllocationWithDetails } from "@/lib/types/allocations";
 import { useAllocationOperations } from "@/lib/hooks/use-allocations";
 import { getAllocationStatusColor } from "@/lib/utils/allocation-utils";
 import { getCategoryIcon, getCategoryColor } from "@/lib/utils/budget-utils";
+import { formatDate } from "@/lib/utils/date-utils";
+import { getDueDatesBetween } from "../../../supabase/functions/_shared/allocation-calculations";
 
 interface AllocationItemProps {
   allocation: AllocationWithDetails;
@@ -44,6 +46,20 @@ export function AllocationItem({
     ? getCategoryColor(allocation.budget_item.category)
     : "blue";
 
+  // Due dates of a bill that fall in this period, all before the next payday
+  const budgetItem = allocation.budget_item;
+  const dueDates =
+    budgetItem?.due_date && budgetItem.cadence && allocation.pay_period
+      ? getDueDatesBetween(
+          budgetItem.due_date,
+          budgetItem.cadence,
+          allocation.pay_period.start_date,
+          allocation.pay_period.end_date
+        )
+      : [];
+  const formatDueDate = (date: string) =>
+    formatDate(`${date}T00:00:00`, "short");
+
   const statusColor = getAllocationStatusColor(
     allocation.status,
     expectedAmount,
@@ -140,9 +156,30 @@ export function AllocationItem({
                 </span>
               )}
             </div>
+          ) : allocation.funded_amount > 0 ? (
+            <div className="flex flex-col">
+              <span className="font-medium">${expectedAmount.toFixed(2)}</span>
+              <span className="text-xs text-muted-foreground">
+                Funded ${allocation.funded_amount.toFixed(2)} of $
+                {expectedAmount.toFixed(2)}
+              </span>
+            </div>
           ) : (
             <span className="font-medium">${expectedAmount.toFixed(2)}</span>
           )}
+          {allocation.carried_in !== 0 && (
+            <span
+              className={`block text-xs ${
+                allocation.carried_in < 0
+                  ? "text-red-600"
+                  : "text-muted-foreground"
+              }`}
+            >
+              Carried in {allocation.carried_in < 0 ? "-" : "+"}$
+              {Math.abs(allocation.carried_in).toFixed(2)}, allocated this
+              period ${expectedAmount.toFixed(2)}
+            </span>
+          )}
         </div>
         {isPaid && !disabled && (
           <Button
@@ -198,7 +235,24 @@ export function AllocationItem({
               >
                 {isPaid ? "Paid" : "Unpaid"}
               </Badge>
+              {budgetItem?.due_date && dueDates.length === 0 && (
+                <span className="text-xs text-muted-foreground">
+                  Not due this period
+                </span>
+              )}
             </div>
+            {dueDates.length > 0 &&
+              (isPaid ? (
+                <span className="text-xs text-muted-foreground mt-1">
+                  Due {dueDates.map(formatDueDate).join(", ")}
+                </span>
+              ) : (
+                <span className="flex items-center text-xs text-amber-600 mt-1">
+                  <AlertTriangle className="mr-1 h-3 w-3" />
+                  Due {dueDates.map(formatDueDate).join(", ")}, before your next
+                  payday
+                </span>
+              ))}
           </div>
         </div>
 
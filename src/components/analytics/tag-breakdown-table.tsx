@@ -0,0 +1,142 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tags } from "lucide-react";
+import { TagBreakdown } from "@/lib/types/expenses";
+
+interface TagBreakdownTableProps {
+  data: TagBreakdown[];
+  loading?: boolean;
+  error?: string | null;
+}
+
+export function TagBreakdownTable({
+  data,
+  loading = false,
+  error = null,
+}: TagBreakdownTableProps) {
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Tags className="h-5 w-5" />
+            Spending by Tag
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-center h-32">
+            <div className="h-8 w-8 animate-spin rounded-full border-2 border-current border-t-transparent" />
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Tags className="h-5 w-5" />
+            Spending by Tag
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-center h-32 text-center">
+            <div className="space-y-2">
+              <p className="text-sm text-red-600">
+                Failed to load tag breakdown
+              </p>
+              <p className="text-xs text-gray-500">{error}</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!data || data.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Tags className="h-5 w-5" />
+            Spending by Tag
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-center h-32 text-center">
+            <div className="space-y-2">
+              <Tags className="h-8 w-8 text-gray-400 mx-auto" />
+              <p className="text-sm text-gray-600">No tagged expenses yet</p>
+              <p className="text-xs text-gray-500">
+                Tag expenses like &ldquo;vacation-2026&rdquo; to total them here
+              </p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tags className="h-5 w-5" />
+          Spending by Tag
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Tag</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+              <TableHead className="text-right">Expenses</TableHead>
+              <TableHead>Categories</TableHead>
+              <TableHead className="text-right">Pay Periods</TableHead>
+              <TableHead>Dates</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.map((row) => (
+              <TableRow key={row.tag}>
+                <TableCell>
+                  <Badge variant="secondary">{row.tag}</Badge>
+                </TableCell>
+                <TableCell className="text-right font-medium">
+                  ${row.amount.toFixed(2)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {row.expense_count}
+                </TableCell>
+                <TableCell className="text-sm text-gray-600">
+                  {row.categories.join(", ")}
+                </TableCell>
+                <TableCell className="text-right">
+                  {row.pay_period_count}
+                </TableCell>
+                <TableCell className="text-sm text-gray-600">
+                  {new Date(row.first_date).toLocaleDateString()}
+                  {row.last_date !== row.first_date &&
+                    ` – ${new Date(row.last_date).toLocaleDateString()}`}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -10,6 +10,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
 import {
   Edit,
   Trash2,
@@ -17,25 +18,43 @@ import {
   CalendarX,
   DollarSign,
   Percent,
+  Repeat,
 } from "lucide-react";
 import {
   permanentlyDeleteBudgetItem,
   setBudgetItemEndDate,
   removeBudgetItemEndDate,
 } from "@/lib/database/client-mutations";
-import { CATEGORY_INFO, CALC_TYPE_INFO } from "@/lib/schemas/budget-item";
+import {
+  CATEGORY_INFO,
+  CALC_TYPE_INFO,
+  ROLLOVER_MODE_INFO,
+  BILL_FUNDING_STRATEGY_INFO,
+} from "@/lib/schemas/budget-item";
+import { formatDate } from "@/lib/utils/date-utils";
 import type { BudgetItem } from "@/types/database";
+import type { BudgetItemSpending } from "@/lib/services/budget-tracking-service";
+import type { SinkingFundBalance } from "@/lib/types/sinking-funds";
 
 interface BudgetItemCardProps {
   budgetItem: BudgetItem;
   onEdit: (budgetItem: BudgetItem) => void;
   onRefresh: () => void;
+  // Spending in the current pay period, when there is one
+  spending?: BudgetItemSpending;
+  // Balance and projection, for sinking funds
+  fund?: SinkingFundBalance;
+  // The overflow item is inactive or withheld from the paycheck
+  overflowUnallocated?: boolean;
 }
 
 export function BudgetItemCard({
   budgetItem,
   onEdit,
   onRefresh,
+  spending,
+  fund,
+  overflowUnallocated = false,
 }: BudgetItemCardProps) {
   const [isDeleting, setIsDeleting] = useState(false);
   const [isToggling, setIsToggling] = useState(false);
@@ -169,6 +188,66 @@ export function BudgetItemCard({
                   Priority: {budgetItem.priority}
                 </Badge>
               )}
+              {(typeof budgetItem.min_amount === "number" ||
+                typeof budgetItem.max_amount === "number") && (
+                <Badge
+                  variant="outline"
+                  className="text-xs"
+                  title={
+                    overflowUnallocated
+                      ? "The overflow item is inactive or withheld from the paycheck, so anything above the maximum stays unallocated"
+                      : undefined
+                  }
+                >
+                  {[
+                    typeof budgetItem.min_amount === "number" &&
+                      `Min ${formatCurrency(budgetItem.min_amount)}`,
+                    typeof budgetItem.max_amount === "number" &&
+                      `Max ${formatCurrency(budgetItem.max_amount)}`,
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                  {budgetItem.overflow_target_id &&
+                    (overflowUnallocated
+                      ? " + overflow unallocated"
+                      : " + overflow")}
+                </Badge>
+              )}
+              {budgetItem.due_date && (
+                <Badge
+                  variant="outline"
+                  className="text-xs"
+                  title={
+                    BILL_FUNDING_STRATEGY_INFO[budgetItem.funding_strategy]
+                      .label
+                  }
+                >
+                  <Calendar className="mr-1 h-3 w-3" />
+                  Due {formatDate(`${budgetItem.due_date}T00:00:00`, "short")}
+                </Badge>
+              )}
+              {budgetItem.is_sinking_fund && (
+                <Badge variant="outline" className="text-xs">
+                  Sinking fund
+                </Badge>
+              )}
+              {budgetItem.deducted_from_paycheck && (
+                <Badge variant="outline" className="text-xs">
+                  Paycheck deduction
+                </Badge>
+              )}
+              {budgetItem.rollover_mode !== "RESET" && (
+                <Badge
+                  variant="outline"
+                  className="text-xs"
+                  title={
+                    ROLLOVER_MODE_INFO[budgetItem.rollover_mode].description
+                  }
+                >
+                  <Repeat className="mr-1 h-3 w-3" />
+                  {ROLLOVER_MODE_INFO[budgetItem.rollover_mode].label}
+                </Badge>
+              )}
             </div>
           </div>
         </div>
@@ -205,6 +284,87 @@ export function BudgetItemCard({
             </span>
           </div>
 
+          {/* Current pay period */}
+          {spending && (
+            <div className="space-y-1 rounded-md bg-gray-50 p-2 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="text-gray-600">Allocated this period:</span>
+                <span className="font-medium">
+                  {formatCurrency(spending.expected_amount)}
+                </span>
+              </div>
+              {spending.carried_in !== 0 && (
+                <div className="flex items-center justify-between">
+                  <span className="text-gray-600">Carried in:</span>
+                  <span
+                    className={`font-medium ${
+                      spending.carried_in < 0
+                        ? "text-red-600"
+                        : "text-green-600"
+                    }`}
+                  >
+                    {formatCurrency(spending.carried_in)}
+                  </span>
+                </div>
+              )}
+              <div className="flex items-center justify-between">
+                <span className="text-gray-600">Remaining:</span>
+                <span
+                  className={`font-medium ${
+                    spending.remaining_amount < 0 ? "text-red-600" : ""
+                  }`}
+                >
+                  {formatCurrency(spending.remaining_amount)}
+                </span>
+              </div>
+            </div>
+          )}
+
+          {/* Sinking fund */}
+          {budgetItem.is_sinking_fund && fund && budgetItem.target_amount && (
+            <div className="space-y-2 rounded-md bg-gray-50 p-2 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="text-gray-600">Fund balance:</span>
+                <span
+                  className={`font-medium ${
+                    fund.balance < 0 ? "text-red-600" : ""
+                  }`}
+                >
+                  {formatCurrency(fund.balance)} of{" "}
+                  {formatCurrency(budgetItem.target_amount)}
+                </span>
+              </div>
+              <Progress
+                value={Math.min(
+                  Math.max((fund.balance / budgetItem.target_amount) * 100, 0),
+                  100
+                )}
+                className="h-2"
+              />
+              {fund.projection.status === "FUNDED" ? (
+                <p className="text-xs text-green-600">Fully funded</p>
+              ) : fund.projection.status === "ON_TRACK" ? (
+                <p className="text-xs text-gray-600">
+                  On track to be full by{" "}
+                  {formatDate(`${budgetItem.target_date}T00:00:00`)}
+                </p>
+              ) : (
+                <p className="text-xs text-red-600">
+                  {formatCurrency(fund.projection.shortfall)} short by{" "}
+                  {formatDate(`${budgetItem.target_date}T00:00:00`)}; needs{" "}
+                  {formatCurrency(fund.projection.required_per_period)} per pay
+                  period
+                </p>
+              )}
+              {fund.last_paid_out_on && (
+                <p className="text-xs text-gray-500">
+                  Last paid out{" "}
+                  {formatDate(`${fund.last_paid_out_on}T00:00:00`)}
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Dependencies (for REMAINING_PERCENT) */}
           {budgetItem.calc_type === "REMAINING_PERCENT" &&
             budgetItem.depends_on &&
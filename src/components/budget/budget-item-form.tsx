@@ -35,9 +35,18 @@ import {
   CALC_TYPE_INFO,
   BUDGET_CATEGORIES,
   CALC_TYPES,
+  ROLLOVER_MODES,
+  ROLLOVER_MODE_INFO,
+  BILL_FUNDING_STRATEGIES,
+  BILL_FUNDING_STRATEGY_INFO,
 } from "@/lib/schemas/budget-item";
 import { CalculationPreview } from "./calculation-preview";
-import type { BudgetItem, IncomeCadence } from "@/types/database";
+import type {
+  BillFundingStrategy,
+  BudgetItem,
+  IncomeCadence,
+  RolloverMode,
+} from "@/types/database";
 
 interface BudgetItemFormData {
   name: string;
@@ -47,6 +56,17 @@ interface BudgetItemFormData {
   cadence: IncomeCadence;
   depends_on: string[];
   priority: number;
+  rollover_mode: RolloverMode;
+  deducted_from_paycheck: boolean;
+  min_amount?: number | null;
+  max_amount?: number | null;
+  overflow_target_id?: string | null;
+  due_date?: string | null;
+  funding_strategy: BillFundingStrategy;
+  is_sinking_fund: boolean;
+  target_amount?: number | null;
+  target_date?: string | null;
+  opening_balance: number;
   is_active: boolean;
 }
 
@@ -84,12 +104,24 @@ export function BudgetItemForm({
       cadence: budgetItem?.cadence || "monthly",
       depends_on: budgetItem?.depends_on || [],
       priority: budgetItem?.priority || 0,
+      rollover_mode: budgetItem?.rollover_mode || "RESET",
+      deducted_from_paycheck: budgetItem?.deducted_from_paycheck ?? false,
+      min_amount: budgetItem?.min_amount ?? null,
+      max_amount: budgetItem?.max_amount ?? null,
+      overflow_target_id: budgetItem?.overflow_target_id ?? null,
+      due_date: budgetItem?.due_date ?? null,
+      funding_strategy: budgetItem?.funding_strategy || "SPLIT_EVENLY",
+      is_sinking_fund: budgetItem?.is_sinking_fund ?? false,
+      target_amount: budgetItem?.target_amount ?? null,
+      target_date: budgetItem?.target_date ?? null,
+      opening_balance: budgetItem?.opening_balance ?? 0,
       is_active: budgetItem?.is_active ?? true,
     },
   });
 
   const watchedCalcType = watch("calc_type");
   const watchedCategory = watch("category");
+  const watchedMaxAmount = watch("max_amount");
 
   // Load available dependencies (other budget items)
   useEffect(() => {
@@ -107,7 +139,12 @@ export function BudgetItemForm({
     loadDependencies();
   }, [user, budgetItem]);
 
-  const onSubmit = async (data: BudgetItemFormData) => {
+  // Overflow has to go to an item that is allocated from take-home pay
+  const overflowTargets = availableDependencies.filter(
+    (item) => item.is_active && !item.deducted_from_paycheck
+  );
+
+  const onSubmit = async (formData: BudgetItemFormData) => {
     if (!user) {
       setError("You must be logged in to create budget items");
       return;
@@ -116,6 +153,39 @@ export function BudgetItemForm({
     setIsSubmitting(true);
     setError(null);
 
+    // Bounds only apply to percentage items, and overflow only above a maximum
+    const bounded = formData.calc_type !== "FIXED";
+    const maxAmount = bounded ? formData.max_amount ?? null : null;
+    const data = {
+      ...formData,
+      min_amount: bounded ? formData.min_amount ?? null : null,
+      max_amount: maxAmount,
+      overflow_target_id:
+        maxAmount !== null ? formData.overflow_target_id ?? null : null,
+      // Due dates are for fixed bills
+      due_date: bounded ? null : formData.due_date || null,
+      funding_strategy: bounded ? "SPLIT_EVENLY" : formData.funding_strategy,
+      // Only sinking funds have a target
+      target_amount: formData.is_sinking_fund
+        ? formData.target_amount ?? null
+        : null,
+      target_date: formData.is_sinking_fund
+        ? formData.target_date || null
+        : null,
+      opening_balance: formData.is_sinking_fund ? formData.opening_balance : 0,
+    };
+
+    if (
+      data.overflow_target_id &&
+      !overflowTargets.some((item) => item.id === data.overflow_target_id)
+    ) {
+      setError(
+        "The overflow item is inactive or withheld from the paycheck. Choose another item or leave the overflow unallocated."
+      );
+      setIsSubmitting(false);
+      return;
+    }
+
     try {
       if (budgetItem) {
         // Update existing budget item
@@ -133,6 +203,17 @@ export function BudgetItemForm({
           cadence: data.cadence,
           depends_on: data.depends_on,
           priority: data.priority,
+          rollover_mode: data.rollover_mode,
+          deducted_from_paycheck: data.deducted_from_paycheck,
+          min_amount: data.min_amount,
+          max_amount: data.max_amount,
+          overflow_target_id: data.overflow_target_id,
+          due_date: data.due_date,
+          funding_strategy: data.funding_strategy,
+          is_sinking_fund: data.is_sinking_fund,
+          target_amount: data.target_amount,
+          target_date: data.target_date,
+          opening_balance: data.opening_balance,
           is_active: data.is_active,
           user_id: user.id,
         };
@@ -314,10 +395,106 @@ export function BudgetItemForm({
             budgetItem={{
               calc_type: watchedCalcType,
               value: watch("value"),
+              cadence: watch("cadence"),
               depends_on: watch("depends_on"),
+              min_amount: watch("min_amount"),
+              max_amount: watchedMaxAmount,
+              overflow_target_id: watch("overflow_target_id"),
+              funding_strategy: watch("funding_strategy"),
             }}
           />
 
+          {/* Bounds (for percentage items) */}
+          {isPercentageType && (
+            <div className="space-y-2">
+              <Label>Limits</Label>
+              <p className="text-sm text-gray-600">
+                Optionally keep this item between a minimum and maximum dollar
+                amount, pro-rated to your pay periods like a fixed amount.
+              </p>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="min_amount" className="text-sm font-normal">
+                    At least ($)
+                  </Label>
+                  <Input
+                    id="min_amount"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="No minimum"
+                    {...register("min_amount", {
+                      setValueAs: (value) =>
+                        value === "" || value === null ? null : Number(value),
+                    })}
+                  />
+                  {errors.min_amount && (
+                    <p className="text-sm text-red-600">
+                      {errors.min_amount.message}
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="max_amount" className="text-sm font-normal">
+                    No more than ($)
+                  </Label>
+                  <Input
+                    id="max_amount"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="No maximum"
+                    {...register("max_amount", {
+                      setValueAs: (value) =>
+                        value === "" || value === null ? null : Number(value),
+                    })}
+                  />
+                  {errors.max_amount && (
+                    <p className="text-sm text-red-600">
+                      {errors.max_amount.message}
+                    </p>
+                  )}
+                </div>
+              </div>
+              {typeof watchedMaxAmount === "number" && (
+                <div className="space-y-1">
+                  <Label
+                    htmlFor="overflow_target_id"
+                    className="text-sm font-normal"
+                  >
+                    Send anything above the maximum to
+                  </Label>
+                  <Select
+                    value={watch("overflow_target_id") || "none"}
+                    onValueChange={(value) =>
+                      setValue(
+                        "overflow_target_id",
+                        value === "none" ? null : value
+                      )
+                    }
+                  >
+                    <SelectTrigger id="overflow_target_id">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Leave it unallocated</SelectItem>
+                      {overflowTargets.map((item) => (
+                        <SelectItem key={item.id} value={item.id}>
+                          {item.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {errors.overflow_target_id && (
+                    <p className="text-sm text-red-600">
+                      {errors.overflow_target_id.message}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Dependencies (for REMAINING_PERCENT) */}
           {watchedCalcType === "REMAINING_PERCENT" && (
             <div className="space-y-2">
@@ -393,6 +570,60 @@ export function BudgetItemForm({
             )}
           </div>
 
+          {/* Due Date (for fixed bills) */}
+          {watchedCalcType === "FIXED" && (
+            <div className="space-y-2">
+              <Label htmlFor="due_date">Due Date</Label>
+              <Input
+                id="due_date"
+                type="date"
+                {...register("due_date", {
+                  setValueAs: (value) => value || null,
+                })}
+              />
+              <p className="text-sm text-gray-600">
+                Any one due date; the others repeat at the payment frequency.
+              </p>
+              {errors.due_date && (
+                <p className="text-sm text-red-600">
+                  {errors.due_date.message}
+                </p>
+              )}
+              <Label htmlFor="funding_strategy" className="text-sm font-normal">
+                Fund this bill by
+              </Label>
+              <Select
+                value={watch("funding_strategy")}
+                onValueChange={(value) =>
+                  setValue("funding_strategy", value as BillFundingStrategy)
+                }
+              >
+                <SelectTrigger id="funding_strategy">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BILL_FUNDING_STRATEGIES.map((strategy) => (
+                    <SelectItem key={strategy} value={strategy}>
+                      {BILL_FUNDING_STRATEGY_INFO[strategy].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-gray-600">
+                {
+                  BILL_FUNDING_STRATEGY_INFO[
+                    watch("funding_strategy") || "SPLIT_EVENLY"
+                  ].description
+                }
+              </p>
+              {errors.funding_strategy && (
+                <p className="text-sm text-red-600">
+                  {errors.funding_strategy.message}
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Priority */}
           <div className="space-y-2">
             <Label htmlFor="priority">Priority</Label>
@@ -413,6 +644,141 @@ export function BudgetItemForm({
             )}
           </div>
 
+          {/* Rollover */}
+          <div className="space-y-2">
+            <Label htmlFor="rollover_mode">At the End of a Pay Period</Label>
+            <Select
+              value={watch("rollover_mode")}
+              onValueChange={(value) =>
+                setValue("rollover_mode", value as RolloverMode)
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROLLOVER_MODES.map((mode) => (
+                  <SelectItem key={mode} value={mode}>
+                    {ROLLOVER_MODE_INFO[mode].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-gray-600">
+              {
+                ROLLOVER_MODE_INFO[watch("rollover_mode") || "RESET"]
+                  .description
+              }
+            </p>
+          </div>
+
+          {/* Paycheck Deduction */}
+          <div className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              id="deducted_from_paycheck"
+              checked={watch("deducted_from_paycheck")}
+              onChange={(e) =>
+                setValue("deducted_from_paycheck", e.target.checked)
+              }
+              className="rounded border-gray-300"
+            />
+            <Label htmlFor="deducted_from_paycheck">
+              Deducted from paycheck
+            </Label>
+            <p className="text-sm text-gray-600">
+              Taken out before you are paid, like a 401k contribution, so it is
+              not allocated from take-home pay
+            </p>
+          </div>
+
+          {/* Sinking Fund */}
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id="is_sinking_fund"
+                checked={watch("is_sinking_fund")}
+                onChange={(e) => setValue("is_sinking_fund", e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              <Label htmlFor="is_sinking_fund">Sinking fund</Label>
+              <p className="text-sm text-gray-600">
+                Saves up each pay period for a larger expense, like an annual
+                insurance premium, and pays it out when it&apos;s due
+              </p>
+            </div>
+            {watch("is_sinking_fund") && (
+              <div className="grid grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label
+                    htmlFor="target_amount"
+                    className="text-sm font-normal"
+                  >
+                    Target ($)
+                  </Label>
+                  <Input
+                    id="target_amount"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="0.00"
+                    {...register("target_amount", {
+                      setValueAs: (value) =>
+                        value === "" || value === null ? null : Number(value),
+                    })}
+                  />
+                  {errors.target_amount && (
+                    <p className="text-sm text-red-600">
+                      {errors.target_amount.message}
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="target_date" className="text-sm font-normal">
+                    Needed by
+                  </Label>
+                  <Input
+                    id="target_date"
+                    type="date"
+                    {...register("target_date", {
+                      setValueAs: (value) => value || null,
+                    })}
+                  />
+                  {errors.target_date && (
+                    <p className="text-sm text-red-600">
+                      {errors.target_date.message}
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-1">
+                  <Label
+                    htmlFor="opening_balance"
+                    className="text-sm font-normal"
+                  >
+                    Already saved ($)
+                  </Label>
+                  <Input
+                    id="opening_balance"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="0.00"
+                    {...register("opening_balance", {
+                      setValueAs: (value) =>
+                        value === "" || value === null ? 0 : Number(value),
+                    })}
+                  />
+                  {errors.opening_balance && (
+                    <p className="text-sm text-red-600">
+                      {errors.opening_balance.message}
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+
           {/* Active Status */}
           <div className="flex items-center space-x-2">
             <input
@@ -8,6 +8,9 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Plus, SortAsc, SortDesc } from "lucide-react";
 import { useAuth } from "@/lib/auth/auth-context";
 import { getBudgetItemsForUser } from "@/lib/database/client-queries";
+import { useCurrentPayPeriod } from "@/lib/hooks/use-pay-periods";
+import { useBudgetItemSpending } from "@/lib/hooks/use-budget-tracking";
+import { useSinkingFunds } from "@/lib/hooks/use-sinking-funds";
 import { BudgetItemCard } from "./budget-item-card";
 import { BudgetItemForm } from "./budget-item-form";
 import { CATEGORY_INFO } from "@/lib/schemas/budget-item";
@@ -40,6 +43,11 @@ export function BudgetItemList({
   const [sortOrder, setSortOrder] = useState<SortOrder>("asc");
   const [showInactive, setShowInactive] = useState(false);
 
+  // Carried in and allocated amounts for the current pay period
+  const { currentPayPeriod } = useCurrentPayPeriod();
+  const { spendingData } = useBudgetItemSpending(currentPayPeriod?.id || null);
+  const { balances: fundBalances, refresh: refreshFunds } = useSinkingFunds();
+
   // Load budget items only if not provided via props
   const loadBudgetItems = useCallback(async () => {
     if (!user || propBudgetItems) return; // Don't load if props provided
@@ -128,6 +136,8 @@ export function BudgetItemList({
   const handleFormSuccess = () => {
     setViewMode("list");
     setEditingItem(null);
+    // Targets and opening balances may have changed
+    refreshFunds();
     // Use parent refresh if available, otherwise load items locally
     if (onRefresh) {
       onRefresh();
@@ -182,6 +192,13 @@ export function BudgetItemList({
 
   const filteredItems = getFilteredItems();
 
+  // Overflow only reaches an item that is allocated itself
+  const isOverflowUnallocated = (item: BudgetItem) => {
+    if (!item.overflow_target_id) return false;
+    const target = budgetItems.find((i) => i.id === item.overflow_target_id);
+    return !target || !target.is_active || target.deducted_from_paycheck;
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -299,6 +316,13 @@ export function BudgetItemList({
                   budgetItem={item}
                   onEdit={handleEditItem}
                   onRefresh={loadBudgetItems}
+                  spending={spendingData.find(
+                    (spending) => spending.budget_item_id === item.id
+                  )}
+                  fund={fundBalances.find(
+                    (fund) => fund.budget_item_id === item.id
+                  )}
+                  overflowUnallocated={isOverflowUnallocated(item)}
                 />
               ))}
             </div>
@@ -25,6 +25,8 @@ export function BudgetItemSpendingIndicator({
 }: BudgetItemSpendingIndicatorProps) {
   const {
     expected_amount,
+    carried_in,
+    available_amount,
     actual_amount,
     remaining_amount,
     variance_percentage,
@@ -34,8 +36,8 @@ export function BudgetItemSpendingIndicator({
 
   // Calculate progress percentage (capped at 100% for display)
   const progressPercentage =
-    expected_amount > 0
-      ? Math.min((actual_amount / expected_amount) * 100, 100)
+    available_amount > 0
+      ? Math.min((actual_amount / available_amount) * 100, 100)
       : 0;
 
   // Get status styling
@@ -132,10 +134,18 @@ export function BudgetItemSpendingIndicator({
           {statusConfig.label}
         </Badge>
         <div className={`${config.textSize} font-medium`}>
-          {formatCurrency(actual_amount)} / {formatCurrency(expected_amount)}
+          {formatCurrency(actual_amount)} / {formatCurrency(available_amount)}
         </div>
       </div>
 
+      {/* Balance carried from the previous pay period */}
+      {carried_in !== 0 && (
+        <div className={`${config.textSize} text-gray-600`}>
+          {formatCurrency(carried_in)} carried in +{" "}
+          {formatCurrency(expected_amount)} allocated this period
+        </div>
+      )}
+
       {/* Progress bar */}
       <div className="space-y-1">
         <div
@@ -198,7 +208,7 @@ export function QuickSpendingStatus({
   spending: BudgetItemSpending;
   showAmount?: boolean;
 }) {
-  const { status, actual_amount, expected_amount } = spending;
+  const { status, actual_amount, available_amount } = spending;
 
   const getStatusIcon = () => {
     switch (status) {
@@ -218,7 +228,7 @@ export function QuickSpendingStatus({
       {getStatusIcon()}
       {showAmount && (
         <span className="text-xs text-gray-600">
-          {formatCurrency(actual_amount)}/{formatCurrency(expected_amount)}
+          {formatCurrency(actual_amount)}/{formatCurrency(available_amount)}
         </span>
       )}
     </div>
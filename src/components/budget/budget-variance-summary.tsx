@@ -230,7 +230,7 @@ export function BudgetVarianceSummary({
             <h4 className="font-medium text-gray-900">Spending by Category</h4>
             {Object.entries(categoryGroups).map(([category, items]) => {
               const categoryExpected = items.reduce(
-                (sum, item) => sum + item.expected_amount,
+                (sum, item) => sum + item.available_amount,
                 0
               );
               const categoryActual = items.reduce(
@@ -295,7 +295,7 @@ export function BudgetVarianceSummary({
                         <div className="text-right">
                           <span className="font-medium">
                             {formatCurrency(item.actual_amount)} /{" "}
-                            {formatCurrency(item.expected_amount)}
+                            {formatCurrency(item.available_amount)}
                           </span>
                           {item.expense_count > 0 && (
                             <span className="text-gray-500 ml-2">
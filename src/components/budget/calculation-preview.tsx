@@ -74,8 +74,14 @@ export function CalculationPreview({
 
   const isValidValue =
     budgetItem.calc_type && budgetItem.value !== undefined
-      ? validateBudgetItemValue(budgetItem.calc_type, budgetItem.value)
+      ? validateBudgetItemValue(budgetItem.calc_type, budgetItem.value, {
+          min_amount: budgetItem.min_amount,
+          max_amount: budgetItem.max_amount,
+        })
       : false;
+  const hasBounds =
+    typeof budgetItem.min_amount === "number" ||
+    typeof budgetItem.max_amount === "number";
 
   return (
     <Card className={className}>
@@ -135,7 +141,11 @@ export function CalculationPreview({
             <div className="text-xs text-red-600 bg-red-50 p-2 rounded">
               <AlertTriangle className="h-3 w-3 inline mr-1" />
               {budgetItem.calc_type === "FIXED"
-                ? "Amount must be greater than 0"
+                ? hasBounds
+                  ? "Fixed amounts can't have a minimum or maximum"
+                  : "Amount must be greater than 0"
+                : hasBounds
+                ? "Percentage must be between 0.01% and 100%, with the minimum no more than the maximum"
                 : "Percentage must be between 0.01% and 100%"}
             </div>
           )}
@@ -0,0 +1,204 @@
+"use client";
+
+import { useState } from "react";
+import { AlertCircle, Loader2, Save, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { BudgetItemSelector } from "@/components/expenses/budget-item-selector";
+import { debtAccountSchema } from "@/lib/schemas/debt-account";
+import type { DebtAccount, DebtAccountFormData } from "@/lib/types/debts";
+
+interface DebtAccountFormProps {
+  account?: DebtAccount | null;
+  showPayoffOrder?: boolean;
+  onSubmit: (data: DebtAccountFormData) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+// Form inputs are kept as strings until the account is validated
+interface DebtDraft {
+  name: string;
+  balance: string;
+  apr: string;
+  minimum_payment: string;
+  budget_item_id: string | null;
+  payoff_order: string;
+}
+
+const toDraft = (account: DebtAccount | null | undefined): DebtDraft => ({
+  name: account?.name || "",
+  balance: account ? account.balance.toFixed(2) : "",
+  apr: account ? String(account.apr) : "",
+  minimum_payment: account ? account.minimum_payment.toFixed(2) : "",
+  budget_item_id: account?.budget_item_id || null,
+  payoff_order: String(account?.payoff_order ?? 0),
+});
+
+const toNumber = (value: string) =>
+  value.trim() === "" ? undefined : Number(value);
+
+export function DebtAccountForm({
+  account,
+  showPayoffOrder = false,
+  onSubmit,
+  onCancel,
+}: DebtAccountFormProps) {
+  const [draft, setDraft] = useState<DebtDraft>(() => toDraft(account));
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const updateDraft = (updates: Partial<DebtDraft>) => {
+    setDraft((prev) => ({ ...prev, ...updates }));
+  };
+
+  const handleSave = async () => {
+    const result = debtAccountSchema.safeParse({
+      name: draft.name,
+      balance: toNumber(draft.balance),
+      apr: toNumber(draft.apr),
+      minimum_payment: toNumber(draft.minimum_payment),
+      budget_item_id: draft.budget_item_id,
+      payoff_order: toNumber(draft.payoff_order) ?? 0,
+    });
+
+    if (!result.success) {
+      setError(result.error.errors[0]?.message || "Invalid debt account");
+      return;
+    }
+
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      await onSubmit(result.data);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>{account ? "Edit Debt" : "New Debt"}</span>
+          <Button variant="ghost" size="sm" onClick={onCancel}>
+            <X className="h-4 w-4" />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <div className="flex items-center space-x-2">
+              <AlertCircle className="h-4 w-4 text-red-600" />
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div
+            className={`space-y-2 ${
+              showPayoffOrder ? "md:col-span-2" : "md:col-span-3"
+            }`}
+          >
+            <Label htmlFor="debt-name">Name</Label>
+            <Input
+              id="debt-name"
+              placeholder="e.g., Credit card"
+              value={draft.name}
+              onChange={(e) => updateDraft({ name: e.target.value })}
+            />
+          </div>
+          {showPayoffOrder && (
+            <div className="space-y-2">
+              <Label htmlFor="debt-payoff-order">Payoff Order</Label>
+              <Input
+                id="debt-payoff-order"
+                type="number"
+                min="0"
+                max="1000"
+                step="1"
+                value={draft.payoff_order}
+                onChange={(e) => updateDraft({ payoff_order: e.target.value })}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="debt-balance">Balance</Label>
+            <Input
+              id="debt-balance"
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="0.00"
+              value={draft.balance}
+              onChange={(e) => updateDraft({ balance: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="debt-apr">APR (%)</Label>
+            <Input
+              id="debt-apr"
+              type="number"
+              step="0.01"
+              min="0"
+              max="100"
+              placeholder="0.00"
+              value={draft.apr}
+              onChange={(e) => updateDraft({ apr: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="debt-minimum-payment">
+              Minimum Monthly Payment
+            </Label>
+            <Input
+              id="debt-minimum-payment"
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="0.00"
+              value={draft.minimum_payment}
+              onChange={(e) => updateDraft({ minimum_payment: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2 md:col-span-3">
+            <Label>Budget Item (Optional)</Label>
+            <BudgetItemSelector
+              value={draft.budget_item_id || undefined}
+              onValueChange={(value) =>
+                updateDraft({ budget_item_id: value || null })
+              }
+              placeholder="None"
+            />
+            <p className="text-sm text-gray-600">
+              The Debt budget item that pays this account. Fixed amounts
+              budgeted above the minimums go to the payoff plan.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSubmitting}>
+            {isSubmitting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
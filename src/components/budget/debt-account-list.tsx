@@ -0,0 +1,98 @@
+"use client";
+
+import { CreditCard, Edit, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { formatCurrency } from "@/lib/utils/currency";
+import type { DebtAccountWithBudgetItem } from "@/lib/types/debts";
+
+interface DebtAccountListProps {
+  accounts: DebtAccountWithBudgetItem[];
+  showPayoffOrder?: boolean;
+  onEdit: (account: DebtAccountWithBudgetItem) => void;
+  onDelete: (account: DebtAccountWithBudgetItem) => void;
+}
+
+export function DebtAccountList({
+  accounts,
+  showPayoffOrder = false,
+  onEdit,
+  onDelete,
+}: DebtAccountListProps) {
+  if (accounts.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center">
+          <CreditCard className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            No debts yet
+          </h3>
+          <p className="text-gray-600">
+            Add your loans and cards to plan when you&apos;ll be debt-free.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {accounts.map((account) => (
+        <Card key={account.id}>
+          <CardContent className="p-4">
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1 min-w-0 flex-1">
+                <div className="flex items-center gap-2">
+                  <h3 className="font-medium truncate">{account.name}</h3>
+                  {account.balance === 0 && (
+                    <Badge variant="default">Paid off</Badge>
+                  )}
+                  {showPayoffOrder && (
+                    <Badge variant="outline">#{account.payoff_order}</Badge>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600">
+                  <span>
+                    Balance{" "}
+                    <span className="font-medium text-gray-900">
+                      {formatCurrency(account.balance)}
+                    </span>
+                  </span>
+                  <span>{account.apr}% APR</span>
+                  <span>
+                    Minimum {formatCurrency(account.minimum_payment)}/month
+                  </span>
+                  <span>
+                    {account.budget_item_name
+                      ? `Paid by ${account.budget_item_name}`
+                      : "No budget item"}
+                  </span>
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-2 flex-shrink-0">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onEdit(account)}
+                  title="Edit debt"
+                >
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onDelete(account)}
+                  title="Delete debt"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { AlertTriangle, CalendarCheck, TrendingDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DEBT_PAYOFF_PRIORITIES,
+  DEBT_PAYOFF_PRIORITY_INFO,
+} from "@/lib/schemas/debt-account";
+import { formatCurrency, roundCents } from "@/lib/utils/currency";
+import { getTodayIsoDate } from "@/lib/utils/recurring-expenses";
+import {
+  DEBT_PAYOFF_MAX_MONTHS,
+  simulateDebtPayoff,
+  type DebtPayoffPlan,
+} from "../../../supabase/functions/_shared/debt-payoff";
+import type {
+  DebtAccountWithBudgetItem,
+  DebtPayoffPriority,
+} from "@/lib/types/debts";
+
+interface DebtPayoffPlannerProps {
+  accounts: DebtAccountWithBudgetItem[];
+  priority: DebtPayoffPriority;
+  budgetedMonthly: number;
+  saving?: boolean;
+  onPriorityChange: (priority: DebtPayoffPriority) => void;
+}
+
+// Months shown before the table is expanded
+const PREVIEW_MONTHS = 12;
+
+// Plan dates are the first of a month in UTC
+const formatMonth = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+export function DebtPayoffPlanner({
+  accounts,
+  priority,
+  budgetedMonthly,
+  saving = false,
+  onPriorityChange,
+}: DebtPayoffPlannerProps) {
+  const totalMinimum = accounts
+    .filter((account) => account.balance > 0)
+    .reduce((sum, account) => sum + account.minimum_payment, 0);
+  // Until the user enters their own, the extra payment is whatever the debt
+  // budget items set aside beyond the minimums
+  const budgetedExtra = Math.max(0, roundCents(budgetedMonthly - totalMinimum));
+  const [extraDraft, setExtraDraft] = useState<string | null>(null);
+  const [showAllMonths, setShowAllMonths] = useState(false);
+
+  const extraPayment = Math.max(0, Number(extraDraft ?? budgetedExtra) || 0);
+
+  const plans = useMemo(() => {
+    const options = {
+      extra_payment: extraPayment,
+      start_date: getTodayIsoDate(),
+    };
+    return Object.fromEntries(
+      DEBT_PAYOFF_PRIORITIES.map((option) => [
+        option,
+        simulateDebtPayoff(accounts, { ...options, priority: option }),
+      ])
+    ) as Record<DebtPayoffPriority, DebtPayoffPlan>;
+  }, [accounts, extraPayment]);
+
+  const plan = plans[priority];
+  const months = showAllMonths
+    ? plan.months
+    : plan.months.slice(0, PREVIEW_MONTHS);
+
+  if (plan.debts.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingDown className="h-5 w-5" />
+          Payoff Plan
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Strategy</Label>
+            <Select
+              value={priority}
+              onValueChange={(value) =>
+                onPriorityChange(value as DebtPayoffPriority)
+              }
+              disabled={saving}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DEBT_PAYOFF_PRIORITIES.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {DEBT_PAYOFF_PRIORITY_INFO[option].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-gray-600">
+              {DEBT_PAYOFF_PRIORITY_INFO[priority].description}. Surplus
+              recommendations follow this plan.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="extra-payment">Extra Each Month</Label>
+            <Input
+              id="extra-payment"
+              type="number"
+              step="0.01"
+              min="0"
+              value={extraDraft ?? budgetedExtra.toFixed(2)}
+              onChange={(e) => setExtraDraft(e.target.value)}
+            />
+            <p className="text-sm text-gray-600">
+              On top of {formatCurrency(totalMinimum)} in minimum payments. Your
+              debt budget items cover {formatCurrency(budgetedExtra)} extra.
+            </p>
+          </div>
+        </div>
+
+        {plan.months_to_payoff === null ? (
+          <div className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>
+              These payments don&apos;t clear your debts within{" "}
+              {DEBT_PAYOFF_MAX_MONTHS / 12} years. Pay more than the interest
+              each month to get them paid off.
+            </span>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="rounded-md bg-green-50 p-4">
+              <p className="text-sm text-green-700">Debt-free</p>
+              <p className="flex items-center gap-2 text-xl font-semibold text-green-900">
+                <CalendarCheck className="h-5 w-5" />
+                {plan.debt_free_date && formatMonth(plan.debt_free_date)}
+              </p>
+              <p className="text-sm text-green-700">
+                in {plan.months_to_payoff} months
+              </p>
+            </div>
+            <div className="rounded-md bg-gray-50 p-4">
+              <p className="text-sm text-gray-600">Total interest</p>
+              <p className="text-xl font-semibold">
+                {formatCurrency(plan.total_interest)}
+              </p>
+              <p className="text-sm text-gray-600">
+                of {formatCurrency(plan.total_paid)} paid
+              </p>
+            </div>
+            <div className="rounded-md bg-gray-50 p-4 space-y-1">
+              <p className="text-sm text-gray-600">Other strategies</p>
+              {DEBT_PAYOFF_PRIORITIES.filter(
+                (option) => option !== priority
+              ).map((option) => {
+                const other = plans[option];
+                return (
+                  <p key={option} className="text-sm">
+                    {DEBT_PAYOFF_PRIORITY_INFO[option].label}:{" "}
+                    {other.months_to_payoff === null
+                      ? "never paid off"
+                      : `${formatCurrency(other.total_interest)} interest, ${
+                          other.months_to_payoff
+                        } months`}
+                  </p>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Payoff order */}
+        <div className="space-y-2">
+          <h3 className="font-medium">Payoff Order</h3>
+          <ol className="space-y-1 text-sm">
+            {plan.debts.map((debt, index) => (
+              <li key={debt.debt_id} className="flex justify-between gap-4">
+                <span>
+                  {index + 1}. {debt.name}
+                </span>
+                <span className="text-gray-600">
+                  {debt.payoff_date
+                    ? `Paid off ${formatMonth(debt.payoff_date)}`
+                    : "Not paid off"}{" "}
+                  · {formatCurrency(debt.total_interest)} interest
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        {/* Amortization table */}
+        <div className="space-y-2">
+          <h3 className="font-medium">Month by Month</h3>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Month</TableHead>
+                  {plan.debts.map((debt) => (
+                    <TableHead key={debt.debt_id} className="text-right">
+                      {debt.name}
+                    </TableHead>
+                  ))}
+                  <TableHead className="text-right">Interest</TableHead>
+                  <TableHead className="text-right">Remaining</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {months.map((month) => (
+                  <TableRow key={month.month}>
+                    <TableCell>{formatMonth(month.date)}</TableCell>
+                    {plan.debts.map((debt) => {
+                      const payment = month.payments.find(
+                        (p) => p.debt_id === debt.debt_id
+                      );
+                      return (
+                        <TableCell key={debt.debt_id} className="text-right">
+                          {payment ? (
+                            <div>
+                              <div>{formatCurrency(payment.payment)}</div>
+                              <div className="text-xs text-gray-500">
+                                {formatCurrency(payment.balance)} left
+                              </div>
+                            </div>
+                          ) : (
+                            <span className="text-gray-400">—</span>
+                          )}
+                        </TableCell>
+                      );
+                    })}
+                    <TableCell className="text-right">
+                      {formatCurrency(month.total_interest)}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">
+                      {formatCurrency(month.total_balance)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          {plan.months.length > PREVIEW_MONTHS && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowAllMonths((show) => !show)}
+            >
+              {showAllMonths
+                ? "Show fewer months"
+                : `Show all ${plan.months.length} months`}
+            </Button>
+          )}
+          {accounts.length > plan.debts.length && (
+            <p className="text-sm text-gray-600">
+              Debts with no balance left aren&apos;t shown.
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,193 @@
+"use client";
+
+import { useState } from "react";
+import { AlertCircle, Loader2, Save, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { BudgetItemSelector } from "@/components/expenses/budget-item-selector";
+import { savingsGoalSchema } from "@/lib/schemas/savings-goal";
+import type {
+  SavingsGoal,
+  SavingsGoalFormData,
+} from "@/lib/types/savings-goals";
+
+interface SavingsGoalFormProps {
+  goal?: SavingsGoal | null;
+  onSubmit: (data: SavingsGoalFormData) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+// Form inputs are kept as strings until the goal is validated
+interface GoalDraft {
+  name: string;
+  target_amount: string;
+  target_date: string;
+  current_balance: string;
+  budget_item_id: string | null;
+  priority: string;
+}
+
+const toDraft = (goal: SavingsGoal | null | undefined): GoalDraft => ({
+  name: goal?.name || "",
+  target_amount: goal ? goal.target_amount.toFixed(2) : "",
+  target_date: goal?.target_date || "",
+  current_balance: goal ? goal.current_balance.toFixed(2) : "0.00",
+  budget_item_id: goal?.budget_item_id || null,
+  priority: String(goal?.priority ?? 0),
+});
+
+const toNumber = (value: string) =>
+  value.trim() === "" ? undefined : Number(value);
+
+export function SavingsGoalForm({
+  goal,
+  onSubmit,
+  onCancel,
+}: SavingsGoalFormProps) {
+  const [draft, setDraft] = useState<GoalDraft>(() => toDraft(goal));
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const updateDraft = (updates: Partial<GoalDraft>) => {
+    setDraft((prev) => ({ ...prev, ...updates }));
+  };
+
+  const handleSave = async () => {
+    const result = savingsGoalSchema.safeParse({
+      name: draft.name,
+      target_amount: toNumber(draft.target_amount),
+      target_date: draft.target_date,
+      current_balance: toNumber(draft.current_balance) ?? 0,
+      budget_item_id: draft.budget_item_id,
+      priority: toNumber(draft.priority) ?? 0,
+    });
+
+    if (!result.success) {
+      setError(result.error.errors[0]?.message || "Invalid savings goal");
+      return;
+    }
+
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      await onSubmit(result.data);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>{goal ? "Edit Savings Goal" : "New Savings Goal"}</span>
+          <Button variant="ghost" size="sm" onClick={onCancel}>
+            <X className="h-4 w-4" />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <div className="flex items-center space-x-2">
+              <AlertCircle className="h-4 w-4 text-red-600" />
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="goal-name">Name</Label>
+            <Input
+              id="goal-name"
+              placeholder="e.g., New car"
+              value={draft.name}
+              onChange={(e) => updateDraft({ name: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="goal-priority">Priority</Label>
+            <Input
+              id="goal-priority"
+              type="number"
+              min="0"
+              max="1000"
+              step="1"
+              value={draft.priority}
+              onChange={(e) => updateDraft({ priority: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="goal-target-amount">Target Amount</Label>
+            <Input
+              id="goal-target-amount"
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="0.00"
+              value={draft.target_amount}
+              onChange={(e) => updateDraft({ target_amount: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="goal-target-date">Target Date</Label>
+            <Input
+              id="goal-target-date"
+              type="date"
+              value={draft.target_date}
+              onChange={(e) => updateDraft({ target_date: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="goal-current-balance">Saved So Far</Label>
+            <Input
+              id="goal-current-balance"
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="0.00"
+              value={draft.current_balance}
+              onChange={(e) => updateDraft({ current_balance: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2 md:col-span-3">
+            <Label>Budget Item (Optional)</Label>
+            <BudgetItemSelector
+              value={draft.budget_item_id || undefined}
+              onValueChange={(value) =>
+                updateDraft({ budget_item_id: value || null })
+              }
+              placeholder="None"
+            />
+            <p className="text-sm text-gray-600">
+              The Savings budget item that sets money aside for this goal. You
+              can create one from the goal once it&apos;s saved.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSubmitting}>
+            {isSubmitting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,165 @@
+"use client";
+
+import { AlertTriangle, Edit, PiggyBank, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { formatCurrency } from "@/lib/utils/currency";
+import { formatCadence } from "@/lib/utils/cadence";
+import { formatDate } from "@/lib/utils/date-utils";
+import type {
+  SavingsGoalStatus,
+  SavingsGoalWithProgress,
+} from "@/lib/types/savings-goals";
+
+interface SavingsGoalListProps {
+  goals: SavingsGoalWithProgress[];
+  saving?: boolean;
+  onEdit: (goal: SavingsGoalWithProgress) => void;
+  onDelete: (goal: SavingsGoalWithProgress) => void;
+  onMatchBudgetItem: (goal: SavingsGoalWithProgress) => void;
+}
+
+const STATUS_BADGES: Record<
+  SavingsGoalStatus,
+  { label: string; variant: "default" | "secondary" | "destructive" }
+> = {
+  COMPLETE: { label: "Complete", variant: "default" },
+  ON_TRACK: { label: "On track", variant: "secondary" },
+  BEHIND: { label: "Behind schedule", variant: "destructive" },
+};
+
+export function SavingsGoalList({
+  goals,
+  saving = false,
+  onEdit,
+  onDelete,
+  onMatchBudgetItem,
+}: SavingsGoalListProps) {
+  if (goals.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center">
+          <PiggyBank className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            No savings goals yet
+          </h3>
+          <p className="text-gray-600">
+            Add a goal to see what you need to set aside each pay period.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {goals.map((goal) => {
+        const { progress } = goal;
+        const badge = STATUS_BADGES[progress.status];
+        const perPeriod = `${formatCadence(
+          progress.cadence
+        ).toLowerCase()} pay period`;
+        // Offer to line the budget item up with what the goal needs
+        const needsMatch =
+          progress.status !== "COMPLETE" &&
+          Math.abs(
+            progress.planned_per_period - progress.required_per_period
+          ) >= 0.01;
+
+        return (
+          <Card key={goal.id}>
+            <CardContent className="p-4">
+              <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                <div className="space-y-2 min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-medium truncate">{goal.name}</h3>
+                    <Badge variant={badge.variant}>{badge.label}</Badge>
+                  </div>
+                  <div className="flex items-center justify-between text-sm">
+                    <span>
+                      {formatCurrency(goal.current_balance)} of{" "}
+                      {formatCurrency(goal.target_amount)}
+                    </span>
+                    <span className="text-gray-600">
+                      by {formatDate(goal.target_date)}
+                    </span>
+                  </div>
+                  <Progress value={progress.percent_complete} className="h-2" />
+
+                  {progress.status !== "COMPLETE" && (
+                    <p className="text-sm text-gray-600">
+                      Needs {formatCurrency(progress.required_per_period)} each{" "}
+                      {perPeriod} ({progress.periods_remaining} left).{" "}
+                      {goal.budget_item_id
+                        ? `${
+                            goal.budget_item_name || "The budget item"
+                          } sets aside ${formatCurrency(
+                            progress.planned_per_period
+                          )}.`
+                        : "No budget item saves towards it yet."}
+                    </p>
+                  )}
+
+                  {needsMatch && (
+                    <div className="flex flex-wrap items-center gap-2">
+                      {progress.status === "BEHIND" && (
+                        <span className="flex items-center text-sm text-red-600">
+                          <AlertTriangle className="h-4 w-4 mr-1" />
+                          Short by{" "}
+                          {formatCurrency(
+                            Math.max(
+                              0,
+                              progress.remaining_amount -
+                                progress.planned_per_period *
+                                  progress.periods_remaining
+                            )
+                          )}{" "}
+                          at the current pace
+                        </span>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={saving}
+                        onClick={() => onMatchBudgetItem(goal)}
+                      >
+                        {goal.budget_item_id
+                          ? `Set budget item to ${formatCurrency(
+                              progress.required_per_period
+                            )} per ${perPeriod}`
+                          : `Create Savings budget item of ${formatCurrency(
+                              progress.required_per_period
+                            )} per ${perPeriod}`}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onEdit(goal)}
+                    title="Edit savings goal"
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onDelete(goal)}
+                    title="Delete savings goal"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
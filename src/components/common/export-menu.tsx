@@ -0,0 +1,50 @@
+"use client";
+
+import { Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  EXPORT_FORMAT_LABELS,
+  type ExportFormat,
+} from "@/lib/utils/data-export";
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  exporting?: boolean;
+  disabled?: boolean;
+  label?: string;
+}
+
+export function ExportMenu({
+  onExport,
+  exporting = false,
+  disabled = false,
+  label = "Export",
+}: ExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled || exporting}>
+          {exporting ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4 mr-2" />
+          )}
+          {exporting ? "Exporting..." : label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map((format) => (
+          <DropdownMenuItem key={format} onClick={() => onExport(format)}>
+            {EXPORT_FORMAT_LABELS[format]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -14,16 +14,19 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { useBulkDuplicateDetection } from "@/lib/hooks/use-duplicate-detection";
-import { useExpenseOperations } from "@/lib/hooks/use-expenses";
+import { useExpenseImport } from "@/lib/hooks/use-expense-import";
 import type {
+  Expense,
   ExpenseCreateData,
+  ExpenseImportResult,
   DuplicateDetectionOptions,
+  DuplicateMatch,
 } from "@/lib/types/expenses";
 import { formatCurrency } from "@/lib/utils/currency";
 
 interface BulkImportValidatorProps {
   expenses: ExpenseCreateData[];
-  onSuccess: (importedCount: number) => void;
+  onSuccess: (result: ExpenseImportResult) => void;
   onCancel: () => void;
   duplicateDetectionOptions?: DuplicateDetectionOptions;
 }
@@ -34,6 +37,8 @@ interface ExpenseImportItem {
   selected: boolean;
   isDuplicate: boolean;
   duplicateExpenseId?: string;
+  duplicateMatch?: DuplicateMatch;
+  duplicateExpense?: Expense;
   errors: string[];
   warnings: string[];
 }
@@ -54,7 +59,7 @@ export function BulkImportValidator({
     error: validationError,
   } = useBulkDuplicateDetection();
 
-  const { createExpense } = useExpenseOperations();
+  const { importExpenses, error: importError } = useExpenseImport();
 
   const handleValidation = React.useCallback(async () => {
     try {
@@ -69,6 +74,8 @@ export function BulkImportValidator({
         selected: !result.validation.is_duplicate, // Auto-select non-duplicates
         isDuplicate: result.validation.is_duplicate || false,
         duplicateExpenseId: result.validation.duplicate_expense_id,
+        duplicateMatch: result.validation.duplicate_match,
+        duplicateExpense: result.duplicateExpense,
         errors: result.validation.errors,
         warnings: result.validation.warnings,
       }));
@@ -123,18 +130,22 @@ export function BulkImportValidator({
     try {
       setImporting(true);
 
-      // Import each expense individually using existing method
-      let successCount = 0;
-      for (const expense of selectedExpenses) {
-        try {
-          await createExpense(expense);
-          successCount++;
-        } catch (error) {
-          console.error("Failed to import expense:", error);
-        }
-      }
+      // Selected rows were already reviewed, so import them even if flagged
+      const result = await importExpenses(selectedExpenses, {
+        skipDuplicates: false,
+      });
 
-      onSuccess(successCount);
+      if (result) {
+        // Duplicates the user left unselected count as skipped duplicates
+        const skippedDuplicates = importItems.filter(
+          (item) => item.isDuplicate && !item.selected
+        ).length;
+
+        onSuccess({
+          ...result,
+          duplicate_count: result.duplicate_count + skippedDuplicates,
+        });
+      }
     } catch (error) {
       console.error("Bulk import failed:", error);
     } finally {
@@ -154,6 +165,30 @@ export function BulkImportValidator({
     }
   };
 
+  // Explain what a flagged row duplicates
+  const describeDuplicate = (item: ExpenseImportItem) => {
+    const match = item.duplicateMatch;
+    if (!match) return null;
+
+    if (match.source === "external_id") {
+      return "Already imported from a previous statement";
+    }
+
+    const percent = match.score
+      ? ` (${Math.round(match.score.overall_score * 100)}% match)`
+      : "";
+
+    if (match.source === "file") {
+      return `Same as row ${match.file_row} in this file${percent}`;
+    }
+
+    return item.duplicateExpense
+      ? `Matches "${item.duplicateExpense.description}" on ${formatDate(
+          item.duplicateExpense.date
+        )}${percent}`
+      : `Matches an existing expense${percent}`;
+  };
+
   const selectedCount = importItems.filter((item) => item.selected).length;
   const duplicateCount = importItems.filter((item) => item.isDuplicate).length;
   const errorCount = importItems.filter(
@@ -183,18 +218,18 @@ export function BulkImportValidator({
     );
   }
 
-  if (validationError) {
+  if (validationError || importError) {
     return (
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center space-x-2 text-red-600">
             <XCircle className="h-5 w-5" />
-            <span>Validation Failed</span>
+            <span>{importError ? "Import Failed" : "Validation Failed"}</span>
           </CardTitle>
         </CardHeader>
         <CardContent>
           <div className="bg-red-50 border border-red-200 rounded-md p-4">
-            <p className="text-red-600">{validationError}</p>
+            <p className="text-red-600">{validationError || importError}</p>
           </div>
           <div className="mt-4 flex justify-end">
             <Button variant="outline" onClick={onCancel}>
@@ -343,6 +378,13 @@ export function BulkImportValidator({
                         </span>
                       </div>
 
+                      {/* Duplicate Reason */}
+                      {item.isDuplicate && describeDuplicate(item) && (
+                        <div className="text-sm text-amber-700">
+                          {describeDuplicate(item)}
+                        </div>
+                      )}
+
                       {/* Errors and Warnings */}
                       {item.errors.length > 0 && (
                         <div className="text-sm text-red-600">
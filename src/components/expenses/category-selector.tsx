@@ -11,22 +11,39 @@ import { Badge } from "@/components/ui/badge";
 import {
   EXPENSE_CATEGORIES,
   EXPENSE_CATEGORY_GROUPS,
+  EXPENSE_CATEGORY_LIST,
   getCategoryIcon,
   getCategoryGroup,
 } from "@/lib/constants/expense-categories";
+import type { CategorySuggestion } from "@/lib/utils/category-suggester";
 
 interface CategorySelectorProps {
   value?: string;
   onValueChange: (value: string) => void;
   placeholder?: string;
   className?: string;
+  suggestions?: CategorySuggestion[]; // Ranked first, with confidence
 }
 
+// Categories not in any group, listed in EXPENSE_CATEGORIES order
+const UNGROUPED_CATEGORIES = EXPENSE_CATEGORY_LIST.filter(
+  (category) => !getCategoryGroup(category)
+);
+
+// Find the key that matches a category display value
+const getCategoryKey = (categoryValue: string) =>
+  Object.keys(EXPENSE_CATEGORIES).find(
+    (key) =>
+      EXPENSE_CATEGORIES[key as keyof typeof EXPENSE_CATEGORIES] ===
+      categoryValue
+  );
+
 export function CategorySelector({
   value,
   onValueChange,
   placeholder = "Select category...",
   className,
+  suggestions = [],
 }: CategorySelectorProps) {
   // Get the selected category details
   const selectedCategoryName = value
@@ -35,6 +52,35 @@ export function CategorySelector({
   const selectedIcon = value ? getCategoryIcon(value) : null;
   const selectedGroup = value ? getCategoryGroup(value) : null;
 
+  // Suggested categories are listed once, at the top
+  const suggested = new Set(suggestions.map((s) => s.category));
+  const sections: Array<[string, readonly string[]]> = [
+    ...Object.entries(EXPENSE_CATEGORY_GROUPS),
+    ["MORE_CATEGORIES", UNGROUPED_CATEGORIES],
+  ];
+
+  const renderItem = (categoryValue: string, confidence?: number) => {
+    const categoryKey = getCategoryKey(categoryValue);
+    const icon = categoryKey ? getCategoryIcon(categoryKey) : null;
+
+    return (
+      <SelectItem
+        key={categoryKey || categoryValue}
+        value={categoryKey || categoryValue}
+      >
+        <div className="flex items-center space-x-2">
+          {icon && <span className="text-sm">{icon}</span>}
+          <span>{categoryValue}</span>
+          {confidence !== undefined && (
+            <Badge variant="outline" className="text-xs ml-2">
+              {Math.round(confidence * 100)}% match
+            </Badge>
+          )}
+        </div>
+      </SelectItem>
+    );
+  };
+
   return (
     <Select value={value} onValueChange={onValueChange}>
       <SelectTrigger className={className}>
@@ -53,38 +99,33 @@ export function CategorySelector({
         </SelectValue>
       </SelectTrigger>
       <SelectContent>
+        {suggestions.length > 0 && (
+          <div>
+            <div className="px-2 py-1.5 text-sm font-semibold text-muted-foreground">
+              SUGGESTED
+            </div>
+            {suggestions.map((suggestion) =>
+              renderItem(suggestion.category, suggestion.confidence)
+            )}
+          </div>
+        )}
+
         {/* Group categories by their group */}
-        {Object.entries(EXPENSE_CATEGORY_GROUPS).map(
-          ([groupName, groupCategories]) => (
+        {sections.map(([groupName, groupCategories]) => {
+          const remaining = groupCategories.filter(
+            (categoryValue) => !suggested.has(categoryValue)
+          );
+          if (remaining.length === 0) return null;
+
+          return (
             <div key={groupName}>
               <div className="px-2 py-1.5 text-sm font-semibold text-muted-foreground">
                 {groupName.replace(/_/g, " ")}
               </div>
-              {groupCategories.map((categoryValue) => {
-                // Find the key that matches this value
-                const categoryKey = Object.keys(EXPENSE_CATEGORIES).find(
-                  (key) =>
-                    EXPENSE_CATEGORIES[
-                      key as keyof typeof EXPENSE_CATEGORIES
-                    ] === categoryValue
-                );
-                const icon = categoryKey ? getCategoryIcon(categoryKey) : null;
-
-                return (
-                  <SelectItem
-                    key={categoryKey || categoryValue}
-                    value={categoryKey || categoryValue}
-                  >
-                    <div className="flex items-center space-x-2">
-                      {icon && <span className="text-sm">{icon}</span>}
-                      <span>{categoryValue}</span>
-                    </div>
-                  </SelectItem>
-                );
-              })}
+              {remaining.map((categoryValue) => renderItem(categoryValue))}
             </div>
-          )
-        )}
+          );
+        })}
       </SelectContent>
     </Select>
   );
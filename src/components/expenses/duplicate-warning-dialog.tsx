@@ -19,10 +19,13 @@ import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import type {
+  DuplicateScoreBreakdown,
+  Expense,
   ExpenseCreateData,
   ExpenseWithDetails,
 } from "@/lib/types/expenses";
 import { formatCurrency } from "@/lib/utils/currency";
+import { scoreDuplicateMatch } from "@/lib/utils/duplicate-detection";
 
 interface DuplicateWarningDialogProps {
   isOpen: boolean;
@@ -30,7 +33,8 @@ interface DuplicateWarningDialogProps {
   onSaveAnyway: () => void;
   onCancel: () => void;
   currentExpense: ExpenseCreateData;
-  duplicateExpense: ExpenseWithDetails;
+  duplicateExpense: Expense | ExpenseWithDetails;
+  score?: DuplicateScoreBreakdown | null;
   loading?: boolean;
 }
 
@@ -41,6 +45,7 @@ export function DuplicateWarningDialog({
   onCancel,
   currentExpense,
   duplicateExpense,
+  score,
   loading = false,
 }: DuplicateWarningDialogProps) {
   const formatDate = (dateString: string) => {
@@ -55,52 +60,15 @@ export function DuplicateWarningDialog({
     }
   };
 
-  const getSimilarityIndicator = () => {
-    let matchCount = 0;
-    const totalChecks = 4;
+  // Use the score from the duplicate check, or work it out for older callers
+  const breakdown =
+    score || scoreDuplicateMatch(currentExpense, duplicateExpense);
+  const percentage = Math.round(breakdown.overall_score * 100);
+  const sameCategory =
+    breakdown.category_match ??
+    currentExpense.category === duplicateExpense.category;
 
-    // Check amount match
-    if (Math.abs(currentExpense.amount - duplicateExpense.amount) < 0.01) {
-      matchCount++;
-    }
-
-    // Check date match (within 1 day)
-    const currentDate = new Date(currentExpense.date);
-    const duplicateDate = new Date(duplicateExpense.date);
-    const daysDiff = Math.abs(
-      (currentDate.getTime() - duplicateDate.getTime()) / (1000 * 60 * 60 * 24)
-    );
-    if (daysDiff <= 1) {
-      matchCount++;
-    }
-
-    // Check category match
-    if (currentExpense.category === duplicateExpense.category) {
-      matchCount++;
-    }
-
-    // Check description similarity (simple word overlap)
-    const currentWords = currentExpense.description.toLowerCase().split(" ");
-    const duplicateWords = duplicateExpense.description
-      .toLowerCase()
-      .split(" ");
-    const commonWords = currentWords.filter((word) =>
-      duplicateWords.includes(word)
-    );
-    const similarity =
-      commonWords.length / Math.max(currentWords.length, duplicateWords.length);
-    if (similarity >= 0.5) {
-      matchCount++;
-    }
-
-    return {
-      matchCount,
-      totalChecks,
-      percentage: (matchCount / totalChecks) * 100,
-    };
-  };
-
-  const similarity = getSimilarityIndicator();
+  const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -127,18 +95,59 @@ export function DuplicateWarningDialog({
             </div>
             <Badge
               variant={
-                similarity.percentage >= 75
+                percentage >= 75
                   ? "destructive"
-                  : similarity.percentage >= 50
+                  : percentage >= 50
                   ? "default"
                   : "secondary"
               }
             >
-              {similarity.matchCount}/{similarity.totalChecks} matches (
-              {Math.round(similarity.percentage)}%)
+              {percentage}% match
             </Badge>
           </div>
 
+          {/* Score Breakdown */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <div className="text-gray-600">Description</div>
+              <div className="font-medium">
+                {formatPercent(breakdown.description_score)}
+              </div>
+              <div className="text-xs text-gray-500">
+                {formatPercent(breakdown.token_set_score)} shared words ·{" "}
+                {formatPercent(breakdown.edit_distance_score)} characters
+              </div>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <div className="text-gray-600">Amount</div>
+              <div className="font-medium">
+                {breakdown.amount_difference === 0
+                  ? "Identical"
+                  : `${formatCurrency(breakdown.amount_difference)} apart`}
+              </div>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <div className="text-gray-600">Date</div>
+              <div className="font-medium">
+                {breakdown.date_difference_days === 0
+                  ? "Same day"
+                  : `${breakdown.date_difference_days} day${
+                      breakdown.date_difference_days !== 1 ? "s" : ""
+                    } apart`}
+              </div>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <div className="text-gray-600">Category</div>
+              <div className="font-medium">
+                {breakdown.category_match === null
+                  ? "Not compared"
+                  : breakdown.category_match
+                  ? "Same"
+                  : "Different"}
+              </div>
+            </div>
+          </div>
+
           {/* Expense Comparison */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             {/* Current Expense */}
@@ -188,8 +197,7 @@ export function DuplicateWarningDialog({
                     <span className="font-medium">
                       {formatCurrency(duplicateExpense.amount)}
                     </span>
-                    {Math.abs(currentExpense.amount - duplicateExpense.amount) <
-                      0.01 && (
+                    {breakdown.amount_difference === 0 && (
                       <Badge variant="outline" className="text-xs">
                         Exact match
                       </Badge>
@@ -198,26 +206,16 @@ export function DuplicateWarningDialog({
                   <div className="flex items-center space-x-2">
                     <Calendar className="h-4 w-4 text-gray-500" />
                     <span>{formatDate(duplicateExpense.date)}</span>
-                    {(() => {
-                      const daysDiff = Math.abs(
-                        (new Date(currentExpense.date).getTime() -
-                          new Date(duplicateExpense.date).getTime()) /
-                          (1000 * 60 * 60 * 24)
-                      );
-                      if (daysDiff <= 1) {
-                        return (
-                          <Badge variant="outline" className="text-xs">
-                            Same day
-                          </Badge>
-                        );
-                      }
-                      return null;
-                    })()}
+                    {breakdown.date_difference_days === 0 && (
+                      <Badge variant="outline" className="text-xs">
+                        Same day
+                      </Badge>
+                    )}
                   </div>
                   <div className="flex items-center space-x-2">
                     <Tag className="h-4 w-4 text-gray-500" />
                     <span>{duplicateExpense.category}</span>
-                    {currentExpense.category === duplicateExpense.category && (
+                    {sameCategory && (
                       <Badge variant="outline" className="text-xs">
                         Same category
                       </Badge>
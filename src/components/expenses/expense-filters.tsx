@@ -1,13 +1,32 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { Search, Filter, X, Calendar } from "lucide-react";
+import {
+  Search,
+  Filter,
+  X,
+  Calendar,
+  Tag,
+  Bookmark,
+  Link2,
+  Trash2,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { CategorySelector } from "./category-selector";
+import { useExpenseTags } from "@/lib/hooks/use-expenses";
+import { useExpenseFilterPresets } from "@/lib/hooks/use-expense-filter-presets";
+import { areFiltersEqual } from "@/lib/utils/expense-filter-params";
 import { ExpenseFilters as ExpenseFiltersType } from "@/lib/types/expenses";
 
 interface ExpenseFiltersProps {
@@ -23,6 +42,15 @@ export function ExpenseFilters({
 }: ExpenseFiltersProps) {
   const [localFilters, setLocalFilters] = useState<ExpenseFiltersType>(filters);
   const [isExpanded, setIsExpanded] = useState(false);
+  const { tags } = useExpenseTags();
+  const {
+    presets,
+    error: presetError,
+    savePreset,
+    deletePreset,
+  } = useExpenseFilterPresets();
+  const [presetName, setPresetName] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
 
   // Update local filters when external filters change
   useEffect(() => {
@@ -50,6 +78,35 @@ export function ExpenseFilters({
     onClearFilters();
   };
 
+  const applyPreset = (presetId: string) => {
+    const preset = presets.find((p) => p.id === presetId);
+    if (!preset) return;
+
+    setLocalFilters(preset.filters);
+    onFiltersChange(preset.filters);
+  };
+
+  const handleSavePreset = async () => {
+    if (!presetName?.trim()) return;
+
+    const saved = await savePreset(presetName, filters);
+    if (saved) setPresetName(null);
+  };
+
+  const handleDeletePreset = async (presetId: string, name: string) => {
+    if (!confirm(`Delete the saved filter "${name}"?`)) return;
+    await deletePreset(presetId);
+  };
+
+  const handleCopyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  };
+
+  // The saved preset matching the current filters, if any
+  const activePreset = presets.find((p) => areFiltersEqual(p.filters, filters));
+
   // Count active filters
   const activeFilterCount = Object.keys(filters).filter(
     (key) =>
@@ -86,11 +143,93 @@ export function ExpenseFilters({
         </div>
       </CardHeader>
 
+      {/* Saved Filters */}
+      {(presets.length > 0 || activeFilterCount > 0) && (
+        <CardContent className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <Bookmark className="h-4 w-4 text-muted-foreground" />
+            {presets.length > 0 && (
+              <Select
+                value={activePreset?.id || ""}
+                onValueChange={applyPreset}
+              >
+                <SelectTrigger className="w-56">
+                  <SelectValue placeholder="Saved filters..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {presets.map((preset) => (
+                    <SelectItem key={preset.id} value={preset.id}>
+                      {preset.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {activePreset && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  handleDeletePreset(activePreset.id, activePreset.name)
+                }
+                title="Delete saved filter"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+            {activeFilterCount > 0 &&
+              !activePreset &&
+              (presetName === null ? (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPresetName("")}
+                >
+                  Save Filters
+                </Button>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={presetName}
+                    onChange={(e) => setPresetName(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleSavePreset()}
+                    placeholder="e.g. Dining this quarter"
+                    maxLength={100}
+                    className="h-8 w-56"
+                    autoFocus
+                  />
+                  <Button
+                    size="sm"
+                    onClick={handleSavePreset}
+                    disabled={!presetName.trim()}
+                  >
+                    Save
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setPresetName(null)}
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              ))}
+            {activeFilterCount > 0 && (
+              <Button variant="ghost" size="sm" onClick={handleCopyLink}>
+                <Link2 className="h-4 w-4 mr-2" />
+                {linkCopied ? "Link Copied" : "Copy Link"}
+              </Button>
+            )}
+          </div>
+          {presetError && <p className="text-sm text-red-600">{presetError}</p>}
+        </CardContent>
+      )}
+
       {isExpanded && (
         <CardContent className="space-y-6">
           {/* Search */}
           <div className="space-y-2">
-            <Label htmlFor="search">Search Description</Label>
+            <Label htmlFor="search">Search Description and Notes</Label>
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
               <Input
@@ -186,6 +325,31 @@ export function ExpenseFilters({
             </div>
           </div>
 
+          {/* Tag */}
+          {tags.length > 0 && (
+            <div className="space-y-2">
+              <Label>Tag</Label>
+              <div className="flex flex-wrap gap-2">
+                {tags.map(({ tag, count }) => (
+                  <Button
+                    key={tag}
+                    variant={localFilters.tag === tag ? "default" : "outline"}
+                    size="sm"
+                    onClick={() =>
+                      localFilters.tag === tag
+                        ? removeFilter("tag")
+                        : updateFilter("tag", tag)
+                    }
+                  >
+                    <Tag className="h-3 w-3 mr-1" />
+                    {tag}
+                    <span className="ml-1 text-xs opacity-70">{count}</span>
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Amount Range */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
@@ -294,6 +458,22 @@ export function ExpenseFilters({
                     </Button>
                   </Badge>
                 )}
+                {localFilters.tag && (
+                  <Badge
+                    variant="secondary"
+                    className="flex items-center space-x-1"
+                  >
+                    <span>Tag: {localFilters.tag}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-auto w-auto p-0 ml-1"
+                      onClick={() => removeFilter("tag")}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </Badge>
+                )}
                 {(localFilters.start_date || localFilters.end_date) && (
                   <Badge
                     variant="secondary"
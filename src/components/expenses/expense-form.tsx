@@ -9,18 +9,33 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { AlertCircle, Loader2, Save, X } from "lucide-react";
 import { CategorySelector } from "./category-selector";
 import { BudgetItemSelector } from "./budget-item-selector";
+import { TagInput } from "./tag-input";
 import { DuplicateWarningDialog } from "./duplicate-warning-dialog";
-import { useExpenseOperations } from "@/lib/hooks/use-expenses";
+import { useExpenseOperations, useExpenseTags } from "@/lib/hooks/use-expenses";
 import { useDuplicateDetection } from "@/lib/hooks/use-duplicate-detection";
-import { ExpenseCreateData } from "@/lib/types/expenses";
+import { useCategorySuggestions } from "@/lib/hooks/use-category-suggestions";
+import { EXPENSE_CATEGORIES } from "@/lib/constants/expense-categories";
+import { getRefundableAmount } from "@/lib/utils/refunds";
+import { formatCurrency } from "@/lib/utils/currency";
+import { ExpenseCreateData, ExpenseWithDetails } from "@/lib/types/expenses";
 
 interface ExpenseFormProps {
+  refundOf?: ExpenseWithDetails | null; // Record a refund of this expense
   onSuccess: () => void;
   onCancel: () => void;
 }
 
-export function ExpenseForm({ onSuccess, onCancel }: ExpenseFormProps) {
+export function ExpenseForm({
+  refundOf,
+  onSuccess,
+  onCancel,
+}: ExpenseFormProps) {
+  const refundableAmount = refundOf
+    ? getRefundableAmount(refundOf.amount, refundOf.refunded_amount || 0)
+    : 0;
+
   const [error, setError] = useState<string | null>(null);
+  const [isRefund, setIsRefund] = useState(!!refundOf);
   const [pendingExpense, setPendingExpense] =
     useState<ExpenseCreateData | null>(null);
   const [showDuplicateWarning, setShowDuplicateWarning] = useState(false);
@@ -29,6 +44,7 @@ export function ExpenseForm({ onSuccess, onCancel }: ExpenseFormProps) {
   const {
     checkForDuplicates,
     duplicateExpense,
+    validationResult,
     loading: duplicateLoading,
     clearDuplicateState,
   } = useDuplicateDetection();
@@ -42,15 +58,33 @@ export function ExpenseForm({ onSuccess, onCancel }: ExpenseFormProps) {
   } = useForm<ExpenseCreateData>({
     defaultValues: {
       date: new Date().toISOString().split("T")[0], // Today's date
-      description: "",
-      category: "",
-      budget_item_id: undefined,
+      description: refundOf ? `Refund: ${refundOf.description}` : "",
+      amount: refundOf ? refundableAmount : undefined,
+      category: refundOf?.category || "",
+      budget_item_id: refundOf?.budget_item_id || undefined,
       type: "EXPENSE",
+      // Refunds keep the original's tags so tag totals net out
+      tags: refundOf?.tags || [],
+      notes: "",
     },
   });
 
   const selectedCategory = watch("category");
   const selectedBudgetItem = watch("budget_item_id");
+  const selectedTags = watch("tags") || [];
+  const { tags: tagSuggestions } = useExpenseTags();
+  const description = watch("description");
+
+  // Rank categories by how similar descriptions were categorized before
+  const { suggestions } = useCategorySuggestions(description);
+  const topSuggestion = suggestions[0];
+  const topSuggestionKey = topSuggestion
+    ? Object.keys(EXPENSE_CATEGORIES).find(
+        (key) =>
+          EXPENSE_CATEGORIES[key as keyof typeof EXPENSE_CATEGORIES] ===
+          topSuggestion.category
+      )
+    : undefined;
 
   const onSubmit = async (data: ExpenseCreateData) => {
     try {
@@ -65,25 +99,48 @@ export function ExpenseForm({ onSuccess, onCancel }: ExpenseFormProps) {
         setError("Amount must be greater than 0");
         return;
       }
-      if (!data.category) {
-        setError("Category is required");
-        return;
-      }
       if (!data.date) {
         setError("Date is required");
         return;
       }
 
-      // If budget item is selected, mark as budget payment
+      if (refundOf && data.amount > refundableAmount) {
+        setError(
+          `Refund cannot exceed the ${formatCurrency(
+            refundableAmount
+          )} left to refund`
+        );
+        return;
+      }
+
+      // Refunds credit any linked budget item; otherwise a linked budget
+      // item marks the expense as a budget payment
       const expenseData: ExpenseCreateData = {
         ...data,
-        type: data.budget_item_id
+        type: isRefund
+          ? ("REFUND" as const)
+          : data.budget_item_id
           ? ("BUDGET_PAYMENT" as const)
           : ("EXPENSE" as const),
+        refund_of_expense_id: refundOf?.id || null,
       };
 
-      // Check for duplicates before creating
-      const duplicateResult = await checkForDuplicates(expenseData);
+      // A refund mirrors the expense it reverses, so it would always look
+      // like a duplicate of it
+      if (isRefund) {
+        const result = await createExpense(expenseData);
+        if (result) {
+          onSuccess();
+        }
+        return;
+      }
+
+      // Check for duplicates before creating. Without a category the rules
+      // pick one on save, so it cannot be part of the comparison.
+      const duplicateResult = await checkForDuplicates(
+        expenseData,
+        expenseData.category ? {} : { check_category: false }
+      );
 
       if (duplicateResult?.is_duplicate && duplicateExpense) {
         // Show duplicate warning dialog
@@ -135,7 +192,13 @@ export function ExpenseForm({ onSuccess, onCancel }: ExpenseFormProps) {
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center justify-between">
-            <span>Add New Expense</span>
+            <span>
+              {refundOf
+                ? "Record Refund"
+                : isRefund
+                ? "Add Refund or Credit"
+                : "Add New Expense"}
+            </span>
             <Button variant="ghost" size="sm" onClick={onCancel}>
               <X className="h-4 w-4" />
             </Button>
@@ -152,6 +215,38 @@ export function ExpenseForm({ onSuccess, onCancel }: ExpenseFormProps) {
               </div>
             )}
 
+            {/* Refund */}
+            {refundOf ? (
+              <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                <div>
+                  <p className="font-medium">{refundOf.description}</p>
+                  <p className="text-sm text-gray-600">
+                    {new Date(refundOf.date).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="font-semibold">
+                    {formatCurrency(refundOf.amount)}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {formatCurrency(refundableAmount)} left to refund
+                  </p>
+                </div>
+              </div>
+            ) : (
+              <label className="flex items-center space-x-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={isRefund}
+                  onChange={(e) => setIsRefund(e.target.checked)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span>
+                  This is a refund, return or credit (reduces your spending)
+                </span>
+              </label>
+            )}
+
             {/* Date and Amount Row */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {/* Date */}
@@ -217,9 +312,26 @@ export function ExpenseForm({ onSuccess, onCancel }: ExpenseFormProps) {
                 value={selectedCategory}
                 onValueChange={(value) => setValue("category", value)}
                 placeholder="Select expense category..."
+                suggestions={suggestions}
               />
+              {!selectedCategory && topSuggestion && topSuggestionKey && (
+                <p className="text-sm text-gray-600">
+                  Suggested from your history:{" "}
+                  <button
+                    type="button"
+                    className="font-medium text-blue-600 hover:underline"
+                    onClick={() => setValue("category", topSuggestionKey)}
+                  >
+                    {topSuggestion.category}
+                  </button>{" "}
+                  ({Math.round(topSuggestion.confidence * 100)}% confidence)
+                </p>
+              )}
               {!selectedCategory && (
-                <p className="text-sm text-red-600">Category is required</p>
+                <p className="text-sm text-gray-600">
+                  Leave blank to let your expense rules choose a category, or
+                  save it as Uncategorized if none match.
+                </p>
               )}
             </div>
 
@@ -234,11 +346,47 @@ export function ExpenseForm({ onSuccess, onCancel }: ExpenseFormProps) {
                 placeholder="Link to a budget item to track spending..."
               />
               <p className="text-sm text-gray-600">
-                Link this expense to a budget item to track your actual spending
-                against your planned budget.
+                {isRefund
+                  ? "Link the budget item the original purchase was paid from to credit it back."
+                  : "Link this expense to a budget item to track your actual spending against your planned budget."}
               </p>
             </div>
 
+            {/* Tags */}
+            <div className="space-y-2">
+              <Label htmlFor="tags">Tags (Optional)</Label>
+              <TagInput
+                id="tags"
+                value={selectedTags}
+                onChange={(tags) => setValue("tags", tags)}
+                suggestions={tagSuggestions}
+              />
+              <p className="text-sm text-gray-600">
+                Group spending across categories, e.g. a trip or a project.
+                Press Enter or comma to add a tag.
+              </p>
+            </div>
+
+            {/* Notes */}
+            <div className="space-y-2">
+              <Label htmlFor="notes">Notes (Optional)</Label>
+              <textarea
+                id="notes"
+                rows={3}
+                placeholder="Anything worth remembering about this expense"
+                className="border-input placeholder:text-muted-foreground focus-visible:border-ring focus-visible:ring-ring/50 flex w-full rounded-md border bg-transparent px-3 py-2 text-base shadow-xs outline-none focus-visible:ring-[3px] md:text-sm"
+                {...register("notes", {
+                  maxLength: {
+                    value: 2000,
+                    message: "Notes must be less than 2000 characters",
+                  },
+                })}
+              />
+              {errors.notes && (
+                <p className="text-sm text-red-600">{errors.notes.message}</p>
+              )}
+            </div>
+
             {/* Actions */}
             <div className="flex justify-end space-x-3 pt-4">
               <Button
@@ -258,7 +406,7 @@ export function ExpenseForm({ onSuccess, onCancel }: ExpenseFormProps) {
                 ) : (
                   <>
                     <Save className="h-4 w-4 mr-2" />
-                    Save Expense
+                    {isRefund ? "Save Refund" : "Save Expense"}
                   </>
                 )}
               </Button>
@@ -276,6 +424,7 @@ export function ExpenseForm({ onSuccess, onCancel }: ExpenseFormProps) {
           onCancel={handleCancelDuplicateWarning}
           currentExpense={pendingExpense}
           duplicateExpense={duplicateExpense}
+          score={validationResult?.duplicate_match?.score}
           loading={loading}
         />
       )}
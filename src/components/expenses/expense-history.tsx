@@ -1,29 +1,105 @@
 "use client";
 
 import { useState, useCallback } from "react";
+import { usePathname, useSearchParams } from "next/navigation";
+import { AlertCircle } from "lucide-react";
+import { ExportMenu } from "@/components/common/export-menu";
 import { ExpenseFilters } from "@/components/expenses/expense-filters";
 import { ExpenseList } from "@/components/expenses/expense-list";
-import { ExpenseFilters as ExpenseFiltersType } from "@/lib/types/expenses";
+import { ExpenseSplitForm } from "@/components/expenses/expense-split-form";
+import { ExpenseForm } from "@/components/expenses/expense-form";
+import {
+  ExpenseFilters as ExpenseFiltersType,
+  ExpenseWithDetails,
+} from "@/lib/types/expenses";
+import { useDataExport } from "@/lib/hooks/use-data-export";
+import {
+  filtersFromSearchParams,
+  filtersToQueryString,
+} from "@/lib/utils/expense-filter-params";
 
 export function ExpenseHistory() {
-  const [filters, setFilters] = useState<ExpenseFiltersType>({});
+  const searchParams = useSearchParams();
+  const pathname = usePathname();
+  // Filters start from the URL so links to filtered views work
+  const [filters, setFilters] = useState<ExpenseFiltersType>(() =>
+    filtersFromSearchParams(searchParams)
+  );
+  const [splitExpenseId, setSplitExpenseId] = useState<string | null>(null);
+  const [refundExpense, setRefundExpense] = useState<ExpenseWithDetails | null>(
+    null
+  );
+
+  const { exporting, error: exportError, exportExpenses } = useDataExport();
+
+  // Mirror filters into the URL without a navigation on every keystroke
+  const syncUrl = useCallback(
+    (newFilters: ExpenseFiltersType) => {
+      const query = filtersToQueryString(newFilters);
+      window.history.replaceState(
+        null,
+        "",
+        query ? `${pathname}?${query}` : pathname
+      );
+    },
+    [pathname]
+  );
 
-  const handleFiltersChange = useCallback((newFilters: ExpenseFiltersType) => {
-    setFilters(newFilters);
-  }, []);
+  const handleFiltersChange = useCallback(
+    (newFilters: ExpenseFiltersType) => {
+      setFilters(newFilters);
+      syncUrl(newFilters);
+    },
+    [syncUrl]
+  );
 
   const handleClearFilters = useCallback(() => {
     setFilters({});
-  }, []);
+    syncUrl({});
+  }, [syncUrl]);
 
   return (
     <div className="space-y-6">
+      <div className="flex items-center justify-end gap-4">
+        {exportError && (
+          <div className="flex items-center space-x-2">
+            <AlertCircle className="h-4 w-4 text-red-600" />
+            <p className="text-sm text-red-600">{exportError}</p>
+          </div>
+        )}
+        <ExportMenu
+          label="Export Expenses"
+          exporting={exporting}
+          onExport={(format) => exportExpenses(filters, format)}
+        />
+      </div>
       <ExpenseFilters
         filters={filters}
         onFiltersChange={handleFiltersChange}
         onClearFilters={handleClearFilters}
       />
-      <ExpenseList filters={filters} />
+      {/* The list refreshes itself via real-time subscriptions */}
+      {splitExpenseId && (
+        <ExpenseSplitForm
+          key={splitExpenseId}
+          expenseId={splitExpenseId}
+          onSuccess={() => setSplitExpenseId(null)}
+          onCancel={() => setSplitExpenseId(null)}
+        />
+      )}
+      {refundExpense && (
+        <ExpenseForm
+          key={refundExpense.id}
+          refundOf={refundExpense}
+          onSuccess={() => setRefundExpense(null)}
+          onCancel={() => setRefundExpense(null)}
+        />
+      )}
+      <ExpenseList
+        filters={filters}
+        onExpenseSplit={(expense) => setSplitExpenseId(expense.id)}
+        onExpenseRefund={setRefundExpense}
+      />
     </div>
   );
 }
@@ -7,6 +7,9 @@ import {
   Calendar,
   DollarSign,
   Filter,
+  Split,
+  Tag,
+  Undo2,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -23,18 +26,23 @@ import {
   getCategoryIcon,
   getCategoryGroup,
 } from "@/lib/constants/expense-categories";
+import { getRefundStatus } from "@/lib/utils/refunds";
 import { ExpenseWithDetails, ExpenseFilters } from "@/lib/types/expenses";
 
 interface ExpenseListProps {
   filters?: ExpenseFilters;
   onExpenseEdit?: (expense: ExpenseWithDetails) => void;
   onExpenseDelete?: (expenseId: string) => void;
+  onExpenseSplit?: (expense: ExpenseWithDetails) => void;
+  onExpenseRefund?: (expense: ExpenseWithDetails) => void;
 }
 
 export function ExpenseList({
   filters,
   onExpenseEdit,
   onExpenseDelete,
+  onExpenseSplit,
+  onExpenseRefund,
 }: ExpenseListProps) {
   const { expenses, loading, error, hasMore, loadMore } = useExpenses(filters);
 
@@ -152,6 +160,8 @@ export function ExpenseList({
               expense={expense}
               onEdit={onExpenseEdit}
               onDelete={onExpenseDelete}
+              onSplit={onExpenseSplit}
+              onRefund={onExpenseRefund}
             />
           ))}
 
@@ -179,9 +189,23 @@ interface ExpenseItemProps {
   expense: ExpenseWithDetails;
   onEdit?: (expense: ExpenseWithDetails) => void;
   onDelete?: (expenseId: string) => void;
+  onSplit?: (expense: ExpenseWithDetails) => void;
+  onRefund?: (expense: ExpenseWithDetails) => void;
 }
 
-function ExpenseItem({ expense, onEdit, onDelete }: ExpenseItemProps) {
+function ExpenseItem({
+  expense,
+  onEdit,
+  onDelete,
+  onSplit,
+  onRefund,
+}: ExpenseItemProps) {
+  const isSplitLine = expense.parent_expense_id !== null;
+  const isRefund = expense.type === "REFUND";
+  const refundStatus = getRefundStatus(
+    expense.amount,
+    expense.refunded_amount || 0
+  );
   const categoryIcon = getCategoryIcon(expense.category);
   const categoryGroup = getCategoryGroup(expense.category);
   const expenseDate = new Date(expense.date);
@@ -215,14 +239,61 @@ function ExpenseItem({ expense, onEdit, onDelete }: ExpenseItemProps) {
                 Budget Payment
               </Badge>
             )}
+            {isSplitLine && (
+              <Badge variant="outline" className="text-xs">
+                <Split className="h-3 w-3 mr-1" />
+                Split
+              </Badge>
+            )}
+            {isRefund && (
+              <Badge
+                variant="outline"
+                className="text-xs text-green-700 border-green-300"
+              >
+                <Undo2 className="h-3 w-3 mr-1" />
+                Refund
+              </Badge>
+            )}
+            {refundStatus === "FULL" && (
+              <Badge variant="secondary" className="text-xs">
+                Refunded
+              </Badge>
+            )}
+            {refundStatus === "PARTIAL" && (
+              <Badge variant="secondary" className="text-xs">
+                Partially refunded (${(expense.refunded_amount || 0).toFixed(2)}
+                )
+              </Badge>
+            )}
           </div>
+          {expense.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-2">
+              {expense.tags.map((tag) => (
+                <Badge key={tag} variant="outline" className="text-xs">
+                  <Tag className="h-3 w-3 mr-1" />
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+          )}
+          {expense.notes && (
+            <p className="text-sm text-muted-foreground mt-1 line-clamp-2">
+              {expense.notes}
+            </p>
+          )}
         </div>
       </div>
 
       <div className="flex items-center space-x-3">
         {/* Amount */}
         <div className="text-right">
-          <div className="font-semibold">${expense.amount.toFixed(2)}</div>
+          {isRefund ? (
+            <div className="font-semibold text-green-600">
+              -${expense.amount.toFixed(2)}
+            </div>
+          ) : (
+            <div className="font-semibold">${expense.amount.toFixed(2)}</div>
+          )}
         </div>
 
         {/* Actions Menu */}
@@ -233,13 +304,25 @@ function ExpenseItem({ expense, onEdit, onDelete }: ExpenseItemProps) {
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent align="end">
-            {onEdit && (
+            {onSplit && (
+              <DropdownMenuItem onClick={() => onSplit(expense)}>
+                <Split className="h-4 w-4 mr-2" />
+                {isSplitLine ? "Edit Split" : "Split"}
+              </DropdownMenuItem>
+            )}
+            {onRefund && !isRefund && refundStatus !== "FULL" && (
+              <DropdownMenuItem onClick={() => onRefund(expense)}>
+                <Undo2 className="h-4 w-4 mr-2" />
+                Record Refund
+              </DropdownMenuItem>
+            )}
+            {onEdit && !isSplitLine && (
               <DropdownMenuItem onClick={() => onEdit(expense)}>
                 <Edit className="h-4 w-4 mr-2" />
                 Edit
               </DropdownMenuItem>
             )}
-            {onDelete && (
+            {onDelete && !isSplitLine && (
               <DropdownMenuItem
                 onClick={() => onDelete(expense.id)}
                 className="text-red-600"
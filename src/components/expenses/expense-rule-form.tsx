@@ -0,0 +1,341 @@
+"use client";
+
+import { useState } from "react";
+import { AlertCircle, FlaskConical, Loader2, Save, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CategorySelector } from "./category-selector";
+import { BudgetItemSelector } from "./budget-item-selector";
+import { ExpenseRulePreviewTable } from "./expense-rule-preview";
+import { useExpenseRulePreview } from "@/lib/hooks/use-expense-rules";
+import { expenseRuleSchema } from "@/lib/schemas/expense-rule";
+import { EXPENSE_CATEGORIES } from "@/lib/constants/expense-categories";
+import type {
+  ExpenseRule,
+  ExpenseRuleFormData,
+} from "@/lib/types/expense-rules";
+
+interface ExpenseRuleFormProps {
+  rule?: ExpenseRule | null;
+  defaultPriority?: number;
+  budgetItemNames?: Record<string, string>;
+  onSubmit: (data: ExpenseRuleFormData) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+// Form inputs are kept as strings until the rule is validated
+interface RuleDraft {
+  name: string;
+  priority: string;
+  is_active: boolean;
+  description_contains: string;
+  description_regex: string;
+  min_amount: string;
+  max_amount: string;
+  set_category: string | null;
+  set_budget_item_id: string | null;
+  set_budget_payment: boolean;
+}
+
+const toDraft = (
+  rule: ExpenseRule | null | undefined,
+  defaultPriority: number
+): RuleDraft => ({
+  name: rule?.name || "",
+  priority: String(rule?.priority ?? defaultPriority),
+  is_active: rule?.is_active ?? true,
+  description_contains: rule?.description_contains || "",
+  description_regex: rule?.description_regex || "",
+  min_amount: rule?.min_amount != null ? String(rule.min_amount) : "",
+  max_amount: rule?.max_amount != null ? String(rule.max_amount) : "",
+  set_category: rule?.set_category || null,
+  set_budget_item_id: rule?.set_budget_item_id || null,
+  set_budget_payment: rule?.set_budget_payment ?? false,
+});
+
+const parseOptionalAmount = (value: string) =>
+  value.trim() === "" ? null : Number(value);
+
+// Rules store the category display value; the selector works with keys
+const categoryKeyFor = (category: string | null) =>
+  Object.keys(EXPENSE_CATEGORIES).find(
+    (key) =>
+      EXPENSE_CATEGORIES[key as keyof typeof EXPENSE_CATEGORIES] === category
+  );
+
+export function ExpenseRuleForm({
+  rule,
+  defaultPriority = 1,
+  budgetItemNames = {},
+  onSubmit,
+  onCancel,
+}: ExpenseRuleFormProps) {
+  const [draft, setDraft] = useState<RuleDraft>(() =>
+    toDraft(rule, defaultPriority)
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const {
+    preview,
+    loading: previewLoading,
+    error: previewError,
+    runPreview,
+    clearPreview,
+  } = useExpenseRulePreview();
+
+  const updateDraft = (updates: Partial<RuleDraft>) => {
+    setDraft((prev) => ({ ...prev, ...updates }));
+    clearPreview();
+  };
+
+  // Validate the draft, reporting the first problem to the user
+  const validateDraft = (): ExpenseRuleFormData | null => {
+    const result = expenseRuleSchema.safeParse({
+      ...draft,
+      priority: Number(draft.priority),
+      min_amount: parseOptionalAmount(draft.min_amount),
+      max_amount: parseOptionalAmount(draft.max_amount),
+    });
+
+    if (!result.success) {
+      setError(result.error.errors[0]?.message || "Invalid rule");
+      return null;
+    }
+
+    setError(null);
+    return result.data;
+  };
+
+  const handleTest = async () => {
+    const data = validateDraft();
+    if (data) await runPreview(data);
+  };
+
+  const handleSave = async () => {
+    const data = validateDraft();
+    if (!data) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(data);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>{rule ? "Edit Rule" : "New Rule"}</span>
+          <Button variant="ghost" size="sm" onClick={onCancel}>
+            <X className="h-4 w-4" />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {(error || previewError) && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <div className="flex items-center space-x-2">
+              <AlertCircle className="h-4 w-4 text-red-600" />
+              <p className="text-sm text-red-600">{error || previewError}</p>
+            </div>
+          </div>
+        )}
+
+        {/* Name and Priority */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="rule-name">Name</Label>
+            <Input
+              id="rule-name"
+              placeholder="e.g., Gas stations"
+              value={draft.name}
+              onChange={(e) => updateDraft({ name: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rule-priority">Priority</Label>
+            <Input
+              id="rule-priority"
+              type="number"
+              min="1"
+              step="1"
+              value={draft.priority}
+              onChange={(e) => updateDraft({ priority: e.target.value })}
+            />
+            <p className="text-xs text-gray-600">Lower numbers run first</p>
+          </div>
+        </div>
+
+        {/* Conditions */}
+        <div className="space-y-4">
+          <div>
+            <h3 className="font-medium">When an expense…</h3>
+            <p className="text-sm text-gray-600">
+              Fill in one or more conditions. All of them must match.
+            </p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-contains">Description contains</Label>
+              <Input
+                id="rule-contains"
+                placeholder="e.g., shell"
+                value={draft.description_contains}
+                onChange={(e) =>
+                  updateDraft({ description_contains: e.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-regex">Description matches pattern</Label>
+              <Input
+                id="rule-regex"
+                placeholder="e.g., ^(shell|chevron)\b"
+                value={draft.description_regex}
+                onChange={(e) =>
+                  updateDraft({ description_regex: e.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-min">Amount at least</Label>
+              <Input
+                id="rule-min"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="0.00"
+                value={draft.min_amount}
+                onChange={(e) => updateDraft({ min_amount: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-max">Amount at most</Label>
+              <Input
+                id="rule-max"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="0.00"
+                value={draft.max_amount}
+                onChange={(e) => updateDraft({ max_amount: e.target.value })}
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="space-y-4">
+          <div>
+            <h3 className="font-medium">Then…</h3>
+            <p className="text-sm text-gray-600">
+              Rules only fill in what was left blank when the expense was
+              entered or imported.
+            </p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Set category</Label>
+              <CategorySelector
+                value={categoryKeyFor(draft.set_category)}
+                onValueChange={(key) =>
+                  updateDraft({
+                    set_category:
+                      EXPENSE_CATEGORIES[
+                        key as keyof typeof EXPENSE_CATEGORIES
+                      ] || key,
+                  })
+                }
+                placeholder="Leave category unchanged"
+              />
+              {draft.set_category && (
+                <Button
+                  type="button"
+                  variant="link"
+                  size="sm"
+                  className="px-0"
+                  onClick={() => updateDraft({ set_category: null })}
+                >
+                  Clear category
+                </Button>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Link budget item</Label>
+              <BudgetItemSelector
+                value={draft.set_budget_item_id || undefined}
+                onValueChange={(value) =>
+                  updateDraft({
+                    set_budget_item_id: value || null,
+                    set_budget_payment: value
+                      ? draft.set_budget_payment
+                      : false,
+                  })
+                }
+                placeholder="Leave budget item unchanged"
+              />
+            </div>
+          </div>
+          <label className="flex items-center space-x-2 text-sm">
+            <input
+              type="checkbox"
+              checked={draft.set_budget_payment}
+              disabled={!draft.set_budget_item_id}
+              onChange={(e) =>
+                updateDraft({ set_budget_payment: e.target.checked })
+              }
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <span>Mark as a budget payment</span>
+          </label>
+          <label className="flex items-center space-x-2 text-sm">
+            <input
+              type="checkbox"
+              checked={draft.is_active}
+              onChange={(e) => updateDraft({ is_active: e.target.checked })}
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <span>Rule is active</span>
+          </label>
+        </div>
+
+        {/* Preview */}
+        {preview && (
+          <ExpenseRulePreviewTable
+            preview={preview}
+            budgetItemNames={budgetItemNames}
+          />
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleTest}
+            disabled={previewLoading || isSubmitting}
+          >
+            {previewLoading ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <FlaskConical className="h-4 w-4 mr-2" />
+            )}
+            Test Against Last 90 Days
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSubmitting}>
+            {isSubmitting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save Rule
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { Edit, Trash2, Wand2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { formatCurrency } from "@/lib/utils/currency";
+import type { ExpenseRule } from "@/lib/types/expense-rules";
+
+interface ExpenseRuleListProps {
+  rules: ExpenseRule[];
+  budgetItemNames?: Record<string, string>;
+  onEdit: (rule: ExpenseRule) => void;
+  onDelete: (rule: ExpenseRule) => void;
+  onToggleActive: (rule: ExpenseRule) => void;
+}
+
+// Human-readable summary of a rule's conditions
+function describeConditions(rule: ExpenseRule): string[] {
+  const conditions: string[] = [];
+
+  if (rule.description_contains) {
+    conditions.push(`Description contains "${rule.description_contains}"`);
+  }
+  if (rule.description_regex) {
+    conditions.push(`Description matches /${rule.description_regex}/`);
+  }
+  if (rule.min_amount !== null && rule.max_amount !== null) {
+    conditions.push(
+      `Amount between ${formatCurrency(rule.min_amount)} and ${formatCurrency(
+        rule.max_amount
+      )}`
+    );
+  } else if (rule.min_amount !== null) {
+    conditions.push(`Amount at least ${formatCurrency(rule.min_amount)}`);
+  } else if (rule.max_amount !== null) {
+    conditions.push(`Amount at most ${formatCurrency(rule.max_amount)}`);
+  }
+
+  return conditions;
+}
+
+export function ExpenseRuleList({
+  rules,
+  budgetItemNames = {},
+  onEdit,
+  onDelete,
+  onToggleActive,
+}: ExpenseRuleListProps) {
+  if (rules.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center">
+          <Wand2 className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            No rules yet
+          </h3>
+          <p className="text-gray-600">
+            Create a rule to categorize matching expenses automatically.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {rules.map((rule) => (
+        <Card key={rule.id} className={rule.is_active ? "" : "opacity-60"}>
+          <CardContent className="p-4">
+            <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+              <div className="space-y-2 min-w-0">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">#{rule.priority}</Badge>
+                  <h3 className="font-medium truncate">{rule.name}</h3>
+                  {!rule.is_active && (
+                    <Badge variant="secondary">Inactive</Badge>
+                  )}
+                </div>
+                <ul className="text-sm text-gray-600 space-y-1">
+                  {describeConditions(rule).map((condition) => (
+                    <li key={condition}>• {condition}</li>
+                  ))}
+                </ul>
+                <div className="flex flex-wrap gap-1">
+                  {rule.set_category && (
+                    <Badge variant="secondary">
+                      Category: {rule.set_category}
+                    </Badge>
+                  )}
+                  {rule.set_budget_item_id && (
+                    <Badge variant="secondary">
+                      Budget item:{" "}
+                      {budgetItemNames[rule.set_budget_item_id] || "Unknown"}
+                    </Badge>
+                  )}
+                  {rule.set_budget_payment && (
+                    <Badge variant="secondary">Budget payment</Badge>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-2 flex-shrink-0">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onToggleActive(rule)}
+                >
+                  {rule.is_active ? "Disable" : "Enable"}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onEdit(rule)}
+                  title="Edit rule"
+                >
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onDelete(rule)}
+                  title="Delete rule"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatCurrency } from "@/lib/utils/currency";
+import { formatDate } from "@/lib/utils/date-utils";
+import type { ExpenseRulePreview } from "@/lib/types/expense-rules";
+
+interface ExpenseRulePreviewTableProps {
+  preview: ExpenseRulePreview;
+  budgetItemNames?: Record<string, string>;
+}
+
+// Matches beyond this are summarised rather than listed
+const MAX_PREVIEW_ROWS = 25;
+
+export function ExpenseRulePreviewTable({
+  preview,
+  budgetItemNames = {},
+}: ExpenseRulePreviewTableProps) {
+  const changedCount = preview.matches.filter(
+    (match) => Object.keys(match.changes).length > 0
+  ).length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium">Test Results</h3>
+        <p className="text-sm text-gray-600">
+          {preview.matches.length} of {preview.scanned_count} expenses since{" "}
+          {formatDate(preview.start_date)} match
+          {changedCount > 0 && ` · ${changedCount} would change`}
+        </p>
+      </div>
+
+      {preview.matches.length === 0 ? (
+        <p className="text-sm text-gray-600 p-4 bg-gray-50 rounded-md">
+          No expenses from the last 90 days match this rule.
+        </p>
+      ) : (
+        <>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead>Current</TableHead>
+                <TableHead>With Rule</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preview.matches
+                .slice(0, MAX_PREVIEW_ROWS)
+                .map(({ expense, changes }) => (
+                  <TableRow key={expense.id}>
+                    <TableCell>{formatDate(expense.date)}</TableCell>
+                    <TableCell>{expense.description}</TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(expense.amount)}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{expense.category}</Badge>
+                    </TableCell>
+                    <TableCell className="space-x-1">
+                      {Object.keys(changes).length === 0 && (
+                        <span className="text-sm text-gray-500">No change</span>
+                      )}
+                      {changes.category && (
+                        <Badge variant="secondary">{changes.category}</Badge>
+                      )}
+                      {changes.budget_item_id && (
+                        <Badge variant="secondary">
+                          {budgetItemNames[changes.budget_item_id] ||
+                            "Budget item"}
+                        </Badge>
+                      )}
+                      {changes.type && (
+                        <Badge variant="secondary">Budget payment</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+            </TableBody>
+          </Table>
+          {preview.matches.length > MAX_PREVIEW_ROWS && (
+            <p className="text-sm text-gray-600">
+              Showing the {MAX_PREVIEW_ROWS} most recent of{" "}
+              {preview.matches.length} matches
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
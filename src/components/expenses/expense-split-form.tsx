@@ -0,0 +1,305 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AlertCircle, Loader2, Plus, Save, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CategorySelector } from "./category-selector";
+import { BudgetItemSelector } from "./budget-item-selector";
+import { useExpenseSplit } from "@/lib/hooks/use-expense-splits";
+import { validateExpenseSplit } from "@/lib/utils/expense-validation";
+import { formatCurrency } from "@/lib/utils/currency";
+import { formatDate } from "@/lib/utils/date-utils";
+import type {
+  Expense,
+  ExpenseSplitLine,
+  SplitExpense,
+} from "@/lib/types/expenses";
+
+interface ExpenseSplitFormProps {
+  expenseId: string; // The transaction or one of its lines
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+// Form inputs are kept as strings until the split is validated
+interface LineDraft {
+  description: string;
+  amount: string;
+  category: string;
+  budget_item_id: string | null;
+}
+
+const toLineDraft = (expense: Expense): LineDraft => ({
+  description: expense.description,
+  amount: expense.amount.toFixed(2),
+  category: expense.category,
+  budget_item_id: expense.budget_item_id,
+});
+
+// Start an unsplit transaction with the whole amount on the first line
+const toDrafts = ({ parent, lines }: SplitExpense): LineDraft[] =>
+  lines.length > 0
+    ? lines.map(toLineDraft)
+    : [
+        toLineDraft(parent),
+        { description: "", amount: "", category: "", budget_item_id: null },
+      ];
+
+const toSplitLines = (drafts: LineDraft[]): ExpenseSplitLine[] =>
+  drafts.map((draft) => ({
+    description: draft.description,
+    amount: Number(draft.amount) || 0,
+    category: draft.category,
+    budget_item_id: draft.budget_item_id,
+  }));
+
+export function ExpenseSplitForm({
+  expenseId,
+  onSuccess,
+  onCancel,
+}: ExpenseSplitFormProps) {
+  const {
+    split,
+    loading,
+    saving,
+    error: splitError,
+    saveSplit,
+    removeSplit,
+  } = useExpenseSplit(expenseId);
+  const [drafts, setDrafts] = useState<LineDraft[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (split) setDrafts(toDrafts(split));
+  }, [split]);
+
+  const updateLine = (index: number, updates: Partial<LineDraft>) => {
+    setDrafts((prev) =>
+      prev.map((draft, i) => (i === index ? { ...draft, ...updates } : draft))
+    );
+  };
+
+  const handleSave = async () => {
+    if (!split) return;
+
+    const lines = toSplitLines(drafts);
+    const validation = validateExpenseSplit(split.parent.amount, lines);
+    if (!validation.is_valid) {
+      setError(validation.errors[0]);
+      return;
+    }
+
+    setError(null);
+    if (await saveSplit(lines)) onSuccess();
+  };
+
+  const handleRemoveSplit = async () => {
+    if (
+      !confirm(
+        "Remove this split? The transaction will be counted as a single expense again."
+      )
+    ) {
+      return;
+    }
+    if (await removeSplit()) onSuccess();
+  };
+
+  if (loading || !split) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          {splitError ? (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4">
+              <div className="flex items-center space-x-2">
+                <AlertCircle className="h-4 w-4 text-red-600" />
+                <p className="text-sm text-red-600">{splitError}</p>
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { parent } = split;
+  const assignedCents = toSplitLines(drafts).reduce(
+    (sum, line) => sum + Math.round(line.amount * 100),
+    0
+  );
+  const remaining = (Math.round(parent.amount * 100) - assignedCents) / 100;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>{parent.is_split ? "Edit Split" : "Split Expense"}</span>
+          <Button variant="ghost" size="sm" onClick={onCancel}>
+            <X className="h-4 w-4" />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {(error || splitError) && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <div className="flex items-center space-x-2">
+              <AlertCircle className="h-4 w-4 text-red-600" />
+              <p className="text-sm text-red-600">{error || splitError}</p>
+            </div>
+          </div>
+        )}
+
+        {/* Transaction */}
+        <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+          <div>
+            <p className="font-medium">{parent.description}</p>
+            <p className="text-sm text-gray-600">{formatDate(parent.date)}</p>
+          </div>
+          <div className="text-right">
+            <p className="font-semibold">{formatCurrency(parent.amount)}</p>
+            <p
+              className={`text-sm ${
+                remaining === 0 ? "text-green-600" : "text-amber-600"
+              }`}
+            >
+              {remaining === 0
+                ? "Fully assigned"
+                : remaining > 0
+                ? `${formatCurrency(remaining)} left to assign`
+                : `${formatCurrency(-remaining)} over the total`}
+            </p>
+          </div>
+        </div>
+
+        {/* Lines */}
+        <div className="space-y-4">
+          {drafts.map((draft, index) => (
+            <div
+              key={index}
+              className="grid grid-cols-1 md:grid-cols-12 gap-3 p-3 border rounded-lg"
+            >
+              <div className="space-y-2 md:col-span-4">
+                <Label htmlFor={`split-description-${index}`}>
+                  Description
+                </Label>
+                <Input
+                  id={`split-description-${index}`}
+                  placeholder="e.g., Groceries"
+                  value={draft.description}
+                  onChange={(e) =>
+                    updateLine(index, { description: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor={`split-amount-${index}`}>Amount</Label>
+                <Input
+                  id={`split-amount-${index}`}
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="0.00"
+                  value={draft.amount}
+                  onChange={(e) =>
+                    updateLine(index, { amount: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-2 md:col-span-3">
+                <Label>Category</Label>
+                <CategorySelector
+                  value={draft.category || undefined}
+                  onValueChange={(category) => updateLine(index, { category })}
+                />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label>Budget Item</Label>
+                <BudgetItemSelector
+                  value={draft.budget_item_id || undefined}
+                  onValueChange={(value) =>
+                    updateLine(index, { budget_item_id: value || null })
+                  }
+                  placeholder="None"
+                />
+              </div>
+              <div className="flex items-end md:col-span-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setDrafts((prev) => prev.filter((_, i) => i !== index))
+                  }
+                  disabled={drafts.length <= 2}
+                  title="Remove line"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              setDrafts((prev) => [
+                ...prev,
+                {
+                  description: parent.description,
+                  amount: remaining > 0 ? remaining.toFixed(2) : "",
+                  category: "",
+                  budget_item_id: null,
+                },
+              ])
+            }
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Line
+          </Button>
+        </div>
+
+        <div className="flex justify-between">
+          <div>
+            {parent.is_split && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleRemoveSplit}
+                disabled={saving}
+                className="text-red-600"
+              >
+                Remove Split
+              </Button>
+            )}
+          </div>
+          <div className="flex space-x-3">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onCancel}
+              disabled={saving}
+            >
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleSave} disabled={saving}>
+              {saving ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="h-4 w-4 mr-2" />
+              )}
+              Save Split
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
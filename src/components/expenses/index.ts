@@ -4,3 +4,13 @@ export { ExpenseList } from "./expense-list";
 export { CategorySelector } from "./category-selector";
 export { ExpenseFilters } from "./expense-filters";
 export { ExpenseHistory } from "./expense-history";
+export { BulkImportValidator } from "./bulk-import-validator";
+export { StatementImportWizard } from "./statement-import-wizard";
+export { ExpenseSplitForm } from "./expense-split-form";
+export { ExpenseRuleForm } from "./expense-rule-form";
+export { ExpenseRuleList } from "./expense-rule-list";
+export { ExpenseRulePreviewTable } from "./expense-rule-preview";
+export { RecurringExpenseForm } from "./recurring-expense-form";
+export { RecurringExpenseList } from "./recurring-expense-list";
+export { PendingRecurringExpenses } from "./pending-recurring-expenses";
+export { TagInput } from "./tag-input";
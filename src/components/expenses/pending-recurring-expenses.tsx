@@ -0,0 +1,68 @@
+"use client";
+
+import { Check, Clock, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { formatCurrency } from "@/lib/utils/currency";
+import { formatDate } from "@/lib/utils/date-utils";
+import type { PendingRecurringExpense } from "@/lib/types/recurring-expenses";
+
+interface PendingRecurringExpensesProps {
+  pending: PendingRecurringExpense[];
+  onConfirm: (draft: PendingRecurringExpense) => void;
+  onDismiss: (draft: PendingRecurringExpense) => void;
+}
+
+export function PendingRecurringExpenses({
+  pending,
+  onConfirm,
+  onDismiss,
+}: PendingRecurringExpensesProps) {
+  if (pending.length === 0) return null;
+
+  return (
+    <Card className="border-amber-200">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-lg">
+          <Clock className="h-5 w-5 text-amber-600" />
+          <span>Awaiting Confirmation ({pending.length})</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {pending.map((draft) => (
+          <div
+            key={draft.id}
+            className="flex items-center justify-between p-3 bg-amber-50 rounded-lg"
+          >
+            <div>
+              <p className="font-medium">
+                {draft.recurring_expense.description}
+              </p>
+              <p className="text-sm text-gray-600">
+                {formatDate(draft.occurrence_date)} •{" "}
+                {draft.recurring_expense.category}
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <span className="font-semibold">
+                {formatCurrency(draft.recurring_expense.amount)}
+              </span>
+              <Button size="sm" onClick={() => onConfirm(draft)}>
+                <Check className="h-4 w-4 mr-1" />
+                Confirm
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onDismiss(draft)}
+                title="Skip this occurrence"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,334 @@
+"use client";
+
+import { useState } from "react";
+import { AlertCircle, Loader2, Save, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CategorySelector } from "./category-selector";
+import { BudgetItemSelector } from "./budget-item-selector";
+import { recurringExpenseSchema } from "@/lib/schemas/recurring-expense";
+import { EXPENSE_CATEGORIES } from "@/lib/constants/expense-categories";
+import { getCadenceOptions } from "@/lib/utils/cadence";
+import { getTodayIsoDate } from "@/lib/utils/recurring-expenses";
+import type { IncomeCadence } from "@/lib/types/pay-periods";
+import type {
+  RecurrenceIntervalUnit,
+  RecurringExpense,
+  RecurringExpenseFormData,
+} from "@/lib/types/recurring-expenses";
+
+interface RecurringExpenseFormProps {
+  recurringExpense?: RecurringExpense | null;
+  onSubmit: (data: RecurringExpenseFormData) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+// Select value for a schedule that is not one of the standard cadences
+const CUSTOM_FREQUENCY = "custom";
+
+const INTERVAL_UNIT_OPTIONS: Array<{
+  value: RecurrenceIntervalUnit;
+  label: string;
+}> = [
+  { value: "DAYS", label: "Days" },
+  { value: "WEEKS", label: "Weeks" },
+  { value: "MONTHS", label: "Months" },
+];
+
+// Form inputs are kept as strings until the schedule is validated
+interface RecurringDraft {
+  description: string;
+  amount: string;
+  category: string | null;
+  budget_item_id: string | null;
+  frequency: IncomeCadence | typeof CUSTOM_FREQUENCY;
+  interval_count: string;
+  interval_unit: RecurrenceIntervalUnit;
+  start_date: string;
+  end_date: string;
+  auto_post: boolean;
+  is_active: boolean;
+}
+
+const toDraft = (
+  recurringExpense: RecurringExpense | null | undefined
+): RecurringDraft => ({
+  description: recurringExpense?.description || "",
+  amount: recurringExpense ? recurringExpense.amount.toFixed(2) : "",
+  category: recurringExpense?.category || null,
+  budget_item_id: recurringExpense?.budget_item_id || null,
+  frequency: recurringExpense
+    ? recurringExpense.cadence || CUSTOM_FREQUENCY
+    : "monthly",
+  interval_count: String(recurringExpense?.interval_count || 1),
+  interval_unit: recurringExpense?.interval_unit || "MONTHS",
+  start_date: recurringExpense?.start_date || getTodayIsoDate(),
+  end_date: recurringExpense?.end_date || "",
+  auto_post: recurringExpense?.auto_post ?? true,
+  is_active: recurringExpense?.is_active ?? true,
+});
+
+// Recurring expenses store the category display value; the selector works with keys
+const categoryKeyFor = (category: string | null) =>
+  Object.keys(EXPENSE_CATEGORIES).find(
+    (key) =>
+      EXPENSE_CATEGORIES[key as keyof typeof EXPENSE_CATEGORIES] === category
+  );
+
+export function RecurringExpenseForm({
+  recurringExpense,
+  onSubmit,
+  onCancel,
+}: RecurringExpenseFormProps) {
+  const [draft, setDraft] = useState<RecurringDraft>(() =>
+    toDraft(recurringExpense)
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const cadenceOptions = getCadenceOptions();
+  const isCustom = draft.frequency === CUSTOM_FREQUENCY;
+
+  const updateDraft = (updates: Partial<RecurringDraft>) => {
+    setDraft((prev) => ({ ...prev, ...updates }));
+  };
+
+  const handleSave = async () => {
+    const result = recurringExpenseSchema.safeParse({
+      description: draft.description,
+      amount: draft.amount.trim() === "" ? undefined : Number(draft.amount),
+      category: draft.category || "",
+      budget_item_id: draft.budget_item_id,
+      cadence: isCustom ? null : draft.frequency,
+      interval_count: isCustom ? Number(draft.interval_count) : null,
+      interval_unit: isCustom ? draft.interval_unit : null,
+      start_date: draft.start_date,
+      end_date: draft.end_date || null,
+      auto_post: draft.auto_post,
+      is_active: draft.is_active,
+    });
+
+    if (!result.success) {
+      setError(result.error.errors[0]?.message || "Invalid recurring expense");
+      return;
+    }
+
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      await onSubmit(result.data);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>
+            {recurringExpense
+              ? "Edit Recurring Expense"
+              : "New Recurring Expense"}
+          </span>
+          <Button variant="ghost" size="sm" onClick={onCancel}>
+            <X className="h-4 w-4" />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <div className="flex items-center space-x-2">
+              <AlertCircle className="h-4 w-4 text-red-600" />
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          </div>
+        )}
+
+        {/* Expense */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="recurring-description">Description</Label>
+            <Input
+              id="recurring-description"
+              placeholder="e.g., Rent"
+              value={draft.description}
+              onChange={(e) => updateDraft({ description: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="recurring-amount">Amount</Label>
+            <Input
+              id="recurring-amount"
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="0.00"
+              value={draft.amount}
+              onChange={(e) => updateDraft({ amount: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Category</Label>
+            <CategorySelector
+              value={categoryKeyFor(draft.category)}
+              onValueChange={(key) =>
+                updateDraft({
+                  category:
+                    EXPENSE_CATEGORIES[
+                      key as keyof typeof EXPENSE_CATEGORIES
+                    ] || key,
+                })
+              }
+            />
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label>Budget Item (Optional)</Label>
+            <BudgetItemSelector
+              value={draft.budget_item_id || undefined}
+              onValueChange={(value) =>
+                updateDraft({ budget_item_id: value || null })
+              }
+              placeholder="None"
+            />
+          </div>
+        </div>
+
+        {/* Schedule */}
+        <div className="space-y-4">
+          <h3 className="font-medium">Schedule</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Repeats</Label>
+              <Select
+                value={draft.frequency}
+                onValueChange={(value: RecurringDraft["frequency"]) =>
+                  updateDraft({ frequency: value })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select frequency" />
+                </SelectTrigger>
+                <SelectContent>
+                  {cadenceOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={CUSTOM_FREQUENCY}>Custom…</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {isCustom && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="recurring-interval">Every</Label>
+                  <Input
+                    id="recurring-interval"
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={draft.interval_count}
+                    onChange={(e) =>
+                      updateDraft({ interval_count: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Unit</Label>
+                  <Select
+                    value={draft.interval_unit}
+                    onValueChange={(value: RecurrenceIntervalUnit) =>
+                      updateDraft({ interval_unit: value })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {INTERVAL_UNIT_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="recurring-start">First Date</Label>
+              <Input
+                id="recurring-start"
+                type="date"
+                value={draft.start_date}
+                onChange={(e) => updateDraft({ start_date: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurring-end">End Date (Optional)</Label>
+              <Input
+                id="recurring-end"
+                type="date"
+                value={draft.end_date}
+                onChange={(e) => updateDraft({ end_date: e.target.value })}
+              />
+            </div>
+          </div>
+          <label className="flex items-center space-x-2 text-sm">
+            <input
+              type="checkbox"
+              checked={draft.auto_post}
+              onChange={(e) => updateDraft({ auto_post: e.target.checked })}
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <span>
+              Post automatically (otherwise a draft is created for you to
+              confirm)
+            </span>
+          </label>
+          <label className="flex items-center space-x-2 text-sm">
+            <input
+              type="checkbox"
+              checked={draft.is_active}
+              onChange={(e) => updateDraft({ is_active: e.target.checked })}
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <span>Recurring expense is active</span>
+          </label>
+        </div>
+
+        <div className="flex justify-end space-x-3">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSubmitting}>
+            {isSubmitting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
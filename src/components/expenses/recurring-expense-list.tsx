@@ -0,0 +1,168 @@
+"use client";
+
+import { Edit, Repeat, Trash2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { formatCurrency } from "@/lib/utils/currency";
+import { formatDate } from "@/lib/utils/date-utils";
+import { formatRecurrence } from "@/lib/utils/recurring-expenses";
+import type {
+  RecurringExpense,
+  UpcomingOccurrence,
+} from "@/lib/types/recurring-expenses";
+
+interface RecurringExpenseListProps {
+  recurringExpenses: RecurringExpense[];
+  upcoming: Record<string, UpcomingOccurrence[]>;
+  budgetItemNames?: Record<string, string>;
+  onEdit: (recurringExpense: RecurringExpense) => void;
+  onDelete: (recurringExpense: RecurringExpense) => void;
+  onSkip: (occurrence: UpcomingOccurrence) => void;
+  onUnskip: (occurrence: UpcomingOccurrence) => void;
+}
+
+const STATUS_LABELS: Record<UpcomingOccurrence["status"], string> = {
+  SCHEDULED: "Scheduled",
+  PENDING: "Awaiting confirmation",
+  POSTED: "Posted",
+  SKIPPED: "Skipped",
+};
+
+export function RecurringExpenseList({
+  recurringExpenses,
+  upcoming,
+  budgetItemNames = {},
+  onEdit,
+  onDelete,
+  onSkip,
+  onUnskip,
+}: RecurringExpenseListProps) {
+  if (recurringExpenses.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center">
+          <Repeat className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            No recurring expenses yet
+          </h3>
+          <p className="text-gray-600">
+            Add bills and subscriptions to post them into each new pay period.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {recurringExpenses.map((recurring) => (
+        <Card
+          key={recurring.id}
+          className={recurring.is_active ? "" : "opacity-60"}
+        >
+          <CardContent className="p-4">
+            <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+              <div className="space-y-2 min-w-0">
+                <div className="flex items-center gap-2">
+                  <h3 className="font-medium truncate">
+                    {recurring.description}
+                  </h3>
+                  <span className="font-semibold">
+                    {formatCurrency(recurring.amount)}
+                  </span>
+                  {!recurring.is_active && (
+                    <Badge variant="secondary">Inactive</Badge>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  <Badge variant="outline">{formatRecurrence(recurring)}</Badge>
+                  <Badge variant="secondary">{recurring.category}</Badge>
+                  {recurring.budget_item_id && (
+                    <Badge variant="secondary">
+                      Budget item:{" "}
+                      {budgetItemNames[recurring.budget_item_id] || "Unknown"}
+                    </Badge>
+                  )}
+                  {!recurring.auto_post && (
+                    <Badge variant="secondary">Needs confirmation</Badge>
+                  )}
+                  {recurring.end_date && (
+                    <Badge variant="secondary">
+                      Ends {formatDate(recurring.end_date)}
+                    </Badge>
+                  )}
+                </div>
+
+                {/* Upcoming occurrences */}
+                {(upcoming[recurring.id] || []).length > 0 && (
+                  <ul className="text-sm text-gray-600 space-y-1">
+                    {upcoming[recurring.id].map((occurrence) => (
+                      <li
+                        key={occurrence.date}
+                        className="flex items-center gap-2"
+                      >
+                        <span
+                          className={
+                            occurrence.status === "SKIPPED"
+                              ? "line-through text-gray-400"
+                              : ""
+                          }
+                        >
+                          {formatDate(occurrence.date)}
+                        </span>
+                        <span className="text-xs text-gray-500">
+                          {STATUS_LABELS[occurrence.status]}
+                        </span>
+                        {occurrence.status === "SCHEDULED" && (
+                          <Button
+                            variant="link"
+                            size="sm"
+                            className="h-auto px-0"
+                            onClick={() => onSkip(occurrence)}
+                          >
+                            Skip
+                          </Button>
+                        )}
+                        {occurrence.status === "SKIPPED" && (
+                          <Button
+                            variant="link"
+                            size="sm"
+                            className="h-auto px-0"
+                            onClick={() => onUnskip(occurrence)}
+                          >
+                            <Undo2 className="h-3 w-3 mr-1" />
+                            Undo
+                          </Button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div className="flex items-center space-x-2 flex-shrink-0">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onEdit(recurring)}
+                  title="Edit recurring expense"
+                >
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onDelete(recurring)}
+                  title="Delete recurring expense"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
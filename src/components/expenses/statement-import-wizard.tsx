@@ -0,0 +1,633 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  AlertCircle,
+  CheckCircle,
+  FileSpreadsheet,
+  Upload,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { BulkImportValidator } from "./bulk-import-validator";
+import { useImportProfiles } from "@/lib/hooks/use-expense-import";
+import {
+  toCsvImportSettings,
+  toExpenseCreateData,
+} from "@/lib/services/expense-import-service";
+import {
+  CSV_DATE_FORMATS,
+  applyCsvMapping,
+  parseCsvFile,
+  reparseCsvFile,
+} from "@/lib/utils/csv-import";
+import {
+  detectStatementFormat,
+  parseOfxStatement,
+  parseQifStatement,
+} from "@/lib/utils/statement-import";
+import { formatCurrency } from "@/lib/utils/currency";
+import type {
+  CsvColumnMapping,
+  CsvDateFormat,
+  CsvDelimiter,
+  CsvImportSettings,
+  StatementParseResult,
+  ExpenseImportResult,
+  ImportAmountSign,
+  ParsedCsvFile,
+  StatementFormat,
+} from "@/lib/types/expenses";
+
+interface StatementImportWizardProps {
+  onComplete: (result: ExpenseImportResult) => void;
+  onCancel: () => void;
+}
+
+type WizardStep = "upload" | "mapping" | "review" | "complete";
+
+const NO_COLUMN = "none";
+const NO_PROFILE = "auto";
+
+const DELIMITER_LABELS: Record<CsvDelimiter, string> = {
+  ",": "Comma (,)",
+  ";": "Semicolon (;)",
+  "\t": "Tab",
+  "|": "Pipe (|)",
+};
+
+const AMOUNT_SIGN_LABELS: Record<ImportAmountSign, string> = {
+  NEGATIVE_IS_EXPENSE: "Negative amounts are spending",
+  POSITIVE_IS_EXPENSE: "Positive amounts are spending",
+  DEBIT_CREDIT_COLUMNS: "Separate debit and credit columns",
+};
+
+const MAPPING_FIELDS: Array<{
+  key: keyof CsvColumnMapping;
+  label: string;
+  required?: boolean;
+}> = [
+  { key: "date", label: "Date", required: true },
+  { key: "description", label: "Description", required: true },
+  { key: "amount", label: "Amount" },
+  { key: "debit", label: "Debit" },
+  { key: "credit", label: "Credit" },
+  { key: "category", label: "Category" },
+];
+
+export function StatementImportWizard({
+  onComplete,
+  onCancel,
+}: StatementImportWizardProps) {
+  const [step, setStep] = useState<WizardStep>("upload");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [format, setFormat] = useState<StatementFormat>("csv");
+  const [fileText, setFileText] = useState("");
+  const [parsed, setParsed] = useState<ParsedCsvFile | null>(null);
+  const [profileId, setProfileId] = useState<string>(NO_PROFILE);
+  const [bankName, setBankName] = useState("");
+  const [accountName, setAccountName] = useState("");
+  const [saveMapping, setSaveMapping] = useState(true);
+  const [mappingResult, setMappingResult] =
+    useState<StatementParseResult | null>(null);
+  const [importResult, setImportResult] = useState<ExpenseImportResult | null>(
+    null
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const { profiles, saveProfile } = useImportProfiles();
+
+  const settings = parsed?.settings;
+
+  // Preview the first rows with the current mapping applied
+  const preview = useMemo(() => {
+    if (!parsed) return null;
+    return applyCsvMapping(
+      parsed.headers,
+      parsed.rows.slice(0, 5),
+      parsed.settings
+    );
+  }, [parsed]);
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      setError(null);
+      const text = await file.text();
+      const fileFormat = detectStatementFormat(file.name, text);
+
+      // OFX and QIF describe their own fields, so there is nothing to map
+      if (fileFormat !== "csv") {
+        const statement =
+          fileFormat === "ofx"
+            ? parseOfxStatement(text, accountName)
+            : parseQifStatement(text, accountName);
+
+        if (
+          statement.rows.length +
+            statement.errors.length +
+            statement.skipped_count ===
+          0
+        ) {
+          setError("The file does not contain any transactions");
+          return;
+        }
+
+        setFileName(file.name);
+        setFormat(fileFormat);
+        setMappingResult(statement);
+        setStep("review");
+        return;
+      }
+
+      let result = parseCsvFile(text);
+
+      const profile = profiles.find((p) => p.id === profileId);
+      if (profile) {
+        result = reparseCsvFile(text, toCsvImportSettings(profile));
+        setBankName(profile.bank_name);
+      }
+
+      if (result.rows.length === 0) {
+        setError("The file does not contain any transactions");
+        return;
+      }
+
+      setFileName(file.name);
+      setFormat("csv");
+      setFileText(text);
+      setParsed(result);
+      setStep("mapping");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read file");
+    }
+  };
+
+  const updateSettings = (updates: Partial<CsvImportSettings>) => {
+    if (!parsed) return;
+
+    const nextSettings = { ...parsed.settings, ...updates };
+
+    // Delimiter and header changes alter the row structure
+    if (updates.delimiter !== undefined || updates.has_header !== undefined) {
+      setParsed(reparseCsvFile(fileText, nextSettings));
+    } else {
+      setParsed({ ...parsed, settings: nextSettings });
+    }
+  };
+
+  const updateMapping = (field: keyof CsvColumnMapping, value: string) => {
+    if (!settings) return;
+
+    updateSettings({
+      column_mapping: {
+        ...settings.column_mapping,
+        [field]: value === NO_COLUMN ? null : Number(value),
+      },
+    });
+  };
+
+  const handleContinue = async () => {
+    if (!parsed || !settings) return;
+
+    const { column_mapping: mapping, amount_sign } = settings;
+    if (mapping.date === null || mapping.description === null) {
+      setError("Map the date and description columns to continue");
+      return;
+    }
+    if (amount_sign === "DEBIT_CREDIT_COLUMNS" && mapping.debit === null) {
+      setError("Map the debit column to continue");
+      return;
+    }
+    if (amount_sign !== "DEBIT_CREDIT_COLUMNS" && mapping.amount === null) {
+      setError("Map the amount column to continue");
+      return;
+    }
+
+    setError(null);
+    const result = applyCsvMapping(parsed.headers, parsed.rows, settings);
+
+    if (saveMapping && bankName.trim()) {
+      await saveProfile(bankName, settings);
+    }
+
+    setMappingResult(result);
+    setStep("review");
+  };
+
+  const handleImportSuccess = (result: ExpenseImportResult) => {
+    // Rows rejected while mapping are reported alongside import failures
+    const mappingErrors = mappingResult?.errors || [];
+    setImportResult({
+      ...result,
+      error_count: result.error_count + mappingErrors.length,
+      errors: [...mappingErrors, ...result.errors],
+    });
+    setStep("complete");
+  };
+
+  const handleBackFromReview = () => {
+    if (format === "csv") {
+      setStep("mapping");
+      return;
+    }
+
+    setMappingResult(null);
+    setFileName(null);
+    setStep("upload");
+  };
+
+  const expenses = useMemo(
+    () => (mappingResult ? mappingResult.rows.map(toExpenseCreateData) : []),
+    [mappingResult]
+  );
+
+  if (step === "review" && mappingResult) {
+    if (expenses.length === 0) {
+      return (
+        <Card>
+          <CardHeader>
+            <CardTitle>No expenses found</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              None of the rows could be imported as expenses.{" "}
+              {mappingResult.skipped_count} credit
+              {mappingResult.skipped_count !== 1 ? "s were" : " was"} skipped
+              and {mappingResult.errors.length} row
+              {mappingResult.errors.length !== 1 ? "s" : ""} had errors.
+            </p>
+            <div className="flex justify-end space-x-3">
+              <Button variant="outline" onClick={handleBackFromReview}>
+                {format === "csv" ? "Back to Mapping" : "Back"}
+              </Button>
+              <Button variant="outline" onClick={onCancel}>
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    return (
+      <BulkImportValidator
+        expenses={expenses}
+        onSuccess={handleImportSuccess}
+        onCancel={handleBackFromReview}
+      />
+    );
+  }
+
+  if (step === "complete" && importResult) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <CheckCircle className="h-5 w-5 text-green-600" />
+            <span>Import Complete</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="text-center p-3 bg-green-50 rounded-lg">
+              <div className="text-2xl font-bold text-green-600">
+                {importResult.success_count}
+              </div>
+              <div className="text-sm text-green-800">Imported</div>
+            </div>
+            <div className="text-center p-3 bg-amber-50 rounded-lg">
+              <div className="text-2xl font-bold text-amber-600">
+                {importResult.duplicate_count}
+              </div>
+              <div className="text-sm text-amber-800">Duplicates Skipped</div>
+            </div>
+            <div className="text-center p-3 bg-blue-50 rounded-lg">
+              <div className="text-2xl font-bold text-blue-600">
+                {mappingResult?.skipped_count || 0}
+              </div>
+              <div className="text-sm text-blue-800">Credits Skipped</div>
+            </div>
+            <div className="text-center p-3 bg-red-50 rounded-lg">
+              <div className="text-2xl font-bold text-red-600">
+                {importResult.error_count}
+              </div>
+              <div className="text-sm text-red-800">Errors</div>
+            </div>
+          </div>
+
+          {importResult.errors.length > 0 && (
+            <div className="max-h-48 overflow-y-auto space-y-1 text-sm">
+              {importResult.errors.map((rowError, index) => (
+                <p key={index} className="text-red-600">
+                  Row {rowError.row}: {rowError.error}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <Button onClick={() => onComplete(importResult)}>Done</Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            <span>Import Bank Statement</span>
+            {fileName && <Badge variant="outline">{fileName}</Badge>}
+          </div>
+          <Button variant="ghost" size="sm" onClick={onCancel}>
+            <X className="h-4 w-4" />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <div className="flex items-center space-x-2">
+              <AlertCircle className="h-4 w-4 text-red-600" />
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          </div>
+        )}
+
+        {step === "upload" && (
+          <div className="space-y-4">
+            {profiles.length > 0 && (
+              <div className="space-y-2">
+                <Label>Saved Bank Mapping</Label>
+                <Select value={profileId} onValueChange={setProfileId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Detect automatically" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PROFILE}>
+                      Detect automatically
+                    </SelectItem>
+                    {profiles.map((profile) => (
+                      <SelectItem key={profile.id} value={profile.id}>
+                        {profile.bank_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="account-name">Account Name (OFX and QIF)</Label>
+              <Input
+                id="account-name"
+                value={accountName}
+                onChange={(e) => setAccountName(e.target.value)}
+                placeholder="e.g. Visa ending 1234"
+              />
+              <p className="text-sm text-gray-600">
+                QIF files, and OFX files without account details, cannot tell
+                accounts apart. Name the account so re-importing the same
+                statement skips what is already there; without it, possible
+                repeats are flagged for review instead.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="statement-file">
+                Statement File (CSV, OFX, QFX or QIF)
+              </Label>
+              <Input
+                id="statement-file"
+                type="file"
+                accept=".csv,.txt,.ofx,.qfx,.qif,text/csv"
+                onChange={(e) => handleFileChange(e.target.files?.[0])}
+              />
+              <p className="text-sm text-gray-600">
+                For CSV files the delimiter, date format and column layout are
+                detected automatically and can be adjusted on the next step.
+                OFX, QFX and QIF files go straight to review, and transactions
+                already imported from an earlier statement are skipped.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {step === "mapping" && parsed && settings && (
+          <div className="space-y-6">
+            {/* File Settings */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Delimiter</Label>
+                <Select
+                  value={settings.delimiter}
+                  onValueChange={(value) =>
+                    updateSettings({ delimiter: value as CsvDelimiter })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(DELIMITER_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Date Format</Label>
+                <Select
+                  value={settings.date_format}
+                  onValueChange={(value) =>
+                    updateSettings({ date_format: value as CsvDateFormat })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CSV_DATE_FORMATS.map((format) => (
+                      <SelectItem key={format} value={format}>
+                        {format}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Amount Sign</Label>
+                <Select
+                  value={settings.amount_sign}
+                  onValueChange={(value) =>
+                    updateSettings({ amount_sign: value as ImportAmountSign })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(AMOUNT_SIGN_LABELS).map(
+                      ([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <label className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={settings.has_header}
+                onChange={(e) =>
+                  updateSettings({ has_header: e.target.checked })
+                }
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <span>First row contains column names</span>
+            </label>
+
+            {/* Column Mapping */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {MAPPING_FIELDS.map((field) => (
+                <div key={field.key} className="space-y-2">
+                  <Label>
+                    {field.label}
+                    {field.required && " *"}
+                  </Label>
+                  <Select
+                    value={
+                      settings.column_mapping[field.key] === null
+                        ? NO_COLUMN
+                        : String(settings.column_mapping[field.key])
+                    }
+                    onValueChange={(value) => updateMapping(field.key, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_COLUMN}>Not mapped</SelectItem>
+                      {parsed.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            {/* Preview */}
+            {preview && (
+              <div className="space-y-2">
+                <Label>Preview</Label>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.map((row, index) => (
+                      <TableRow key={index}>
+                        <TableCell>{row.date}</TableCell>
+                        <TableCell>{row.description}</TableCell>
+                        <TableCell>{row.category || "Uncategorized"}</TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(row.amount)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <p className="text-sm text-gray-600">
+                  {parsed.rows.length} rows in file
+                  {preview.skipped_count > 0 &&
+                    ` · ${preview.skipped_count} credits in preview will be skipped`}
+                  {preview.errors.length > 0 &&
+                    ` · ${preview.errors.length} preview rows have errors: ${preview.errors[0].error}`}
+                </p>
+              </div>
+            )}
+
+            {/* Save Mapping */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="bank-name">Bank Name</Label>
+                <Input
+                  id="bank-name"
+                  placeholder="e.g., Chase Checking"
+                  value={bankName}
+                  onChange={(e) => setBankName(e.target.value)}
+                />
+              </div>
+              <label className="flex items-center space-x-2 text-sm pb-2">
+                <input
+                  type="checkbox"
+                  checked={saveMapping}
+                  onChange={(e) => setSaveMapping(e.target.checked)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span>Remember this mapping for future imports</span>
+              </label>
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setParsed(null);
+                  setFileName(null);
+                  setStep("upload");
+                }}
+              >
+                Back
+              </Button>
+              <Button onClick={handleContinue}>
+                <Upload className="h-4 w-4 mr-2" />
+                Review Expenses
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+import { Tag, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  MAX_TAGS,
+  normalizeTags,
+  parseTagInput,
+} from "@/lib/utils/expense-tags";
+import type { TagUsage } from "@/lib/types/expenses";
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  suggestions?: TagUsage[];
+  placeholder?: string;
+  id?: string;
+}
+
+// Tags suggested below the input while typing
+const MAX_SUGGESTIONS = 6;
+
+export function TagInput({
+  value,
+  onChange,
+  suggestions = [],
+  placeholder = "Add tags, e.g. vacation-2026",
+  id,
+}: TagInputProps) {
+  const [input, setInput] = useState("");
+
+  const addTags = (tags: string[]) => {
+    onChange(normalizeTags([...value, ...tags]));
+    setInput("");
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter((t) => t !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      // Keep Enter from submitting the surrounding form
+      e.preventDefault();
+      if (input.trim()) addTags(parseTagInput(input));
+    } else if (e.key === "Backspace" && !input && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    }
+  };
+
+  const query = input.trim().toLowerCase();
+  const matchingSuggestions = suggestions
+    .filter(
+      ({ tag }) => !value.includes(tag) && (!query || tag.includes(query))
+    )
+    .slice(0, MAX_SUGGESTIONS);
+  const isFull = value.length >= MAX_TAGS;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 rounded-md border px-3 py-2">
+        {value.map((tag) => (
+          <Badge
+            key={tag}
+            variant="secondary"
+            className="flex items-center space-x-1"
+          >
+            <Tag className="h-3 w-3" />
+            <span>{tag}</span>
+            <button
+              type="button"
+              className="ml-1 text-muted-foreground hover:text-foreground"
+              onClick={() => removeTag(tag)}
+              aria-label={`Remove tag ${tag}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        <Input
+          id={id}
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => input.trim() && addTags(parseTagInput(input))}
+          placeholder={
+            isFull ? `Up to ${MAX_TAGS} tags` : value.length ? "" : placeholder
+          }
+          disabled={isFull}
+          className="h-7 flex-1 min-w-[8rem] border-0 p-0 shadow-none focus-visible:ring-0"
+        />
+      </div>
+      {!isFull && matchingSuggestions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1 text-sm text-gray-600">
+          <span>Your tags:</span>
+          {matchingSuggestions.map(({ tag }) => (
+            <button
+              key={tag}
+              type="button"
+              className="rounded-full border px-2 py-0.5 text-xs hover:bg-muted"
+              onClick={() => addTags([tag])}
+            >
+              {tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
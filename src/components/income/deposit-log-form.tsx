@@ -0,0 +1,153 @@
+"use client";
+
+import { useState } from "react";
+import { AlertCircle, Loader2, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { incomeDepositSchema } from "@/lib/schemas/income-deposit";
+import { getTodayIsoDate } from "@/lib/utils/recurring-expenses";
+import type { IncomeSource } from "@/types/database";
+import type { IncomeDepositFormData } from "@/lib/types/income-deposits";
+
+interface DepositLogFormProps {
+  incomeSources: IncomeSource[];
+  onSubmit: (data: IncomeDepositFormData) => Promise<boolean>;
+}
+
+// Form inputs are kept as strings until the deposit is validated
+interface DepositDraft {
+  income_source_id: string;
+  deposit_date: string;
+  amount: string;
+  notes: string;
+}
+
+const emptyDraft = (incomeSources: IncomeSource[]): DepositDraft => ({
+  income_source_id: incomeSources.length === 1 ? incomeSources[0].id : "",
+  deposit_date: getTodayIsoDate(),
+  amount: "",
+  notes: "",
+});
+
+export function DepositLogForm({
+  incomeSources,
+  onSubmit,
+}: DepositLogFormProps) {
+  const [draft, setDraft] = useState<DepositDraft>(() =>
+    emptyDraft(incomeSources)
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const updateDraft = (updates: Partial<DepositDraft>) => {
+    setDraft((prev) => ({ ...prev, ...updates }));
+  };
+
+  const handleSave = async () => {
+    const result = incomeDepositSchema.safeParse({
+      income_source_id: draft.income_source_id,
+      deposit_date: draft.deposit_date,
+      amount: draft.amount.trim() === "" ? undefined : Number(draft.amount),
+      notes: draft.notes,
+    });
+
+    if (!result.success) {
+      setError(result.error.errors[0]?.message || "Invalid deposit");
+      return;
+    }
+
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      if (await onSubmit(result.data)) {
+        setDraft(emptyDraft(incomeSources));
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="flex items-center space-x-2">
+            <AlertCircle className="h-4 w-4 text-red-600" />
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label>Income Source</Label>
+          <Select
+            value={draft.income_source_id}
+            onValueChange={(value) => updateDraft({ income_source_id: value })}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select source" />
+            </SelectTrigger>
+            <SelectContent>
+              {incomeSources.map((source) => (
+                <SelectItem key={source.id} value={source.id}>
+                  {source.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="deposit-date">Date Received</Label>
+          <Input
+            id="deposit-date"
+            type="date"
+            value={draft.deposit_date}
+            onChange={(e) => updateDraft({ deposit_date: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="deposit-amount">Amount</Label>
+          <Input
+            id="deposit-amount"
+            type="number"
+            step="0.01"
+            min="0"
+            placeholder="0.00"
+            value={draft.amount}
+            onChange={(e) => updateDraft({ amount: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="deposit-notes">Notes (Optional)</Label>
+        <Input
+          id="deposit-notes"
+          placeholder="e.g., Client invoice #1042"
+          value={draft.notes}
+          onChange={(e) => updateDraft({ notes: e.target.value })}
+        />
+      </div>
+
+      <div className="flex justify-end">
+        <Button type="button" onClick={handleSave} disabled={isSubmitting}>
+          {isSubmitting ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Plus className="h-4 w-4 mr-2" />
+          )}
+          Log Deposit
+        </Button>
+      </div>
+    </div>
+  );
+}
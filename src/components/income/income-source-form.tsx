@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -21,14 +21,45 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { ArrowLeft, Loader2 } from "lucide-react";
+import { ArrowLeft, Loader2, Plus, Trash2 } from "lucide-react";
 import { useAuth } from "@/lib/auth/auth-context";
 import {
   createIncomeSource,
   updateIncomeSource,
 } from "@/lib/database/client-mutations";
-import { getCadenceOptions } from "@/lib/utils/cadence";
-import type { IncomeSource, IncomeCadence } from "@/types/database";
+import {
+  getBusinessDayAdjustmentOptions,
+  getCadenceOptions,
+  getHolidayCalendarOptions,
+} from "@/lib/utils/cadence";
+import { getUpcomingPayDates } from "@/lib/utils/pay-period-calculations";
+import {
+  getAnchorDays,
+  validateAnchorDays,
+} from "../../../supabase/functions/_shared/pay-schedule";
+import {
+  calculatePaycheckBreakdown,
+  parsePaycheckDeductions,
+  validatePaycheckDeductions,
+  PAYCHECK_DEDUCTION_TYPES,
+  type PaycheckDeduction,
+  type PaycheckDeductionType,
+} from "../../../supabase/functions/_shared/paycheck";
+import { formatCurrency } from "@/lib/utils/currency";
+import type {
+  BusinessDayAdjustment,
+  HolidayCalendar,
+  IncomeSource,
+  IncomeCadence,
+  Json,
+} from "@/types/database";
+
+const DEDUCTION_TYPE_LABELS: Record<PaycheckDeductionType, string> = {
+  PRE_TAX: "Pre-tax (401k, HSA)",
+  TAX: "Tax",
+  POST_TAX: "Post-tax (Roth, dues)",
+  EMPLOYER_MATCH: "Employer match",
+};
 
 // Form validation schema
 const incomeSourceSchema = z
@@ -49,11 +80,44 @@ const incomeSourceSchema = z
     ]),
     start_date: z.string().min(1, "Start date is required"),
     end_date: z.string().optional(),
+    pay_anchor_days: z.array(z.number().or(z.nan())), // NaN while a day is blank
+    business_day_adjustment: z.enum(["NONE", "PREVIOUS", "NEXT"]),
+    holiday_calendar: z.enum(["NONE", "US_FEDERAL", "US_BANK"]),
+    is_variable: z.boolean(),
+    paycheck_deductions: z.array(
+      z.object({
+        name: z.string(),
+        type: z.enum(["PRE_TAX", "TAX", "POST_TAX", "EMPLOYER_MATCH"]),
+        amount: z.number().or(z.nan()), // NaN while an amount is blank
+      })
+    ),
   })
   .refine((data) => data.net_amount <= data.gross_amount, {
     message: "Net amount cannot be greater than gross amount",
     path: ["net_amount"],
   })
+  .superRefine((data, ctx) => {
+    const anchorError = validateAnchorDays(data.cadence, data.pay_anchor_days);
+    if (anchorError) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: anchorError,
+        path: ["pay_anchor_days"],
+      });
+    }
+
+    const deductionError = validatePaycheckDeductions(
+      data.gross_amount,
+      data.paycheck_deductions
+    );
+    if (deductionError) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: deductionError,
+        path: ["paycheck_deductions"],
+      });
+    }
+  })
   .refine(
     (data) => {
       if (!data.end_date) return true; // End date is optional
@@ -98,15 +162,122 @@ export function IncomeSourceForm({
           cadence: incomeSource.cadence,
           start_date: incomeSource.start_date,
           end_date: incomeSource.end_date || "",
+          pay_anchor_days: getAnchorDays(incomeSource.cadence, {
+            anchor_days: incomeSource.pay_anchor_days,
+          }),
+          business_day_adjustment: incomeSource.business_day_adjustment,
+          holiday_calendar: incomeSource.holiday_calendar,
+          is_variable: incomeSource.is_variable,
+          paycheck_deductions: parsePaycheckDeductions(
+            incomeSource.paycheck_deductions
+          ),
         }
       : {
           start_date: new Date().toISOString().split("T")[0], // Today's date
           end_date: "",
+          pay_anchor_days: [],
+          business_day_adjustment: "NONE",
+          holiday_calendar: "NONE",
+          is_variable: false,
+          paycheck_deductions: [],
         },
   });
 
   const cadenceOptions = getCadenceOptions();
   const selectedCadence = watch("cadence");
+  const anchorDays = watch("pay_anchor_days");
+  const businessDayAdjustment = watch("business_day_adjustment");
+  const holidayCalendar = watch("holiday_calendar");
+  const startDate = watch("start_date");
+  const isVariable = watch("is_variable");
+  const grossAmount = watch("gross_amount");
+  const deductions = watch("paycheck_deductions");
+
+  // With deductions entered, take-home pay is worked out from them
+  const hasDeductions = deductions.length > 0;
+  const breakdown = calculatePaycheckBreakdown(
+    Number.isNaN(grossAmount) ? 0 : grossAmount || 0,
+    deductions.map((deduction) => ({
+      ...deduction,
+      amount: Number.isNaN(deduction.amount) ? 0 : deduction.amount,
+    }))
+  );
+
+  useEffect(() => {
+    if (hasDeductions) {
+      setValue("net_amount", breakdown.net);
+    }
+  }, [hasDeductions, breakdown.net, setValue]);
+
+  const handleCadenceChange = (value: IncomeCadence) => {
+    setValue("cadence", value);
+    // Each cadence takes a different number of pay days
+    setValue("pay_anchor_days", getAnchorDays(value));
+  };
+
+  const handleVariableChange = (checked: boolean) => {
+    setValue("is_variable", checked);
+    // Variable income is budgeted a month at a time from logged deposits
+    if (checked) {
+      handleCadenceChange("monthly");
+      setValue("pay_anchor_days", []);
+      setValue("business_day_adjustment", "NONE");
+      setValue("holiday_calendar", "NONE");
+      // Deposits arrive already net, so there is no paycheck to break down
+      setValue("paycheck_deductions", []);
+    }
+  };
+
+  const addDeduction = () => {
+    setValue("paycheck_deductions", [
+      ...deductions,
+      { name: "", type: "PRE_TAX", amount: NaN },
+    ]);
+  };
+
+  const updateDeduction = (
+    index: number,
+    updates: Partial<PaycheckDeduction>
+  ) => {
+    setValue(
+      "paycheck_deductions",
+      deductions.map((deduction, i) =>
+        i === index ? { ...deduction, ...updates } : deduction
+      )
+    );
+  };
+
+  const removeDeduction = (index: number) => {
+    setValue(
+      "paycheck_deductions",
+      deductions.filter((_, i) => i !== index)
+    );
+  };
+
+  const setAnchorDay = (index: number, value: string) => {
+    const days = [...anchorDays];
+    days[index] = value === "" ? NaN : Number(value);
+    setValue("pay_anchor_days", days);
+  };
+
+  const today = new Date().toISOString().split("T")[0];
+  const upcomingPayDates =
+    selectedCadence &&
+    startDate &&
+    !isVariable &&
+    !validateAnchorDays(selectedCadence, anchorDays)
+      ? getUpcomingPayDates(
+          selectedCadence,
+          {
+            anchor_days: anchorDays,
+            business_day_adjustment: businessDayAdjustment,
+            holiday_calendar: holidayCalendar,
+            income_start_date: startDate,
+          },
+          4,
+          startDate > today ? startDate : today
+        )
+      : [];
 
   const onSubmit = async (data: IncomeSourceFormData) => {
     if (!user) {
@@ -135,6 +306,13 @@ export function IncomeSourceForm({
           cadence: data.cadence,
           start_date: data.start_date,
           end_date: data.end_date || null,
+          pay_anchor_days: data.pay_anchor_days.length
+            ? data.pay_anchor_days
+            : null,
+          business_day_adjustment: data.business_day_adjustment,
+          holiday_calendar: data.holiday_calendar,
+          is_variable: data.is_variable,
+          paycheck_deductions: data.paycheck_deductions as unknown as Json,
           updated_at: new Date().toISOString(),
         });
 
@@ -152,6 +330,13 @@ export function IncomeSourceForm({
           cadence: data.cadence,
           start_date: data.start_date,
           end_date: data.end_date || null,
+          pay_anchor_days: data.pay_anchor_days.length
+            ? data.pay_anchor_days
+            : null,
+          business_day_adjustment: data.business_day_adjustment,
+          holiday_calendar: data.holiday_calendar,
+          is_variable: data.is_variable,
+          paycheck_deductions: data.paycheck_deductions as unknown as Json,
           is_active: true,
         });
 
@@ -211,9 +396,31 @@ export function IncomeSourceForm({
             )}
           </div>
 
+          {/* Variable Income */}
+          <div className="space-y-1">
+            <label className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={isVariable}
+                onChange={(e) => handleVariableChange(e.target.checked)}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <span>Variable income (gig or freelance work)</span>
+            </label>
+            <p className="text-xs text-gray-500">
+              Log each deposit as it arrives and fund budget items in priority
+              order. Monthly budgets use your baseline month once there is
+              deposit history.
+            </p>
+          </div>
+
           {/* Gross Amount */}
           <div className="space-y-2">
-            <Label htmlFor="gross_amount">Gross Amount (before taxes)</Label>
+            <Label htmlFor="gross_amount">
+              {isVariable
+                ? "Typical Monthly Gross (estimate)"
+                : "Gross Amount (before taxes)"}
+            </Label>
             <Input
               id="gross_amount"
               type="number"
@@ -231,15 +438,26 @@ export function IncomeSourceForm({
 
           {/* Net Amount */}
           <div className="space-y-2">
-            <Label htmlFor="net_amount">Net Amount (after taxes)</Label>
+            <Label htmlFor="net_amount">
+              {isVariable
+                ? "Typical Monthly Net (estimate)"
+                : "Net Amount (after taxes)"}
+            </Label>
             <Input
               id="net_amount"
               type="number"
               step="0.01"
               min="0"
               placeholder="0.00"
+              readOnly={hasDeductions}
+              className={hasDeductions ? "bg-gray-50" : undefined}
               {...register("net_amount", { valueAsNumber: true })}
             />
+            {hasDeductions && (
+              <p className="text-xs text-gray-500">
+                Worked out from your paycheck deductions
+              </p>
+            )}
             {errors.net_amount && (
               <p className="text-sm text-red-600">
                 {errors.net_amount.message}
@@ -247,15 +465,130 @@ export function IncomeSourceForm({
             )}
           </div>
 
+          {/* Paycheck Deductions */}
+          {!isVariable && (
+            <div className="space-y-4 rounded-md border p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <Label>Paycheck Deductions (Optional)</Label>
+                  <p className="text-xs text-gray-500">
+                    What comes out of each paycheck. Your net amount is worked
+                    out from these.
+                  </p>
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={addDeduction}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add
+                </Button>
+              </div>
+
+              {deductions.map((deduction, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2">
+                  <Input
+                    className="col-span-5"
+                    placeholder="e.g., 401k, Federal tax"
+                    value={deduction.name}
+                    onChange={(e) =>
+                      updateDeduction(index, { name: e.target.value })
+                    }
+                  />
+                  <div className="col-span-4">
+                    <Select
+                      value={deduction.type}
+                      onValueChange={(value: PaycheckDeductionType) =>
+                        updateDeduction(index, { type: value })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PAYCHECK_DEDUCTION_TYPES.map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {DEDUCTION_TYPE_LABELS[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Input
+                    className="col-span-2"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="0.00"
+                    value={
+                      Number.isNaN(deduction.amount) ? "" : deduction.amount
+                    }
+                    onChange={(e) =>
+                      updateDeduction(index, {
+                        amount:
+                          e.target.value === "" ? NaN : Number(e.target.value),
+                      })
+                    }
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="col-span-1"
+                    onClick={() => removeDeduction(index)}
+                    title="Remove deduction"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              {errors.paycheck_deductions && (
+                <p className="text-sm text-red-600">
+                  {errors.paycheck_deductions.message}
+                </p>
+              )}
+
+              {hasDeductions && (
+                <dl className="grid grid-cols-2 gap-1 text-sm">
+                  <dt className="text-gray-600">Gross</dt>
+                  <dd className="text-right">
+                    {formatCurrency(breakdown.gross)}
+                  </dd>
+                  <dt className="text-gray-600">Pre-tax deductions</dt>
+                  <dd className="text-right">
+                    -{formatCurrency(breakdown.pre_tax)}
+                  </dd>
+                  <dt className="text-gray-600">Taxes</dt>
+                  <dd className="text-right">
+                    -{formatCurrency(breakdown.taxes)}
+                  </dd>
+                  <dt className="text-gray-600">Post-tax deductions</dt>
+                  <dd className="text-right">
+                    -{formatCurrency(breakdown.post_tax)}
+                  </dd>
+                  <dt className="font-medium">Take-home pay</dt>
+                  <dd className="text-right font-medium">
+                    {formatCurrency(breakdown.net)}
+                  </dd>
+                  {breakdown.employer_match > 0 && (
+                    <>
+                      <dt className="text-gray-600">Employer match</dt>
+                      <dd className="text-right text-green-600">
+                        +{formatCurrency(breakdown.employer_match)}
+                      </dd>
+                    </>
+                  )}
+                </dl>
+              )}
+            </div>
+          )}
+
           {/* Cadence */}
-          <div className="space-y-2">
+          <div className={isVariable ? "hidden" : "space-y-2"}>
             <Label htmlFor="cadence">Payment Frequency</Label>
-            <Select
-              value={selectedCadence}
-              onValueChange={(value: IncomeCadence) =>
-                setValue("cadence", value)
-              }
-            >
+            <Select value={selectedCadence} onValueChange={handleCadenceChange}>
               <SelectTrigger>
                 <SelectValue placeholder="Select payment frequency" />
               </SelectTrigger>
@@ -272,6 +605,109 @@ export function IncomeSourceForm({
             )}
           </div>
 
+          {/* Pay Schedule */}
+          {selectedCadence && !isVariable && (
+            <div className="space-y-4 rounded-md border p-4">
+              <div>
+                <Label>Pay Schedule</Label>
+                <p className="text-xs text-gray-500">
+                  {anchorDays.length > 0
+                    ? "Days of the month you are paid. Use 31 for the last day of the month."
+                    : "Paydays repeat from the start date."}
+                </p>
+              </div>
+
+              {anchorDays.length > 0 && (
+                <div className="grid grid-cols-2 gap-4">
+                  {anchorDays.map((day, index) => (
+                    <div key={index} className="space-y-2">
+                      <Label htmlFor={`pay_day_${index}`}>
+                        {anchorDays.length > 1
+                          ? `${index === 0 ? "First" : "Second"} Pay Day`
+                          : "Pay Day"}
+                      </Label>
+                      <Input
+                        id={`pay_day_${index}`}
+                        type="number"
+                        min="1"
+                        max="31"
+                        value={Number.isNaN(day) ? "" : day}
+                        onChange={(e) => setAnchorDay(index, e.target.value)}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+              {errors.pay_anchor_days && (
+                <p className="text-sm text-red-600">
+                  {errors.pay_anchor_days.message}
+                </p>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Payday on a Weekend or Holiday</Label>
+                  <Select
+                    value={businessDayAdjustment}
+                    onValueChange={(value: BusinessDayAdjustment) =>
+                      setValue("business_day_adjustment", value)
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {getBusinessDayAdjustmentOptions().map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Holidays</Label>
+                  <Select
+                    value={holidayCalendar}
+                    onValueChange={(value: HolidayCalendar) =>
+                      setValue("holiday_calendar", value)
+                    }
+                    disabled={businessDayAdjustment === "NONE"}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {getHolidayCalendarOptions().map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {upcomingPayDates.length > 0 && (
+                <p className="text-sm text-gray-600">
+                  Next paydays:{" "}
+                  {upcomingPayDates
+                    .map((date) =>
+                      new Date(date).toLocaleDateString("en-US", {
+                        weekday: "short",
+                        month: "short",
+                        day: "numeric",
+                        year: "numeric",
+                        timeZone: "UTC",
+                      })
+                    )
+                    .join(", ")}
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Start Date */}
           <div className="space-y-2">
             <Label htmlFor="start_date">Start Date</Label>
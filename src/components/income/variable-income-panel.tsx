@@ -0,0 +1,258 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, Loader2, TrendingDown, Trash2, X } from "lucide-react";
+import { useAuth } from "@/lib/auth/auth-context";
+import { useIncomeDeposits } from "@/lib/hooks/use-income-deposits";
+import { getBudgetItemsForUser } from "@/lib/database/client-queries";
+import { DepositLogForm } from "./deposit-log-form";
+import { formatCurrency } from "@/lib/utils/currency";
+import { BASELINE_MONTHS } from "@/lib/utils/variable-income";
+import type { IncomeSource } from "@/types/database";
+import type { IncomeDepositWithSource } from "@/lib/types/income-deposits";
+
+interface VariableIncomePanelProps {
+  incomeSources: IncomeSource[];
+}
+
+// YYYY-MM as a short month label
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString(undefined, {
+    month: "short",
+    year: "numeric",
+  });
+
+export function VariableIncomePanel({
+  incomeSources,
+}: VariableIncomePanelProps) {
+  const { user } = useAuth();
+  const {
+    deposits,
+    baseline,
+    loading,
+    error,
+    logDeposit,
+    deleteDeposit,
+    clearError,
+  } = useIncomeDeposits();
+  const [budgetItemNames, setBudgetItemNames] = useState<
+    Record<string, string>
+  >({});
+
+  const variableSources = incomeSources.filter(
+    (source) => source.is_variable && source.is_active
+  );
+
+  // Fundings only store budget item ids; include inactive items so older
+  // deposits still show names
+  useEffect(() => {
+    if (!user) return;
+
+    getBudgetItemsForUser(user.id, true)
+      .then((items) =>
+        setBudgetItemNames(
+          Object.fromEntries(items.map((item) => [item.id, item.name]))
+        )
+      )
+      .catch((err) => console.error("Failed to load budget items:", err));
+  }, [user]);
+
+  const handleDelete = async (deposit: IncomeDepositWithSource) => {
+    if (
+      !confirm(
+        `Delete the ${formatCurrency(deposit.amount)} deposit from ${
+          deposit.income_source_name
+        }? Its funding will be taken back off your budget items.`
+      )
+    ) {
+      return;
+    }
+    await deleteDeposit(deposit);
+  };
+
+  if (variableSources.length === 0 && deposits.length === 0 && !loading) {
+    return (
+      <Card>
+        <CardContent className="py-12">
+          <div className="text-center">
+            <TrendingDown className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              No variable income sources
+            </h3>
+            <p className="text-gray-600">
+              Mark an income source as variable income to log deposits as they
+              arrive and fund your budget items in priority order.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <AlertCircle className="h-4 w-4 text-red-600" />
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+            <Button variant="ghost" size="sm" onClick={clearError}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Baseline month */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Baseline Month</CardTitle>
+          <CardDescription>
+            Your lowest month of the last {BASELINE_MONTHS} complete months. New
+            pay periods for variable income budget against it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          ) : baseline?.baseline === null || !baseline ? (
+            <p className="text-sm text-gray-600">
+              Not enough history yet. Your typical monthly amount is used until
+              a full month of deposits has been logged.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <p className="text-sm text-gray-600">Baseline</p>
+                  <p className="text-2xl font-semibold text-gray-900">
+                    {formatCurrency(baseline.baseline)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-600">Monthly Average</p>
+                  <p className="text-2xl font-semibold text-green-600">
+                    {formatCurrency(baseline.average || 0)}
+                  </p>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {baseline.months.map((month) => (
+                  <Badge
+                    key={month.month}
+                    variant={
+                      month.total === baseline.baseline
+                        ? "destructive"
+                        : "secondary"
+                    }
+                  >
+                    {formatMonth(month.month)}: {formatCurrency(month.total)}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Log a deposit */}
+      {variableSources.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Log a Deposit</CardTitle>
+            <CardDescription>
+              Each deposit funds this period&apos;s budget items in priority
+              order until the money runs out.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <DepositLogForm
+              incomeSources={variableSources}
+              onSubmit={async (data) => (await logDeposit(data)) !== null}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Recent deposits */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Deposits</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {deposits.length === 0 ? (
+            <p className="text-sm text-gray-600">No deposits logged yet.</p>
+          ) : (
+            <div className="space-y-4">
+              {deposits.map((deposit) => (
+                <div
+                  key={deposit.id}
+                  className="border rounded-md p-4 space-y-2"
+                >
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-medium text-gray-900">
+                        {formatCurrency(deposit.amount)}{" "}
+                        <span className="text-sm font-normal text-gray-600">
+                          from {deposit.income_source_name}
+                        </span>
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {new Date(
+                          `${deposit.deposit_date}T00:00:00`
+                        ).toLocaleDateString()}
+                        {deposit.notes && <> • {deposit.notes}</>}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(deposit)}
+                      className="text-red-600 hover:text-red-700"
+                      title="Delete deposit"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {deposit.fundings.length > 0 && (
+                    <ul className="text-sm text-gray-600 space-y-1">
+                      {deposit.fundings.map((funding) => (
+                        <li
+                          key={funding.allocation_id}
+                          className="flex justify-between"
+                        >
+                          <span>
+                            {budgetItemNames[funding.budget_item_id] ||
+                              "Budget item"}
+                          </span>
+                          <span>{formatCurrency(funding.amount)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {deposit.unallocated_amount > 0 && (
+                    <p className="text-sm text-green-700">
+                      {formatCurrency(deposit.unallocated_amount)} left over
+                      after every budget item was funded
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
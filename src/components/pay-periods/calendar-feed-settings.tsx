@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import { CalendarDays, Check, Copy, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+
+interface CalendarFeedSettingsProps {
+  token: string | null;
+  saving: boolean;
+  onRegenerate: () => Promise<boolean>;
+  onRevoke: () => Promise<boolean>;
+}
+
+export function CalendarFeedSettings({
+  token,
+  saving,
+  onRegenerate,
+  onRevoke,
+}: CalendarFeedSettingsProps) {
+  const [copied, setCopied] = useState(false);
+
+  const feedUrl = token
+    ? `${window.location.origin}/api/calendar/${token}.ics`
+    : null;
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    await navigator.clipboard.writeText(feedUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleRegenerate = async () => {
+    if (
+      token &&
+      !confirm(
+        "Create a new feed link? Calendars subscribed to the current link will stop updating."
+      )
+    ) {
+      return;
+    }
+    await onRegenerate();
+  };
+
+  const handleRevoke = async () => {
+    if (
+      !confirm(
+        "Turn off the calendar feed? Subscribed calendars will stop updating."
+      )
+    ) {
+      return;
+    }
+    await onRevoke();
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center space-x-2">
+          <CalendarDays className="h-5 w-5" />
+          <span>Calendar Feed</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Subscribe from your calendar app to see pay periods, bill due dates
+          and reminders to complete each period. It stays up to date as your
+          budget changes.
+        </p>
+
+        {feedUrl ? (
+          <div className="space-y-3">
+            <div className="flex items-center space-x-2">
+              <Input value={feedUrl} readOnly className="font-mono text-xs" />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleCopy}
+                title="Copy feed link"
+              >
+                {copied ? (
+                  <Check className="h-4 w-4 text-green-600" />
+                ) : (
+                  <Copy className="h-4 w-4" />
+                )}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Anyone with this link can see your schedule. Create a new link if
+              it has been shared by mistake.
+            </p>
+            <div className="flex space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleRegenerate}
+                disabled={saving}
+              >
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                New Link
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleRevoke}
+                disabled={saving}
+                className="text-red-600 hover:text-red-700"
+              >
+                Turn Off
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button onClick={handleRegenerate} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Create Feed Link
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Plus, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getCadenceOptions } from "@/lib/utils/cadence";
+import type {
+  BudgetMode,
+  HouseholdBudgetSettings as Settings,
+  IncomeCadence,
+} from "@/lib/types/pay-periods";
+
+interface HouseholdBudgetSettingsProps {
+  settings: Settings;
+  saving: boolean;
+  generating: boolean;
+  onSave: (settings: Settings) => void;
+  onGenerate: () => void;
+}
+
+const BUDGET_MODE_OPTIONS: Array<{ value: BudgetMode; label: string }> = [
+  { value: "PER_SOURCE", label: "Separate periods per income source" },
+  { value: "HOUSEHOLD", label: "Combined household periods" },
+];
+
+export function HouseholdBudgetSettings({
+  settings,
+  saving,
+  generating,
+  onSave,
+  onGenerate,
+}: HouseholdBudgetSettingsProps) {
+  // Household periods start today unless a start date was saved
+  const [initial] = useState<Settings>(() => ({
+    ...settings,
+    household_start_date:
+      settings.household_start_date || new Date().toISOString().split("T")[0],
+  }));
+  const [draft, setDraft] = useState<Settings>(initial);
+
+  const isDirty =
+    draft.budget_mode !== initial.budget_mode ||
+    draft.household_cadence !== initial.household_cadence ||
+    draft.household_start_date !== initial.household_start_date;
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center space-x-2">
+          <Users className="h-5 w-5" />
+          <span>Budgeting Mode</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Pay Periods</Label>
+            <Select
+              value={draft.budget_mode}
+              onValueChange={(value: BudgetMode) =>
+                setDraft((prev) => ({ ...prev, budget_mode: value }))
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BUDGET_MODE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {draft.budget_mode === "HOUSEHOLD" && (
+            <>
+              <div className="space-y-2">
+                <Label>Household Period Length</Label>
+                <Select
+                  value={draft.household_cadence}
+                  onValueChange={(value: IncomeCadence) =>
+                    setDraft((prev) => ({ ...prev, household_cadence: value }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {getCadenceOptions().map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="household_start_date">
+                  First Period Starts
+                </Label>
+                <Input
+                  id="household_start_date"
+                  type="date"
+                  value={draft.household_start_date || ""}
+                  onChange={(e) =>
+                    setDraft((prev) => ({
+                      ...prev,
+                      household_start_date: e.target.value || null,
+                    }))
+                  }
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          {draft.budget_mode === "HOUSEHOLD"
+            ? "Each period adds up every paycheck from your active income sources that lands in it, and your budget is allocated against the combined total."
+            : "Each income source gets its own pay periods and allocations."}
+        </p>
+
+        <div className="flex items-center space-x-3">
+          <Button
+            size="sm"
+            onClick={() => onSave(draft)}
+            disabled={!isDirty || saving}
+          >
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+          {settings.budget_mode === "HOUSEHOLD" && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onGenerate}
+              disabled={isDirty || generating}
+            >
+              {generating ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Plus className="h-4 w-4 mr-2" />
+              )}
+              Generate Next Household Period
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import { Wallet } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { formatCurrency } from "@/lib/utils/currency";
+import { formatDate } from "@/lib/utils/date-utils";
+import type { PayPeriodDepositWithSource } from "@/lib/types/pay-periods";
+
+interface PayPeriodDepositsProps {
+  deposits: PayPeriodDepositWithSource[];
+  className?: string;
+}
+
+export function PayPeriodDeposits({
+  deposits,
+  className,
+}: PayPeriodDepositsProps) {
+  // Only household periods are made up of deposits
+  if (deposits.length === 0) return null;
+
+  const total = deposits.reduce(
+    (sum, deposit) => sum + deposit.expected_net,
+    0
+  );
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2 text-lg">
+          <Wallet className="h-5 w-5" />
+          <span>Deposits This Period ({deposits.length})</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {deposits.map((deposit) => (
+          <div
+            key={deposit.id}
+            className="flex items-center justify-between p-3 bg-gray-50 rounded-lg"
+          >
+            <div>
+              <p className="font-medium">{deposit.income_source_name}</p>
+              <p className="text-sm text-gray-600">
+                {formatDate(deposit.pay_date)}
+              </p>
+            </div>
+            <span className="font-semibold">
+              {formatCurrency(deposit.expected_net)}
+            </span>
+          </div>
+        ))}
+        <div className="flex items-center justify-between px-3 pt-2 border-t">
+          <span className="text-sm font-medium">Combined Expected Income</span>
+          <span className="font-semibold">{formatCurrency(total)}</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
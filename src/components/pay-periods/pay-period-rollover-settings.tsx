@@ -0,0 +1,138 @@
+"use client";
+
+import { Loader2, Repeat } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type {
+  PayPeriodJobLog,
+  PeriodCompletionPolicy,
+} from "@/lib/types/pay-periods";
+
+interface PayPeriodRolloverSettingsProps {
+  policy: PeriodCompletionPolicy;
+  jobLog: PayPeriodJobLog[];
+  saving: boolean;
+  onPolicyChange: (policy: PeriodCompletionPolicy) => void;
+}
+
+const POLICY_OPTIONS: Array<{
+  value: PeriodCompletionPolicy;
+  label: string;
+  description: string;
+}> = [
+  {
+    value: "MANUAL",
+    label: "Never, I'll complete them",
+    description: "Ended pay periods stay active until you complete them.",
+  },
+  {
+    value: "WHEN_PAID",
+    label: "When every allocation is paid",
+    description:
+      "Ended pay periods are completed once all of their allocations are marked paid.",
+  },
+  {
+    value: "ON_END",
+    label: "As soon as the period ends",
+    description:
+      "Pay periods are completed the day after they end, paid or not.",
+  },
+];
+
+// Shown for the job log's most recent actions
+const RECENT_ACTIONS = 5;
+
+const ACTION_VARIANTS: Record<
+  PayPeriodJobLog["action"],
+  "default" | "secondary" | "destructive"
+> = {
+  CREATED: "default",
+  COMPLETED: "secondary",
+  FAILED: "destructive",
+};
+
+export function PayPeriodRolloverSettings({
+  policy,
+  jobLog,
+  saving,
+  onPolicyChange,
+}: PayPeriodRolloverSettingsProps) {
+  const selected = POLICY_OPTIONS.find((option) => option.value === policy);
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center space-x-2">
+          <Repeat className="h-5 w-5" />
+          <span>Automatic Rollover</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          The next pay period is created automatically each day once the current
+          one ends.
+        </p>
+
+        <div className="space-y-2 max-w-sm">
+          <Label>Complete Ended Pay Periods</Label>
+          <div className="flex items-center space-x-2">
+            <Select
+              value={policy}
+              onValueChange={(value: PeriodCompletionPolicy) =>
+                onPolicyChange(value)
+              }
+              disabled={saving}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {POLICY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+          </div>
+          {selected && (
+            <p className="text-xs text-muted-foreground">
+              {selected.description}
+            </p>
+          )}
+        </div>
+
+        {jobLog.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Recent Activity</h4>
+            <ul className="space-y-1">
+              {jobLog.slice(0, RECENT_ACTIONS).map((entry) => (
+                <li
+                  key={entry.id}
+                  className="flex items-center space-x-2 text-sm"
+                >
+                  <Badge variant={ACTION_VARIANTS[entry.action]}>
+                    {entry.action.toLowerCase()}
+                  </Badge>
+                  <span className="text-muted-foreground">
+                    {new Date(entry.created_at).toLocaleDateString()}
+                  </span>
+                  <span>{entry.message}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,11 @@
 import type { BudgetItem, IncomeSource } from "@/types/database";
+import { roundCents } from "@/lib/utils/currency";
+import {
+  calculateAllocations,
+  calculateItemAllocation,
+  resolveBudgetItemDependencies as resolveDependencies,
+  type CalculatedAllocation,
+} from "../../../supabase/functions/_shared/allocation-calculations";
 
 export interface CalculationResult {
   budgetItemId: string;
@@ -8,6 +15,10 @@ export interface CalculationResult {
     calculationType: string;
     percentage?: number;
     dependsOnTotal?: number;
+    proRatedFactor?: number;
+    boundedBy?: "MIN" | "MAX";
+    overflowAmount?: number;
+    overflowReceived?: number;
   };
 }
 
@@ -21,116 +32,75 @@ export interface BudgetSummary {
   status: "excellent" | "good" | "warning" | "danger";
 }
 
+// Shared result in the camelCase shape used by the app's components
+function toCalculationResult(
+  allocation: CalculatedAllocation
+): CalculationResult {
+  const details = allocation.calculation_details;
+  return {
+    budgetItemId: allocation.budget_item_id,
+    expectedAmount: allocation.expected_amount,
+    calculationDetails: {
+      baseAmount: details.base_amount,
+      calculationType: details.calculation_type,
+      percentage: details.percentage,
+      dependsOnTotal: details.dependency_total,
+      proRatedFactor: details.pro_rated_factor,
+      boundedBy: details.bounded_by,
+      overflowAmount: details.overflow_amount,
+      overflowReceived: details.overflow_received,
+    },
+  };
+}
+
+// One item on its own, with REMAINING_PERCENT items taking a share of
+// remainingIncome rather than of what their dependencies leave
+function calculateItem(
+  budgetItem: BudgetItem,
+  incomeSource: IncomeSource,
+  remainingIncome?: number
+): CalculatedAllocation {
+  if (budgetItem.calc_type === "REMAINING_PERCENT") {
+    if (remainingIncome === undefined) {
+      throw new Error(
+        "Remaining income is required for REMAINING_PERCENT calculation"
+      );
+    }
+    // With no dependencies given, the remaining amount is the net income
+    return calculateItemAllocation(
+      { ...budgetItem, depends_on: null },
+      { ...incomeSource, net_amount: remainingIncome },
+      []
+    );
+  }
+
+  return calculateItemAllocation(budgetItem, incomeSource, []);
+}
+
 /**
- * Calculate allocation for a single budget item
+ * Calculate allocation for a single budget item, pro-rated to the income's
+ * cadence and held within its bounds like generated allocations
  */
 export function calculateBudgetItemAllocation(
   budgetItem: BudgetItem,
   incomeSource: IncomeSource,
   remainingIncome?: number
 ): number {
-  switch (budgetItem.calc_type) {
-    case "FIXED":
-      return Number(budgetItem.value);
-
-    case "GROSS_PERCENT":
-      return (
-        (Number(budgetItem.value) / 100) * Number(incomeSource.gross_amount)
-      );
-
-    case "NET_PERCENT":
-      return (Number(budgetItem.value) / 100) * Number(incomeSource.net_amount);
-
-    case "REMAINING_PERCENT":
-      if (remainingIncome === undefined) {
-        throw new Error(
-          "Remaining income is required for REMAINING_PERCENT calculation"
-        );
-      }
-      return (Number(budgetItem.value) / 100) * remainingIncome;
-
-    default:
-      return 0;
-  }
+  return calculateItem(budgetItem, incomeSource, remainingIncome)
+    .expected_amount;
 }
 
 /**
- * Calculate allocations for all budget items with dependency resolution
+ * Calculate allocations for all budget items with dependency resolution.
+ * Uses the same shared calculation as the allocation engine.
  */
 export function calculateBudgetAllocations(
   budgetItems: BudgetItem[],
   incomeSource: IncomeSource
 ): CalculationResult[] {
-  // Sort by priority and resolve dependencies
-  const sortedItems = resolveBudgetItemDependencies(budgetItems);
-  const results: CalculationResult[] = [];
-
-  for (const item of sortedItems) {
-    const result = calculateSingleAllocation(item, incomeSource, results);
-    results.push(result);
-  }
-
-  return results;
-}
-
-/**
- * Calculate allocation for a single item with dependency context
- */
-function calculateSingleAllocation(
-  budgetItem: BudgetItem,
-  incomeSource: IncomeSource,
-  existingAllocations: CalculationResult[]
-): CalculationResult {
-  let expectedAmount = 0;
-  const calculationDetails: CalculationResult["calculationDetails"] = {
-    baseAmount: 0,
-    calculationType: budgetItem.calc_type,
-  };
-
-  switch (budgetItem.calc_type) {
-    case "FIXED":
-      expectedAmount = budgetItem.value;
-      calculationDetails.baseAmount = budgetItem.value;
-      break;
-
-    case "GROSS_PERCENT":
-      expectedAmount = (incomeSource.gross_amount * budgetItem.value) / 100;
-      calculationDetails.baseAmount = incomeSource.gross_amount;
-      calculationDetails.percentage = budgetItem.value;
-      break;
-
-    case "NET_PERCENT":
-      expectedAmount = (incomeSource.net_amount * budgetItem.value) / 100;
-      calculationDetails.baseAmount = incomeSource.net_amount;
-      calculationDetails.percentage = budgetItem.value;
-      break;
-
-    case "REMAINING_PERCENT":
-      const dependentTotal =
-        budgetItem.depends_on?.reduce((total, depId) => {
-          const depAllocation = existingAllocations.find(
-            (a) => a.budgetItemId === depId
-          );
-          return total + (depAllocation?.expectedAmount || 0);
-        }, 0) || 0;
-
-      const remainingAmount = incomeSource.net_amount - dependentTotal;
-      expectedAmount = (remainingAmount * budgetItem.value) / 100;
-      calculationDetails.baseAmount = remainingAmount;
-      calculationDetails.percentage = budgetItem.value;
-      calculationDetails.dependsOnTotal = dependentTotal;
-      break;
-
-    default:
-      console.warn(`Unknown calculation type: ${budgetItem.calc_type}`);
-      expectedAmount = 0;
-  }
-
-  return {
-    budgetItemId: budgetItem.id,
-    expectedAmount: Math.round(expectedAmount * 100) / 100,
-    calculationDetails,
-  };
+  return calculateAllocations(budgetItems, incomeSource).allocations.map(
+    toCalculationResult
+  );
 }
 
 /**
@@ -139,45 +109,7 @@ function calculateSingleAllocation(
 export function resolveBudgetItemDependencies(
   budgetItems: BudgetItem[]
 ): BudgetItem[] {
-  const resolved: BudgetItem[] = [];
-  const pending = [...budgetItems.filter((item) => item.is_active)];
-  const resolvedIds = new Set<string>();
-
-  // Sort by priority first
-  pending.sort((a, b) => a.priority - b.priority);
-
-  while (pending.length > 0) {
-    const previousLength = pending.length;
-
-    for (let i = pending.length - 1; i >= 0; i--) {
-      const item = pending[i];
-
-      // Check if all dependencies are resolved
-      const allDependenciesResolved =
-        !item.depends_on ||
-        item.depends_on.length === 0 ||
-        item.depends_on.every((depId) => resolvedIds.has(depId));
-
-      if (allDependenciesResolved) {
-        resolved.push(item);
-        resolvedIds.add(item.id);
-        pending.splice(i, 1);
-      }
-    }
-
-    // Prevent infinite loop in case of circular dependencies
-    if (pending.length === previousLength) {
-      console.warn(
-        "Circular dependency detected in budget items:",
-        pending.map((item) => item.id)
-      );
-      // Add remaining items anyway
-      resolved.push(...pending);
-      break;
-    }
-  }
-
-  return resolved;
+  return resolveDependencies(budgetItems);
 }
 
 /**
@@ -219,11 +151,11 @@ export function calculateBudgetSummary(
   }
 
   return {
-    totalAllocated: Math.round(totalAllocated * 100) / 100,
+    totalAllocated: roundCents(totalAllocated),
     grossIncome: incomeSource.gross_amount,
     netIncome: incomeSource.net_amount,
-    remaining: Math.round(remaining * 100) / 100,
-    percentAllocated: Math.round(percentAllocated * 100) / 100,
+    remaining: roundCents(remaining),
+    percentAllocated: roundCents(percentAllocated),
     healthScore,
     status,
   };
@@ -244,15 +176,25 @@ export function formatCurrency(amount: number): string {
  */
 export function validateBudgetItemValue(
   calcType: string,
-  value: number
+  value: number,
+  bounds: { min_amount?: number | null; max_amount?: number | null } = {}
 ): boolean {
+  const min = bounds.min_amount ?? null;
+  const max = bounds.max_amount ?? null;
+
   switch (calcType) {
     case "FIXED":
-      return value > 0;
+      return value > 0 && min === null && max === null;
     case "GROSS_PERCENT":
     case "NET_PERCENT":
     case "REMAINING_PERCENT":
-      return value > 0 && value <= 100;
+      return (
+        value > 0 &&
+        value <= 100 &&
+        (min === null || min >= 0) &&
+        (max === null || max > 0) &&
+        (min === null || max === null || min <= max)
+      );
     default:
       return false;
   }
@@ -274,30 +216,64 @@ export function getCalculationPreview(
     return "Select an income source to see calculation preview";
   }
 
+  if (
+    budgetItem.calc_type === "REMAINING_PERCENT" &&
+    remainingIncome === undefined
+  ) {
+    return `${budgetItem.value}% of remaining income (calculated after dependencies)`;
+  }
+
+  // Funded in full by whichever pay period each due date falls in
+  if (
+    budgetItem.calc_type === "FIXED" &&
+    budgetItem.funding_strategy === "BEFORE_DUE_DATE"
+  ) {
+    return `${formatCurrency(
+      budgetItem.value
+    )} from the pay period each due date falls in`;
+  }
+
+  // The item being edited may not have a cadence yet
+  const cadence = budgetItem.cadence || incomeSource.cadence;
+  const { expected_amount: amount, calculation_details: details } =
+    calculateItem(
+      {
+        ...(budgetItem as BudgetItem),
+        calc_type: budgetItem.calc_type,
+        value: budgetItem.value,
+        cadence,
+      },
+      incomeSource,
+      remainingIncome
+    );
+  const notes = [
+    cadence !== incomeSource.cadence &&
+      `pro-rated from ${cadence} to ${incomeSource.cadence}`,
+    details.bounded_by === "MIN" && "raised to the minimum",
+    details.bounded_by === "MAX" && "capped at the maximum",
+    details.overflow_amount &&
+      `${formatCurrency(details.overflow_amount)} overflows`,
+  ].filter(Boolean);
+  const suffix = notes.length > 0 ? ` (${notes.join(", ")})` : "";
+
   switch (budgetItem.calc_type) {
     case "FIXED":
-      return `${formatCurrency(budgetItem.value)} per pay period`;
+      return `${formatCurrency(amount)} per pay period${suffix}`;
 
     case "GROSS_PERCENT":
-      const grossAmount = (incomeSource.gross_amount * budgetItem.value) / 100;
       return `${budgetItem.value}% of ${formatCurrency(
         incomeSource.gross_amount
-      )} = ${formatCurrency(grossAmount)}`;
+      )} = ${formatCurrency(amount)}${suffix}`;
 
     case "NET_PERCENT":
-      const netAmount = (incomeSource.net_amount * budgetItem.value) / 100;
       return `${budgetItem.value}% of ${formatCurrency(
         incomeSource.net_amount
-      )} = ${formatCurrency(netAmount)}`;
+      )} = ${formatCurrency(amount)}${suffix}`;
 
     case "REMAINING_PERCENT":
-      if (remainingIncome === undefined) {
-        return `${budgetItem.value}% of remaining income (calculated after dependencies)`;
-      }
-      const remainingAmount = (remainingIncome * budgetItem.value) / 100;
       return `${budgetItem.value}% of ${formatCurrency(
-        remainingIncome
-      )} = ${formatCurrency(remainingAmount)}`;
+        remainingIncome ?? 0
+      )} = ${formatCurrency(amount)}${suffix}`;
 
     default:
       return "Unknown calculation type";
@@ -93,6 +93,9 @@ export const EXPENSE_CATEGORIES = {
   UNCATEGORIZED: "Uncategorized",
 } as const;
 
+// Expenses store the category key, e.g. "FUEL"
+export type ExpenseCategoryKey = keyof typeof EXPENSE_CATEGORIES;
+
 // Array of all categories for easy iteration
 export const EXPENSE_CATEGORY_LIST = Object.values(EXPENSE_CATEGORIES);
 
@@ -206,6 +209,17 @@ export function getCategoryColor(category: string): string {
   );
 }
 
+/**
+ * The key an expense stores for a category given as its key or display
+ * value. Unknown categories are returned unchanged.
+ */
+export function toExpenseCategoryKey(category: string): string {
+  const keys = Object.keys(EXPENSE_CATEGORIES) as ExpenseCategoryKey[];
+  if ((keys as string[]).includes(category)) return category;
+
+  return keys.find((key) => EXPENSE_CATEGORIES[key] === category) || category;
+}
+
 export function isValidCategory(category: string): boolean {
   return (EXPENSE_CATEGORY_LIST as readonly string[]).includes(category);
 }
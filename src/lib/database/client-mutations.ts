@@ -1,5 +1,10 @@
 import { createClient } from "@/lib/supabase/client";
 import { Database } from "@/types/database";
+import {
+  calculatePaycheckBreakdown,
+  parsePaycheckDeductions,
+  validatePaycheckDeductions,
+} from "../../../supabase/functions/_shared/paycheck";
 
 type Tables = Database["public"]["Tables"];
 type IncomeSourceInsert = Tables["income_sources"]["Insert"];
@@ -7,15 +12,50 @@ type IncomeSourceUpdate = Tables["income_sources"]["Update"];
 type BudgetItemInsert = Tables["budget_items"]["Insert"];
 type BudgetItemUpdate = Tables["budget_items"]["Update"];
 
+// A paycheck with itemized deductions takes home whatever they leave, so its
+// net amount is derived from them rather than taken as given. Returns the
+// problem with the deductions when they are invalid.
+function withDerivedNetAmount<
+  T extends IncomeSourceInsert | IncomeSourceUpdate
+>(
+  incomeSource: T,
+  gross: number,
+  storedDeductions: unknown
+): { incomeSource: T; error: string | null } {
+  const deductions = parsePaycheckDeductions(storedDeductions);
+  if (deductions.length === 0) return { incomeSource, error: null };
+
+  const error = validatePaycheckDeductions(gross, deductions);
+  if (error) return { incomeSource, error };
+
+  return {
+    incomeSource: {
+      ...incomeSource,
+      net_amount: calculatePaycheckBreakdown(gross, deductions).net,
+    },
+    error: null,
+  };
+}
+
 // Income source mutations for client components
 export async function createIncomeSource(
   incomeSource: IncomeSourceInsert
 ): Promise<string | null> {
   const supabase = createClient();
 
+  const derived = withDerivedNetAmount(
+    incomeSource,
+    incomeSource.gross_amount,
+    incomeSource.paycheck_deductions
+  );
+  if (derived.error) {
+    console.error("Error creating income source:", derived.error);
+    return null;
+  }
+
   const { data, error } = await supabase
     .from("income_sources")
-    .insert(incomeSource)
+    .insert(derived.incomeSource)
     .select("id")
     .single();
 
@@ -33,9 +73,39 @@ export async function updateIncomeSource(
 ): Promise<boolean> {
   const supabase = createClient();
 
+  let update = updates;
+  if (
+    updates.gross_amount !== undefined ||
+    updates.net_amount !== undefined ||
+    updates.paycheck_deductions !== undefined
+  ) {
+    // Rederive the net amount from whichever pay fields aren't changing
+    const { data: current, error: fetchError } = await supabase
+      .from("income_sources")
+      .select("gross_amount, paycheck_deductions")
+      .eq("id", id)
+      .single();
+
+    if (fetchError) {
+      console.error("Error updating income source:", fetchError);
+      return false;
+    }
+
+    const derived = withDerivedNetAmount(
+      updates,
+      updates.gross_amount ?? current.gross_amount,
+      updates.paycheck_deductions ?? current.paycheck_deductions
+    );
+    if (derived.error) {
+      console.error("Error updating income source:", derived.error);
+      return false;
+    }
+    update = derived.incomeSource;
+  }
+
   const { error } = await supabase
     .from("income_sources")
-    .update(updates)
+    .update(update)
     .eq("id", id);
 
   if (error) {
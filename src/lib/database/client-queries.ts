@@ -16,10 +16,10 @@ import type {
 // -----------------------------------------------------------------------------
 
 const INCOME_SOURCE_COLUMNS =
-  "id, user_id, name, gross_amount, net_amount, cadence, start_date, end_date, is_active, created_at, updated_at" as const;
+  "id, user_id, name, gross_amount, net_amount, cadence, start_date, end_date, is_active, pay_anchor_days, business_day_adjustment, holiday_calendar, is_variable, paycheck_deductions, created_at, updated_at" as const;
 
 const BUDGET_ITEM_COLUMNS =
-  "id, name, category, calc_type, value, priority, cadence, depends_on, is_active, end_date, created_at, user_id, updated_at" as const;
+  "id, name, category, calc_type, value, priority, rollover_mode, deducted_from_paycheck, min_amount, max_amount, overflow_target_id, due_date, funding_strategy, is_sinking_fund, target_amount, target_date, opening_balance, cadence, depends_on, is_active, end_date, created_at, user_id, updated_at" as const;
 
 // Income source queries for client components
 export async function getIncomeSourcesForUser(
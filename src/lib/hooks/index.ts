@@ -30,4 +30,25 @@ export {
   usePayPeriodExpenses,
   useBudgetItemExpenses,
   useExpenseValidation,
+  useExpenseTags,
 } from "./use-expenses";
+export { useImportProfiles, useExpenseImport } from "./use-expense-import";
+export { useExpenseSplit } from "./use-expense-splits";
+export { useExpenseRules, useExpenseRulePreview } from "./use-expense-rules";
+export { useCategorySuggestions } from "./use-category-suggestions";
+export {
+  useRecurringExpenses,
+  usePendingRecurringExpenses,
+} from "./use-recurring-expenses";
+export { useExpenseFilterPresets } from "./use-expense-filter-presets";
+export { useDataExport } from "./use-data-export";
+export {
+  useHouseholdBudget,
+  usePayPeriodDeposits,
+} from "./use-household-budget";
+export { useIncomeDeposits } from "./use-income-deposits";
+export { usePayPeriodRollover } from "./use-pay-period-rollover";
+export { useCalendarFeed } from "./use-calendar-feed";
+export { useSinkingFunds } from "./use-sinking-funds";
+export { useSavingsGoals } from "./use-savings-goals";
+export { useDebts } from "./use-debts";
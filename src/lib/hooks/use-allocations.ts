@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from "react";
 import { useAuth } from "@/lib/auth/auth-context";
 import { AllocationService } from "@/lib/services/allocation-service";
+import { PayPeriodService } from "@/lib/services/pay-period-service";
 import { createClient } from "@/lib/supabase/client";
 import { logger } from "@/lib/error-handling";
 import type {
@@ -13,6 +14,7 @@ import type {
 } from "@/lib/types/allocations";
 
 const allocationService = new AllocationService();
+const payPeriodService = new PayPeriodService();
 
 // Helper function for error logging
 const logError = (
@@ -60,51 +62,35 @@ export function useAllocationsForPayPeriod(payPeriodId: string | null) {
 
       // Auto-generate allocations if none exist but budget items are configured
       if (allocationsData.length === 0) {
-        // Fetch active budget items and income source for this pay period
-        const { data: payPeriod, error: ppError } = await supabase
-          .from("pay_periods")
-          .select("id, income_source_id")
-          .eq("id", payPeriodId)
-          .single();
-
-        if (!ppError && payPeriod) {
-          const [{ data: incomeSource }, { data: budgetItems }] =
-            await Promise.all([
-              supabase
-                .from("income_sources")
-                .select("*")
-                .eq("id", payPeriod.income_source_id)
-                .single(),
-              supabase
-                .from("budget_items")
-                .select("*")
-                .eq("user_id", user.id)
-                .eq("is_active", true),
-            ]);
-
-          if (incomeSource && budgetItems && budgetItems.length > 0) {
-            try {
-              await allocationService.generateAllocationsForPayPeriod({
-                pay_period_id: payPeriodId,
-                budget_items:
-                  budgetItems as unknown as import("@/types/database").BudgetItem[],
-                income_source:
-                  incomeSource as unknown as import("@/types/database").IncomeSource,
-              });
-
-              // Reload allocations after generation
-              const regeneratedAllocations =
-                await allocationService.getAllocationsForPayPeriod(
-                  payPeriodId,
-                  true
-                );
-              setAllocations(regeneratedAllocations);
-            } catch (genError) {
-              console.error(
-                "Automatic allocation generation failed:",
-                genError
+        // Fetch active budget items and the income this pay period is
+        // allocated against (its income source, or household deposits)
+        const [income, { data: budgetItems }] = await Promise.all([
+          payPeriodService.getAllocationIncome(payPeriodId, user.id),
+          supabase
+            .from("budget_items")
+            .select("*")
+            .eq("user_id", user.id)
+            .eq("is_active", true),
+        ]);
+
+        if (income && budgetItems && budgetItems.length > 0) {
+          try {
+            await allocationService.generateAllocationsForPayPeriod({
+              pay_period_id: payPeriodId,
+              budget_items:
+                budgetItems as unknown as import("@/types/database").BudgetItem[],
+              ...income,
+            });
+
+            // Reload allocations after generation
+            const regeneratedAllocations =
+              await allocationService.getAllocationsForPayPeriod(
+                payPeriodId,
+                true
               );
-            }
+            setAllocations(regeneratedAllocations);
+          } catch (genError) {
+            console.error("Automatic allocation generation failed:", genError);
           }
         }
       } else {
@@ -0,0 +1,112 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "@/lib/auth/auth-context";
+import { CalendarFeedService } from "@/lib/services/calendar-feed-service";
+import { logger } from "@/lib/error-handling";
+
+const calendarFeedService = new CalendarFeedService();
+
+// Helper function for error logging
+const logError = (
+  error: unknown,
+  message: string,
+  context?: Record<string, unknown>
+) => {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  logger.logUnhandledError(
+    new Error(`${message}: ${errorMessage}`),
+    undefined,
+    context
+  );
+};
+
+/**
+ * Hook for turning the user's iCalendar feed on and off
+ */
+export function useCalendarFeed() {
+  const { user } = useAuth();
+  const [token, setToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadToken = useCallback(async () => {
+    if (!user) {
+      setToken(null);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      setToken(await calendarFeedService.getFeedToken(user.id));
+    } catch (err) {
+      const errorMessage = "Failed to load calendar feed";
+      setError(errorMessage);
+      logError(err, errorMessage, { userId: user.id });
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const regenerate = useCallback(async (): Promise<boolean> => {
+    if (!user) {
+      setError("User not authenticated");
+      return false;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      setToken(await calendarFeedService.regenerateFeedToken(user.id));
+      return true;
+    } catch (err) {
+      const errorMessage = "Failed to create calendar feed";
+      setError(errorMessage);
+      logError(err, errorMessage, { userId: user.id });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [user]);
+
+  const revoke = useCallback(async (): Promise<boolean> => {
+    if (!user) {
+      setError("User not authenticated");
+      return false;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      await calendarFeedService.revokeFeedToken(user.id);
+      setToken(null);
+      return true;
+    } catch (err) {
+      const errorMessage = "Failed to turn off calendar feed";
+      setError(errorMessage);
+      logError(err, errorMessage, { userId: user.id });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadToken();
+  }, [loadToken]);
+
+  return {
+    token,
+    loading,
+    saving,
+    error,
+    regenerate,
+    revoke,
+    refresh: loadToken,
+    clearError: () => setError(null),
+  };
+}
@@ -0,0 +1,82 @@
+import { useState, useEffect, useMemo } from "react";
+import { useAuth } from "@/lib/auth/auth-context";
+import { ExpenseService } from "@/lib/services/expense-service";
+import { logger } from "@/lib/error-handling";
+import {
+  suggestCategories,
+  trainCategoryModel,
+  type CategoryModel,
+  type CategorySuggestion,
+} from "@/lib/utils/category-suggester";
+
+const expenseService = new ExpenseService();
+
+// Helper function for error logging
+const logError = (
+  error: unknown,
+  message: string,
+  context?: Record<string, unknown>
+) => {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  logger.logUnhandledError(
+    new Error(`${message}: ${errorMessage}`),
+    undefined,
+    context
+  );
+};
+
+/**
+ * Hook for ranking categories by how similar descriptions were categorized
+ * in the user's history. The model is trained once per mount; suggestions
+ * are empty when there is no relevant history.
+ */
+export function useCategorySuggestions(description: string | undefined) {
+  const { user } = useAuth();
+  const [model, setModel] = useState<CategoryModel | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      setModel(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadModel = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const history = await expenseService.getCategoryHistory(user.id);
+        if (!cancelled) setModel(trainCategoryModel(history));
+      } catch (err) {
+        const errorMessage = "Failed to load category suggestions";
+        if (!cancelled) setError(errorMessage);
+        logError(err, errorMessage, { userId: user.id });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadModel();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const suggestions = useMemo<CategorySuggestion[]>(
+    () =>
+      model && description?.trim() ? suggestCategories(model, description) : [],
+    [model, description]
+  );
+
+  return {
+    suggestions,
+    loading,
+    error,
+    clearError: () => setError(null),
+  };
+}
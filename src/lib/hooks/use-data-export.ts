@@ -0,0 +1,116 @@
+import { useState, useCallback } from "react";
+import { useAuth } from "@/lib/auth/auth-context";
+import { ExportService } from "@/lib/services/export-service";
+import { logger } from "@/lib/error-handling";
+import {
+  createExportFile,
+  downloadFile,
+  type ExportFormat,
+  type ExportSheet,
+} from "@/lib/utils/data-export";
+import type { ExpenseFilters } from "@/lib/types/expenses";
+import type { PayPeriodHistoryFilters } from "@/lib/types/pay-periods";
+
+const exportService = new ExportService();
+
+// Helper function for error logging
+const logError = (
+  error: unknown,
+  message: string,
+  context?: Record<string, unknown>
+) => {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  logger.logUnhandledError(
+    new Error(`${message}: ${errorMessage}`),
+    undefined,
+    context
+  );
+};
+
+// Date stamp for export file names
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Hook for downloading expenses and pay period data as CSV, XLSX or JSON
+ */
+export function useDataExport() {
+  const { user } = useAuth();
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runExport = useCallback(
+    async (
+      load: (userId: string) => Promise<ExportSheet[]>,
+      format: ExportFormat,
+      baseName: string,
+      errorMessage: string
+    ): Promise<boolean> => {
+      if (!user) {
+        setError("User not authenticated");
+        return false;
+      }
+
+      try {
+        setExporting(true);
+        setError(null);
+
+        const sheets = await load(user.id);
+        downloadFile(createExportFile(sheets, format, baseName));
+        return true;
+      } catch (err) {
+        setError(errorMessage);
+        logError(err, errorMessage, { userId: user.id, format });
+        return false;
+      } finally {
+        setExporting(false);
+      }
+    },
+    [user]
+  );
+
+  const exportExpenses = useCallback(
+    (filters: ExpenseFilters, format: ExportFormat) =>
+      runExport(
+        (userId) => exportService.getExpenseExport(userId, filters),
+        format,
+        `expenses-${today()}`,
+        "Failed to export expenses"
+      ),
+    [runExport]
+  );
+
+  const exportPayPeriodHistory = useCallback(
+    (filters: Omit<PayPeriodHistoryFilters, "user_id">, format: ExportFormat) =>
+      runExport(
+        (userId) =>
+          exportService.getPayPeriodHistoryExport({
+            ...filters,
+            user_id: userId,
+          }),
+        format,
+        `pay-period-history-${today()}`,
+        "Failed to export pay period history"
+      ),
+    [runExport]
+  );
+
+  const exportReconciliation = useCallback(
+    (payPeriodId: string, format: ExportFormat, periodLabel?: string) =>
+      runExport(
+        (userId) => exportService.getReconciliationExport(payPeriodId, userId),
+        format,
+        `reconciliation-${periodLabel || today()}`,
+        "Failed to export reconciliation"
+      ),
+    [runExport]
+  );
+
+  return {
+    exporting,
+    error,
+    exportExpenses,
+    exportPayPeriodHistory,
+    exportReconciliation,
+    clearError: () => setError(null),
+  };
+}
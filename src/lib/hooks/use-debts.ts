@@ -0,0 +1,145 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "@/lib/auth/auth-context";
+import { DebtService } from "@/lib/services/debt-service";
+import { logger } from "@/lib/error-handling";
+import type {
+  DebtAccountFormData,
+  DebtOverview,
+  DebtPayoffPriority,
+} from "@/lib/types/debts";
+
+const debtService = new DebtService();
+
+// Helper function for error logging
+const logError = (
+  error: unknown,
+  message: string,
+  context?: Record<string, unknown>
+) => {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  logger.logUnhandledError(
+    new Error(`${message}: ${errorMessage}`),
+    undefined,
+    context
+  );
+};
+
+/**
+ * Hook for managing debt accounts and the payoff plan
+ */
+export function useDebts() {
+  const { user } = useAuth();
+  const [overview, setOverview] = useState<DebtOverview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDebts = useCallback(async () => {
+    if (!user) {
+      setOverview(null);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      setOverview(await debtService.getDebtOverview(user.id));
+    } catch (err) {
+      const errorMessage = "Failed to load debts";
+      setError(errorMessage);
+      logError(err, errorMessage, { userId: user.id });
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  // The monthly debt budget depends on the linked budget items, so every
+  // change reloads
+  const runAndReload = useCallback(
+    async (
+      errorMessage: string,
+      action: (userId: string) => Promise<unknown>,
+      context?: Record<string, unknown>
+    ): Promise<boolean> => {
+      if (!user) {
+        setError("User not authenticated");
+        return false;
+      }
+
+      try {
+        setSaving(true);
+        setError(null);
+
+        await action(user.id);
+        setOverview(await debtService.getDebtOverview(user.id));
+        return true;
+      } catch (err) {
+        setError(errorMessage);
+        logError(err, errorMessage, { userId: user.id, ...context });
+        return false;
+      } finally {
+        setSaving(false);
+      }
+    },
+    [user]
+  );
+
+  const createDebt = useCallback(
+    (data: DebtAccountFormData) =>
+      runAndReload("Failed to create debt account", (userId) =>
+        debtService.createDebtAccount(userId, data)
+      ),
+    [runAndReload]
+  );
+
+  const updateDebt = useCallback(
+    (accountId: string, data: DebtAccountFormData) =>
+      runAndReload(
+        "Failed to update debt account",
+        (userId) => debtService.updateDebtAccount(accountId, data, userId),
+        { accountId }
+      ),
+    [runAndReload]
+  );
+
+  const deleteDebt = useCallback(
+    (accountId: string) =>
+      runAndReload(
+        "Failed to delete debt account",
+        (userId) => debtService.deleteDebtAccount(accountId, userId),
+        { accountId }
+      ),
+    [runAndReload]
+  );
+
+  const setPayoffPriority = useCallback(
+    (priority: DebtPayoffPriority) =>
+      runAndReload(
+        "Failed to update payoff plan",
+        (userId) => debtService.updatePayoffPriority(userId, priority),
+        { priority }
+      ),
+    [runAndReload]
+  );
+
+  useEffect(() => {
+    loadDebts();
+  }, [loadDebts]);
+
+  return {
+    accounts: overview?.accounts || [],
+    priority: overview?.priority || "highest_interest",
+    budgetedMonthly: overview?.budgeted_monthly || 0,
+    loading,
+    saving,
+    error,
+    createDebt,
+    updateDebt,
+    deleteDebt,
+    setPayoffPriority,
+    refresh: loadDebts,
+    clearError: () => setError(null),
+  };
+}
@@ -7,6 +7,7 @@ import type {
   ExpenseValidationResult,
   DuplicateDetectionOptions,
   ExpenseWithDetails,
+  BulkDuplicateCheckResult,
 } from "@/lib/types/expenses";
 
 const expenseService = new ExpenseService();
@@ -175,19 +176,13 @@ export function useBulkDuplicateDetection() {
   const { user } = useAuth();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [results, setResults] = useState<
-    Array<{
-      expense: ExpenseCreateData;
-      validation: ExpenseValidationResult;
-      duplicateExpense?: ExpenseWithDetails;
-    }>
-  >([]);
+  const [results, setResults] = useState<BulkDuplicateCheckResult[]>([]);
 
   const checkBulkDuplicates = useCallback(
     async (
       expenses: ExpenseCreateData[],
       options: DuplicateDetectionOptions = {}
-    ) => {
+    ): Promise<BulkDuplicateCheckResult[]> => {
       if (!user) {
         setError("User not authenticated");
         return [];
@@ -206,54 +201,13 @@ export function useBulkDuplicateDetection() {
           ...options,
         };
 
-        const results: Array<{
-          expense: ExpenseCreateData;
-          validation: ExpenseValidationResult;
-          duplicateExpense?: ExpenseWithDetails;
-        }> = [];
-
-        // Check each expense for duplicates
-        for (const expense of expenses) {
-          try {
-            const validation = await expenseService.checkForDuplicates(
-              user.id,
-              expense,
-              duplicateOptions
-            );
-
-            let duplicateExpense: ExpenseWithDetails | undefined;
-            if (validation.is_duplicate && validation.duplicate_expense_id) {
-              duplicateExpense =
-                (await expenseService.getExpenseById(
-                  validation.duplicate_expense_id,
-                  true
-                )) || undefined;
-            }
-
-            results.push({
-              expense,
-              validation,
-              duplicateExpense,
-            });
-          } catch (err) {
-            // Log the error for debugging
-            logError(err, "Failed to check individual expense for duplicates", {
-              userId: user.id,
-              expense,
-            });
-
-            // Add error result for this expense
-            results.push({
-              expense,
-              validation: {
-                is_valid: false,
-                errors: ["Failed to check for duplicates"],
-                warnings: [],
-                is_duplicate: false,
-              },
-            });
-          }
-        }
+        // One query covers the whole batch, including rows that duplicate
+        // each other within it
+        const results = await expenseService.checkForDuplicatesBulk(
+          user.id,
+          expenses,
+          duplicateOptions
+        );
 
         setResults(results);
         return results;
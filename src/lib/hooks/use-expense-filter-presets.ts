@@ -0,0 +1,162 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "@/lib/auth/auth-context";
+import { ExpenseFilterPresetService } from "@/lib/services/expense-filter-preset-service";
+import { logger } from "@/lib/error-handling";
+import type { ExpenseFilters } from "@/lib/types/expenses";
+import type { ExpenseFilterPreset } from "@/lib/types/expense-filter-presets";
+
+const expenseFilterPresetService = new ExpenseFilterPresetService();
+
+// Helper function for error logging
+const logError = (
+  error: unknown,
+  message: string,
+  context?: Record<string, unknown>
+) => {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  logger.logUnhandledError(
+    new Error(`${message}: ${errorMessage}`),
+    undefined,
+    context
+  );
+};
+
+const sortPresets = (presets: ExpenseFilterPreset[]) =>
+  [...presets].sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * Hook for managing saved expense filter presets
+ */
+export function useExpenseFilterPresets() {
+  const { user } = useAuth();
+  const [presets, setPresets] = useState<ExpenseFilterPreset[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPresets = useCallback(async () => {
+    if (!user) {
+      setPresets([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const data = await expenseFilterPresetService.getPresets(user.id);
+      setPresets(data);
+    } catch (err) {
+      const errorMessage = "Failed to load filter presets";
+      setError(errorMessage);
+      logError(err, errorMessage, { userId: user.id });
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const savePreset = useCallback(
+    async (
+      name: string,
+      filters: ExpenseFilters
+    ): Promise<ExpenseFilterPreset | null> => {
+      if (!user) {
+        setError("User not authenticated");
+        return null;
+      }
+
+      if (presets.some((p) => p.name === name.trim())) {
+        setError(`A preset named "${name.trim()}" already exists`);
+        return null;
+      }
+
+      try {
+        setError(null);
+
+        const preset = await expenseFilterPresetService.createPreset(
+          user.id,
+          name,
+          filters
+        );
+        setPresets((prev) => sortPresets([...prev, preset]));
+        return preset;
+      } catch (err) {
+        const errorMessage = "Failed to save filter preset";
+        setError(errorMessage);
+        logError(err, errorMessage, { userId: user.id, name });
+        return null;
+      }
+    },
+    [user, presets]
+  );
+
+  const updatePreset = useCallback(
+    async (
+      presetId: string,
+      updates: { name?: string; filters?: ExpenseFilters }
+    ): Promise<ExpenseFilterPreset | null> => {
+      if (!user) {
+        setError("User not authenticated");
+        return null;
+      }
+
+      try {
+        setError(null);
+
+        const preset = await expenseFilterPresetService.updatePreset(
+          presetId,
+          updates,
+          user.id
+        );
+        setPresets((prev) =>
+          sortPresets(prev.map((p) => (p.id === presetId ? preset : p)))
+        );
+        return preset;
+      } catch (err) {
+        const errorMessage = "Failed to update filter preset";
+        setError(errorMessage);
+        logError(err, errorMessage, { userId: user.id, presetId });
+        return null;
+      }
+    },
+    [user]
+  );
+
+  const deletePreset = useCallback(
+    async (presetId: string): Promise<boolean> => {
+      if (!user) {
+        setError("User not authenticated");
+        return false;
+      }
+
+      try {
+        setError(null);
+
+        await expenseFilterPresetService.deletePreset(presetId, user.id);
+        setPresets((prev) => prev.filter((p) => p.id !== presetId));
+        return true;
+      } catch (err) {
+        const errorMessage = "Failed to delete filter preset";
+        setError(errorMessage);
+        logError(err, errorMessage, { userId: user.id, presetId });
+        return false;
+      }
+    },
+    [user]
+  );
+
+  useEffect(() => {
+    loadPresets();
+  }, [loadPresets]);
+
+  return {
+    presets,
+    loading,
+    error,
+    savePreset,
+    updatePreset,
+    deletePreset,
+    refresh: loadPresets,
+    clearError: () => setError(null),
+  };
+}
@@ -0,0 +1,182 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "@/lib/auth/auth-context";
+import {
+  ExpenseImportService,
+  type ExpenseImportOptions,
+} from "@/lib/services/expense-import-service";
+import { logger } from "@/lib/error-handling";
+import type {
+  CsvImportSettings,
+  ExpenseCreateData,
+  ExpenseImportResult,
+  ImportProfile,
+} from "@/lib/types/expenses";
+
+const expenseImportService = new ExpenseImportService();
+
+// Helper function for error logging
+const logError = (
+  error: unknown,
+  message: string,
+  context?: Record<string, unknown>
+) => {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  logger.logUnhandledError(
+    new Error(`${message}: ${errorMessage}`),
+    undefined,
+    context
+  );
+};
+
+/**
+ * Hook for saved per-bank CSV import profiles
+ */
+export function useImportProfiles() {
+  const { user } = useAuth();
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProfiles = useCallback(async () => {
+    if (!user) {
+      setProfiles([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const data = await expenseImportService.getImportProfiles(user.id);
+      setProfiles(data);
+    } catch (err) {
+      const errorMessage = "Failed to load import profiles";
+      setError(errorMessage);
+      logError(err, errorMessage, { userId: user.id });
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const saveProfile = useCallback(
+    async (
+      bankName: string,
+      settings: CsvImportSettings
+    ): Promise<ImportProfile | null> => {
+      if (!user) {
+        setError("User not authenticated");
+        return null;
+      }
+
+      try {
+        setError(null);
+
+        const profile = await expenseImportService.saveImportProfile(
+          user.id,
+          bankName,
+          settings
+        );
+        setProfiles((prev) =>
+          [...prev.filter((p) => p.id !== profile.id), profile].sort((a, b) =>
+            a.bank_name.localeCompare(b.bank_name)
+          )
+        );
+        return profile;
+      } catch (err) {
+        const errorMessage = "Failed to save import profile";
+        setError(errorMessage);
+        logError(err, errorMessage, { userId: user.id, bankName });
+        return null;
+      }
+    },
+    [user]
+  );
+
+  const deleteProfile = useCallback(
+    async (profileId: string): Promise<boolean> => {
+      if (!user) {
+        setError("User not authenticated");
+        return false;
+      }
+
+      try {
+        setError(null);
+
+        await expenseImportService.deleteImportProfile(profileId, user.id);
+        setProfiles((prev) => prev.filter((p) => p.id !== profileId));
+        return true;
+      } catch (err) {
+        const errorMessage = "Failed to delete import profile";
+        setError(errorMessage);
+        logError(err, errorMessage, { userId: user.id, profileId });
+        return false;
+      }
+    },
+    [user]
+  );
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  return {
+    profiles,
+    loading,
+    error,
+    saveProfile,
+    deleteProfile,
+    refresh: loadProfiles,
+    clearError: () => setError(null),
+  };
+}
+
+/**
+ * Hook for importing a batch of parsed expenses
+ */
+export function useExpenseImport() {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const importExpenses = useCallback(
+    async (
+      expenses: ExpenseCreateData[],
+      options?: ExpenseImportOptions
+    ): Promise<ExpenseImportResult | null> => {
+      if (!user) {
+        setError("User not authenticated");
+        return null;
+      }
+
+      try {
+        setLoading(true);
+        setError(null);
+
+        return await expenseImportService.importExpenses(
+          user.id,
+          expenses,
+          options
+        );
+      } catch (err) {
+        const errorMessage = "Failed to import expenses";
+        setError(errorMessage);
+        logError(err, errorMessage, {
+          userId: user.id,
+          expenseCount: expenses.length,
+        });
+        return null;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [user]
+  );
+
+  return {
+    loading,
+    error,
+    importExpenses,
+    clearError: () => setError(null),
+  };
+}
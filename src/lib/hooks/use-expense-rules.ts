@@ -0,0 +1,209 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "@/lib/auth/auth-context";
+import { ExpenseRuleService } from "@/lib/services/expense-rule-service";
+import { logger } from "@/lib/error-handling";
+import type {
+  ExpenseRule,
+  ExpenseRuleFormData,
+  ExpenseRulePreview,
+  ExpenseRuleUpdate,
+} from "@/lib/types/expense-rules";
+
+const expenseRuleService = new ExpenseRuleService();
+
+// Helper function for error logging
+const logError = (
+  error: unknown,
+  message: string,
+  context?: Record<string, unknown>
+) => {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  logger.logUnhandledError(
+    new Error(`${message}: ${errorMessage}`),
+    undefined,
+    context
+  );
+};
+
+const sortRules = (rules: ExpenseRule[]) =>
+  [...rules].sort(
+    (a, b) =>
+      a.priority - b.priority || a.created_at.localeCompare(b.created_at)
+  );
+
+/**
+ * Hook for managing auto-categorization rules
+ */
+export function useExpenseRules() {
+  const { user } = useAuth();
+  const [rules, setRules] = useState<ExpenseRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRules = useCallback(async () => {
+    if (!user) {
+      setRules([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const data = await expenseRuleService.getRules(user.id);
+      setRules(data);
+    } catch (err) {
+      const errorMessage = "Failed to load expense rules";
+      setError(errorMessage);
+      logError(err, errorMessage, { userId: user.id });
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const createRule = useCallback(
+    async (ruleData: ExpenseRuleFormData): Promise<ExpenseRule | null> => {
+      if (!user) {
+        setError("User not authenticated");
+        return null;
+      }
+
+      try {
+        setError(null);
+
+        const rule = await expenseRuleService.createRule(user.id, ruleData);
+        setRules((prev) => sortRules([...prev, rule]));
+        return rule;
+      } catch (err) {
+        const errorMessage = "Failed to create expense rule";
+        setError(errorMessage);
+        logError(err, errorMessage, { userId: user.id });
+        return null;
+      }
+    },
+    [user]
+  );
+
+  const updateRule = useCallback(
+    async (
+      ruleId: string,
+      updates: ExpenseRuleUpdate
+    ): Promise<ExpenseRule | null> => {
+      if (!user) {
+        setError("User not authenticated");
+        return null;
+      }
+
+      try {
+        setError(null);
+
+        const rule = await expenseRuleService.updateRule(
+          ruleId,
+          updates,
+          user.id
+        );
+        setRules((prev) =>
+          sortRules(prev.map((r) => (r.id === ruleId ? rule : r)))
+        );
+        return rule;
+      } catch (err) {
+        const errorMessage = "Failed to update expense rule";
+        setError(errorMessage);
+        logError(err, errorMessage, { userId: user.id, ruleId });
+        return null;
+      }
+    },
+    [user]
+  );
+
+  const deleteRule = useCallback(
+    async (ruleId: string): Promise<boolean> => {
+      if (!user) {
+        setError("User not authenticated");
+        return false;
+      }
+
+      try {
+        setError(null);
+
+        await expenseRuleService.deleteRule(ruleId, user.id);
+        setRules((prev) => prev.filter((r) => r.id !== ruleId));
+        return true;
+      } catch (err) {
+        const errorMessage = "Failed to delete expense rule";
+        setError(errorMessage);
+        logError(err, errorMessage, { userId: user.id, ruleId });
+        return false;
+      }
+    },
+    [user]
+  );
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  return {
+    rules,
+    loading,
+    error,
+    createRule,
+    updateRule,
+    deleteRule,
+    refresh: loadRules,
+    clearError: () => setError(null),
+  };
+}
+
+/**
+ * Hook for testing a rule against recent expenses before saving it
+ */
+export function useExpenseRulePreview() {
+  const { user } = useAuth();
+  const [preview, setPreview] = useState<ExpenseRulePreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runPreview = useCallback(
+    async (
+      ruleData: ExpenseRuleFormData,
+      days = 90
+    ): Promise<ExpenseRulePreview | null> => {
+      if (!user) {
+        setError("User not authenticated");
+        return null;
+      }
+
+      try {
+        setLoading(true);
+        setError(null);
+
+        const result = await expenseRuleService.previewRule(
+          user.id,
+          ruleData,
+          days
+        );
+        setPreview(result);
+        return result;
+      } catch (err) {
+        const errorMessage = "Failed to test expense rule";
+        setError(errorMessage);
+        logError(err, errorMessage, { userId: user.id, days });
+        return null;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [user]
+  );
+
+  return {
+    preview,
+    loading,
+    error,
+    runPreview,
+    clearPreview: () => setPreview(null),
+    clearError: () => setError(null),
+  };
+}
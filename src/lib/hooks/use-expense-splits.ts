@@ -0,0 +1,138 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "@/lib/auth/auth-context";
+import { ExpenseSplitService } from "@/lib/services/expense-split-service";
+import { logger } from "@/lib/error-handling";
+import type {
+  Expense,
+  ExpenseSplitLine,
+  SplitExpense,
+} from "@/lib/types/expenses";
+
+const expenseSplitService = new ExpenseSplitService();
+
+// Helper function for error logging
+const logError = (
+  error: unknown,
+  message: string,
+  context?: Record<string, unknown>
+) => {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  logger.logUnhandledError(
+    new Error(`${message}: ${errorMessage}`),
+    undefined,
+    context
+  );
+};
+
+/**
+ * Hook for splitting a transaction across categories and budget items.
+ * Accepts the transaction or any of its split lines.
+ */
+export function useExpenseSplit(expenseId: string | null) {
+  const { user } = useAuth();
+  const [split, setSplit] = useState<SplitExpense | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSplit = useCallback(async () => {
+    if (!user || !expenseId) {
+      setSplit(null);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const data = await expenseSplitService.getSplitExpense(
+        user.id,
+        expenseId
+      );
+      setSplit(data);
+    } catch (err) {
+      const errorMessage = "Failed to load expense";
+      setError(errorMessage);
+      logError(err, errorMessage, { userId: user.id, expenseId });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, expenseId]);
+
+  const saveSplit = useCallback(
+    async (lines: ExpenseSplitLine[]): Promise<SplitExpense | null> => {
+      if (!user || !split) {
+        setError("User not authenticated");
+        return null;
+      }
+
+      try {
+        setSaving(true);
+        setError(null);
+
+        const result = await expenseSplitService.splitExpense(
+          user.id,
+          split.parent.id,
+          lines
+        );
+        setSplit(result);
+        return result;
+      } catch (err) {
+        const errorMessage = "Failed to split expense";
+        setError(errorMessage);
+        logError(err, errorMessage, {
+          userId: user.id,
+          expenseId: split.parent.id,
+        });
+        return null;
+      } finally {
+        setSaving(false);
+      }
+    },
+    [user, split]
+  );
+
+  const removeSplit = useCallback(async (): Promise<Expense | null> => {
+    if (!user || !split) {
+      setError("User not authenticated");
+      return null;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const parent = await expenseSplitService.removeSplit(
+        user.id,
+        split.parent.id
+      );
+      setSplit({ parent, lines: [] });
+      return parent;
+    } catch (err) {
+      const errorMessage = "Failed to remove split";
+      setError(errorMessage);
+      logError(err, errorMessage, {
+        userId: user.id,
+        expenseId: split.parent.id,
+      });
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  }, [user, split]);
+
+  useEffect(() => {
+    loadSplit();
+  }, [loadSplit]);
+
+  return {
+    split,
+    loading,
+    saving,
+    error,
+    saveSplit,
+    removeSplit,
+    refresh: loadSplit,
+    clearError: () => setError(null),
+  };
+}
@@ -11,6 +11,7 @@ import type {
   ExpenseFilters,
   ExpenseSummary,
   ExpenseValidationResult,
+  TagUsage,
 } from "@/lib/types/expenses";
 import { validateExpenseComprehensive } from "@/lib/utils/expense-validation";
 
@@ -534,3 +535,46 @@ export function useExpenseValidation() {
     clearValidation: () => setValidationResult(null),
   };
 }
+
+/**
+ * Hook for the tags a user has already used, for suggestions and filters
+ */
+export function useExpenseTags() {
+  const { user } = useAuth();
+  const [tags, setTags] = useState<TagUsage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTags = useCallback(async () => {
+    if (!user) {
+      setTags([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const data = await expenseService.getUserTags(user.id);
+      setTags(data);
+    } catch (err) {
+      const errorMessage = "Failed to load tags";
+      setError(errorMessage);
+      logError(err, errorMessage, { userId: user.id });
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadTags();
+  }, [loadTags]);
+
+  return {
+    tags,
+    loading,
+    error,
+    refresh: loadTags,
+  };
+}
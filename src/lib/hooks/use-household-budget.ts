@@ -0,0 +1,146 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "@/lib/auth/auth-context";
+import { PayPeriodService } from "@/lib/services/pay-period-service";
+import { logger } from "@/lib/error-handling";
+import type {
+  HouseholdBudgetSettings,
+  PayPeriodDepositWithSource,
+} from "@/lib/types/pay-periods";
+
+const payPeriodService = new PayPeriodService();
+
+// Helper function for error logging
+const logError = (
+  error: unknown,
+  message: string,
+  context?: Record<string, unknown>
+) => {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  logger.logUnhandledError(
+    new Error(`${message}: ${errorMessage}`),
+    undefined,
+    context
+  );
+};
+
+/**
+ * Hook for the user's budgeting mode and household period settings
+ */
+export function useHouseholdBudget() {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<HouseholdBudgetSettings | null>(
+    null
+  );
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSettings = useCallback(async () => {
+    if (!user) {
+      setSettings(null);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const data = await payPeriodService.getBudgetSettings(user.id);
+      setSettings(data);
+    } catch (err) {
+      const errorMessage = "Failed to load budget settings";
+      setError(errorMessage);
+      logError(err, errorMessage, { userId: user.id });
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const saveSettings = useCallback(
+    async (
+      updates: Partial<HouseholdBudgetSettings>
+    ): Promise<HouseholdBudgetSettings | null> => {
+      if (!user) {
+        setError("User not authenticated");
+        return null;
+      }
+
+      try {
+        setSaving(true);
+        setError(null);
+
+        const saved = await payPeriodService.updateBudgetSettings(
+          user.id,
+          updates
+        );
+        setSettings(saved);
+        return saved;
+      } catch (err) {
+        const errorMessage = "Failed to save budget settings";
+        setError(errorMessage);
+        logError(err, errorMessage, { userId: user.id, updates });
+        return null;
+      } finally {
+        setSaving(false);
+      }
+    },
+    [user]
+  );
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  return {
+    settings,
+    isHousehold: settings?.budget_mode === "HOUSEHOLD",
+    loading,
+    saving,
+    error,
+    saveSettings,
+    refresh: loadSettings,
+    clearError: () => setError(null),
+  };
+}
+
+/**
+ * Hook for the paychecks that make up a pay period
+ */
+export function usePayPeriodDeposits(payPeriodId: string | null) {
+  const [deposits, setDeposits] = useState<PayPeriodDepositWithSource[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDeposits = useCallback(async () => {
+    if (!payPeriodId) {
+      setDeposits([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const data = await payPeriodService.getPayPeriodDeposits(payPeriodId);
+      setDeposits(data);
+    } catch (err) {
+      const errorMessage = "Failed to load deposits";
+      setError(errorMessage);
+      logError(err, errorMessage, { payPeriodId });
+    } finally {
+      setLoading(false);
+    }
+  }, [payPeriodId]);
+
+  useEffect(() => {
+    loadDeposits();
+  }, [loadDeposits]);
+
+  return {
+    deposits,
+    loading,
+    error,
+    refresh: loadDeposits,
+  };
+}
@@ -0,0 +1,131 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "@/lib/auth/auth-context";
+import { IncomeDepositService } from "@/lib/services/income-deposit-service";
+import { logger } from "@/lib/error-handling";
+import type {
+  BaselineMonth,
+  IncomeDeposit,
+  IncomeDepositFormData,
+  IncomeDepositWithSource,
+  LoggedDeposit,
+} from "@/lib/types/income-deposits";
+
+const incomeDepositService = new IncomeDepositService();
+
+// Helper function for error logging
+const logError = (
+  error: unknown,
+  message: string,
+  context?: Record<string, unknown>
+) => {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  logger.logUnhandledError(
+    new Error(`${message}: ${errorMessage}`),
+    undefined,
+    context
+  );
+};
+
+/**
+ * Hook for logging variable income deposits and the baseline month
+ */
+export function useIncomeDeposits() {
+  const { user } = useAuth();
+  const [deposits, setDeposits] = useState<IncomeDepositWithSource[]>([]);
+  const [baseline, setBaseline] = useState<BaselineMonth | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDeposits = useCallback(async () => {
+    if (!user) {
+      setDeposits([]);
+      setBaseline(null);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [depositData, baselineData] = await Promise.all([
+        incomeDepositService.getDeposits(user.id),
+        incomeDepositService.getBaselineMonth(user.id),
+      ]);
+      setDeposits(depositData);
+      setBaseline(baselineData);
+    } catch (err) {
+      const errorMessage = "Failed to load deposits";
+      setError(errorMessage);
+      logError(err, errorMessage, { userId: user.id });
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const logDeposit = useCallback(
+    async (data: IncomeDepositFormData): Promise<LoggedDeposit | null> => {
+      if (!user) {
+        setError("User not authenticated");
+        return null;
+      }
+
+      try {
+        setError(null);
+
+        const logged = await incomeDepositService.logDeposit(user.id, data);
+        await loadDeposits();
+        return logged;
+      } catch (err) {
+        // The service message says why, e.g. no pay period covers the date
+        const errorMessage =
+          err instanceof Error ? err.message : "Failed to log deposit";
+        setError(errorMessage);
+        logError(err, "Failed to log deposit", { userId: user.id, data });
+        return null;
+      }
+    },
+    [user, loadDeposits]
+  );
+
+  const deleteDeposit = useCallback(
+    async (deposit: IncomeDeposit): Promise<boolean> => {
+      if (!user) {
+        setError("User not authenticated");
+        return false;
+      }
+
+      try {
+        setError(null);
+
+        await incomeDepositService.deleteDeposit(deposit, user.id);
+        await loadDeposits();
+        return true;
+      } catch (err) {
+        const errorMessage = "Failed to delete deposit";
+        setError(errorMessage);
+        logError(err, errorMessage, {
+          userId: user.id,
+          depositId: deposit.id,
+        });
+        return false;
+      }
+    },
+    [user, loadDeposits]
+  );
+
+  useEffect(() => {
+    loadDeposits();
+  }, [loadDeposits]);
+
+  return {
+    deposits,
+    baseline,
+    loading,
+    error,
+    logDeposit,
+    deleteDeposit,
+    refresh: loadDeposits,
+    clearError: () => setError(null),
+  };
+}
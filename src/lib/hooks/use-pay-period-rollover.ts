@@ -0,0 +1,108 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "@/lib/auth/auth-context";
+import { PayPeriodRolloverService } from "@/lib/services/pay-period-rollover-service";
+import { logger } from "@/lib/error-handling";
+import type {
+  PayPeriodJobLog,
+  PeriodCompletionPolicy,
+} from "@/lib/types/pay-periods";
+
+const payPeriodRolloverService = new PayPeriodRolloverService();
+
+// Helper function for error logging
+const logError = (
+  error: unknown,
+  message: string,
+  context?: Record<string, unknown>
+) => {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  logger.logUnhandledError(
+    new Error(`${message}: ${errorMessage}`),
+    undefined,
+    context
+  );
+};
+
+/**
+ * Hook for the user's pay period completion policy and the scheduled
+ * rollover job's recent actions
+ */
+export function usePayPeriodRollover() {
+  const { user } = useAuth();
+  const [policy, setPolicy] = useState<PeriodCompletionPolicy | null>(null);
+  const [jobLog, setJobLog] = useState<PayPeriodJobLog[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRollover = useCallback(async () => {
+    if (!user) {
+      setPolicy(null);
+      setJobLog([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [policyData, logData] = await Promise.all([
+        payPeriodRolloverService.getCompletionPolicy(user.id),
+        payPeriodRolloverService.getJobLog(user.id),
+      ]);
+      setPolicy(policyData);
+      setJobLog(logData);
+    } catch (err) {
+      const errorMessage = "Failed to load automatic rollover settings";
+      setError(errorMessage);
+      logError(err, errorMessage, { userId: user.id });
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const savePolicy = useCallback(
+    async (newPolicy: PeriodCompletionPolicy): Promise<boolean> => {
+      if (!user) {
+        setError("User not authenticated");
+        return false;
+      }
+
+      try {
+        setSaving(true);
+        setError(null);
+
+        await payPeriodRolloverService.updateCompletionPolicy(
+          user.id,
+          newPolicy
+        );
+        setPolicy(newPolicy);
+        return true;
+      } catch (err) {
+        const errorMessage = "Failed to save completion policy";
+        setError(errorMessage);
+        logError(err, errorMessage, { userId: user.id, newPolicy });
+        return false;
+      } finally {
+        setSaving(false);
+      }
+    },
+    [user]
+  );
+
+  useEffect(() => {
+    loadRollover();
+  }, [loadRollover]);
+
+  return {
+    policy,
+    jobLog,
+    loading,
+    saving,
+    error,
+    savePolicy,
+    refresh: loadRollover,
+    clearError: () => setError(null),
+  };
+}
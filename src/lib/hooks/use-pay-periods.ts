@@ -37,6 +37,7 @@ interface UsePayPeriodsReturn {
   generateNextPayPeriod: (
     config: PayPeriodGenerationConfig
   ) => Promise<PayPeriodGenerationResult>;
+  generateNextHouseholdPayPeriod: () => Promise<PayPeriodGenerationResult>;
   getPayPeriodWithDetails: (
     payPeriodId: string
   ) => Promise<PayPeriodWithDetails | null>;
@@ -178,6 +179,41 @@ export function usePayPeriods(
     [user, payPeriodService, fetchPayPeriods]
   );
 
+  // Generate next household pay period from all income sources
+  const generateNextHouseholdPayPeriod =
+    useCallback(async (): Promise<PayPeriodGenerationResult> => {
+      if (!user) {
+        return { success: false, error: "User not authenticated" };
+      }
+
+      try {
+        setIsGenerating(true);
+        setError(null);
+
+        const result = await payPeriodService.generateNextHouseholdPayPeriod(
+          user.id
+        );
+
+        if (result.success) {
+          await fetchPayPeriods();
+        } else {
+          setError(result.error || "Failed to generate pay period");
+        }
+
+        return result;
+      } catch (err) {
+        const errorMessage =
+          err instanceof Error ? err.message : "Failed to generate pay period";
+        setError(errorMessage);
+        await logger.logUnhandledError(err as Error, user.id, {
+          context: "usePayPeriods.generateNextHouseholdPayPeriod",
+        });
+        return { success: false, error: errorMessage };
+      } finally {
+        setIsGenerating(false);
+      }
+    }, [user, payPeriodService, fetchPayPeriods]);
+
   // Get pay period with details
   const getPayPeriodWithDetails = useCallback(
     async (payPeriodId: string): Promise<PayPeriodWithDetails | null> => {
@@ -443,6 +479,13 @@ export function usePayPeriods(
 
     const generateForActiveIncomeSources = async () => {
       try {
+        // Household budgets get one period combining every income source
+        const settings = await payPeriodService.getBudgetSettings(user.id);
+        if (settings.budget_mode === "HOUSEHOLD") {
+          await generateNextHouseholdPayPeriod();
+          return;
+        }
+
         // Fetch all active income sources for the user
         const { data: incomeSources, error } = await supabase
           .from("income_sources")
@@ -479,7 +522,7 @@ export function usePayPeriods(
     };
 
     generateForActiveIncomeSources();
-    // We intentionally omit generateNextPayPeriod from deps to avoid re-running while it mutates state
+    // We intentionally omit the generate functions from deps to avoid re-running while they mutate state
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [user, payPeriods, isLoading, isGenerating, supabase]);
 
@@ -547,6 +590,7 @@ export function usePayPeriods(
     // Actions
     refreshPayPeriods,
     generateNextPayPeriod,
+    generateNextHouseholdPayPeriod,
     getPayPeriodWithDetails,
     updatePayPeriod,
     completePayPeriod,
@@ -581,13 +625,19 @@ export function useCurrentPayPeriod() {
  * Hook for pay period generation operations
  */
 export function usePayPeriodGeneration() {
-  const { generateNextPayPeriod, isGenerating, error, clearError } =
-    usePayPeriods({
-      autoRefresh: false,
-    });
+  const {
+    generateNextPayPeriod,
+    generateNextHouseholdPayPeriod,
+    isGenerating,
+    error,
+    clearError,
+  } = usePayPeriods({
+    autoRefresh: false,
+  });
 
   return {
     generateNextPayPeriod,
+    generateNextHouseholdPayPeriod,
     isGenerating,
     error,
     clearError,
@@ -0,0 +1,377 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useAuth } from "@/lib/auth/auth-context";
+import { RecurringExpenseService } from "@/lib/services/recurring-expense-service";
+import { logger } from "@/lib/error-handling";
+import {
+  getTodayIsoDate,
+  getUpcomingOccurrences,
+} from "@/lib/utils/recurring-expenses";
+import type {
+  PendingRecurringExpense,
+  RecurringExpense,
+  RecurringExpenseFormData,
+  RecurringExpenseOccurrence,
+  UpcomingOccurrence,
+} from "@/lib/types/recurring-expenses";
+
+const recurringExpenseService = new RecurringExpenseService();
+
+// Occurrences shown per recurring expense
+const UPCOMING_COUNT = 3;
+
+// Helper function for error logging
+const logError = (
+  error: unknown,
+  message: string,
+  context?: Record<string, unknown>
+) => {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  logger.logUnhandledError(
+    new Error(`${message}: ${errorMessage}`),
+    undefined,
+    context
+  );
+};
+
+/**
+ * Hook for managing recurring expenses and their upcoming occurrences
+ */
+export function useRecurringExpenses() {
+  const { user } = useAuth();
+  const [recurringExpenses, setRecurringExpenses] = useState<
+    RecurringExpense[]
+  >([]);
+  const [occurrences, setOccurrences] = useState<RecurringExpenseOccurrence[]>(
+    []
+  );
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRecurringExpenses = useCallback(async () => {
+    if (!user) {
+      setRecurringExpenses([]);
+      setOccurrences([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [schedules, recorded] = await Promise.all([
+        recurringExpenseService.getRecurringExpenses(user.id),
+        recurringExpenseService.getOccurrences(user.id, getTodayIsoDate()),
+      ]);
+      setRecurringExpenses(schedules);
+      setOccurrences(recorded);
+    } catch (err) {
+      const errorMessage = "Failed to load recurring expenses";
+      setError(errorMessage);
+      logError(err, errorMessage, { userId: user.id });
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  // Next few dates per active schedule, marked with any recorded status
+  const upcoming = useMemo<Record<string, UpcomingOccurrence[]>>(() => {
+    const result: Record<string, UpcomingOccurrence[]> = {};
+
+    recurringExpenses
+      .filter((recurring) => recurring.is_active)
+      .forEach((recurring) => {
+        result[recurring.id] = getUpcomingOccurrences(
+          recurring,
+          UPCOMING_COUNT
+        ).map((date) => ({
+          recurring_expense: recurring,
+          date,
+          status:
+            occurrences.find(
+              (occurrence) =>
+                occurrence.recurring_expense_id === recurring.id &&
+                occurrence.occurrence_date === date
+            )?.status || "SCHEDULED",
+        }));
+      });
+
+    return result;
+  }, [recurringExpenses, occurrences]);
+
+  const createRecurringExpense = useCallback(
+    async (
+      data: RecurringExpenseFormData
+    ): Promise<RecurringExpense | null> => {
+      if (!user) {
+        setError("User not authenticated");
+        return null;
+      }
+
+      try {
+        setError(null);
+
+        const recurring = await recurringExpenseService.createRecurringExpense(
+          user.id,
+          data
+        );
+        setRecurringExpenses((prev) =>
+          [...prev, recurring].sort((a, b) =>
+            a.next_date.localeCompare(b.next_date)
+          )
+        );
+        return recurring;
+      } catch (err) {
+        const errorMessage = "Failed to create recurring expense";
+        setError(errorMessage);
+        logError(err, errorMessage, { userId: user.id });
+        return null;
+      }
+    },
+    [user]
+  );
+
+  const updateRecurringExpense = useCallback(
+    async (
+      recurringExpenseId: string,
+      data: RecurringExpenseFormData
+    ): Promise<RecurringExpense | null> => {
+      if (!user) {
+        setError("User not authenticated");
+        return null;
+      }
+
+      try {
+        setError(null);
+
+        const recurring = await recurringExpenseService.updateRecurringExpense(
+          recurringExpenseId,
+          data,
+          user.id
+        );
+        setRecurringExpenses((prev) =>
+          prev
+            .map((r) => (r.id === recurringExpenseId ? recurring : r))
+            .sort((a, b) => a.next_date.localeCompare(b.next_date))
+        );
+        return recurring;
+      } catch (err) {
+        const errorMessage = "Failed to update recurring expense";
+        setError(errorMessage);
+        logError(err, errorMessage, { userId: user.id, recurringExpenseId });
+        return null;
+      }
+    },
+    [user]
+  );
+
+  const deleteRecurringExpense = useCallback(
+    async (recurringExpenseId: string): Promise<boolean> => {
+      if (!user) {
+        setError("User not authenticated");
+        return false;
+      }
+
+      try {
+        setError(null);
+
+        await recurringExpenseService.deleteRecurringExpense(
+          recurringExpenseId,
+          user.id
+        );
+        setRecurringExpenses((prev) =>
+          prev.filter((r) => r.id !== recurringExpenseId)
+        );
+        return true;
+      } catch (err) {
+        const errorMessage = "Failed to delete recurring expense";
+        setError(errorMessage);
+        logError(err, errorMessage, { userId: user.id, recurringExpenseId });
+        return false;
+      }
+    },
+    [user]
+  );
+
+  const skipOccurrence = useCallback(
+    async (recurringExpenseId: string, date: string): Promise<boolean> => {
+      if (!user) {
+        setError("User not authenticated");
+        return false;
+      }
+
+      try {
+        setError(null);
+
+        const occurrence = await recurringExpenseService.skipOccurrence(
+          user.id,
+          recurringExpenseId,
+          date
+        );
+        setOccurrences((prev) => [
+          ...prev.filter((o) => o.id !== occurrence.id),
+          occurrence,
+        ]);
+        return true;
+      } catch (err) {
+        const errorMessage = "Failed to skip occurrence";
+        setError(errorMessage);
+        logError(err, errorMessage, { userId: user.id, recurringExpenseId });
+        return false;
+      }
+    },
+    [user]
+  );
+
+  const unskipOccurrence = useCallback(
+    async (recurringExpenseId: string, date: string): Promise<boolean> => {
+      if (!user) {
+        setError("User not authenticated");
+        return false;
+      }
+
+      try {
+        setError(null);
+
+        await recurringExpenseService.unskipOccurrence(
+          user.id,
+          recurringExpenseId,
+          date
+        );
+        setOccurrences((prev) =>
+          prev.filter(
+            (o) =>
+              !(
+                o.recurring_expense_id === recurringExpenseId &&
+                o.occurrence_date === date
+              )
+          )
+        );
+        return true;
+      } catch (err) {
+        const errorMessage = "Failed to restore occurrence";
+        setError(errorMessage);
+        logError(err, errorMessage, { userId: user.id, recurringExpenseId });
+        return false;
+      }
+    },
+    [user]
+  );
+
+  useEffect(() => {
+    loadRecurringExpenses();
+  }, [loadRecurringExpenses]);
+
+  return {
+    recurringExpenses,
+    upcoming,
+    loading,
+    error,
+    createRecurringExpense,
+    updateRecurringExpense,
+    deleteRecurringExpense,
+    skipOccurrence,
+    unskipOccurrence,
+    refresh: loadRecurringExpenses,
+    clearError: () => setError(null),
+  };
+}
+
+/**
+ * Hook for recurring expense drafts awaiting confirmation
+ */
+export function usePendingRecurringExpenses() {
+  const { user } = useAuth();
+  const [pending, setPending] = useState<PendingRecurringExpense[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPending = useCallback(async () => {
+    if (!user) {
+      setPending([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const data = await recurringExpenseService.getPendingOccurrences(user.id);
+      setPending(data);
+    } catch (err) {
+      const errorMessage = "Failed to load pending expenses";
+      setError(errorMessage);
+      logError(err, errorMessage, { userId: user.id });
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const confirmDraft = useCallback(
+    async (occurrenceId: string): Promise<boolean> => {
+      if (!user) {
+        setError("User not authenticated");
+        return false;
+      }
+
+      try {
+        setError(null);
+
+        await recurringExpenseService.confirmOccurrence(user.id, occurrenceId);
+        setPending((prev) => prev.filter((o) => o.id !== occurrenceId));
+        return true;
+      } catch (err) {
+        const errorMessage = "Failed to confirm expense";
+        setError(errorMessage);
+        logError(err, errorMessage, { userId: user.id, occurrenceId });
+        return false;
+      }
+    },
+    [user]
+  );
+
+  const dismissDraft = useCallback(
+    async (draft: PendingRecurringExpense): Promise<boolean> => {
+      if (!user) {
+        setError("User not authenticated");
+        return false;
+      }
+
+      try {
+        setError(null);
+
+        await recurringExpenseService.skipOccurrence(
+          user.id,
+          draft.recurring_expense_id,
+          draft.occurrence_date
+        );
+        setPending((prev) => prev.filter((o) => o.id !== draft.id));
+        return true;
+      } catch (err) {
+        const errorMessage = "Failed to dismiss expense";
+        setError(errorMessage);
+        logError(err, errorMessage, {
+          userId: user.id,
+          occurrenceId: draft.id,
+        });
+        return false;
+      }
+    },
+    [user]
+  );
+
+  useEffect(() => {
+    loadPending();
+  }, [loadPending]);
+
+  return {
+    pending,
+    loading,
+    error,
+    confirmDraft,
+    dismissDraft,
+    refresh: loadPending,
+    clearError: () => setError(null),
+  };
+}
@@ -0,0 +1,146 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "@/lib/auth/auth-context";
+import { SavingsGoalService } from "@/lib/services/savings-goal-service";
+import { logger } from "@/lib/error-handling";
+import { getTodayIsoDate } from "@/lib/utils/recurring-expenses";
+import type {
+  SavingsGoalFormData,
+  SavingsGoalWithProgress,
+} from "@/lib/types/savings-goals";
+
+const savingsGoalService = new SavingsGoalService();
+
+// Helper function for error logging
+const logError = (
+  error: unknown,
+  message: string,
+  context?: Record<string, unknown>
+) => {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  logger.logUnhandledError(
+    new Error(`${message}: ${errorMessage}`),
+    undefined,
+    context
+  );
+};
+
+/**
+ * Hook for managing savings goals and matching their budget items
+ */
+export function useSavingsGoals() {
+  const { user } = useAuth();
+  const [goals, setGoals] = useState<SavingsGoalWithProgress[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadGoals = useCallback(async () => {
+    if (!user) {
+      setGoals([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      setGoals(
+        await savingsGoalService.getSavingsGoals(user.id, getTodayIsoDate())
+      );
+    } catch (err) {
+      const errorMessage = "Failed to load savings goals";
+      setError(errorMessage);
+      logError(err, errorMessage, { userId: user.id });
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  // Progress depends on the linked budget item, so every change reloads
+  const runAndReload = useCallback(
+    async (
+      errorMessage: string,
+      action: (userId: string) => Promise<unknown>,
+      context?: Record<string, unknown>
+    ): Promise<boolean> => {
+      if (!user) {
+        setError("User not authenticated");
+        return false;
+      }
+
+      try {
+        setSaving(true);
+        setError(null);
+
+        await action(user.id);
+        setGoals(
+          await savingsGoalService.getSavingsGoals(user.id, getTodayIsoDate())
+        );
+        return true;
+      } catch (err) {
+        setError(errorMessage);
+        logError(err, errorMessage, { userId: user.id, ...context });
+        return false;
+      } finally {
+        setSaving(false);
+      }
+    },
+    [user]
+  );
+
+  const createGoal = useCallback(
+    (data: SavingsGoalFormData) =>
+      runAndReload("Failed to create savings goal", (userId) =>
+        savingsGoalService.createSavingsGoal(userId, data)
+      ),
+    [runAndReload]
+  );
+
+  const updateGoal = useCallback(
+    (goalId: string, data: SavingsGoalFormData) =>
+      runAndReload(
+        "Failed to update savings goal",
+        (userId) => savingsGoalService.updateSavingsGoal(goalId, data, userId),
+        { goalId }
+      ),
+    [runAndReload]
+  );
+
+  const deleteGoal = useCallback(
+    (goalId: string) =>
+      runAndReload(
+        "Failed to delete savings goal",
+        (userId) => savingsGoalService.deleteSavingsGoal(goalId, userId),
+        { goalId }
+      ),
+    [runAndReload]
+  );
+
+  const matchBudgetItem = useCallback(
+    (goal: SavingsGoalWithProgress) =>
+      runAndReload(
+        "Failed to update the goal's budget item",
+        (userId) => savingsGoalService.matchBudgetItem(goal, userId),
+        { goalId: goal.id }
+      ),
+    [runAndReload]
+  );
+
+  useEffect(() => {
+    loadGoals();
+  }, [loadGoals]);
+
+  return {
+    goals,
+    loading,
+    saving,
+    error,
+    createGoal,
+    updateGoal,
+    deleteGoal,
+    matchBudgetItem,
+    refresh: loadGoals,
+    clearError: () => setError(null),
+  };
+}
@@ -0,0 +1,70 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "@/lib/auth/auth-context";
+import { SinkingFundService } from "@/lib/services/sinking-fund-service";
+import { logger } from "@/lib/error-handling";
+import { getTodayIsoDate } from "@/lib/utils/recurring-expenses";
+import type { SinkingFundBalance } from "@/lib/types/sinking-funds";
+
+const sinkingFundService = new SinkingFundService();
+
+// Helper function for error logging
+const logError = (
+  error: unknown,
+  message: string,
+  context?: Record<string, unknown>
+) => {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  logger.logUnhandledError(
+    new Error(`${message}: ${errorMessage}`),
+    undefined,
+    context
+  );
+};
+
+/**
+ * Hook for the balances and projections of the user's sinking funds
+ */
+export function useSinkingFunds() {
+  const { user } = useAuth();
+  const [balances, setBalances] = useState<SinkingFundBalance[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadBalances = useCallback(async () => {
+    if (!user) {
+      setBalances([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      setBalances(
+        await sinkingFundService.getSinkingFundBalances(
+          user.id,
+          getTodayIsoDate()
+        )
+      );
+    } catch (err) {
+      const errorMessage = "Failed to load sinking funds";
+      setError(errorMessage);
+      logError(err, errorMessage, { userId: user.id });
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadBalances();
+  }, [loadBalances]);
+
+  return {
+    balances,
+    loading,
+    error,
+    refresh: loadBalances,
+    clearError: () => setError(null),
+  };
+}
@@ -7,6 +7,7 @@ import {
   CategoryBreakdown,
   BudgetVsActual,
   ExpenseSummary,
+  TagBreakdown,
 } from "@/lib/types/expenses";
 import { useAuth } from "@/lib/auth/auth-context";
 import { createLogger } from "@/lib/error-handling/logger";
@@ -440,3 +441,73 @@ export function useBudgetVsActual(
     refresh: fetchBudgetVsActual,
   };
 }
+
+interface UseTagAnalyticsOptions {
+  start_date?: string;
+  end_date?: string;
+}
+
+interface UseTagAnalyticsReturn {
+  tagBreakdown: TagBreakdown[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Hook for spending totals per tag
+ */
+export function useTagAnalytics(
+  options: UseTagAnalyticsOptions = {}
+): UseTagAnalyticsReturn {
+  const { user } = useAuth();
+  const [tagBreakdown, setTagBreakdown] = useState<TagBreakdown[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Memoize the options object to prevent unnecessary re-renders
+  const memoizedOptions = useMemo(
+    () => ({
+      start_date: options.start_date,
+      end_date: options.end_date,
+    }),
+    [options.start_date, options.end_date]
+  );
+
+  const fetchTagBreakdown = useCallback(async () => {
+    if (!user?.id) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const data = await ExpenseAnalyticsService.getTagBreakdown(
+        user.id,
+        memoizedOptions
+      );
+
+      setTagBreakdown(data);
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to fetch tag analytics";
+      setError(errorMessage);
+      logger.logUnhandledError(err as Error, user.id, {
+        context: "useTagAnalytics",
+        options: memoizedOptions,
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id, memoizedOptions]);
+
+  useEffect(() => {
+    fetchTagBreakdown();
+  }, [fetchTagBreakdown]);
+
+  return {
+    tagBreakdown,
+    loading,
+    error,
+    refresh: fetchTagBreakdown,
+  };
+}
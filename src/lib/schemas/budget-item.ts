@@ -19,6 +19,20 @@ export const CALC_TYPES = [
   "REMAINING_PERCENT",
 ] as const;
 
+// Rollover modes from database enum
+export const ROLLOVER_MODES = [
+  "RESET",
+  "CARRY_SURPLUS",
+  "CARRY_DEFICIT",
+  "CARRY_BOTH",
+] as const;
+
+// Bill funding strategies from database enum
+export const BILL_FUNDING_STRATEGIES = [
+  "SPLIT_EVENLY",
+  "BEFORE_DUE_DATE",
+] as const;
+
 // Income cadences from database enum
 export const INCOME_CADENCES = [
   "weekly",
@@ -66,6 +80,69 @@ const baseBudgetItemSchema = z.object({
     .max(1000, "Priority cannot exceed 1000")
     .default(0),
 
+  rollover_mode: z.enum(ROLLOVER_MODES).default("RESET"),
+
+  // Withheld from the paycheck, so not allocated from take-home pay
+  deducted_from_paycheck: z.boolean().default(false),
+
+  // Bounds on percentage items, in dollars on the item's cadence
+  min_amount: z
+    .number()
+    .min(0, "Minimum cannot be negative")
+    .max(999999.99, "Minimum is too large")
+    .nullable()
+    .optional(),
+
+  max_amount: z
+    .number()
+    .min(0.01, "Maximum must be greater than 0")
+    .max(999999.99, "Maximum is too large")
+    .nullable()
+    .optional(),
+
+  // Receives anything above max_amount
+  overflow_target_id: z
+    .string()
+    .uuid("Invalid overflow item ID")
+    .nullable()
+    .optional(),
+
+  // One due date of a fixed bill; the rest follow on the item's cadence
+  due_date: z
+    .string()
+    .nullable()
+    .optional()
+    .refine((date) => !date || !isNaN(new Date(date).getTime()), {
+      message: "Invalid date format",
+    }),
+
+  funding_strategy: z.enum(BILL_FUNDING_STRATEGIES).default("SPLIT_EVENLY"),
+
+  // Sinking funds save towards a target amount by a target date
+  is_sinking_fund: z.boolean().default(false),
+
+  target_amount: z
+    .number()
+    .min(0.01, "Target must be greater than 0")
+    .max(999999.99, "Target is too large")
+    .nullable()
+    .optional(),
+
+  target_date: z
+    .string()
+    .nullable()
+    .optional()
+    .refine((date) => !date || !isNaN(new Date(date).getTime()), {
+      message: "Invalid date format",
+    }),
+
+  // Saved before the fund was set up
+  opening_balance: z
+    .number()
+    .min(0, "Opening balance cannot be negative")
+    .max(999999.99, "Opening balance is too large")
+    .default(0),
+
   end_date: z
     .string()
     .optional()
@@ -84,6 +161,82 @@ const baseBudgetItemSchema = z.object({
   is_active: z.boolean().default(true), // Computed from end_date
 });
 
+// Bounds only apply to percentage items, and overflow only above a maximum
+function refineBounds(
+  data: z.infer<typeof baseBudgetItemSchema>,
+  ctx: z.RefinementCtx
+) {
+  const min = data.min_amount ?? null;
+  const max = data.max_amount ?? null;
+
+  if (data.calc_type === "FIXED" && (min !== null || max !== null)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Fixed amounts can't have a minimum or maximum",
+      path: ["min_amount"],
+    });
+  }
+  if (min !== null && max !== null && min > max) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Minimum cannot be more than the maximum",
+      path: ["max_amount"],
+    });
+  }
+  if (data.overflow_target_id && max === null) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Set a maximum to send the overflow to another item",
+      path: ["overflow_target_id"],
+    });
+  }
+}
+
+// Only a fixed bill with a due date can be funded before it's due
+function refineDueDate(
+  data: z.infer<typeof baseBudgetItemSchema>,
+  ctx: z.RefinementCtx
+) {
+  if (data.funding_strategy !== "BEFORE_DUE_DATE") return;
+
+  if (data.calc_type !== "FIXED") {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Only fixed amounts can be funded before their due date",
+      path: ["funding_strategy"],
+    });
+  } else if (!data.due_date) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Set a due date to fund this bill before it's due",
+      path: ["due_date"],
+    });
+  }
+}
+
+// Sinking funds need both a target amount and a target date
+function refineSinkingFund(
+  data: z.infer<typeof baseBudgetItemSchema>,
+  ctx: z.RefinementCtx
+) {
+  if (!data.is_sinking_fund) return;
+
+  if (!data.target_amount) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Set the amount this fund is saving towards",
+      path: ["target_amount"],
+    });
+  }
+  if (!data.target_date) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Set the date this fund needs to be full by",
+      path: ["target_date"],
+    });
+  }
+}
+
 // Budget item form validation schema with refinements
 export const budgetItemSchema = baseBudgetItemSchema
   .refine(
@@ -118,7 +271,10 @@ export const budgetItemSchema = baseBudgetItemSchema
       message: "REMAINING_PERCENT calculation requires at least one dependency",
       path: ["depends_on"],
     }
-  );
+  )
+  .superRefine(refineBounds)
+  .superRefine(refineDueDate)
+  .superRefine(refineSinkingFund);
 
 // Type inference from schema
 export type BudgetItemFormData = z.infer<typeof budgetItemSchema>;
@@ -160,7 +316,10 @@ export const budgetItemInsertSchema = baseBudgetItemSchema
       message: "REMAINING_PERCENT calculation requires at least one dependency",
       path: ["depends_on"],
     }
-  );
+  )
+  .superRefine(refineBounds)
+  .superRefine(refineDueDate)
+  .superRefine(refineSinkingFund);
 
 export type BudgetItemInsertData = z.infer<typeof budgetItemInsertSchema>;
 
@@ -252,3 +411,47 @@ export const CALC_TYPE_INFO: Record<
     example: "50% of remaining income for discretionary spending",
   },
 };
+
+// Bill funding strategy display information
+export const BILL_FUNDING_STRATEGY_INFO: Record<
+  Database["public"]["Enums"]["bill_funding_strategy"],
+  {
+    label: string;
+    description: string;
+  }
+> = {
+  SPLIT_EVENLY: {
+    label: "Split evenly across periods",
+    description: "Each paycheck sets aside its share of the bill",
+  },
+  BEFORE_DUE_DATE: {
+    label: "Fund fully from the period before it's due",
+    description: "The paycheck before each due date covers the whole bill",
+  },
+};
+
+// Rollover mode display information
+export const ROLLOVER_MODE_INFO: Record<
+  Database["public"]["Enums"]["rollover_mode"],
+  {
+    label: string;
+    description: string;
+  }
+> = {
+  RESET: {
+    label: "Reset each period",
+    description: "Leftover money and overspending don't carry over",
+  },
+  CARRY_SURPLUS: {
+    label: "Carry surplus",
+    description: "Unspent money is added to the next period",
+  },
+  CARRY_DEFICIT: {
+    label: "Carry deficit",
+    description: "Overspending is taken from the next period",
+  },
+  CARRY_BOTH: {
+    label: "Carry surplus and deficit",
+    description: "The balance, plus or minus, moves to the next period",
+  },
+};
@@ -0,0 +1,64 @@
+import { z } from "zod";
+import type { DebtPayoffPriority } from "@/types/database";
+
+export const DEBT_PAYOFF_PRIORITIES = [
+  "highest_interest",
+  "smallest_balance",
+  "custom",
+] as const;
+
+// Debt account form validation schema
+export const debtAccountSchema = z.object({
+  name: z
+    .string()
+    .min(1, "Name is required")
+    .max(100, "Name must be less than 100 characters")
+    .trim(),
+
+  balance: z
+    .number({ invalid_type_error: "Balance is required" })
+    .min(0, "Balance cannot be negative")
+    .max(99999999.99, "Balance is too large"),
+
+  apr: z
+    .number({ invalid_type_error: "APR is required" })
+    .min(0, "APR cannot be negative")
+    .max(100, "APR cannot exceed 100%"),
+
+  minimum_payment: z
+    .number({ invalid_type_error: "Minimum payment is required" })
+    .min(0, "Minimum payment cannot be negative")
+    .max(99999999.99, "Minimum payment is too large"),
+
+  budget_item_id: z.string().uuid("Invalid budget item ID").nullable(),
+
+  payoff_order: z
+    .number()
+    .int("Payoff order must be a whole number")
+    .min(0, "Payoff order cannot be negative")
+    .max(1000, "Payoff order cannot exceed 1000"),
+});
+
+export type DebtAccountSchemaData = z.infer<typeof debtAccountSchema>;
+
+// Payoff plan display information
+export const DEBT_PAYOFF_PRIORITY_INFO: Record<
+  DebtPayoffPriority,
+  {
+    label: string;
+    description: string;
+  }
+> = {
+  highest_interest: {
+    label: "Avalanche",
+    description: "Highest interest rate first, for the least interest overall",
+  },
+  smallest_balance: {
+    label: "Snowball",
+    description: "Smallest balance first, to clear individual debts soonest",
+  },
+  custom: {
+    label: "Custom order",
+    description: "In the payoff order set on each debt",
+  },
+};
@@ -0,0 +1,94 @@
+import { z } from "zod";
+import { isValidCategory } from "@/lib/constants/expense-categories";
+import { isValidRuleRegex } from "@/lib/utils/expense-rules";
+
+// Optional text condition: blank input means "not set"
+const optionalText = z
+  .string()
+  .trim()
+  .max(255, "Must be less than 255 characters")
+  .nullable()
+  .transform((value) => (value ? value : null));
+
+const optionalAmount = z
+  .number()
+  .min(0, "Amount cannot be negative")
+  .max(999999.99, "Amount is too large")
+  .nullable();
+
+// Expense rule form validation schema
+export const expenseRuleSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1, "Name is required")
+      .max(100, "Name must be less than 100 characters")
+      .trim(),
+
+    priority: z
+      .number()
+      .int("Priority must be a whole number")
+      .min(1, "Priority must be at least 1")
+      .max(1000, "Priority cannot exceed 1000"),
+
+    is_active: z.boolean(),
+
+    description_contains: optionalText,
+
+    description_regex: optionalText.refine(
+      (pattern) => !pattern || isValidRuleRegex(pattern),
+      { message: "Invalid regular expression" }
+    ),
+
+    min_amount: optionalAmount,
+
+    max_amount: optionalAmount,
+
+    set_category: z
+      .string()
+      .nullable()
+      .refine((category) => !category || isValidCategory(category), {
+        message: "Invalid expense category",
+      }),
+
+    set_budget_item_id: z.string().uuid("Invalid budget item ID").nullable(),
+
+    set_budget_payment: z.boolean(),
+  })
+  .refine(
+    (data) =>
+      data.description_contains !== null ||
+      data.description_regex !== null ||
+      data.min_amount !== null ||
+      data.max_amount !== null,
+    {
+      message: "Add at least one condition",
+      path: ["description_contains"],
+    }
+  )
+  .refine(
+    (data) =>
+      data.min_amount === null ||
+      data.max_amount === null ||
+      data.min_amount <= data.max_amount,
+    {
+      message: "Minimum amount cannot exceed maximum amount",
+      path: ["max_amount"],
+    }
+  )
+  .refine(
+    (data) =>
+      data.set_category !== null ||
+      data.set_budget_item_id !== null ||
+      data.set_budget_payment,
+    {
+      message: "Add at least one action",
+      path: ["set_category"],
+    }
+  )
+  .refine((data) => !data.set_budget_payment || data.set_budget_item_id, {
+    message: "Budget payments must be linked to a budget item",
+    path: ["set_budget_item_id"],
+  });
+
+export type ExpenseRuleSchemaData = z.infer<typeof expenseRuleSchema>;
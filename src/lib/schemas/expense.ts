@@ -1,8 +1,9 @@
 import { z } from "zod";
 import { isValidCategory } from "@/lib/constants/expense-categories";
+import { MAX_TAGS, MAX_TAG_LENGTH } from "@/lib/utils/expense-tags";
 
 // Expense types from database enum
-export const EXPENSE_TYPES = ["BUDGET_PAYMENT", "EXPENSE"] as const;
+export const EXPENSE_TYPES = ["BUDGET_PAYMENT", "EXPENSE", "REFUND"] as const;
 
 // Base expense schema without refinements
 const baseExpenseSchema = z.object({
@@ -68,6 +69,31 @@ const baseExpenseSchema = z.object({
     .uuid("Invalid budget item ID")
     .optional()
     .nullable(),
+
+  refund_of_expense_id: z
+    .string()
+    .uuid("Invalid expense ID")
+    .optional()
+    .nullable(),
+
+  tags: z
+    .array(
+      z
+        .string()
+        .min(1, "Tags cannot be empty")
+        .max(
+          MAX_TAG_LENGTH,
+          `Tags must be ${MAX_TAG_LENGTH} characters or less`
+        )
+    )
+    .max(MAX_TAGS, `An expense can have at most ${MAX_TAGS} tags`)
+    .optional(),
+
+  notes: z
+    .string()
+    .max(2000, "Notes must be less than 2000 characters")
+    .optional()
+    .nullable(),
 });
 
 // Expense creation schema with additional validation
@@ -87,8 +113,13 @@ export const expenseCreateSchema = baseExpenseSchema
   )
   .refine(
     (data) => {
-      // If budget item is linked, it should be a budget payment
-      if (data.budget_item_id && data.type !== "BUDGET_PAYMENT") {
+      // If budget item is linked, it should be a budget payment or a
+      // refund crediting that item
+      if (
+        data.budget_item_id &&
+        data.type !== "BUDGET_PAYMENT" &&
+        data.type !== "REFUND"
+      ) {
         return false;
       }
       return true;
@@ -98,6 +129,19 @@ export const expenseCreateSchema = baseExpenseSchema
         "Expenses linked to budget items should be marked as budget payments",
       path: ["type"],
     }
+  )
+  .refine(
+    (data) => {
+      // Only refunds point back at another expense
+      if (data.refund_of_expense_id && data.type !== "REFUND") {
+        return false;
+      }
+      return true;
+    },
+    {
+      message: "Only refunds can be linked to another expense",
+      path: ["refund_of_expense_id"],
+    }
   );
 
 export type ExpenseCreateData = z.infer<typeof expenseCreateSchema>;
@@ -0,0 +1,27 @@
+import { z } from "zod";
+
+// Variable income deposit form validation schema
+export const incomeDepositSchema = z.object({
+  income_source_id: z.string().uuid("Choose an income source"),
+
+  deposit_date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format")
+    .refine((date) => !isNaN(new Date(date).getTime()), {
+      message: "Invalid date",
+    }),
+
+  amount: z
+    .number({ invalid_type_error: "Amount is required" })
+    .min(0.01, "Amount must be greater than 0")
+    .max(999999.99, "Amount is too large"),
+
+  notes: z
+    .string()
+    .trim()
+    .max(500, "Notes must be less than 500 characters")
+    .nullable()
+    .transform((value) => (value ? value : null)),
+});
+
+export type IncomeDepositSchemaData = z.infer<typeof incomeDepositSchema>;
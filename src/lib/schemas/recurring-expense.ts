@@ -0,0 +1,68 @@
+import { z } from "zod";
+import { isValidCategory } from "@/lib/constants/expense-categories";
+import { INCOME_CADENCES } from "./budget-item";
+
+const INTERVAL_UNITS = ["DAYS", "WEEKS", "MONTHS"] as const;
+
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format")
+  .refine((date) => !isNaN(new Date(date).getTime()), {
+    message: "Invalid date",
+  });
+
+// Recurring expense form validation schema
+export const recurringExpenseSchema = z
+  .object({
+    description: z
+      .string()
+      .min(1, "Description is required")
+      .max(255, "Description must be less than 255 characters")
+      .trim(),
+
+    amount: z
+      .number({ invalid_type_error: "Amount is required" })
+      .min(0.01, "Amount must be greater than 0")
+      .max(999999.99, "Amount is too large"),
+
+    category: z
+      .string()
+      .min(1, "Category is required")
+      .refine(isValidCategory, { message: "Invalid expense category" }),
+
+    budget_item_id: z.string().uuid("Invalid budget item ID").nullable(),
+
+    cadence: z.enum(INCOME_CADENCES).nullable(),
+
+    interval_count: z
+      .number()
+      .int("Interval must be a whole number")
+      .min(1, "Interval must be at least 1")
+      .max(365, "Interval is too long")
+      .nullable(),
+
+    interval_unit: z.enum(INTERVAL_UNITS).nullable(),
+
+    start_date: isoDate,
+
+    end_date: isoDate.nullable(),
+
+    auto_post: z.boolean(),
+
+    is_active: z.boolean(),
+  })
+  .refine(
+    (data) =>
+      data.cadence !== null ||
+      (data.interval_count !== null && data.interval_unit !== null),
+    {
+      message: "Choose how often this expense repeats",
+      path: ["cadence"],
+    }
+  )
+  .refine((data) => !data.end_date || data.end_date >= data.start_date, {
+    message: "End date must be after the start date",
+    path: ["end_date"],
+  });
+
+export type RecurringExpenseSchemaData = z.infer<typeof recurringExpenseSchema>;
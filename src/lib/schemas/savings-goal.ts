@@ -0,0 +1,37 @@
+import { z } from "zod";
+
+// Savings goal form validation schema
+export const savingsGoalSchema = z.object({
+  name: z
+    .string()
+    .min(1, "Name is required")
+    .max(100, "Name must be less than 100 characters")
+    .trim(),
+
+  target_amount: z
+    .number({ invalid_type_error: "Target amount is required" })
+    .min(0.01, "Target must be greater than 0")
+    .max(999999.99, "Target is too large"),
+
+  target_date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Target date is required")
+    .refine((date) => !isNaN(new Date(date).getTime()), {
+      message: "Invalid date",
+    }),
+
+  current_balance: z
+    .number({ invalid_type_error: "Current balance must be a number" })
+    .min(0, "Current balance cannot be negative")
+    .max(999999.99, "Current balance is too large"),
+
+  budget_item_id: z.string().uuid("Invalid budget item ID").nullable(),
+
+  priority: z
+    .number()
+    .int("Priority must be a whole number")
+    .min(0, "Priority cannot be negative")
+    .max(1000, "Priority cannot exceed 1000"),
+});
+
+export type SavingsGoalSchemaData = z.infer<typeof savingsGoalSchema>;
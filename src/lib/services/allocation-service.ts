@@ -1,4 +1,4 @@
-import { createClient } from "@/lib/supabase/client";
+import { createClient, type TypedSupabaseClient } from "@/lib/supabase/client";
 import { PayPeriodService } from "./pay-period-service";
 
 // Simple database error handler
@@ -17,12 +17,48 @@ import type {
   AllocationValidationResult,
   AllocationCalculationRequest,
   AllocationCalculationResponse,
-  AllocationCalculationResult,
+  HouseholdIncome,
 } from "@/lib/types/allocations";
+import type { IncomeSource } from "@/types/database";
+import type {
+  DepositFundingRequest,
+  DepositFundingResponse,
+} from "@/lib/types/income-deposits";
+import { fundDeposit } from "../../../supabase/functions/_shared/deposit-funding";
+import { calculateAllocations } from "../../../supabase/functions/_shared/allocation-calculations";
+
+// The income fields the calculation engine reads
+type AllocationIncome = Pick<
+  IncomeSource,
+  "id" | "name" | "gross_amount" | "net_amount" | "cadence"
+>;
+
+// A household period budgets against the sum of its paychecks as if they
+// were a single income source paid on the household cadence
+function combineHouseholdIncome(
+  payPeriodId: string,
+  household: HouseholdIncome
+): AllocationIncome {
+  const sum = (amounts: number[]) =>
+    Number(amounts.reduce((total, amount) => total + amount, 0).toFixed(2));
+
+  return {
+    id: payPeriodId,
+    name: "Household income",
+    gross_amount: sum(household.deposits.map((d) => d.gross_amount)),
+    net_amount: sum(household.deposits.map((d) => d.expected_net)),
+    cadence: household.cadence,
+  };
+}
 
 export class AllocationService {
-  private supabase = createClient();
-  private payPeriodService = new PayPeriodService();
+  private supabase: TypedSupabaseClient;
+  private payPeriodService: PayPeriodService;
+
+  constructor(supabase: TypedSupabaseClient = createClient()) {
+    this.supabase = supabase;
+    this.payPeriodService = new PayPeriodService(supabase);
+  }
 
   /**
    * Get allocations for a specific pay period
@@ -57,7 +93,9 @@ export class AllocationService {
           const [budgetItem, payPeriod] = await Promise.all([
             this.supabase
               .from("budget_items")
-              .select("id, name, category, calc_type, value, priority")
+              .select(
+                "id, name, category, calc_type, value, priority, cadence, due_date, funding_strategy"
+              )
               .eq("id", allocation.budget_item_id)
               .single(),
             this.supabase
@@ -110,7 +148,9 @@ export class AllocationService {
       const [budgetItem, payPeriod] = await Promise.all([
         this.supabase
           .from("budget_items")
-          .select("id, name, category, calc_type, value, priority")
+          .select(
+            "id, name, category, calc_type, value, priority, cadence, due_date, funding_strategy"
+          )
           .eq("id", data.budget_item_id)
           .single(),
         this.supabase
@@ -164,6 +204,8 @@ export class AllocationService {
           budget_item_id: allocation.budget_item_id,
           expected_amount: allocation.expected_amount,
           status: allocation.status || "UNPAID",
+          carried_in: allocation.carried_in ?? 0,
+          carried_out: allocation.carried_out ?? 0,
         })
       );
 
@@ -399,11 +441,41 @@ export class AllocationService {
   }
 
   /**
-   * Calculate allocations using the budget calculation engine
+   * Calculate allocations using the budget calculation engine. Household
+   * periods allocate against the combined income of their deposits.
    */
   async calculateAllocations(
     request: AllocationCalculationRequest
   ): Promise<AllocationCalculationResponse> {
+    const incomeSource = request.household
+      ? combineHouseholdIncome(request.pay_period_id, request.household)
+      : request.income_source;
+
+    if (!incomeSource) {
+      throw new Error("An income source or household deposits are required");
+    }
+
+    // Items withheld from the paycheck never reach take-home pay
+    request = {
+      ...request,
+      budget_items: request.budget_items.filter(
+        (item) => !item.deducted_from_paycheck
+      ),
+    };
+
+    // Bills funded before their due date need the period's dates
+    if (
+      !request.period &&
+      request.budget_items.some(
+        (item) => item.funding_strategy === "BEFORE_DUE_DATE"
+      )
+    ) {
+      request = {
+        ...request,
+        period: await this.getPeriodDates(request.pay_period_id),
+      };
+    }
+
     try {
       // Call the allocation calculation Edge Function
       const { data, error } = await this.supabase.functions.invoke(
@@ -412,8 +484,9 @@ export class AllocationService {
           body: {
             pay_period_id: request.pay_period_id,
             budget_items: request.budget_items,
-            income_source: request.income_source,
+            income_source: incomeSource,
             pro_rate_factor: request.pro_rate_factor,
+            period: request.period,
           },
         }
       );
@@ -423,7 +496,7 @@ export class AllocationService {
           "Edge Function calculation failed, falling back to local calculation:",
           error
         );
-        return this.simpleCalculateAllocations(request);
+        return this.calculateAllocationsLocally(request, incomeSource);
       }
 
       return data as AllocationCalculationResponse;
@@ -433,103 +506,96 @@ export class AllocationService {
         "Allocation Edge Function invocation error, using local calculation:",
         error
       );
-      return this.simpleCalculateAllocations(request);
+      return this.calculateAllocationsLocally(request, incomeSource);
+    }
+  }
+
+  // Start and end dates of a pay period. Without them bills are split evenly
+  // rather than failing the calculation.
+  private async getPeriodDates(
+    payPeriodId: string
+  ): Promise<AllocationCalculationRequest["period"]> {
+    const { data, error } = await this.supabase
+      .from("pay_periods")
+      .select("start_date, end_date")
+      .eq("id", payPeriodId)
+      .maybeSingle();
+
+    if (error || !data) {
+      console.warn("Pay period dates unavailable for due-date funding:", error);
+      return undefined;
     }
+
+    return data;
   }
 
   /**
-   * Very simple local allocation calculator used as a fallback when the Edge Function is unavailable.
-   * Supports FIXED, GROSS_PERCENT, NET_PERCENT. REMAINING_PERCENT simply uses the remaining budget after
-   * other items are allocated. Dependency ordering and advanced pro-rating are NOT handled here – this
-   * exists only to keep the app functional during local development when Edge Functions are unreachable.
+   * Fund a pay period's allocations from one actual deposit, in priority
+   * order until the money runs out. Used for variable income.
    */
-  private simpleCalculateAllocations(
-    request: AllocationCalculationRequest
-  ): AllocationCalculationResponse {
-    const { budget_items, income_source, pay_period_id } = request;
-
-    // Sort items so fixed/percentage come first; remaining_percent last
-    const fixedAndPercent = budget_items.filter(
-      (bi) => bi.calc_type !== "REMAINING_PERCENT"
-    );
-    const remainingPercentItems = budget_items.filter(
-      (bi) => bi.calc_type === "REMAINING_PERCENT"
-    );
-
-    let totalAllocated = 0;
-    const allocations: AllocationCalculationResult[] = [];
-
-    const addAllocation = (
-      itemId: string,
-      amount: number,
-      details: Partial<AllocationCalculationResult["calculation_details"]>
-    ) => {
-      allocations.push({
-        budget_item_id: itemId,
-        expected_amount: Number(amount.toFixed(2)),
-        calculation_details: {
-          base_amount: income_source.net_amount,
-          calculation_type: details.calculation_type!,
-          ...details,
-        },
-      });
-      totalAllocated += amount;
-    };
-
-    // Handle FIXED, GROSS_PERCENT, NET_PERCENT first
-    for (const item of fixedAndPercent) {
-      switch (item.calc_type) {
-        case "FIXED":
-          addAllocation(item.id, item.value, { calculation_type: "FIXED" });
-          break;
-        case "GROSS_PERCENT":
-        case "NET_PERCENT": {
-          const base = income_source.net_amount; // gross not stored; use net for dev simplicity
-          const amount = (base * item.value) / 100;
-          addAllocation(item.id, amount, {
-            calculation_type: item.calc_type,
-            percentage: item.value,
-          });
-          break;
+  async calculateDepositFunding(
+    request: DepositFundingRequest
+  ): Promise<DepositFundingResponse> {
+    try {
+      const { data, error } = await this.supabase.functions.invoke(
+        "allocation-engine",
+        {
+          body: {
+            mode: "DEPOSIT_FUNDING",
+            pay_period_id: request.pay_period_id,
+            deposit_amount: request.deposit_amount,
+            targets: request.targets,
+          },
         }
-        default:
-          // Skip unsupported types here
-          break;
+      );
+
+      if (!error && data?.success) {
+        return data as DepositFundingResponse;
       }
-    }
 
-    // Remaining_percent items share the leftover equally by percentage value weight
-    if (remainingPercentItems.length > 0) {
-      const remainingBudget = Math.max(
-        income_source.net_amount - totalAllocated,
-        0
+      console.warn(
+        "Edge Function deposit funding failed, falling back to local calculation:",
+        error
       );
-      const totalPercent = remainingPercentItems.reduce(
-        (sum, bi) => sum + bi.value,
-        0
+    } catch (error) {
+      console.error(
+        "Allocation Edge Function invocation error, using local calculation:",
+        error
       );
-      for (const item of remainingPercentItems) {
-        const amount = (remainingBudget * item.value) / totalPercent;
-        addAllocation(item.id, amount, {
-          calculation_type: "REMAINING_PERCENT",
-          percentage: item.value,
-        });
-      }
     }
 
-    const totalRemaining = income_source.net_amount - totalAllocated;
-
+    // The edge function runs the same shared code, so the fallback matches it
     return {
       success: true,
-      pay_period_id,
-      allocations,
+      pay_period_id: request.pay_period_id,
+      ...fundDeposit(request.deposit_amount, request.targets),
+    };
+  }
+
+  /**
+   * Local allocation calculation used when the Edge Function is unavailable.
+   * The Edge Function runs the same shared code, so the results match it.
+   */
+  private calculateAllocationsLocally(
+    request: AllocationCalculationRequest,
+    income_source: AllocationIncome
+  ): AllocationCalculationResponse {
+    const run = calculateAllocations(request.budget_items, income_source, {
+      pro_rate_factor: request.pro_rate_factor,
+      period: request.period,
+    });
+
+    return {
+      success: run.errors.length === 0,
+      pay_period_id: request.pay_period_id,
+      allocations: run.allocations,
       summary: {
-        total_allocated: Number(totalAllocated.toFixed(2)),
-        total_remaining: Number(totalRemaining.toFixed(2)),
-        items_processed: budget_items.length,
-        calculation_errors: [],
+        total_allocated: run.total_allocated,
+        total_remaining: run.total_remaining,
+        items_processed: run.allocations.length,
+        calculation_errors: run.errors,
       },
-      calculation_order: allocations.map((a) => a.budget_item_id),
+      calculation_order: run.calculation_order,
       timestamp: new Date().toISOString(),
     };
   }
@@ -552,6 +618,26 @@ export class AllocationService {
         );
       }
 
+      // Keep envelope balances carried between periods across a recalculation
+      const { data: existing, error: existingError } = await this.supabase
+        .from("allocations")
+        .select("budget_item_id, carried_in, carried_out")
+        .eq("pay_period_id", request.pay_period_id);
+
+      if (existingError) {
+        throw handleDatabaseError(
+          existingError,
+          "Failed to fetch existing allocations"
+        );
+      }
+
+      const carried = new Map(
+        (existing || []).map((allocation) => [
+          allocation.budget_item_id,
+          allocation,
+        ])
+      );
+
       // Delete existing allocations for this pay period
       await this.deleteAllocationsForPayPeriod(request.pay_period_id);
 
@@ -562,6 +648,8 @@ export class AllocationService {
           budget_item_id: calc.budget_item_id,
           expected_amount: calc.expected_amount,
           status: "UNPAID" as const,
+          carried_in: carried.get(calc.budget_item_id)?.carried_in ?? 0,
+          carried_out: carried.get(calc.budget_item_id)?.carried_out ?? 0,
         })),
       };
 
@@ -718,7 +806,9 @@ export class AllocationService {
           const [budgetItem, payPeriod] = await Promise.all([
             this.supabase
               .from("budget_items")
-              .select("id, name, category, calc_type, value, priority")
+              .select(
+                "id, name, category, calc_type, value, priority, cadence, due_date, funding_strategy"
+              )
               .eq("id", allocation.budget_item_id)
               .single(),
             this.supabase
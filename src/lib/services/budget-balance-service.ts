@@ -1,4 +1,6 @@
 import { createClient } from "@/lib/supabase/client";
+import { sumSpending } from "@/lib/utils/refunds";
+import { roundCents } from "@/lib/utils/currency";
 
 // Simple database error handler
 function handleDatabaseError(error: unknown, message: string): Error {
@@ -80,8 +82,9 @@ export class BudgetBalanceService {
       // Get expenses for this pay period
       const { data: expenses, error: expensesError } = await this.supabase
         .from("expenses")
-        .select("amount")
-        .eq("pay_period_id", payPeriodId);
+        .select("amount, type")
+        .eq("pay_period_id", payPeriodId)
+        .eq("is_split", false);
 
       if (expensesError) {
         throw handleDatabaseError(expensesError, "Failed to fetch expenses");
@@ -93,10 +96,7 @@ export class BudgetBalanceService {
         (sum, allocation) => sum + allocation.expected_amount,
         0
       );
-      const totalSpent = (expenses || []).reduce(
-        (sum, expense) => sum + expense.amount,
-        0
-      );
+      const totalSpent = sumSpending(expenses || []);
       const availableCash = incomeAmount - totalAllocated - totalSpent;
       const utilizationPercentage =
         incomeAmount > 0 ? (totalAllocated / incomeAmount) * 100 : 0;
@@ -107,7 +107,7 @@ export class BudgetBalanceService {
         total_allocated: totalAllocated,
         total_spent: totalSpent,
         available_cash: availableCash,
-        utilization_percentage: Math.round(utilizationPercentage * 100) / 100,
+        utilization_percentage: roundCents(utilizationPercentage),
         last_updated: new Date().toISOString(),
       };
     } catch (error) {
@@ -168,8 +168,8 @@ export class BudgetBalanceService {
       score,
       status,
       indicators: {
-        allocation_ratio: Math.round(allocationRatio * 100) / 100,
-        spending_ratio: Math.round(spendingRatio * 100) / 100,
+        allocation_ratio: roundCents(allocationRatio),
+        spending_ratio: roundCents(spendingRatio),
         cash_buffer: cashBuffer,
       },
     };
@@ -1,11 +1,14 @@
-import { createClient } from "@/lib/supabase/client";
+import { createClient, type TypedSupabaseClient } from "@/lib/supabase/client";
+import { sumSpending } from "@/lib/utils/refunds";
 
 // Budget item spending summary
 export interface BudgetItemSpending {
   budget_item_id: string;
   budget_item_name: string;
   budget_item_category: string;
-  expected_amount: number;
+  expected_amount: number; // Allocated this period
+  carried_in: number; // Rolled over from the previous period; negative for a deficit
+  available_amount: number; // Carried in plus allocated
   actual_amount: number;
   remaining_amount: number;
   variance_amount: number;
@@ -24,7 +27,7 @@ export interface PayPeriodBudgetTracking {
 }
 
 export class BudgetTrackingService {
-  private supabase = createClient();
+  constructor(private supabase: TypedSupabaseClient = createClient()) {}
 
   /**
    * Get budget item spending for a specific pay period
@@ -59,13 +62,14 @@ export class BudgetTrackingService {
       return [];
     }
 
-    // Get all expenses linked to budget items for this pay period
+    // Get all payments and refunds linked to budget items for this pay period
     const { data: expenses, error: expensesError } = await this.supabase
       .from("expenses")
       .select("*")
       .eq("pay_period_id", payPeriodId)
       .eq("user_id", userId)
-      .eq("type", "BUDGET_PAYMENT")
+      .in("type", ["BUDGET_PAYMENT", "REFUND"])
+      .eq("is_split", false) // Count split lines, not their parent
       .not("budget_item_id", "is", null);
 
     if (expensesError) {
@@ -83,21 +87,20 @@ export class BudgetTrackingService {
           (expense) => expense.budget_item_id === allocation.budget_item_id
         ) || [];
 
-      const actualAmount = relatedExpenses.reduce(
-        (sum, expense) => sum + expense.amount,
-        0
-      );
+      const actualAmount = sumSpending(relatedExpenses);
       const expectedAmount = allocation.expected_amount;
-      const remainingAmount = expectedAmount - actualAmount;
-      const varianceAmount = actualAmount - expectedAmount;
+      // Spending is measured against what's available, including rollover
+      const availableAmount = allocation.carried_in + expectedAmount;
+      const remainingAmount = availableAmount - actualAmount;
+      const varianceAmount = actualAmount - availableAmount;
       const variancePercentage =
-        expectedAmount > 0 ? (varianceAmount / expectedAmount) * 100 : 0;
+        availableAmount > 0 ? (varianceAmount / availableAmount) * 100 : 0;
 
       let status: "under_budget" | "on_budget" | "over_budget";
-      if (actualAmount > expectedAmount * 1.05) {
+      if (actualAmount > availableAmount * 1.05) {
         // 5% tolerance
         status = "over_budget";
-      } else if (actualAmount < expectedAmount * 0.95) {
+      } else if (actualAmount < availableAmount * 0.95) {
         // 5% tolerance
         status = "under_budget";
       } else {
@@ -109,11 +112,15 @@ export class BudgetTrackingService {
         budget_item_name: budgetItem.name,
         budget_item_category: budgetItem.category,
         expected_amount: expectedAmount,
+        carried_in: allocation.carried_in,
+        available_amount: availableAmount,
         actual_amount: actualAmount,
         remaining_amount: remainingAmount,
         variance_amount: varianceAmount,
         variance_percentage: variancePercentage,
-        expense_count: relatedExpenses.length,
+        expense_count: relatedExpenses.filter(
+          (expense) => expense.type !== "REFUND"
+        ).length,
         status,
       });
     }
@@ -144,7 +151,11 @@ export class BudgetTrackingService {
       (sum, item) => sum + item.actual_amount,
       0
     );
-    const totalRemaining = totalExpected - totalActualExpenses;
+    // Remaining includes balances carried in from the previous period
+    const totalRemaining = budgetItems.reduce(
+      (sum, item) => sum + item.remaining_amount,
+      0
+    );
 
     return {
       pay_period_id: payPeriodId,
@@ -0,0 +1,340 @@
+import { createClient, type TypedSupabaseClient } from "@/lib/supabase/client";
+import {
+  generatePayPeriodsBetweenDates,
+  getHouseholdDeposits,
+  getPayScheduleConfig,
+} from "@/lib/utils/pay-period-calculations";
+import { getOccurrencesBetween } from "@/lib/utils/recurring-expenses";
+import { getDueDatesBetween } from "../../../supabase/functions/_shared/allocation-calculations";
+import { addDays } from "@/lib/utils/date-utils";
+import { buildCalendar, type CalendarEvent } from "@/lib/utils/icalendar";
+import { formatCurrency } from "@/lib/utils/currency";
+import type { IncomeSource } from "@/types/database";
+
+// Simple database error handler
+function handleDatabaseError(error: unknown, message: string): Error {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  return new Error(`${message}: ${errorMessage}`);
+}
+
+// How far ahead the feed projects pay periods and bills
+const FEED_HORIZON_DAYS = 90;
+
+const UID_DOMAIN = "budget-simple";
+
+const toIsoDate = (date: Date) => date.toISOString().split("T")[0];
+
+// 64 hex characters from two random UUIDs
+const generateToken = () =>
+  `${crypto.randomUUID()}${crypto.randomUUID()}`.replace(/-/g, "");
+
+/**
+ * iCalendar feed of a user's pay periods, bill and budget item due dates,
+ * and pay period completion reminders. The feed is built from live data on
+ * every request, so it follows changes to budget items and income sources.
+ */
+export class CalendarFeedService {
+  private supabase: TypedSupabaseClient;
+
+  // The feed route passes a service role client, as calendar apps can't sign in
+  constructor(supabase: TypedSupabaseClient = createClient()) {
+    this.supabase = supabase;
+  }
+
+  /**
+   * Get the user's feed token, or null while the feed is turned off
+   */
+  async getFeedToken(userId: string): Promise<string | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from("users")
+        .select("calendar_feed_token")
+        .eq("id", userId)
+        .single();
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to fetch calendar feed token");
+      }
+
+      return data.calendar_feed_token;
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to fetch calendar feed token");
+    }
+  }
+
+  /**
+   * Turn the feed on with a new token, replacing any earlier one
+   */
+  async regenerateFeedToken(userId: string): Promise<string> {
+    try {
+      const token = generateToken();
+      const { error } = await this.supabase
+        .from("users")
+        .update({
+          calendar_feed_token: token,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", userId);
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to create calendar feed");
+      }
+
+      return token;
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to create calendar feed");
+    }
+  }
+
+  /**
+   * Turn the feed off; subscribed calendars stop updating
+   */
+  async revokeFeedToken(userId: string): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from("users")
+        .update({
+          calendar_feed_token: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", userId);
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to turn off calendar feed");
+      }
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to turn off calendar feed");
+    }
+  }
+
+  /**
+   * Find the user a feed token belongs to
+   */
+  async findUserByToken(token: string): Promise<string | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from("users")
+        .select("id")
+        .eq("calendar_feed_token", token)
+        .maybeSingle();
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to look up calendar feed");
+      }
+
+      return data?.id ?? null;
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to look up calendar feed");
+    }
+  }
+
+  /**
+   * Build the user's feed as an .ics calendar, from today (YYYY-MM-DD)
+   */
+  async buildFeed(userId: string, today: string): Promise<string> {
+    try {
+      const horizon = addDays(today, FEED_HORIZON_DAYS);
+
+      const [
+        userResult,
+        periodsResult,
+        sourcesResult,
+        billsResult,
+        dueItemsResult,
+      ] = await Promise.all([
+        this.supabase
+          .from("users")
+          .select("budget_mode")
+          .eq("id", userId)
+          .single(),
+        this.supabase
+          .from("pay_periods")
+          .select("*")
+          .eq("user_id", userId)
+          .gte("end_date", today)
+          .lte("start_date", horizon)
+          .order("start_date", { ascending: true }),
+        this.supabase
+          .from("income_sources")
+          .select("*")
+          .eq("user_id", userId)
+          .eq("is_active", true),
+        this.supabase
+          .from("recurring_expenses")
+          .select("*, budget_item:budget_items(name)")
+          .eq("user_id", userId)
+          .eq("is_active", true)
+          .not("budget_item_id", "is", null),
+        this.supabase
+          .from("budget_items")
+          .select("id, name, value, cadence, due_date")
+          .eq("user_id", userId)
+          .eq("is_active", true)
+          .not("due_date", "is", null),
+      ]);
+
+      const error =
+        userResult.error ||
+        periodsResult.error ||
+        sourcesResult.error ||
+        billsResult.error ||
+        dueItemsResult.error;
+      if (error) {
+        throw handleDatabaseError(error, "Failed to load calendar feed data");
+      }
+
+      const incomeSources = (sourcesResult.data ||
+        []) as unknown as IncomeSource[];
+      const sourceNames = new Map(
+        incomeSources.map((source) => [source.id, source.name])
+      );
+      const events: CalendarEvent[] = [];
+
+      // Pay periods that have been generated
+      const latestEnd = new Map<string | null, string>();
+      for (const period of periodsResult.data || []) {
+        const name = period.income_source_id
+          ? sourceNames.get(period.income_source_id) || "Income"
+          : "Household";
+        const current = latestEnd.get(period.income_source_id);
+        if (!current || period.end_date > current) {
+          latestEnd.set(period.income_source_id, period.end_date);
+        }
+
+        events.push({
+          uid: `pay-period-${period.id}@${UID_DOMAIN}`,
+          date: period.start_date,
+          summary: `Pay period starts: ${name}`,
+          description: `Expected ${formatCurrency(period.expected_net)} for ${
+            period.start_date
+          } to ${period.end_date}`,
+        });
+        if (period.status === "ACTIVE") {
+          events.push(this.completionReminder(period.id, name, period));
+        }
+      }
+
+      // Periods still to come. Household periods are set up from combined
+      // paychecks, so household users see each upcoming payday instead.
+      if (userResult.data.budget_mode === "HOUSEHOLD") {
+        for (const deposit of getHouseholdDeposits(
+          incomeSources,
+          today,
+          horizon
+        )) {
+          const name = sourceNames.get(deposit.income_source_id) || "Income";
+          events.push({
+            uid: `payday-${deposit.income_source_id}-${deposit.pay_date}@${UID_DOMAIN}`,
+            date: deposit.pay_date,
+            summary: `Payday: ${name}`,
+            description: `Expected ${formatCurrency(deposit.expected_net)}`,
+          });
+        }
+      } else {
+        for (const source of incomeSources) {
+          if (source.is_variable) continue;
+
+          // Project past the latest generated period, or from today
+          const after = latestEnd.get(source.id);
+          const projected = generatePayPeriodsBetweenDates(
+            source.cadence,
+            new Date(source.start_date),
+            new Date(horizon),
+            source.net_amount,
+            getPayScheduleConfig(source)
+          )
+            .map((period) => ({
+              start_date: toIsoDate(period.start_date),
+              end_date: toIsoDate(period.end_date),
+              expected_net: period.expected_net,
+            }))
+            .filter(
+              (period) =>
+                (after
+                  ? period.start_date > after
+                  : period.end_date >= today) &&
+                (!source.end_date || period.start_date <= source.end_date)
+            );
+
+          for (const period of projected) {
+            const id = `${source.id}-${period.start_date}`;
+            events.push({
+              uid: `projected-pay-period-${id}@${UID_DOMAIN}`,
+              date: period.start_date,
+              summary: `Pay period starts: ${source.name} (projected)`,
+              description: `Expected ${formatCurrency(
+                period.expected_net
+              )} for ${period.start_date} to ${period.end_date}`,
+            });
+            events.push(
+              this.completionReminder(`projected-${id}`, source.name, period)
+            );
+          }
+        }
+      }
+
+      // Bills paid from budget items
+      for (const bill of billsResult.data || []) {
+        const budgetItem = bill.budget_item as unknown as {
+          name: string;
+        } | null;
+
+        for (const date of getOccurrencesBetween(bill, today, horizon)) {
+          events.push({
+            uid: `bill-${bill.id}-${date}@${UID_DOMAIN}`,
+            date,
+            summary: `${bill.description} due`,
+            description: `${formatCurrency(bill.amount)} from ${
+              budgetItem?.name || "your budget"
+            }`,
+            reminderDaysBefore: 1,
+          });
+        }
+      }
+
+      // Fixed budget items with a due date, unless a recurring bill above
+      // already covers them
+      const billItemIds = new Set(
+        (billsResult.data || []).map((bill) => bill.budget_item_id)
+      );
+      for (const item of dueItemsResult.data || []) {
+        if (!item.due_date || billItemIds.has(item.id)) continue;
+
+        for (const date of getDueDatesBetween(
+          item.due_date,
+          item.cadence,
+          today,
+          horizon
+        )) {
+          events.push({
+            uid: `budget-item-due-${item.id}-${date}@${UID_DOMAIN}`,
+            date,
+            summary: `${item.name} due`,
+            description: `${formatCurrency(item.value)} budgeted`,
+            reminderDaysBefore: 1,
+          });
+        }
+      }
+
+      events.sort((a, b) => a.date.localeCompare(b.date));
+      return buildCalendar("Budget Simple", events);
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to build calendar feed");
+    }
+  }
+
+  // Reminder on a period's last day to reconcile and complete it
+  private completionReminder(
+    id: string,
+    name: string,
+    period: { start_date: string; end_date: string }
+  ): CalendarEvent {
+    return {
+      uid: `pay-period-complete-${id}@${UID_DOMAIN}`,
+      date: period.end_date,
+      summary: `Complete pay period: ${name}`,
+      description: `Mark allocations paid and complete the ${period.start_date} to ${period.end_date} pay period`,
+      reminderDaysBefore: 0,
+    };
+  }
+}
@@ -0,0 +1,195 @@
+import { createClient, type TypedSupabaseClient } from "@/lib/supabase/client";
+import { convertCadenceAmount } from "@/lib/utils/savings-goals";
+import type { BudgetItem } from "@/types/database";
+import type {
+  DebtAccount,
+  DebtAccountFormData,
+  DebtAccountInsert,
+  DebtAccountUpdate,
+  DebtOverview,
+  DebtPayoffPriority,
+} from "@/lib/types/debts";
+
+// Simple database error handler
+function handleDatabaseError(error: unknown, message: string): Error {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  return new Error(`${message}: ${errorMessage}`);
+}
+
+export class DebtService {
+  constructor(private supabase: TypedSupabaseClient = createClient()) {}
+
+  /**
+   * Get a user's debt accounts, payoff plan and monthly debt budget
+   */
+  async getDebtOverview(userId: string): Promise<DebtOverview> {
+    try {
+      const { data: accounts, error } = await this.supabase
+        .from("debt_accounts")
+        .select("*")
+        .eq("user_id", userId)
+        .order("payoff_order", { ascending: true })
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to fetch debt accounts");
+      }
+
+      const { data: user, error: userError } = await this.supabase
+        .from("users")
+        .select("debt_payoff_priority")
+        .eq("id", userId)
+        .single();
+
+      if (userError) {
+        throw handleDatabaseError(userError, "Failed to fetch payoff plan");
+      }
+
+      const budgetItemIds = [
+        ...new Set(
+          (accounts || [])
+            .map((account) => account.budget_item_id)
+            .filter((id): id is string => id !== null)
+        ),
+      ];
+      const budgetItems = await this.getLinkedBudgetItems(budgetItemIds);
+
+      return {
+        accounts: (accounts || []).map((account) => ({
+          ...account,
+          budget_item_name:
+            budgetItems.find((item) => item.id === account.budget_item_id)
+              ?.name || null,
+        })),
+        priority: user.debt_payoff_priority,
+        // Percentage items vary from paycheck to paycheck, so only fixed
+        // amounts count towards the plan's monthly payment
+        budgeted_monthly: budgetItems
+          .filter((item) => item.is_active && item.calc_type === "FIXED")
+          .reduce(
+            (sum, item) =>
+              sum + convertCadenceAmount(item.value, item.cadence, "monthly"),
+            0
+          ),
+      };
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to fetch debts");
+    }
+  }
+
+  /**
+   * Create a debt account
+   */
+  async createDebtAccount(
+    userId: string,
+    data: DebtAccountFormData
+  ): Promise<DebtAccount> {
+    try {
+      const accountInsert: DebtAccountInsert = { ...data, user_id: userId };
+
+      const { data: account, error } = await this.supabase
+        .from("debt_accounts")
+        .insert(accountInsert)
+        .select()
+        .single();
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to create debt account");
+      }
+
+      return account;
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to create debt account");
+    }
+  }
+
+  /**
+   * Update a debt account
+   */
+  async updateDebtAccount(
+    accountId: string,
+    data: Partial<DebtAccountFormData>,
+    userId: string
+  ): Promise<DebtAccount> {
+    try {
+      const accountUpdate: DebtAccountUpdate = {
+        ...data,
+        updated_at: new Date().toISOString(),
+      };
+
+      const { data: account, error } = await this.supabase
+        .from("debt_accounts")
+        .update(accountUpdate)
+        .eq("id", accountId)
+        .eq("user_id", userId)
+        .select()
+        .single();
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to update debt account");
+      }
+
+      return account;
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to update debt account");
+    }
+  }
+
+  /**
+   * Delete a debt account. Its linked budget item is kept.
+   */
+  async deleteDebtAccount(accountId: string, userId: string): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from("debt_accounts")
+        .delete()
+        .eq("id", accountId)
+        .eq("user_id", userId);
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to delete debt account");
+      }
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to delete debt account");
+    }
+  }
+
+  /**
+   * Choose the payoff plan extra money is directed by
+   */
+  async updatePayoffPriority(
+    userId: string,
+    priority: DebtPayoffPriority
+  ): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from("users")
+        .update({
+          debt_payoff_priority: priority,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", userId);
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to update payoff plan");
+      }
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to update payoff plan");
+    }
+  }
+
+  private async getLinkedBudgetItems(ids: string[]): Promise<BudgetItem[]> {
+    if (ids.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from("budget_items")
+      .select("*")
+      .in("id", ids);
+
+    if (error) {
+      throw handleDatabaseError(error, "Failed to fetch budget items");
+    }
+
+    return data || [];
+  }
+}
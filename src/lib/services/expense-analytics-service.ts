@@ -8,7 +8,9 @@ import {
   ExpenseSummary,
   ExpenseCategorySummary,
   MonthlyExpenseSummary,
+  TagBreakdown,
 } from "@/lib/types/expenses";
+import { getSpendingAmount } from "@/lib/utils/refunds";
 
 const supabase = createClient();
 
@@ -62,8 +64,9 @@ export class ExpenseAnalyticsService {
 
     let query = supabase
       .from("expenses")
-      .select("date, amount, category")
+      .select("date, amount, category, type")
       .eq("user_id", userId)
+      .eq("is_split", false)
       .order("date", { ascending: true });
 
     if (start_date) {
@@ -98,7 +101,7 @@ export class ExpenseAnalyticsService {
         groupedData[dateKey][expense.category] = 0;
       }
 
-      groupedData[dateKey][expense.category] += expense.amount;
+      groupedData[dateKey][expense.category] += getSpendingAmount(expense);
     });
 
     // Convert to array format
@@ -131,8 +134,9 @@ export class ExpenseAnalyticsService {
 
     let query = supabase
       .from("expenses")
-      .select("category, amount, budget_item_id")
-      .eq("user_id", userId);
+      .select("category, amount, budget_item_id, type")
+      .eq("user_id", userId)
+      .eq("is_split", false); // Count split lines, not their parent
 
     if (start_date) {
       query = query.gte("date", start_date);
@@ -162,7 +166,7 @@ export class ExpenseAnalyticsService {
     > = {};
 
     const totalAmount = expenses.reduce(
-      (sum, expense) => sum + expense.amount,
+      (sum, expense) => sum + getSpendingAmount(expense),
       0
     );
 
@@ -173,7 +177,7 @@ export class ExpenseAnalyticsService {
           budget_allocated: 0,
         };
       }
-      categoryTotals[expense.category].amount += expense.amount;
+      categoryTotals[expense.category].amount += getSpendingAmount(expense);
     });
 
     // Get budget allocations for comparison
@@ -205,6 +209,92 @@ export class ExpenseAnalyticsService {
     return breakdown.sort((a, b) => b.amount - a.amount);
   }
 
+  /**
+   * Get net spending per tag across categories and pay periods. Without a
+   * date range every tagged expense is included, so a trip or project can
+   * be totalled end to end.
+   */
+  static async getTagBreakdown(
+    userId: string,
+    options: {
+      start_date?: string;
+      end_date?: string;
+    } = {}
+  ): Promise<TagBreakdown[]> {
+    const { start_date, end_date } = options;
+
+    let query = supabase
+      .from("expenses")
+      .select("amount, type, category, date, pay_period_id, tags")
+      .eq("user_id", userId)
+      .eq("is_split", false)
+      .not("tags", "eq", "{}");
+
+    if (start_date) {
+      query = query.gte("date", start_date);
+    }
+    if (end_date) {
+      query = query.lte("date", end_date);
+    }
+
+    const { data: expenses, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to fetch tag breakdown: ${error.message}`);
+    }
+
+    if (!expenses) return [];
+
+    // An expense with several tags counts toward each of them
+    const tagTotals: Record<
+      string,
+      {
+        amount: number;
+        expense_count: number;
+        categories: Set<string>;
+        pay_periods: Set<string>;
+        first_date: string;
+        last_date: string;
+      }
+    > = {};
+
+    expenses.forEach((expense) => {
+      expense.tags.forEach((tag: string) => {
+        if (!tagTotals[tag]) {
+          tagTotals[tag] = {
+            amount: 0,
+            expense_count: 0,
+            categories: new Set(),
+            pay_periods: new Set(),
+            first_date: expense.date,
+            last_date: expense.date,
+          };
+        }
+
+        const totals = tagTotals[tag];
+        totals.amount += getSpendingAmount(expense);
+        totals.expense_count += 1;
+        totals.categories.add(expense.category);
+        if (expense.pay_period_id)
+          totals.pay_periods.add(expense.pay_period_id);
+        if (expense.date < totals.first_date) totals.first_date = expense.date;
+        if (expense.date > totals.last_date) totals.last_date = expense.date;
+      });
+    });
+
+    return Object.entries(tagTotals)
+      .map(([tag, totals]) => ({
+        tag,
+        amount: totals.amount,
+        expense_count: totals.expense_count,
+        categories: Array.from(totals.categories).sort(),
+        pay_period_count: totals.pay_periods.size,
+        first_date: totals.first_date,
+        last_date: totals.last_date,
+      }))
+      .sort((a, b) => b.amount - a.amount);
+  }
+
   /**
    * Get budget vs actual spending comparison
    */
@@ -247,8 +337,9 @@ export class ExpenseAnalyticsService {
 
     const { data: expenses, error } = await supabase
       .from("expenses")
-      .select("date, amount")
+      .select("date, amount, type")
       .eq("user_id", userId)
+      .eq("is_split", false)
       .gte("date", startDate.toISOString().split("T")[0])
       .lte("date", endDate.toISOString().split("T")[0])
       .order("date", { ascending: true });
@@ -267,7 +358,7 @@ export class ExpenseAnalyticsService {
       if (!monthlyTotals[monthKey]) {
         monthlyTotals[monthKey] = 0;
       }
-      monthlyTotals[monthKey] += expense.amount;
+      monthlyTotals[monthKey] += getSpendingAmount(expense);
     });
 
     // Build comparison data
@@ -309,8 +400,9 @@ export class ExpenseAnalyticsService {
 
     let query = supabase
       .from("expenses")
-      .select("amount, category, type, date")
-      .eq("user_id", userId);
+      .select("amount, category, type, date, budget_item_id")
+      .eq("user_id", userId)
+      .eq("is_split", false);
 
     if (start_date) {
       query = query.gte("date", start_date);
@@ -329,6 +421,7 @@ export class ExpenseAnalyticsService {
       return {
         total_expenses: 0,
         total_budget_payments: 0,
+        total_refunds: 0,
         total_amount: 0,
         expense_count: 0,
         categories: [],
@@ -336,9 +429,9 @@ export class ExpenseAnalyticsService {
       };
     }
 
-    // Calculate totals
+    // Calculate totals, with refunds reducing spending
     const total_amount = expenses.reduce(
-      (sum, expense) => sum + expense.amount,
+      (sum, expense) => sum + getSpendingAmount(expense),
       0
     );
     const total_expenses = expenses
@@ -347,6 +440,9 @@ export class ExpenseAnalyticsService {
     const total_budget_payments = expenses
       .filter((expense) => expense.type === "BUDGET_PAYMENT")
       .reduce((sum, expense) => sum + expense.amount, 0);
+    const total_refunds = expenses
+      .filter((expense) => expense.type === "REFUND")
+      .reduce((sum, expense) => sum + expense.amount, 0);
 
     // Category breakdown
     const categoryTotals: Record<string, { amount: number; count: number }> =
@@ -355,7 +451,7 @@ export class ExpenseAnalyticsService {
       if (!categoryTotals[expense.category]) {
         categoryTotals[expense.category] = { amount: 0, count: 0 };
       }
-      categoryTotals[expense.category].amount += expense.amount;
+      categoryTotals[expense.category].amount += getSpendingAmount(expense);
       categoryTotals[expense.category].count += 1;
     });
 
@@ -390,13 +486,18 @@ export class ExpenseAnalyticsService {
         };
       }
 
-      monthlyTotals[monthKey].total_amount += expense.amount;
+      const amount = getSpendingAmount(expense);
+      monthlyTotals[monthKey].total_amount += amount;
       monthlyTotals[monthKey].expense_count += 1;
 
-      if (expense.type === "BUDGET_PAYMENT") {
-        monthlyTotals[monthKey].budget_payments += expense.amount;
+      // Refunds credit back whichever side they were spent from
+      if (
+        expense.type === "BUDGET_PAYMENT" ||
+        (expense.type === "REFUND" && expense.budget_item_id)
+      ) {
+        monthlyTotals[monthKey].budget_payments += amount;
       } else {
-        monthlyTotals[monthKey].general_expenses += expense.amount;
+        monthlyTotals[monthKey].general_expenses += amount;
       }
     });
 
@@ -412,6 +513,7 @@ export class ExpenseAnalyticsService {
     return {
       total_expenses,
       total_budget_payments,
+      total_refunds,
       total_amount,
       expense_count: expenses.length,
       categories,
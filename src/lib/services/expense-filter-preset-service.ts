@@ -0,0 +1,130 @@
+import { createClient } from "@/lib/supabase/client";
+import { sanitizeExpenseFilters } from "@/lib/utils/expense-filter-params";
+import type { ExpenseFilters } from "@/lib/types/expenses";
+import type {
+  ExpenseFilterPreset,
+  ExpenseFilterPresetInsert,
+} from "@/lib/types/expense-filter-presets";
+import type { ExpenseFilterPreset as ExpenseFilterPresetRow } from "@/types/database";
+
+// Simple database error handler following existing pattern
+function handleDatabaseError(error: unknown, message: string): Error {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  return new Error(`${message}: ${errorMessage}`);
+}
+
+// Parse the stored JSON filters of a preset row
+function toPreset(row: ExpenseFilterPresetRow): ExpenseFilterPreset {
+  return { ...row, filters: sanitizeExpenseFilters(row.filters) };
+}
+
+export class ExpenseFilterPresetService {
+  private supabase = createClient();
+
+  /**
+   * Get a user's saved filter presets by name
+   */
+  async getPresets(userId: string): Promise<ExpenseFilterPreset[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from("expense_filter_presets")
+        .select("*")
+        .eq("user_id", userId)
+        .order("name", { ascending: true });
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to fetch filter presets");
+      }
+
+      return (data || []).map(toPreset);
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to fetch filter presets");
+    }
+  }
+
+  /**
+   * Save the given filters under a new name
+   */
+  async createPreset(
+    userId: string,
+    name: string,
+    filters: ExpenseFilters
+  ): Promise<ExpenseFilterPreset> {
+    try {
+      const presetInsert: ExpenseFilterPresetInsert = {
+        user_id: userId,
+        name: name.trim(),
+        filters: { ...sanitizeExpenseFilters(filters) },
+      };
+
+      const { data, error } = await this.supabase
+        .from("expense_filter_presets")
+        .insert(presetInsert)
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === "23505") {
+          throw new Error(`A preset named "${name.trim()}" already exists`);
+        }
+        throw handleDatabaseError(error, "Failed to save filter preset");
+      }
+
+      return toPreset(data);
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to save filter preset");
+    }
+  }
+
+  /**
+   * Rename a preset or replace its filters
+   */
+  async updatePreset(
+    presetId: string,
+    updates: { name?: string; filters?: ExpenseFilters },
+    userId: string
+  ): Promise<ExpenseFilterPreset> {
+    try {
+      const { data, error } = await this.supabase
+        .from("expense_filter_presets")
+        .update({
+          ...(updates.name !== undefined && { name: updates.name.trim() }),
+          ...(updates.filters && {
+            filters: { ...sanitizeExpenseFilters(updates.filters) },
+          }),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", presetId)
+        .eq("user_id", userId)
+        .select()
+        .single();
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to update filter preset");
+      }
+
+      return toPreset(data);
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to update filter preset");
+    }
+  }
+
+  /**
+   * Delete a preset
+   */
+  async deletePreset(presetId: string, userId: string): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from("expense_filter_presets")
+        .delete()
+        .eq("id", presetId)
+        .eq("user_id", userId);
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to delete filter preset");
+      }
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to delete filter preset");
+    }
+  }
+}
@@ -0,0 +1,268 @@
+import { createClient } from "@/lib/supabase/client";
+import { ExpenseService } from "./expense-service";
+import { ExpenseRuleService } from "./expense-rule-service";
+import { validateExpenseComprehensive } from "@/lib/utils/expense-validation";
+import { roundCents } from "@/lib/utils/currency";
+import {
+  EXPENSE_CATEGORIES,
+  toExpenseCategoryKey,
+} from "@/lib/constants/expense-categories";
+import type {
+  CsvColumnMapping,
+  CsvImportSettings,
+  DuplicateDetectionOptions,
+  ExpenseCreateData,
+  ExpenseImportData,
+  ExpenseImportResult,
+  ImportProfile,
+  ImportProfileInsert,
+} from "@/lib/types/expenses";
+import type { Json } from "@/types/database";
+
+// Simple database error handler following existing pattern
+function handleDatabaseError(error: unknown, message: string): Error {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  return new Error(`${message}: ${errorMessage}`);
+}
+
+/**
+ * Convert a parsed statement row into expense creation data. Categories are
+ * stored by key like those entered through the expense form, and rows without
+ * a recognised category are imported as Uncategorized. The statement row is
+ * kept in raw_data.
+ */
+export function toExpenseCreateData(row: ExpenseImportData): ExpenseCreateData {
+  return {
+    description: row.description,
+    amount: roundCents(row.amount),
+    date: row.date,
+    category: toExpenseCategoryKey(
+      row.category || EXPENSE_CATEGORIES.UNCATEGORIZED
+    ),
+    type: "EXPENSE",
+    external_id: row.external_id,
+    raw_data: row.raw_data,
+  };
+}
+
+/**
+ * Read the CSV settings stored on a saved import profile
+ */
+export function toCsvImportSettings(profile: ImportProfile): CsvImportSettings {
+  const mapping = (profile.column_mapping || {}) as Partial<CsvColumnMapping>;
+
+  return {
+    delimiter: profile.delimiter as CsvImportSettings["delimiter"],
+    date_format: profile.date_format as CsvImportSettings["date_format"],
+    amount_sign: profile.amount_sign,
+    has_header: profile.has_header,
+    column_mapping: {
+      date: mapping.date ?? null,
+      description: mapping.description ?? null,
+      amount: mapping.amount ?? null,
+      debit: mapping.debit ?? null,
+      credit: mapping.credit ?? null,
+      category: mapping.category ?? null,
+    },
+  };
+}
+
+export interface ExpenseImportOptions {
+  duplicateOptions?: DuplicateDetectionOptions;
+  skipDuplicates?: boolean; // Default: true
+}
+
+export class ExpenseImportService {
+  private supabase = createClient();
+  private expenseService = new ExpenseService();
+  private ruleService = new ExpenseRuleService();
+
+  /**
+   * Get saved import profiles for a user, ordered by bank name
+   */
+  async getImportProfiles(userId: string): Promise<ImportProfile[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from("import_profiles")
+        .select("*")
+        .eq("user_id", userId)
+        .order("bank_name", { ascending: true });
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to fetch import profiles");
+      }
+
+      return data || [];
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to fetch import profiles");
+    }
+  }
+
+  /**
+   * Save the column mapping for a bank, replacing any previous mapping with
+   * the same bank name
+   */
+  async saveImportProfile(
+    userId: string,
+    bankName: string,
+    settings: CsvImportSettings
+  ): Promise<ImportProfile> {
+    try {
+      const profileInsert: ImportProfileInsert = {
+        user_id: userId,
+        bank_name: bankName.trim(),
+        delimiter: settings.delimiter,
+        date_format: settings.date_format,
+        amount_sign: settings.amount_sign,
+        has_header: settings.has_header,
+        column_mapping: settings.column_mapping as unknown as Json,
+      };
+
+      const { data, error } = await this.supabase
+        .from("import_profiles")
+        .upsert(profileInsert, { onConflict: "user_id,bank_name" })
+        .select()
+        .single();
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to save import profile");
+      }
+
+      return data;
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to save import profile");
+    }
+  }
+
+  /**
+   * Delete a saved import profile
+   */
+  async deleteImportProfile(profileId: string, userId: string): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from("import_profiles")
+        .delete()
+        .eq("id", profileId)
+        .eq("user_id", userId);
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to delete import profile");
+      }
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to delete import profile");
+    }
+  }
+
+  /**
+   * Validate, duplicate-check and insert imported expenses. Invalid rows are
+   * reported in errors with their 1-based position in the input; duplicates
+   * are skipped unless skipDuplicates is false. Rows whose external ID has
+   * already been imported (or repeats within the batch) are always skipped.
+   * Auto-categorization rules run first so validation and duplicate checks
+   * see the final category.
+   */
+  async importExpenses(
+    userId: string,
+    expenses: ExpenseCreateData[],
+    options: ExpenseImportOptions = {}
+  ): Promise<ExpenseImportResult> {
+    const { duplicateOptions = {}, skipDuplicates = true } = options;
+
+    const result: ExpenseImportResult = {
+      success_count: 0,
+      error_count: 0,
+      duplicate_count: 0,
+      created_expenses: [],
+      errors: [],
+    };
+
+    const toInsert: ExpenseCreateData[] = [];
+    const categorized = (
+      await this.ruleService.applyRulesToBatch(userId, expenses)
+    ).map(({ expense }) => expense);
+    const importedIds = await this.expenseService.getExistingExternalIds(
+      userId,
+      categorized.map((expense) => expense.external_id || "")
+    );
+
+    const valid: ExpenseCreateData[] = [];
+    for (const [index, expense] of categorized.entries()) {
+      const validation = validateExpenseComprehensive(expense);
+      if (!validation.is_valid) {
+        result.errors.push({
+          row: index + 1,
+          error: validation.errors.join(", "),
+          data: expense,
+        });
+        continue;
+      }
+
+      if (expense.external_id) {
+        if (importedIds.has(expense.external_id)) {
+          result.duplicate_count++;
+          continue;
+        }
+        importedIds.add(expense.external_id);
+      }
+
+      valid.push(expense);
+    }
+
+    if (!skipDuplicates) {
+      toInsert.push(...valid);
+    } else if (valid.length > 0) {
+      try {
+        // One bulk check also catches rows repeated within the file
+        const checks = await this.expenseService.checkForDuplicatesBulk(
+          userId,
+          valid,
+          duplicateOptions
+        );
+        checks.forEach(({ expense, validation }) => {
+          if (validation.is_duplicate) {
+            result.duplicate_count++;
+          } else {
+            toInsert.push(expense);
+          }
+        });
+      } catch (error) {
+        const message =
+          error instanceof Error
+            ? error.message
+            : "Failed to check for duplicates";
+        valid.forEach((expense) => {
+          result.errors.push({
+            row: categorized.indexOf(expense) + 1,
+            error: message,
+            data: expense,
+          });
+        });
+      }
+    }
+
+    if (toInsert.length > 0) {
+      try {
+        result.created_expenses = await this.expenseService.createExpensesBatch(
+          { user_id: userId, expenses: toInsert }
+        );
+      } catch (error) {
+        // The batch insert is all-or-nothing, so every pending row failed
+        const message =
+          error instanceof Error ? error.message : "Failed to import expenses";
+        toInsert.forEach((expense) => {
+          result.errors.push({
+            row: categorized.indexOf(expense) + 1,
+            error: message,
+            data: expense,
+          });
+        });
+      }
+    }
+
+    result.success_count = result.created_expenses.length;
+    result.error_count = result.errors.length;
+    result.errors.sort((a, b) => a.row - b.row);
+
+    return result;
+  }
+}
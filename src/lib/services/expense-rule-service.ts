@@ -0,0 +1,195 @@
+import { createClient } from "@/lib/supabase/client";
+import {
+  applyExpenseRules,
+  getRuleChanges,
+  ruleMatchesExpense,
+} from "@/lib/utils/expense-rules";
+import type { ExpenseCreateData } from "@/lib/types/expenses";
+import type {
+  ExpenseRule,
+  ExpenseRuleApplication,
+  ExpenseRuleFormData,
+  ExpenseRuleInsert,
+  ExpenseRulePreview,
+  ExpenseRuleUpdate,
+} from "@/lib/types/expense-rules";
+
+// Simple database error handler following existing pattern
+function handleDatabaseError(error: unknown, message: string): Error {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  return new Error(`${message}: ${errorMessage}`);
+}
+
+export class ExpenseRuleService {
+  private supabase = createClient();
+
+  /**
+   * Get a user's rules in the order they run
+   */
+  async getRules(userId: string, activeOnly = false): Promise<ExpenseRule[]> {
+    try {
+      let query = this.supabase
+        .from("expense_rules")
+        .select("*")
+        .eq("user_id", userId)
+        .order("priority", { ascending: true })
+        .order("created_at", { ascending: true });
+
+      if (activeOnly) {
+        query = query.eq("is_active", true);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to fetch expense rules");
+      }
+
+      return data || [];
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to fetch expense rules");
+    }
+  }
+
+  /**
+   * Create a new rule
+   */
+  async createRule(
+    userId: string,
+    ruleData: ExpenseRuleFormData
+  ): Promise<ExpenseRule> {
+    try {
+      const ruleInsert: ExpenseRuleInsert = { ...ruleData, user_id: userId };
+
+      const { data, error } = await this.supabase
+        .from("expense_rules")
+        .insert(ruleInsert)
+        .select()
+        .single();
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to create expense rule");
+      }
+
+      return data;
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to create expense rule");
+    }
+  }
+
+  /**
+   * Update an existing rule
+   */
+  async updateRule(
+    ruleId: string,
+    updates: ExpenseRuleUpdate,
+    userId: string
+  ): Promise<ExpenseRule> {
+    try {
+      const { data, error } = await this.supabase
+        .from("expense_rules")
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq("id", ruleId)
+        .eq("user_id", userId)
+        .select()
+        .single();
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to update expense rule");
+      }
+
+      return data;
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to update expense rule");
+    }
+  }
+
+  /**
+   * Delete a rule
+   */
+  async deleteRule(ruleId: string, userId: string): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from("expense_rules")
+        .delete()
+        .eq("id", ruleId)
+        .eq("user_id", userId);
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to delete expense rule");
+      }
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to delete expense rule");
+    }
+  }
+
+  /**
+   * Run the user's active rules over a new expense
+   */
+  async applyRules(
+    userId: string,
+    expenseData: ExpenseCreateData
+  ): Promise<ExpenseRuleApplication> {
+    const [application] = await this.applyRulesToBatch(userId, [expenseData]);
+    return application;
+  }
+
+  /**
+   * Run the user's active rules over several new expenses with one rule fetch
+   */
+  async applyRulesToBatch(
+    userId: string,
+    expenses: ExpenseCreateData[]
+  ): Promise<ExpenseRuleApplication[]> {
+    const rules = await this.getRules(userId, true);
+    return expenses.map((expense) => applyExpenseRules(expense, rules));
+  }
+
+  /**
+   * Test a rule (saved or not) against the user's expenses from the last
+   * `days` days, returning each match with the changes the rule would make
+   */
+  async previewRule(
+    userId: string,
+    rule: ExpenseRuleFormData,
+    days = 90
+  ): Promise<ExpenseRulePreview> {
+    try {
+      const endDate = new Date();
+      const startDate = new Date(endDate);
+      startDate.setDate(startDate.getDate() - days);
+
+      const start = startDate.toISOString().split("T")[0];
+      const end = endDate.toISOString().split("T")[0];
+
+      const { data, error } = await this.supabase
+        .from("expenses")
+        .select("*")
+        .eq("user_id", userId)
+        .is("parent_expense_id", null) // Rules apply to whole transactions
+        .gte("date", start)
+        .lte("date", end)
+        .order("date", { ascending: false });
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to preview expense rule");
+      }
+
+      const expenses = data || [];
+
+      return {
+        start_date: start,
+        end_date: end,
+        scanned_count: expenses.length,
+        matches: expenses
+          .filter((expense) => ruleMatchesExpense(rule, expense))
+          .map((expense) => ({
+            expense,
+            changes: getRuleChanges(rule, expense),
+          })),
+      };
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to preview expense rule");
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { createClient } from "@/lib/supabase/client";
+import { ExpenseRuleService } from "./expense-rule-service";
 import type {
   Expense,
   ExpenseInsert,
@@ -15,7 +16,21 @@ import type {
   ExpenseBatchCreate,
   ExpenseBatchUpdate,
   ExpenseBatchDelete,
+  BulkDuplicateCheckResult,
+  TagUsage,
 } from "@/lib/types/expenses";
+import {
+  detectDuplicatesInBatch,
+  findBestDuplicate,
+} from "@/lib/utils/duplicate-detection";
+import { validateRefund } from "@/lib/utils/expense-validation";
+import { getSpendingAmount } from "@/lib/utils/refunds";
+import { countTagUsage, normalizeTags } from "@/lib/utils/expense-tags";
+import { toPrefixTsQuery } from "@/lib/utils/expense-filter-params";
+import type { Json } from "@/types/database";
+
+// Rows fetched per request when loading expenses for bulk duplicate checks
+const BULK_PAGE_SIZE = 1000;
 
 // Simple database error handler following existing pattern
 function handleDatabaseError(error: unknown, message: string): Error {
@@ -23,8 +38,16 @@ function handleDatabaseError(error: unknown, message: string): Error {
   return new Error(`${message}: ${errorMessage}`);
 }
 
+// Move an ISO date by a number of days
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(date.split("T")[0] + "T00:00:00Z");
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split("T")[0];
+}
+
 export class ExpenseService {
   private supabase = createClient();
+  private ruleService = new ExpenseRuleService();
 
   /**
    * Get expenses for a specific user with optional filters
@@ -41,13 +64,13 @@ export class ExpenseService {
         .select(
           `
           *,
-          pay_periods (
+          pay_period:pay_periods (
             id,
             start_date,
             end_date,
             expected_net
           ),
-          budget_items (
+          budget_item:budget_items (
             id,
             name,
             category,
@@ -57,6 +80,7 @@ export class ExpenseService {
         `
         )
         .eq("user_id", userId)
+        .eq("is_split", false) // Split transactions are listed as their lines
         .order("date", { ascending: false })
         .order("created_at", { ascending: false })
         .range(offset, offset + limit - 1);
@@ -88,7 +112,15 @@ export class ExpenseService {
           query = query.eq("budget_item_id", filters.budget_item_id);
         }
         if (filters.search) {
-          query = query.ilike("description", `%${filters.search}%`);
+          const tsQuery = toPrefixTsQuery(filters.search);
+          if (tsQuery) {
+            query = query.textSearch("search_vector", tsQuery, {
+              config: "english",
+            });
+          }
+        }
+        if (filters.tag) {
+          query = query.contains("tags", [filters.tag]);
         }
       }
 
@@ -98,7 +130,17 @@ export class ExpenseService {
         throw handleDatabaseError(error, "Failed to fetch expenses");
       }
 
-      return (data || []) as ExpenseWithDetails[];
+      const expenses = (data || []) as ExpenseWithDetails[];
+      const refundTotals = await this.getRefundTotals(
+        userId,
+        expenses.filter((e) => e.type !== "REFUND").map((e) => e.id)
+      );
+
+      return expenses.map((expense) =>
+        refundTotals.has(expense.id)
+          ? { ...expense, refunded_amount: refundTotals.get(expense.id) }
+          : expense
+      );
     } catch (error) {
       throw handleDatabaseError(error, "Failed to fetch expenses");
     }
@@ -124,13 +166,13 @@ export class ExpenseService {
           .select(
             `
             *,
-            pay_periods (
+            pay_period:pay_periods (
               id,
               start_date,
               end_date,
               expected_net
             ),
-            budget_items (
+            budget_item:budget_items (
               id,
               name,
               category,
@@ -163,15 +205,32 @@ export class ExpenseService {
     expenseData: ExpenseCreateData
   ): Promise<Expense> {
     try {
+      // Let the user's auto-categorization rules fill in open fields
+      const { expense } = await this.ruleService.applyRules(
+        userId,
+        expenseData
+      );
+
+      const refundOfExpenseId =
+        expense.type === "REFUND" ? expense.refund_of_expense_id || null : null;
+      if (refundOfExpenseId) {
+        await this.assertRefundable(userId, refundOfExpenseId, expense.amount);
+      }
+
       const expenseInsert: ExpenseInsert = {
         user_id: userId,
-        description: expenseData.description,
-        amount: expenseData.amount,
-        date: expenseData.date,
-        category: expenseData.category,
-        pay_period_id: expenseData.pay_period_id || null,
-        budget_item_id: expenseData.budget_item_id || null,
-        type: expenseData.type || "EXPENSE",
+        description: expense.description,
+        amount: expense.amount,
+        date: expense.date,
+        category: expense.category,
+        pay_period_id: expense.pay_period_id || null,
+        budget_item_id: expense.budget_item_id || null,
+        type: expense.type || "EXPENSE",
+        external_id: expense.external_id || null,
+        raw_data: (expense.raw_data as Json | undefined) ?? null,
+        refund_of_expense_id: refundOfExpenseId,
+        tags: normalizeTags(expense.tags || []),
+        notes: expense.notes?.trim() || null,
       };
 
       const { data, error } = await this.supabase
@@ -199,10 +258,18 @@ export class ExpenseService {
     userId: string
   ): Promise<Expense> {
     try {
+      await this.assertAmountEditable(expenseId, updates);
+
       const expenseUpdate: ExpenseUpdate = {
         ...updates,
         updated_at: new Date().toISOString(),
       };
+      if (updates.tags) {
+        expenseUpdate.tags = normalizeTags(updates.tags);
+      }
+      if (updates.notes !== undefined) {
+        expenseUpdate.notes = updates.notes?.trim() || null;
+      }
 
       const { data, error } = await this.supabase
         .from("expenses")
@@ -216,6 +283,8 @@ export class ExpenseService {
         throw handleDatabaseError(error, "Failed to update expense");
       }
 
+      await this.syncSplitLines(data, updates);
+
       return data;
     } catch (error) {
       throw handleDatabaseError(error, "Failed to update expense");
@@ -252,15 +321,16 @@ export class ExpenseService {
       // Get all expenses for the user with filters
       const expenses = await this.getExpenses(userId, filters, 1000, 0);
 
-      // Calculate totals
+      // Calculate totals, with refunds reducing spending
       const totalAmount = expenses.reduce(
-        (sum, expense) => sum + expense.amount,
+        (sum, expense) => sum + getSpendingAmount(expense),
         0
       );
       const totalExpenses = expenses.filter((e) => e.type === "EXPENSE").length;
       const totalBudgetPayments = expenses.filter(
         (e) => e.type === "BUDGET_PAYMENT"
       ).length;
+      const totalRefunds = expenses.filter((e) => e.type === "REFUND").length;
       const expenseCount = expenses.length;
 
       // Calculate category summaries
@@ -271,7 +341,7 @@ export class ExpenseService {
           count: 0,
         };
         categoryMap.set(expense.category, {
-          amount: existing.amount + expense.amount,
+          amount: existing.amount + getSpendingAmount(expense),
           count: existing.count + 1,
         });
       });
@@ -306,7 +376,7 @@ export class ExpenseService {
         };
 
         monthlyMap.set(month, {
-          amount: existing.amount + expense.amount,
+          amount: existing.amount + getSpendingAmount(expense),
           count: existing.count + 1,
           budget_payments:
             existing.budget_payments +
@@ -329,6 +399,7 @@ export class ExpenseService {
       return {
         total_expenses: totalExpenses,
         total_budget_payments: totalBudgetPayments,
+        total_refunds: totalRefunds,
         total_amount: totalAmount,
         expense_count: expenseCount,
         categories: categories.sort((a, b) => b.total_amount - a.total_amount),
@@ -350,87 +421,244 @@ export class ExpenseService {
     options: DuplicateDetectionOptions = {}
   ): Promise<ExpenseValidationResult> {
     try {
-      const {
-        amount_tolerance = 0,
-        date_tolerance_days = 0,
-        description_similarity = 0.8,
-        check_category = true,
-      } = options;
-
-      // Build date range for duplicate check
-      const expenseDate = new Date(expenseData.date);
-      const startDate = new Date(expenseDate);
-      startDate.setDate(startDate.getDate() - date_tolerance_days);
-      const endDate = new Date(expenseDate);
-      endDate.setDate(endDate.getDate() + date_tolerance_days);
-
-      // Query for potential duplicates
-      let query = this.supabase
+      const { amount_tolerance = 0, date_tolerance_days = 0 } = options;
+
+      // A matching statement transaction ID is always a duplicate, even if
+      // the bank has since changed the description
+      if (expenseData.external_id) {
+        const { data: imported, error: importedError } = await this.supabase
+          .from("expenses")
+          .select("id")
+          .eq("user_id", userId)
+          .eq("external_id", expenseData.external_id)
+          .maybeSingle();
+
+        if (importedError) {
+          throw handleDatabaseError(
+            importedError,
+            "Failed to check for duplicates"
+          );
+        }
+
+        if (imported) {
+          return {
+            is_valid: false,
+            errors: ["Transaction has already been imported"],
+            warnings: [],
+            is_duplicate: true,
+            duplicate_expense_id: imported.id,
+            duplicate_match: {
+              source: "external_id",
+              expense_id: imported.id,
+              score: null,
+            },
+          };
+        }
+      }
+
+      // Query candidates by date and amount only; descriptions and
+      // categories are compared after normalising them
+      const { data: potentialDuplicates, error } = await this.supabase
         .from("expenses")
         .select("*")
         .eq("user_id", userId)
-        .gte("date", startDate.toISOString().split("T")[0])
-        .lte("date", endDate.toISOString().split("T")[0]);
-
-      // Add amount tolerance filter
-      if (amount_tolerance === 0) {
-        query = query.eq("amount", expenseData.amount);
-      } else {
-        query = query
-          .gte("amount", expenseData.amount - amount_tolerance)
-          .lte("amount", expenseData.amount + amount_tolerance);
+        .is("parent_expense_id", null) // Compare whole transactions only
+        .gte("date", shiftDate(expenseData.date, -date_tolerance_days))
+        .lte("date", shiftDate(expenseData.date, date_tolerance_days))
+        .gte("amount", expenseData.amount - amount_tolerance)
+        .lte("amount", expenseData.amount + amount_tolerance);
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to check for duplicates");
       }
 
-      // Add category filter if enabled
-      if (check_category) {
-        query = query.eq("category", expenseData.category);
+      const match = findBestDuplicate(
+        expenseData,
+        potentialDuplicates || [],
+        options
+      );
+
+      if (!match) {
+        return {
+          is_valid: true,
+          errors: [],
+          warnings: [],
+          is_duplicate: false,
+        };
       }
 
-      const { data: potentialDuplicates, error } = await query;
+      return {
+        is_valid: false,
+        errors: ["Potential duplicate expense detected"],
+        warnings: [],
+        is_duplicate: true,
+        duplicate_expense_id: match.expense.id,
+        duplicate_match: {
+          source: "existing",
+          expense_id: match.expense.id,
+          score: match.score,
+        },
+      };
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to validate expense");
+    }
+  }
 
-      if (error) {
-        throw handleDatabaseError(error, "Failed to check for duplicates");
+  /**
+   * Check many expenses for duplicates with one date-range query, including
+   * duplicates between rows of the batch itself
+   */
+  async checkForDuplicatesBulk(
+    userId: string,
+    expenses: ExpenseCreateData[],
+    options: DuplicateDetectionOptions = {}
+  ): Promise<BulkDuplicateCheckResult[]> {
+    try {
+      if (expenses.length === 0) return [];
+
+      const { date_tolerance_days = 0 } = options;
+      const dates = expenses.map((expense) => expense.date).sort();
+
+      // Fetch every expense in the batch's date range, a page at a time
+      const existing: Expense[] = [];
+      for (let from = 0; ; from += BULK_PAGE_SIZE) {
+        const { data, error } = await this.supabase
+          .from("expenses")
+          .select("*")
+          .eq("user_id", userId)
+          .is("parent_expense_id", null)
+          .gte("date", shiftDate(dates[0], -date_tolerance_days))
+          .lte("date", shiftDate(dates[dates.length - 1], date_tolerance_days))
+          .order("date", { ascending: true })
+          .order("id", { ascending: true })
+          .range(from, from + BULK_PAGE_SIZE - 1);
+
+        if (error) {
+          throw handleDatabaseError(error, "Failed to check for duplicates");
+        }
+
+        existing.push(...(data || []));
+        if (!data || data.length < BULK_PAGE_SIZE) break;
       }
 
-      // Check description similarity for potential duplicates
-      const duplicates = (potentialDuplicates || []).filter((expense) => {
-        if (description_similarity >= 1.0) {
-          return (
-            expense.description.toLowerCase() ===
-            expenseData.description.toLowerCase()
-          );
+      const importedIds = await this.getExistingExternalIds(
+        userId,
+        expenses.map((expense) => expense.external_id || "")
+      );
+      const importedById = new Map(
+        existing
+          .filter((expense) => expense.external_id)
+          .map((expense) => [expense.external_id as string, expense])
+      );
+
+      const matches = detectDuplicatesInBatch(expenses, existing, options);
+
+      return expenses.map((expense, index) => {
+        const { existing: existingMatch, file: fileMatch } = matches[index];
+
+        // A known statement transaction ID is always a duplicate
+        if (expense.external_id && importedIds.has(expense.external_id)) {
+          const imported = importedById.get(expense.external_id);
+          return {
+            expense,
+            validation: {
+              is_valid: false,
+              errors: ["Transaction has already been imported"],
+              warnings: [],
+              is_duplicate: true,
+              duplicate_expense_id: imported?.id,
+              duplicate_match: {
+                source: "external_id",
+                expense_id: imported?.id,
+                score: null,
+              },
+            },
+            duplicateExpense: imported,
+          };
+        }
+
+        if (existingMatch) {
+          return {
+            expense,
+            validation: {
+              is_valid: false,
+              errors: ["Potential duplicate expense detected"],
+              warnings: [],
+              is_duplicate: true,
+              duplicate_expense_id: existingMatch.expense.id,
+              duplicate_match: {
+                source: "existing",
+                expense_id: existingMatch.expense.id,
+                score: existingMatch.score,
+              },
+            },
+            duplicateExpense: existingMatch.expense,
+          };
         }
 
-        // Simple similarity check (can be enhanced with more sophisticated algorithms)
-        const desc1 = expense.description.toLowerCase();
-        const desc2 = expenseData.description.toLowerCase();
-        const commonWords = desc1
-          .split(" ")
-          .filter((word: string) => desc2.includes(word));
-        const similarity =
-          commonWords.length /
-          Math.max(desc1.split(" ").length, desc2.split(" ").length);
-
-        return similarity >= description_similarity;
+        if (fileMatch) {
+          return {
+            expense,
+            validation: {
+              is_valid: false,
+              errors: [`Duplicate of row ${fileMatch.row} in this file`],
+              warnings: [],
+              is_duplicate: true,
+              duplicate_match: {
+                source: "file",
+                file_row: fileMatch.row,
+                score: fileMatch.score,
+              },
+            },
+          };
+        }
+
+        return {
+          expense,
+          validation: {
+            is_valid: true,
+            errors: [],
+            warnings: [],
+            is_duplicate: false,
+          },
+        };
       });
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to validate expenses");
+    }
+  }
+
+  /**
+   * Get which of the given statement transaction IDs a user has already imported
+   */
+  async getExistingExternalIds(
+    userId: string,
+    externalIds: string[]
+  ): Promise<Set<string>> {
+    try {
+      const existing = new Set<string>();
+      const uniqueIds = Array.from(new Set(externalIds.filter(Boolean)));
 
-      const isDuplicate = duplicates.length > 0;
-      const errors: string[] = [];
-      const warnings: string[] = [];
+      // Query in chunks to keep the request URL a reasonable length
+      for (let i = 0; i < uniqueIds.length; i += 100) {
+        const { data, error } = await this.supabase
+          .from("expenses")
+          .select("external_id")
+          .eq("user_id", userId)
+          .in("external_id", uniqueIds.slice(i, i + 100));
+
+        if (error) {
+          throw handleDatabaseError(error, "Failed to fetch external IDs");
+        }
 
-      if (isDuplicate) {
-        errors.push("Potential duplicate expense detected");
+        (data || []).forEach((row) => {
+          if (row.external_id) existing.add(row.external_id);
+        });
       }
 
-      return {
-        is_valid: !isDuplicate,
-        errors,
-        warnings,
-        is_duplicate: isDuplicate,
-        duplicate_expense_id: duplicates[0]?.id,
-      };
+      return existing;
     } catch (error) {
-      throw handleDatabaseError(error, "Failed to validate expense");
+      throw handleDatabaseError(error, "Failed to fetch external IDs");
     }
   }
 
@@ -439,8 +667,34 @@ export class ExpenseService {
    */
   async createExpensesBatch(batchData: ExpenseBatchCreate): Promise<Expense[]> {
     try {
-      const expensesToInsert: ExpenseInsert[] = batchData.expenses.map(
-        (expense) => ({
+      const applications = await this.ruleService.applyRulesToBatch(
+        batchData.user_id,
+        batchData.expenses
+      );
+
+      // Check refunds against each original together, so several refunds in
+      // one batch can't add up to more than was spent
+      const refundAmounts = new Map<string, number>();
+      for (const { expense } of applications) {
+        if (expense.type !== "REFUND" || !expense.refund_of_expense_id) {
+          continue;
+        }
+        refundAmounts.set(
+          expense.refund_of_expense_id,
+          (refundAmounts.get(expense.refund_of_expense_id) || 0) +
+            expense.amount
+        );
+      }
+      for (const [refundOfExpenseId, amount] of refundAmounts) {
+        await this.assertRefundable(
+          batchData.user_id,
+          refundOfExpenseId,
+          amount
+        );
+      }
+
+      const expensesToInsert: ExpenseInsert[] = applications.map(
+        ({ expense }) => ({
           user_id: batchData.user_id,
           description: expense.description,
           amount: expense.amount,
@@ -449,6 +703,14 @@ export class ExpenseService {
           pay_period_id: expense.pay_period_id || null,
           budget_item_id: expense.budget_item_id || null,
           type: expense.type || "EXPENSE",
+          external_id: expense.external_id || null,
+          raw_data: (expense.raw_data as Json | undefined) ?? null,
+          refund_of_expense_id:
+            expense.type === "REFUND"
+              ? expense.refund_of_expense_id || null
+              : null,
+          tags: normalizeTags(expense.tags || []),
+          notes: expense.notes?.trim() || null,
         })
       );
 
@@ -476,6 +738,8 @@ export class ExpenseService {
 
       // Process updates sequentially to maintain data integrity
       for (const update of batchData.updates) {
+        await this.assertAmountEditable(update.id, update.data);
+
         const { data, error } = await this.supabase
           .from("expenses")
           .update({
@@ -494,6 +758,7 @@ export class ExpenseService {
         }
 
         if (data) {
+          await this.syncSplitLines(data, update.data);
           updatedExpenses.push(data);
         }
       }
@@ -536,7 +801,7 @@ export class ExpenseService {
         .select(
           `
           *,
-          budget_items (
+          budget_item:budget_items (
             id,
             name,
             category,
@@ -547,6 +812,7 @@ export class ExpenseService {
         )
         .eq("pay_period_id", payPeriodId)
         .eq("user_id", userId)
+        .eq("is_split", false)
         .order("date", { ascending: false })
         .order("created_at", { ascending: false });
 
@@ -581,7 +847,7 @@ export class ExpenseService {
         .select(
           `
           *,
-          pay_periods (
+          pay_period:pay_periods (
             id,
             start_date,
             end_date,
@@ -591,6 +857,7 @@ export class ExpenseService {
         )
         .eq("budget_item_id", budgetItemId)
         .eq("user_id", userId)
+        .eq("is_split", false)
         .order("date", { ascending: false });
 
       if (startDate) {
@@ -617,4 +884,168 @@ export class ExpenseService {
       );
     }
   }
+
+  /**
+   * Get the description and category of a user's most recent expenses, used
+   * to train category suggestions
+   */
+  async getCategoryHistory(
+    userId: string,
+    limit = 1000
+  ): Promise<Array<Pick<Expense, "description" | "category">>> {
+    try {
+      const { data, error } = await this.supabase
+        .from("expenses")
+        .select("description, category")
+        .eq("user_id", userId)
+        .eq("is_split", false)
+        .order("date", { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to fetch category history");
+      }
+
+      return data || [];
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to fetch category history");
+    }
+  }
+
+  /**
+   * Get the tags a user has used, most used first
+   */
+  async getUserTags(userId: string): Promise<TagUsage[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from("expenses")
+        .select("tags")
+        .eq("user_id", userId)
+        .not("tags", "eq", "{}");
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to fetch tags");
+      }
+
+      return countTagUsage(data || []);
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to fetch tags");
+    }
+  }
+
+  /**
+   * Carry a split transaction's date and pay period over to its lines
+   */
+  private async syncSplitLines(
+    parent: Expense,
+    updates: ExpenseUpdateData
+  ): Promise<void> {
+    if (!parent.is_split) return;
+    if (updates.date === undefined && updates.pay_period_id === undefined) {
+      return;
+    }
+
+    const { error } = await this.supabase
+      .from("expenses")
+      .update({
+        date: parent.date,
+        pay_period_id: parent.pay_period_id,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("parent_expense_id", parent.id)
+      .eq("user_id", parent.user_id);
+
+    if (error) {
+      throw handleDatabaseError(error, "Failed to update split lines");
+    }
+  }
+
+  /**
+   * Reject a new amount for a split transaction, whose lines must keep adding
+   * up to it. The split has to be removed to change the amount.
+   */
+  private async assertAmountEditable(
+    expenseId: string,
+    updates: ExpenseUpdateData
+  ): Promise<void> {
+    if (updates.amount === undefined) return;
+
+    const { data: expense, error } = await this.supabase
+      .from("expenses")
+      .select("amount, is_split")
+      .eq("id", expenseId)
+      .single();
+
+    if (error || !expense) {
+      throw handleDatabaseError(error, "Failed to fetch expense");
+    }
+
+    if (expense.is_split && expense.amount !== updates.amount) {
+      throw new Error(
+        "Remove the split before changing the amount of a split transaction"
+      );
+    }
+  }
+
+  /**
+   * Total refunded against each of the given expenses
+   */
+  private async getRefundTotals(
+    userId: string,
+    expenseIds: string[]
+  ): Promise<Map<string, number>> {
+    const totals = new Map<string, number>();
+    if (expenseIds.length === 0) return totals;
+
+    const { data, error } = await this.supabase
+      .from("expenses")
+      .select("refund_of_expense_id, amount")
+      .eq("user_id", userId)
+      .eq("type", "REFUND")
+      .in("refund_of_expense_id", expenseIds);
+
+    if (error) {
+      throw handleDatabaseError(error, "Failed to fetch refunds");
+    }
+
+    (data || []).forEach((refund) => {
+      if (!refund.refund_of_expense_id) return;
+      totals.set(
+        refund.refund_of_expense_id,
+        (totals.get(refund.refund_of_expense_id) || 0) + refund.amount
+      );
+    });
+
+    return totals;
+  }
+
+  /**
+   * Fail unless the expense exists and has enough left to refund
+   */
+  private async assertRefundable(
+    userId: string,
+    expenseId: string,
+    amount: number
+  ): Promise<void> {
+    const { data: original, error } = await this.supabase
+      .from("expenses")
+      .select("*")
+      .eq("id", expenseId)
+      .eq("user_id", userId)
+      .single();
+
+    if (error || !original) {
+      throw handleDatabaseError(error, "Failed to fetch refunded expense");
+    }
+
+    const refundTotals = await this.getRefundTotals(userId, [expenseId]);
+    const validation = validateRefund(
+      original,
+      amount,
+      refundTotals.get(expenseId) || 0
+    );
+    if (!validation.is_valid) {
+      throw new Error(validation.errors.join(", "));
+    }
+  }
 }
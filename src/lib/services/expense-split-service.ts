@@ -0,0 +1,196 @@
+import { createClient, type TypedSupabaseClient } from "@/lib/supabase/client";
+import { validateExpenseSplit } from "@/lib/utils/expense-validation";
+import type {
+  Expense,
+  ExpenseInsert,
+  ExpenseSplitLine,
+  SplitExpense,
+} from "@/lib/types/expenses";
+
+// Simple database error handler following existing pattern
+function handleDatabaseError(error: unknown, message: string): Error {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  return new Error(`${message}: ${errorMessage}`);
+}
+
+export class ExpenseSplitService {
+  private supabase: TypedSupabaseClient;
+
+  constructor(supabase: TypedSupabaseClient = createClient()) {
+    this.supabase = supabase;
+  }
+
+  /**
+   * Get a split transaction with its lines. Accepts the parent or any line.
+   */
+  async getSplitExpense(
+    userId: string,
+    expenseId: string
+  ): Promise<SplitExpense> {
+    try {
+      const expense = await this.getExpense(userId, expenseId);
+      const parent = expense.parent_expense_id
+        ? await this.getExpense(userId, expense.parent_expense_id)
+        : expense;
+
+      const { data: lines, error } = await this.supabase
+        .from("expenses")
+        .select("*")
+        .eq("user_id", userId)
+        .eq("parent_expense_id", parent.id)
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to fetch split lines");
+      }
+
+      return { parent, lines: lines || [] };
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to fetch split expense");
+    }
+  }
+
+  /**
+   * Split a transaction into lines, replacing any existing split. The lines
+   * must add up to the transaction amount.
+   */
+  async splitExpense(
+    userId: string,
+    expenseId: string,
+    lines: ExpenseSplitLine[]
+  ): Promise<SplitExpense> {
+    try {
+      const { parent, lines: previousLines } = await this.getSplitExpense(
+        userId,
+        expenseId
+      );
+
+      const validation = validateExpenseSplit(parent.amount, lines);
+      if (!validation.is_valid) {
+        throw new Error(validation.errors.join(", "));
+      }
+
+      // Lines share the transaction's date and pay period
+      const lineInserts: ExpenseInsert[] = lines.map((line) => ({
+        user_id: userId,
+        parent_expense_id: parent.id,
+        description: line.description.trim(),
+        amount: line.amount,
+        date: parent.date,
+        category: line.category,
+        pay_period_id: parent.pay_period_id,
+        budget_item_id: line.budget_item_id || null,
+        type: line.type || (line.budget_item_id ? "BUDGET_PAYMENT" : "EXPENSE"),
+      }));
+
+      // Set the flag before adding lines so the transaction is never counted
+      // alongside them
+      const updatedParent = parent.is_split
+        ? parent
+        : await this.setSplitFlag(userId, parent.id, true);
+
+      // Insert the new lines before removing the old ones so a failure
+      // leaves the previous split intact
+      const { data: newLines, error: insertError } = await this.supabase
+        .from("expenses")
+        .insert(lineInserts)
+        .select();
+
+      if (insertError) {
+        if (!parent.is_split) {
+          await this.setSplitFlag(userId, parent.id, false);
+        }
+        throw handleDatabaseError(insertError, "Failed to create split lines");
+      }
+
+      if (previousLines.length > 0) {
+        await this.deleteLines(
+          userId,
+          previousLines.map((line) => line.id)
+        );
+      }
+
+      return { parent: updatedParent, lines: newLines || [] };
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to split expense");
+    }
+  }
+
+  /**
+   * Remove a split, returning the transaction to a single expense
+   */
+  async removeSplit(userId: string, expenseId: string): Promise<Expense> {
+    try {
+      const { parent, lines } = await this.getSplitExpense(userId, expenseId);
+
+      // Clear the flag first so the transaction is never missing from totals
+      const updatedParent = await this.setSplitFlag(userId, parent.id, false);
+      if (lines.length > 0) {
+        await this.deleteLines(
+          userId,
+          lines.map((line) => line.id)
+        );
+      }
+
+      return updatedParent;
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to remove split");
+    }
+  }
+
+  /**
+   * Get one of the user's expenses, failing if it does not exist
+   */
+  private async getExpense(userId: string, expenseId: string) {
+    const { data, error } = await this.supabase
+      .from("expenses")
+      .select("*")
+      .eq("id", expenseId)
+      .eq("user_id", userId)
+      .single();
+
+    if (error || !data) {
+      throw handleDatabaseError(error, "Failed to fetch expense");
+    }
+
+    return data;
+  }
+
+  /**
+   * Mark a transaction as split or not
+   */
+  private async setSplitFlag(
+    userId: string,
+    expenseId: string,
+    isSplit: boolean
+  ): Promise<Expense> {
+    const { data, error } = await this.supabase
+      .from("expenses")
+      .update({ is_split: isSplit, updated_at: new Date().toISOString() })
+      .eq("id", expenseId)
+      .eq("user_id", userId)
+      .select()
+      .single();
+
+    if (error) {
+      throw handleDatabaseError(error, "Failed to update expense");
+    }
+
+    return data;
+  }
+
+  /**
+   * Delete split lines by ID
+   */
+  private async deleteLines(userId: string, lineIds: string[]) {
+    const { error } = await this.supabase
+      .from("expenses")
+      .delete()
+      .in("id", lineIds)
+      .eq("user_id", userId);
+
+    if (error) {
+      throw handleDatabaseError(error, "Failed to delete split lines");
+    }
+  }
+}
@@ -0,0 +1,341 @@
+import { createClient } from "@/lib/supabase/client";
+import { ExpenseService } from "./expense-service";
+import { PayPeriodService } from "./pay-period-service";
+import { roundForExport, type ExportSheet } from "@/lib/utils/data-export";
+import type { ExpenseFilters } from "@/lib/types/expenses";
+import type { PayPeriodHistoryFilters } from "@/lib/types/pay-periods";
+
+// Rows fetched per request while collecting everything that matches
+const EXPORT_PAGE_SIZE = 500;
+
+// Pay period IDs per allocations query, to keep URLs short
+const ALLOCATION_BATCH_SIZE = 100;
+
+// Simple database error handler following existing pattern
+function handleDatabaseError(error: unknown, message: string): Error {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  return new Error(`${message}: ${errorMessage}`);
+}
+
+// Dates come back from the database as strings even where typed as Date
+function toIsoDate(value: Date | string | null | undefined): string | null {
+  if (!value) return null;
+  return value instanceof Date
+    ? value.toISOString().slice(0, 10)
+    : value.slice(0, 10);
+}
+
+const ALLOCATION_COLUMNS = [
+  { key: "pay_period_start", header: "Pay Period Start" },
+  { key: "pay_period_end", header: "Pay Period End" },
+  { key: "budget_item", header: "Budget Item" },
+  { key: "category", header: "Category" },
+  { key: "expected_amount", header: "Expected" },
+  { key: "actual_amount", header: "Actual" },
+  { key: "variance", header: "Variance" },
+  { key: "status", header: "Status" },
+];
+
+export class ExportService {
+  private supabase = createClient();
+  private expenseService = new ExpenseService();
+  private payPeriodService = new PayPeriodService();
+
+  /**
+   * Expenses matching the filters, with budget item names and pay period dates
+   */
+  async getExpenseExport(
+    userId: string,
+    filters: ExpenseFilters = {}
+  ): Promise<ExportSheet[]> {
+    try {
+      const rows: ExportSheet["rows"] = [];
+
+      for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+        const page = await this.expenseService.getExpenses(
+          userId,
+          filters,
+          EXPORT_PAGE_SIZE,
+          offset
+        );
+
+        page.forEach((expense) =>
+          rows.push({
+            date: expense.date,
+            description: expense.description,
+            amount: roundForExport(expense.amount),
+            type: expense.type,
+            category: expense.category,
+            budget_item: expense.budget_item?.name ?? null,
+            pay_period_start: toIsoDate(expense.pay_period?.start_date),
+            pay_period_end: toIsoDate(expense.pay_period?.end_date),
+            tags: expense.tags.join(", "),
+            notes: expense.notes,
+            refunded_amount: roundForExport(expense.refunded_amount),
+            refund_of_expense_id: expense.refund_of_expense_id,
+            id: expense.id,
+          })
+        );
+
+        if (page.length < EXPORT_PAGE_SIZE) break;
+      }
+
+      return [
+        {
+          key: "expenses",
+          name: "Expenses",
+          columns: [
+            { key: "date", header: "Date" },
+            { key: "description", header: "Description" },
+            { key: "amount", header: "Amount" },
+            { key: "type", header: "Type" },
+            { key: "category", header: "Category" },
+            { key: "budget_item", header: "Budget Item" },
+            { key: "pay_period_start", header: "Pay Period Start" },
+            { key: "pay_period_end", header: "Pay Period End" },
+            { key: "tags", header: "Tags" },
+            { key: "notes", header: "Notes" },
+            { key: "refunded_amount", header: "Refunded" },
+            { key: "refund_of_expense_id", header: "Refund Of" },
+            { key: "id", header: "Expense ID" },
+          ],
+          rows,
+        },
+      ];
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to export expenses");
+    }
+  }
+
+  /**
+   * Pay periods matching the history filters, plus their allocations
+   */
+  async getPayPeriodHistoryExport(
+    filters: PayPeriodHistoryFilters
+  ): Promise<ExportSheet[]> {
+    try {
+      const periodRows: ExportSheet["rows"] = [];
+      const periodDates = new Map<string, { start: string; end: string }>();
+
+      for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+        const { data: page } = await this.payPeriodService.getPayPeriodHistory({
+          ...filters,
+          limit: EXPORT_PAGE_SIZE,
+          offset,
+        });
+
+        page.forEach((period) => {
+          periodDates.set(period.id, {
+            start: period.start_date,
+            end: period.end_date,
+          });
+          periodRows.push({
+            start_date: period.start_date,
+            end_date: period.end_date,
+            status: period.status,
+            income_source: period.income_source_name,
+            cadence: period.income_source_cadence,
+            expected_net: roundForExport(period.expected_net),
+            actual_net: roundForExport(period.actual_net),
+            variance: roundForExport(period.variance_amount),
+            variance_percentage: roundForExport(period.variance_percentage),
+            allocation_count: period.allocation_count,
+            paid_allocation_count: period.paid_allocation_count,
+            completion_percentage: roundForExport(period.completion_percentage),
+            id: period.id,
+          });
+        });
+
+        if (page.length < EXPORT_PAGE_SIZE) break;
+      }
+
+      const allocationRows = await this.getAllocationRows(periodDates);
+
+      return [
+        {
+          key: "pay_periods",
+          name: "Pay Periods",
+          columns: [
+            { key: "start_date", header: "Start Date" },
+            { key: "end_date", header: "End Date" },
+            { key: "status", header: "Status" },
+            { key: "income_source", header: "Income Source" },
+            { key: "cadence", header: "Cadence" },
+            { key: "expected_net", header: "Expected Net" },
+            { key: "actual_net", header: "Actual Net" },
+            { key: "variance", header: "Variance" },
+            { key: "variance_percentage", header: "Variance %" },
+            { key: "allocation_count", header: "Allocations" },
+            { key: "paid_allocation_count", header: "Paid Allocations" },
+            { key: "completion_percentage", header: "Completion %" },
+            { key: "id", header: "Pay Period ID" },
+          ],
+          rows: periodRows,
+        },
+        {
+          key: "allocations",
+          name: "Allocations",
+          columns: ALLOCATION_COLUMNS,
+          rows: allocationRows,
+        },
+      ];
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to export pay period history");
+    }
+  }
+
+  /**
+   * Reconciliation summary and allocations for one pay period
+   */
+  async getReconciliationExport(
+    payPeriodId: string,
+    userId: string
+  ): Promise<ExportSheet[]> {
+    try {
+      const data = await this.payPeriodService.getReconciliationData(
+        payPeriodId,
+        userId
+      );
+
+      if (!data) {
+        throw new Error("Pay period not found");
+      }
+
+      const start = toIsoDate(data.start_date);
+      const end = toIsoDate(data.end_date);
+
+      return [
+        {
+          key: "summary",
+          name: "Reconciliation",
+          columns: [
+            { key: "start_date", header: "Start Date" },
+            { key: "end_date", header: "End Date" },
+            { key: "expected_net", header: "Expected Net" },
+            { key: "actual_net", header: "Actual Net" },
+            { key: "net_variance", header: "Net Variance" },
+            { key: "expected_allocations", header: "Expected Allocations" },
+            { key: "actual_allocations", header: "Actual Allocations" },
+            { key: "allocation_variance", header: "Allocation Variance" },
+            { key: "unallocated", header: "Unallocated" },
+            { key: "status", header: "Status" },
+          ],
+          rows: [
+            {
+              start_date: start,
+              end_date: end,
+              expected_net: roundForExport(data.expected_net),
+              actual_net: roundForExport(data.actual_net),
+              net_variance: roundForExport(data.net_variance),
+              expected_allocations: roundForExport(
+                data.total_expected_allocations
+              ),
+              actual_allocations: roundForExport(data.total_actual_allocations),
+              allocation_variance: roundForExport(data.allocation_variance),
+              unallocated: roundForExport(data.unallocated_amount),
+              status: data.reconciliation_status,
+            },
+          ],
+        },
+        {
+          key: "allocations",
+          name: "Allocations",
+          columns: ALLOCATION_COLUMNS,
+          rows: data.allocations.map((allocation) => ({
+            pay_period_start: start,
+            pay_period_end: end,
+            budget_item: allocation.budget_item_name,
+            category: allocation.budget_item_category,
+            expected_amount: roundForExport(allocation.expected_amount),
+            actual_amount: roundForExport(allocation.actual_amount),
+            variance: roundForExport(allocation.variance),
+            status: allocation.status,
+          })),
+        },
+      ];
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to export reconciliation");
+    }
+  }
+
+  /**
+   * Allocation rows for the given pay periods, in pay period order. Completed
+   * periods use the budget items frozen in their snapshots.
+   */
+  private async getAllocationRows(
+    periodDates: Map<string, { start: string; end: string }>
+  ): Promise<ExportSheet["rows"]> {
+    const periodIds = Array.from(periodDates.keys());
+
+    type AllocationFromQuery = {
+      pay_period_id: string;
+      expected_amount: number;
+      actual_amount: number | null;
+      status: "PAID" | "UNPAID";
+      budget_item: { name: string; category: string } | null;
+    };
+    const allocations: AllocationFromQuery[] = [];
+
+    for (let i = 0; i < periodIds.length; i += ALLOCATION_BATCH_SIZE) {
+      const batch = periodIds.slice(i, i + ALLOCATION_BATCH_SIZE);
+      const snapshots = await this.payPeriodService.getSnapshotsByPayPeriod(
+        batch
+      );
+
+      snapshots.forEach((snapshot) =>
+        snapshot.items.forEach((item) =>
+          allocations.push({
+            pay_period_id: snapshot.pay_period_id,
+            expected_amount: item.expected_amount,
+            actual_amount: item.actual_amount,
+            status: item.status,
+            budget_item: { name: item.name, category: item.category },
+          })
+        )
+      );
+
+      const liveIds = batch.filter((id) => !snapshots.has(id));
+      if (liveIds.length === 0) continue;
+
+      const { data, error } = await this.supabase
+        .from("allocations")
+        .select(
+          `
+          pay_period_id, expected_amount, actual_amount, status,
+          budget_item:budget_items!allocations_budget_item_id_fkey(
+            name, category
+          )
+        `
+        )
+        .in("pay_period_id", liveIds);
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to fetch allocations");
+      }
+
+      allocations.push(...((data || []) as unknown as AllocationFromQuery[]));
+    }
+
+    return allocations
+      .sort(
+        (a, b) =>
+          periodIds.indexOf(a.pay_period_id) -
+          periodIds.indexOf(b.pay_period_id)
+      )
+      .map((allocation) => {
+        const dates = periodDates.get(allocation.pay_period_id);
+        return {
+          pay_period_start: dates?.start ?? null,
+          pay_period_end: dates?.end ?? null,
+          budget_item: allocation.budget_item?.name ?? "Unknown",
+          category: allocation.budget_item?.category ?? "Other",
+          expected_amount: roundForExport(allocation.expected_amount),
+          actual_amount: roundForExport(allocation.actual_amount),
+          variance: roundForExport(
+            (allocation.actual_amount || 0) - allocation.expected_amount
+          ),
+          status: allocation.status,
+        };
+      });
+  }
+}
@@ -0,0 +1,416 @@
+import { createClient, type TypedSupabaseClient } from "@/lib/supabase/client";
+import { AllocationService } from "./allocation-service";
+import { PayPeriodService } from "./pay-period-service";
+import { calculateBaselineMonth } from "@/lib/utils/variable-income";
+import type {
+  IncomeDeposit as IncomeDepositRow,
+  IncomeSource,
+  PayPeriod,
+} from "@/types/database";
+import type {
+  BaselineMonth,
+  DepositFunding,
+  FundingTarget,
+  IncomeDeposit,
+  IncomeDepositFormData,
+  IncomeDepositInsert,
+  IncomeDepositWithSource,
+  LoggedDeposit,
+} from "@/lib/types/income-deposits";
+
+// Simple database error handler following existing pattern
+function handleDatabaseError(error: unknown, message: string): Error {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  return new Error(`${message}: ${errorMessage}`);
+}
+
+// Parse the stored JSON fundings of a deposit row
+function toDeposit(row: IncomeDepositRow): IncomeDeposit {
+  return {
+    ...row,
+    fundings: Array.isArray(row.fundings)
+      ? (row.fundings as unknown as DepositFunding[])
+      : [],
+  };
+}
+
+// Periods are generated one at a time; stop catching up after a year
+const MAX_PERIODS_TO_GENERATE = 12;
+
+export class IncomeDepositService {
+  private supabase: TypedSupabaseClient;
+  private payPeriodService: PayPeriodService;
+  private allocationService: AllocationService;
+
+  constructor(supabase: TypedSupabaseClient = createClient()) {
+    this.supabase = supabase;
+    this.payPeriodService = new PayPeriodService(supabase);
+    this.allocationService = new AllocationService(supabase);
+  }
+
+  /**
+   * Get a user's most recent deposits
+   */
+  async getDeposits(
+    userId: string,
+    limit = 50
+  ): Promise<IncomeDepositWithSource[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from("income_deposits")
+        .select(
+          `
+          *,
+          income_source:income_sources(name)
+        `
+        )
+        .eq("user_id", userId)
+        .order("deposit_date", { ascending: false })
+        .order("created_at", { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to fetch deposits");
+      }
+
+      return (data || []).map(({ income_source, ...deposit }) => ({
+        ...toDeposit(deposit),
+        income_source_name:
+          (income_source as unknown as { name: string } | null)?.name ||
+          "Unknown",
+      }));
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to fetch deposits");
+    }
+  }
+
+  /**
+   * Baseline month from trailing deposit history, for one income source or
+   * all of the user's variable income
+   */
+  async getBaselineMonth(
+    userId: string,
+    incomeSourceId?: string
+  ): Promise<BaselineMonth> {
+    try {
+      const today = new Date().toISOString().split("T")[0];
+      const from = new Date(today);
+      from.setUTCDate(1);
+      from.setUTCMonth(from.getUTCMonth() - 12);
+
+      let historyQuery = this.supabase
+        .from("income_deposits")
+        .select("deposit_date")
+        .eq("user_id", userId)
+        .order("deposit_date", { ascending: true })
+        .limit(1);
+      let depositQuery = this.supabase
+        .from("income_deposits")
+        .select("deposit_date, amount")
+        .eq("user_id", userId)
+        .gte("deposit_date", from.toISOString().split("T")[0]);
+
+      if (incomeSourceId) {
+        historyQuery = historyQuery.eq("income_source_id", incomeSourceId);
+        depositQuery = depositQuery.eq("income_source_id", incomeSourceId);
+      }
+
+      const [history, deposits] = await Promise.all([
+        historyQuery,
+        depositQuery,
+      ]);
+
+      if (history.error || deposits.error) {
+        throw handleDatabaseError(
+          history.error || deposits.error,
+          "Failed to fetch deposit history"
+        );
+      }
+
+      return calculateBaselineMonth(
+        deposits.data || [],
+        today,
+        history.data?.[0]?.deposit_date || null
+      );
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to calculate baseline month");
+    }
+  }
+
+  /**
+   * Log a variable income deposit and fund its pay period's allocations in
+   * priority order until the money runs out
+   */
+  async logDeposit(
+    userId: string,
+    data: IncomeDepositFormData
+  ): Promise<LoggedDeposit> {
+    try {
+      const { data: incomeSource, error: incomeError } = await this.supabase
+        .from("income_sources")
+        .select("*")
+        .eq("id", data.income_source_id)
+        .eq("user_id", userId)
+        .single();
+
+      if (incomeError || !incomeSource) {
+        throw new Error("Income source not found");
+      }
+
+      if (!incomeSource.is_variable) {
+        throw new Error(
+          "Deposits can only be logged for variable income sources"
+        );
+      }
+
+      const payPeriod = await this.findPayPeriodForDeposit(
+        userId,
+        incomeSource,
+        data.deposit_date
+      );
+
+      // Fund the period's allocations that are still short
+      const { data: allocations, error: allocationError } = await this.supabase
+        .from("allocations")
+        .select(
+          `
+          id, budget_item_id, expected_amount, funded_amount,
+          budget_item:budget_items(priority)
+        `
+        )
+        .eq("pay_period_id", payPeriod.id)
+        .order("created_at", { ascending: true });
+
+      if (allocationError) {
+        throw handleDatabaseError(
+          allocationError,
+          "Failed to fetch allocations"
+        );
+      }
+
+      const targets: FundingTarget[] = (allocations || []).map(
+        (allocation) => ({
+          allocation_id: allocation.id,
+          budget_item_id: allocation.budget_item_id,
+          priority:
+            (allocation.budget_item as unknown as { priority: number } | null)
+              ?.priority || 0,
+          expected_amount: allocation.expected_amount,
+          funded_amount: allocation.funded_amount,
+        })
+      );
+
+      const funding = await this.allocationService.calculateDepositFunding({
+        pay_period_id: payPeriod.id,
+        deposit_amount: data.amount,
+        targets,
+      });
+
+      await this.applyFundings(targets, funding.fundings, 1);
+
+      const { data: updatedPeriod, error: periodError } = await this.supabase
+        .from("pay_periods")
+        .update({
+          actual_net: Number(
+            ((payPeriod.actual_net || 0) + data.amount).toFixed(2)
+          ),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", payPeriod.id)
+        .select()
+        .single();
+
+      if (periodError) {
+        throw handleDatabaseError(periodError, "Failed to update pay period");
+      }
+
+      const depositInsert: IncomeDepositInsert = {
+        user_id: userId,
+        income_source_id: incomeSource.id,
+        pay_period_id: payPeriod.id,
+        deposit_date: data.deposit_date,
+        amount: data.amount,
+        notes: data.notes?.trim() || null,
+        fundings:
+          funding.fundings as unknown as IncomeDepositInsert["fundings"],
+        unallocated_amount: funding.unallocated_amount,
+      };
+
+      const { data: deposit, error: depositError } = await this.supabase
+        .from("income_deposits")
+        .insert(depositInsert)
+        .select()
+        .single();
+
+      if (depositError) {
+        throw handleDatabaseError(depositError, "Failed to save deposit");
+      }
+
+      return { deposit: toDeposit(deposit), pay_period: updatedPeriod };
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to log deposit");
+    }
+  }
+
+  /**
+   * Delete a deposit, taking its funding back off the allocations it covered
+   */
+  async deleteDeposit(deposit: IncomeDeposit, userId: string): Promise<void> {
+    try {
+      if (deposit.pay_period_id) {
+        const { data: allocations, error: allocationError } =
+          await this.supabase
+            .from("allocations")
+            .select("id, budget_item_id, expected_amount, funded_amount")
+            .in(
+              "id",
+              deposit.fundings.map((funding) => funding.allocation_id)
+            );
+
+        if (allocationError) {
+          throw handleDatabaseError(
+            allocationError,
+            "Failed to fetch allocations"
+          );
+        }
+
+        await this.applyFundings(
+          (allocations || []).map((allocation) => ({
+            allocation_id: allocation.id,
+            budget_item_id: allocation.budget_item_id,
+            priority: 0,
+            expected_amount: allocation.expected_amount,
+            funded_amount: allocation.funded_amount,
+          })),
+          deposit.fundings,
+          -1
+        );
+
+        const { data: payPeriod } = await this.supabase
+          .from("pay_periods")
+          .select("actual_net")
+          .eq("id", deposit.pay_period_id)
+          .single();
+
+        if (payPeriod) {
+          const actualNet = Math.max(
+            (payPeriod.actual_net || 0) - deposit.amount,
+            0
+          );
+          await this.supabase
+            .from("pay_periods")
+            .update({
+              actual_net: actualNet > 0 ? Number(actualNet.toFixed(2)) : null,
+              updated_at: new Date().toISOString(),
+            })
+            .eq("id", deposit.pay_period_id);
+        }
+      }
+
+      const { error } = await this.supabase
+        .from("income_deposits")
+        .delete()
+        .eq("id", deposit.id)
+        .eq("user_id", userId);
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to delete deposit");
+      }
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to delete deposit");
+    }
+  }
+
+  // Add (direction 1) or remove (direction -1) fundings from allocations
+  private async applyFundings(
+    targets: FundingTarget[],
+    fundings: DepositFunding[],
+    direction: 1 | -1
+  ): Promise<void> {
+    for (const funding of fundings) {
+      const target = targets.find(
+        (t) => t.allocation_id === funding.allocation_id
+      );
+      if (!target) continue;
+
+      const fundedAmount = Math.max(
+        target.funded_amount + direction * funding.amount,
+        0
+      );
+      const { error } = await this.supabase
+        .from("allocations")
+        .update({
+          funded_amount: Number(fundedAmount.toFixed(2)),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", funding.allocation_id);
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to update allocation funding");
+      }
+    }
+  }
+
+  // The pay period a deposit lands in. Household budgets use the household
+  // period covering the date; otherwise the source's own monthly periods are
+  // generated up to the deposit date as needed.
+  private async findPayPeriodForDeposit(
+    userId: string,
+    incomeSource: IncomeSource,
+    depositDate: string
+  ): Promise<PayPeriod> {
+    const settings = await this.payPeriodService.getBudgetSettings(userId);
+    const isHousehold = settings.budget_mode === "HOUSEHOLD";
+
+    const findCovering = async () => {
+      let query = this.supabase
+        .from("pay_periods")
+        .select("*")
+        .eq("user_id", userId)
+        .lte("start_date", depositDate)
+        .gte("end_date", depositDate);
+      query = isHousehold
+        ? query.is("income_source_id", null)
+        : query.eq("income_source_id", incomeSource.id);
+
+      const { data, error } = await query
+        .order("start_date", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to find pay period");
+      }
+      return data;
+    };
+
+    let payPeriod = await findCovering();
+    if (payPeriod) return payPeriod;
+
+    if (isHousehold) {
+      throw new Error(`No household pay period covers ${depositDate}`);
+    }
+
+    for (let i = 0; i < MAX_PERIODS_TO_GENERATE && !payPeriod; i++) {
+      const result = await this.payPeriodService.generateNextPayPeriod({
+        income_source_id: incomeSource.id,
+        user_id: userId,
+        cadence: incomeSource.cadence,
+        start_date: new Date(incomeSource.start_date),
+        expected_net: incomeSource.net_amount,
+      });
+
+      if (!result.success || !result.pay_period) {
+        throw new Error(result.error || "Failed to generate pay period");
+      }
+      if (result.pay_period.start_date > depositDate) break;
+
+      payPeriod = await findCovering();
+    }
+
+    if (!payPeriod) {
+      throw new Error(`No pay period covers ${depositDate}`);
+    }
+    return payPeriod;
+  }
+}
@@ -0,0 +1,392 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PayPeriodRolloverService } from "./pay-period-rollover-service";
+import type { PayPeriodService } from "./pay-period-service";
+import { logger } from "@/lib/error-handling/logger";
+import type { TypedSupabaseClient } from "@/lib/supabase/client";
+import type {
+  BudgetMode,
+  PayPeriod,
+  PeriodCompletionPolicy,
+} from "@/lib/types/pay-periods";
+import { addDays } from "@/lib/utils/date-utils";
+
+vi.mock("@/lib/error-handling/logger", () => ({
+  logger: { logUnhandledError: vi.fn() },
+}));
+
+type Row = Record<string, unknown>;
+type QueryResult = { data: unknown; error: null };
+
+// Just enough of the query builder for the rollover job, over in-memory tables
+class FakeQuery {
+  private filters: ((row: Row) => boolean)[] = [];
+  private sort: { column: string; ascending: boolean } | null = null;
+  private from = 0;
+  private to = Infinity;
+  private inserted: Row[] | null = null;
+
+  constructor(private table: Row[]) {}
+
+  select() {
+    return this;
+  }
+
+  insert(rows: Row | Row[]) {
+    this.inserted = Array.isArray(rows) ? rows : [rows];
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  is(column: string, value: unknown) {
+    return this.eq(column, value);
+  }
+
+  lt(column: string, value: string) {
+    this.filters.push((row) => (row[column] as string) < value);
+    return this;
+  }
+
+  order(column: string, { ascending = true } = {}) {
+    this.sort = { column, ascending };
+    return this;
+  }
+
+  limit(count: number) {
+    this.to = this.from + count - 1;
+    return this;
+  }
+
+  range(from: number, to: number) {
+    this.from = from;
+    this.to = to;
+    return this;
+  }
+
+  async maybeSingle() {
+    return { data: this.rows()[0] ?? null, error: null };
+  }
+
+  then: Promise<QueryResult>["then"] = (onfulfilled, onrejected) =>
+    this.execute().then(onfulfilled, onrejected);
+
+  private async execute(): Promise<QueryResult> {
+    if (!this.inserted) return { data: this.rows(), error: null };
+    this.table.push(...this.inserted);
+    return { data: null, error: null };
+  }
+
+  private rows(): Row[] {
+    const rows = this.table.filter((row) =>
+      this.filters.every((matches) => matches(row))
+    );
+    if (this.sort) {
+      const { column, ascending } = this.sort;
+      rows.sort(
+        (a, b) =>
+          String(a[column]).localeCompare(String(b[column])) *
+          (ascending ? 1 : -1)
+      );
+    }
+    return rows.slice(this.from, this.to + 1);
+  }
+}
+
+interface Tables {
+  users: Row[];
+  income_sources: Row[];
+  pay_periods: PayPeriod[];
+  pay_period_job_log: Row[];
+}
+
+function fakeClient(tables: Tables): TypedSupabaseClient {
+  return {
+    from: (table: keyof Tables) => new FakeQuery(tables[table] as Row[]),
+  } as unknown as TypedSupabaseClient;
+}
+
+function payPeriod(
+  userId: string,
+  incomeSourceId: string | null,
+  startDate: string
+): PayPeriod {
+  return {
+    id: `${incomeSourceId ?? userId}-${startDate}`,
+    user_id: userId,
+    income_source_id: incomeSourceId,
+    start_date: startDate,
+    end_date: addDays(startDate, 13),
+    expected_net: 1500,
+    actual_net: null,
+    status: "ACTIVE",
+    created_at: `${startDate}T00:00:00Z`,
+    updated_at: `${startDate}T00:00:00Z`,
+  };
+}
+
+function rolloverUser(
+  id: string,
+  policy: PeriodCompletionPolicy,
+  budgetMode: BudgetMode = "PER_SOURCE"
+) {
+  return { id, budget_mode: budgetMode, period_completion_policy: policy };
+}
+
+describe("PayPeriodRolloverService", () => {
+  let tables: Tables;
+  let service: PayPeriodRolloverService;
+  // Periods the WHEN_PAID policy finds fully paid
+  let paidPeriodIds: Set<string>;
+  let failNextPeriod: boolean;
+
+  const periods = (incomeSourceId: string | null) =>
+    tables.pay_periods
+      .filter((period) => period.income_source_id === incomeSourceId)
+      .sort((a, b) => a.start_date.localeCompare(b.start_date));
+
+  const statuses = (incomeSourceId: string | null) =>
+    periods(incomeSourceId).map((period) => [period.start_date, period.status]);
+
+  beforeEach(() => {
+    vi.mocked(logger.logUnhandledError).mockClear();
+    paidPeriodIds = new Set();
+    failNextPeriod = false;
+    tables = {
+      users: [],
+      income_sources: [
+        {
+          id: "salary",
+          user_id: "user-1",
+          is_active: true,
+          cadence: "bi-weekly",
+          start_date: "2026-01-01",
+          end_date: null,
+          net_amount: 1500,
+        },
+      ],
+      pay_periods: [],
+      pay_period_job_log: [],
+    };
+    service = new PayPeriodRolloverService(fakeClient(tables));
+
+    // Pay periods are two weeks long and follow on from the latest one
+    const generateAfterLatest = async (
+      userId: string,
+      incomeSourceId: string | null
+    ) => {
+      if (failNextPeriod) {
+        return { success: false, error: "Income source is inactive" };
+      }
+      const latest = periods(incomeSourceId).pop()!;
+      const next = payPeriod(
+        userId,
+        incomeSourceId,
+        addDays(latest.end_date, 1)
+      );
+      tables.pay_periods.push(next);
+      return { success: true, pay_period: next };
+    };
+    const complete = (payPeriodId: string) => {
+      const period = tables.pay_periods.find(({ id }) => id === payPeriodId)!;
+      period.status = "COMPLETED";
+      return period;
+    };
+
+    const payPeriodService = (
+      service as unknown as { payPeriodService: PayPeriodService }
+    ).payPeriodService;
+    vi.spyOn(payPeriodService, "generateNextPayPeriod").mockImplementation(
+      (config) => generateAfterLatest(config.user_id, config.income_source_id)
+    );
+    vi.spyOn(
+      payPeriodService,
+      "generateNextHouseholdPayPeriod"
+    ).mockImplementation((userId) => generateAfterLatest(userId, null));
+    vi.spyOn(payPeriodService, "completePayPeriod").mockImplementation(
+      async (payPeriodId) => complete(payPeriodId)
+    );
+    vi.spyOn(payPeriodService, "tryAutoComplete").mockImplementation(
+      async (payPeriodId) => {
+        if (!paidPeriodIds.has(payPeriodId)) return false;
+        complete(payPeriodId);
+        return true;
+      }
+    );
+  });
+
+  describe("runForUser", () => {
+    it("rolls over once and does nothing when run again the same day", async () => {
+      tables.pay_periods.push(payPeriod("user-1", "salary", "2026-10-01"));
+      const user = rolloverUser("user-1", "ON_END");
+
+      const first = await service.runForUser(user, "2026-10-15", "run-1");
+      const second = await service.runForUser(user, "2026-10-15", "run-2");
+
+      expect(first.map((entry) => entry.action)).toEqual([
+        "CREATED",
+        "COMPLETED",
+      ]);
+      expect(second).toEqual([]);
+      expect(statuses("salary")).toEqual([
+        ["2026-10-01", "COMPLETED"],
+        ["2026-10-15", "ACTIVE"],
+      ]);
+      expect(tables.pay_period_job_log).toHaveLength(2);
+      expect(tables.pay_period_job_log[0]).toMatchObject({
+        run_id: "run-1",
+        as_of: "2026-10-15",
+      });
+    });
+
+    it("leaves a period running until the day after it ends", async () => {
+      tables.pay_periods.push(payPeriod("user-1", "salary", "2026-10-01"));
+
+      const actions = await service.runForUser(
+        rolloverUser("user-1", "ON_END"),
+        "2026-10-14",
+        "run-1"
+      );
+
+      expect(actions).toEqual([]);
+      expect(statuses("salary")).toEqual([["2026-10-01", "ACTIVE"]]);
+    });
+
+    it("catches up on days the job didn't run", async () => {
+      tables.pay_periods.push(payPeriod("user-1", "salary", "2026-09-17"));
+      const user = rolloverUser("user-1", "ON_END");
+
+      await service.runForUser(user, "2026-10-20", "run-1");
+
+      expect(statuses("salary")).toEqual([
+        ["2026-09-17", "COMPLETED"],
+        ["2026-10-01", "COMPLETED"],
+        ["2026-10-15", "ACTIVE"],
+      ]);
+
+      await service.runForUser(user, "2026-10-29", "run-2");
+
+      expect(statuses("salary")).toEqual([
+        ["2026-09-17", "COMPLETED"],
+        ["2026-10-01", "COMPLETED"],
+        ["2026-10-15", "COMPLETED"],
+        ["2026-10-29", "ACTIVE"],
+      ]);
+    });
+
+    it("creates at most 12 periods per income source in one run", async () => {
+      tables.pay_periods.push(payPeriod("user-1", "salary", "2026-01-01"));
+      const user = rolloverUser("user-1", "MANUAL");
+
+      const first = await service.runForUser(user, "2026-10-20", "run-1");
+      const second = await service.runForUser(user, "2026-10-20", "run-2");
+      const third = await service.runForUser(user, "2026-10-20", "run-3");
+
+      expect(first).toHaveLength(12);
+      expect(second).toHaveLength(8);
+      expect(third).toEqual([]);
+      expect(periods("salary").pop()).toMatchObject({
+        start_date: "2026-10-08",
+        end_date: "2026-10-21",
+      });
+    });
+
+    it("doesn't complete periods under the MANUAL policy", async () => {
+      tables.pay_periods.push(payPeriod("user-1", "salary", "2026-10-01"));
+
+      const actions = await service.runForUser(
+        rolloverUser("user-1", "MANUAL"),
+        "2026-10-15",
+        "run-1"
+      );
+
+      expect(actions.map((entry) => entry.action)).toEqual(["CREATED"]);
+      expect(statuses("salary")).toEqual([
+        ["2026-10-01", "ACTIVE"],
+        ["2026-10-15", "ACTIVE"],
+      ]);
+    });
+
+    it("completes only fully paid periods under the WHEN_PAID policy", async () => {
+      tables.pay_periods.push(payPeriod("user-1", "salary", "2026-09-17"));
+      const user = rolloverUser("user-1", "WHEN_PAID");
+      paidPeriodIds.add("salary-2026-10-01");
+
+      await service.runForUser(user, "2026-10-20", "run-1");
+
+      expect(statuses("salary")).toEqual([
+        ["2026-09-17", "ACTIVE"],
+        ["2026-10-01", "COMPLETED"],
+        ["2026-10-15", "ACTIVE"],
+      ]);
+
+      // Paying off the older period completes it on the next run
+      paidPeriodIds.add("salary-2026-09-17");
+      const actions = await service.runForUser(user, "2026-10-21", "run-2");
+
+      expect(actions).toMatchObject([
+        { action: "COMPLETED", pay_period_id: "salary-2026-09-17" },
+      ]);
+    });
+
+    it("records and reports a period it couldn't create", async () => {
+      tables.pay_periods.push(payPeriod("user-1", "salary", "2026-10-01"));
+      failNextPeriod = true;
+
+      const actions = await service.runForUser(
+        rolloverUser("user-1", "MANUAL"),
+        "2026-10-15",
+        "run-1"
+      );
+
+      expect(actions).toMatchObject([
+        {
+          action: "FAILED",
+          message:
+            "Could not create the period after 2026-10-14: Income source is inactive",
+        },
+      ]);
+      expect(tables.pay_period_job_log).toHaveLength(1);
+      expect(logger.logUnhandledError).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe("runForAllUsers", () => {
+    it("rolls over every user and is a no-op when repeated", async () => {
+      tables.users.push(
+        rolloverUser("user-1", "ON_END"),
+        rolloverUser("user-2", "MANUAL", "HOUSEHOLD")
+      );
+      tables.pay_periods.push(
+        payPeriod("user-1", "salary", "2026-10-01"),
+        payPeriod("user-2", null, "2026-09-17")
+      );
+
+      const first = await service.runForAllUsers("2026-10-20", "run-1");
+      const second = await service.runForAllUsers("2026-10-20", "run-2");
+
+      expect(first).toMatchObject({
+        run_id: "run-1",
+        as_of: "2026-10-20",
+        users_processed: 2,
+        created: 3,
+        completed: 1,
+        failed: 0,
+      });
+      expect(second).toMatchObject({
+        users_processed: 2,
+        created: 0,
+        completed: 0,
+        failed: 0,
+        actions: [],
+      });
+      expect(statuses(null)).toEqual([
+        ["2026-09-17", "ACTIVE"],
+        ["2026-10-01", "ACTIVE"],
+        ["2026-10-15", "ACTIVE"],
+      ]);
+    });
+  });
+});
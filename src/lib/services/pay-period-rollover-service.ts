@@ -0,0 +1,413 @@
+import { createClient, type TypedSupabaseClient } from "@/lib/supabase/client";
+import { PayPeriodService } from "./pay-period-service";
+import { logger } from "@/lib/error-handling/logger";
+import type {
+  BudgetMode,
+  PayPeriod,
+  PayPeriodGenerationResult,
+  PayPeriodJobEntry,
+  PayPeriodJobLog,
+  PayPeriodRolloverResult,
+  PeriodCompletionPolicy,
+} from "@/lib/types/pay-periods";
+
+// Simple database error handler
+function handleDatabaseError(error: unknown, message: string): Error {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  return new Error(`${message}: ${errorMessage}`);
+}
+
+// Users are read a page at a time
+const USER_PAGE_SIZE = 500;
+
+// Periods created per income source in one run, for users who were away a while
+const MAX_PERIODS_PER_RUN = 12;
+
+interface RolloverUser {
+  id: string;
+  budget_mode: BudgetMode;
+  period_completion_policy: PeriodCompletionPolicy;
+}
+
+/**
+ * Scheduled pay period rollover: creates the next pay period once the current
+ * one ends and completes ended periods under each user's completion policy.
+ * Every step reads the current state first, so running it again for the same
+ * date does nothing.
+ */
+export class PayPeriodRolloverService {
+  private supabase: TypedSupabaseClient;
+  private payPeriodService: PayPeriodService;
+
+  // The scheduled job passes a service role client to reach every user
+  constructor(supabase: TypedSupabaseClient = createClient()) {
+    this.supabase = supabase;
+    this.payPeriodService = new PayPeriodService(supabase);
+  }
+
+  /**
+   * Run the rollover for every user, treating asOf (YYYY-MM-DD) as today
+   */
+  async runForAllUsers(
+    asOf: string,
+    runId: string = crypto.randomUUID()
+  ): Promise<PayPeriodRolloverResult> {
+    const actions: PayPeriodJobEntry[] = [];
+    let usersProcessed = 0;
+
+    for (let from = 0; ; from += USER_PAGE_SIZE) {
+      const { data: users, error } = await this.supabase
+        .from("users")
+        .select("id, budget_mode, period_completion_policy")
+        .order("id", { ascending: true })
+        .range(from, from + USER_PAGE_SIZE - 1);
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to fetch users");
+      }
+
+      for (const user of users || []) {
+        actions.push(...(await this.runForUser(user, asOf, runId)));
+        usersProcessed++;
+      }
+
+      if (!users || users.length < USER_PAGE_SIZE) break;
+    }
+
+    const count = (action: PayPeriodJobEntry["action"]) =>
+      actions.filter((entry) => entry.action === action).length;
+
+    return {
+      run_id: runId,
+      as_of: asOf,
+      users_processed: usersProcessed,
+      created: count("CREATED"),
+      completed: count("COMPLETED"),
+      failed: count("FAILED"),
+      actions,
+    };
+  }
+
+  /**
+   * Roll over and complete one user's pay periods, recording each action
+   */
+  async runForUser(
+    user: RolloverUser,
+    asOf: string,
+    runId: string
+  ): Promise<PayPeriodJobEntry[]> {
+    const actions: PayPeriodJobEntry[] = [];
+
+    try {
+      if (user.budget_mode === "HOUSEHOLD") {
+        actions.push(...(await this.rollOverHousehold(user.id, asOf)));
+      } else {
+        actions.push(...(await this.rollOverIncomeSources(user.id, asOf)));
+      }
+
+      actions.push(
+        ...(await this.completeEndedPeriods(
+          user.id,
+          user.period_completion_policy,
+          asOf
+        ))
+      );
+    } catch (error) {
+      actions.push({
+        user_id: user.id,
+        action: "FAILED",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    await this.recordActions(actions, asOf, runId);
+    return actions;
+  }
+
+  /**
+   * Get the user's policy for completing pay periods once they end
+   */
+  async getCompletionPolicy(userId: string): Promise<PeriodCompletionPolicy> {
+    try {
+      const { data, error } = await this.supabase
+        .from("users")
+        .select("period_completion_policy")
+        .eq("id", userId)
+        .single();
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to fetch completion policy");
+      }
+
+      return data.period_completion_policy;
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to fetch completion policy");
+    }
+  }
+
+  /**
+   * Update the user's policy for completing pay periods once they end
+   */
+  async updateCompletionPolicy(
+    userId: string,
+    policy: PeriodCompletionPolicy
+  ): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from("users")
+        .update({
+          period_completion_policy: policy,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", userId);
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to update completion policy");
+      }
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to update completion policy");
+    }
+  }
+
+  /**
+   * Get the most recent actions the job took on a user's pay periods
+   */
+  async getJobLog(userId: string, limit = 20): Promise<PayPeriodJobLog[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from("pay_period_job_log")
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to fetch pay period job log");
+      }
+
+      return data || [];
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to fetch pay period job log");
+    }
+  }
+
+  // Create the periods following each income source's latest one until a
+  // period covers asOf. Sources without any periods haven't been set up for
+  // budgeting yet and are left alone.
+  private async rollOverIncomeSources(
+    userId: string,
+    asOf: string
+  ): Promise<PayPeriodJobEntry[]> {
+    const { data: incomeSources, error } = await this.supabase
+      .from("income_sources")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("is_active", true);
+
+    if (error) {
+      throw handleDatabaseError(error, "Failed to fetch income sources");
+    }
+
+    const actions: PayPeriodJobEntry[] = [];
+    for (const incomeSource of incomeSources || []) {
+      const { data: latestPeriod, error: periodError } = await this.supabase
+        .from("pay_periods")
+        .select("*")
+        .eq("user_id", userId)
+        .eq("income_source_id", incomeSource.id)
+        .order("end_date", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (periodError) {
+        throw handleDatabaseError(periodError, "Failed to fetch pay periods");
+      }
+      if (!latestPeriod) continue;
+
+      actions.push(
+        ...(await this.rollOver(
+          userId,
+          incomeSource.id,
+          latestPeriod,
+          asOf,
+          incomeSource.end_date,
+          () =>
+            this.payPeriodService.generateNextPayPeriod({
+              income_source_id: incomeSource.id,
+              user_id: userId,
+              cadence: incomeSource.cadence,
+              start_date: new Date(incomeSource.start_date),
+              expected_net: incomeSource.net_amount,
+            })
+        ))
+      );
+    }
+    return actions;
+  }
+
+  // Create household periods following the latest one until one covers asOf
+  private async rollOverHousehold(
+    userId: string,
+    asOf: string
+  ): Promise<PayPeriodJobEntry[]> {
+    const { data: latestPeriod, error } = await this.supabase
+      .from("pay_periods")
+      .select("*")
+      .eq("user_id", userId)
+      .is("income_source_id", null)
+      .order("end_date", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw handleDatabaseError(error, "Failed to fetch pay periods");
+    }
+    if (!latestPeriod) return [];
+
+    return this.rollOver(userId, null, latestPeriod, asOf, null, () =>
+      this.payPeriodService.generateNextHouseholdPayPeriod(userId)
+    );
+  }
+
+  // Generate periods one after another while the latest has ended before
+  // asOf. Stops at the income source's end date and on the first failure.
+  private async rollOver(
+    userId: string,
+    incomeSourceId: string | null,
+    latestPeriod: PayPeriod,
+    asOf: string,
+    incomeEndDate: string | null,
+    generateNext: () => Promise<PayPeriodGenerationResult>
+  ): Promise<PayPeriodJobEntry[]> {
+    const actions: PayPeriodJobEntry[] = [];
+    let latest = latestPeriod;
+
+    for (let i = 0; i < MAX_PERIODS_PER_RUN && latest.end_date < asOf; i++) {
+      if (incomeEndDate && incomeEndDate <= latest.end_date) break;
+
+      const result = await generateNext();
+      if (!result.success || !result.pay_period) {
+        actions.push({
+          user_id: userId,
+          income_source_id: incomeSourceId,
+          action: "FAILED",
+          message: `Could not create the period after ${latest.end_date}: ${
+            result.error || "unknown error"
+          }`,
+        });
+        break;
+      }
+
+      latest = result.pay_period;
+      actions.push({
+        user_id: userId,
+        income_source_id: incomeSourceId,
+        pay_period_id: latest.id,
+        action: "CREATED",
+        message: `Created pay period ${latest.start_date} to ${latest.end_date}`,
+      });
+    }
+    return actions;
+  }
+
+  // Complete active periods that ended before asOf: all of them under ON_END,
+  // and those with every allocation paid under WHEN_PAID
+  private async completeEndedPeriods(
+    userId: string,
+    policy: PeriodCompletionPolicy,
+    asOf: string
+  ): Promise<PayPeriodJobEntry[]> {
+    if (policy === "MANUAL") return [];
+
+    const { data: endedPeriods, error } = await this.supabase
+      .from("pay_periods")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("status", "ACTIVE")
+      .lt("end_date", asOf)
+      .order("end_date", { ascending: true });
+
+    if (error) {
+      throw handleDatabaseError(error, "Failed to fetch ended pay periods");
+    }
+
+    const actions: PayPeriodJobEntry[] = [];
+    for (const period of endedPeriods || []) {
+      const entry = {
+        user_id: userId,
+        income_source_id: period.income_source_id,
+        pay_period_id: period.id,
+      };
+
+      try {
+        let completed = true;
+        if (policy === "ON_END") {
+          await this.payPeriodService.completePayPeriod(period.id, userId);
+        } else {
+          completed = await this.payPeriodService.tryAutoComplete(
+            period.id,
+            userId
+          );
+        }
+
+        if (completed) {
+          actions.push({
+            ...entry,
+            action: "COMPLETED",
+            message: `Completed pay period ${period.start_date} to ${period.end_date}`,
+          });
+        }
+      } catch (completeError) {
+        actions.push({
+          ...entry,
+          action: "FAILED",
+          message: `Could not complete pay period ${period.start_date} to ${
+            period.end_date
+          }: ${
+            completeError instanceof Error
+              ? completeError.message
+              : String(completeError)
+          }`,
+        });
+      }
+    }
+    return actions;
+  }
+
+  // Write a user's actions to the job log and report failed ones to the error
+  // log. Logging failures don't undo the actions, which already happened.
+  private async recordActions(
+    actions: PayPeriodJobEntry[],
+    asOf: string,
+    runId: string
+  ): Promise<void> {
+    if (actions.length === 0) return;
+
+    for (const entry of actions) {
+      if (entry.action !== "FAILED") continue;
+      await logger.logUnhandledError(new Error(entry.message), entry.user_id, {
+        context: "PayPeriodRolloverService.runForUser",
+        runId,
+        asOf,
+        incomeSourceId: entry.income_source_id,
+        payPeriodId: entry.pay_period_id,
+      });
+    }
+
+    const { error } = await this.supabase.from("pay_period_job_log").insert(
+      actions.map((entry) => ({
+        ...entry,
+        run_id: runId,
+        as_of: asOf,
+      }))
+    );
+
+    if (error) {
+      await logger.logUnhandledError(
+        handleDatabaseError(error, "Failed to record pay period job actions"),
+        actions[0].user_id,
+        { context: "PayPeriodRolloverService.recordActions", runId }
+      );
+    }
+  }
+}
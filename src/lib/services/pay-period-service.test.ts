@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PayPeriodService } from "./pay-period-service";
+import type { TypedSupabaseClient } from "@/lib/supabase/client";
+import type { PayPeriod } from "@/lib/types/pay-periods";
+
+vi.mock("@/lib/error-handling/logger", () => ({
+  logger: { logUnhandledError: vi.fn() },
+}));
+
+// A client holding a single pay period row. Selects return the row and
+// updates are applied to it.
+function singleRowClient(row: Record<string, unknown>): TypedSupabaseClient {
+  return {
+    from: () => {
+      let pending: Record<string, unknown> | null = null;
+      const query = {
+        select: () => query,
+        update: (values: Record<string, unknown>) => {
+          pending = values;
+          return query;
+        },
+        eq: () => query,
+        single: async () => {
+          if (pending) Object.assign(row, pending);
+          return { data: { ...row }, error: null };
+        },
+      };
+      return query;
+    },
+  } as unknown as TypedSupabaseClient;
+}
+
+type CompletionSteps = {
+  carryBalancesForward: (payPeriod: PayPeriod) => Promise<void>;
+  takeSnapshot: (payPeriod: PayPeriod) => Promise<void>;
+  clearCarriedBalances: (payPeriod: PayPeriod) => Promise<void>;
+  discardSnapshot: (payPeriodId: string) => Promise<void>;
+};
+
+describe("completePayPeriod", () => {
+  let row: Record<string, unknown>;
+  let service: PayPeriodService;
+  let steps: CompletionSteps;
+
+  beforeEach(() => {
+    row = {
+      id: "period-1",
+      user_id: "user-1",
+      status: "ACTIVE",
+      actual_net: null,
+      expected_net: 3000,
+    };
+    service = new PayPeriodService(singleRowClient(row));
+    steps = service as unknown as CompletionSteps;
+    vi.spyOn(steps, "carryBalancesForward").mockResolvedValue();
+    vi.spyOn(steps, "takeSnapshot").mockResolvedValue();
+    vi.spyOn(steps, "clearCarriedBalances").mockResolvedValue();
+    vi.spyOn(steps, "discardSnapshot").mockResolvedValue();
+  });
+
+  it("carries balances forward and takes a snapshot", async () => {
+    const completed = await service.completePayPeriod(
+      "period-1",
+      "user-1",
+      2950
+    );
+
+    expect(completed.status).toBe("COMPLETED");
+    expect(completed.actual_net).toBe(2950);
+    expect(steps.carryBalancesForward).toHaveBeenCalledOnce();
+    expect(steps.takeSnapshot).toHaveBeenCalledOnce();
+    expect(steps.clearCarriedBalances).not.toHaveBeenCalled();
+  });
+
+  it("puts the period back when the snapshot fails", async () => {
+    vi.mocked(steps.takeSnapshot).mockRejectedValue(
+      new Error("Failed to save pay period snapshot")
+    );
+
+    await expect(
+      service.completePayPeriod("period-1", "user-1", 2950)
+    ).rejects.toThrow("Failed to save pay period snapshot");
+
+    expect(row.status).toBe("ACTIVE");
+    expect(row.actual_net).toBeNull();
+    expect(steps.clearCarriedBalances).toHaveBeenCalledOnce();
+    expect(steps.discardSnapshot).toHaveBeenCalledWith("period-1");
+  });
+
+  it("puts the period back when carrying balances forward fails", async () => {
+    vi.mocked(steps.carryBalancesForward).mockRejectedValue(
+      new Error("Failed to save rollover")
+    );
+
+    await expect(
+      service.completePayPeriod("period-1", "user-1")
+    ).rejects.toThrow("Failed to save rollover");
+
+    expect(row.status).toBe("ACTIVE");
+    expect(steps.takeSnapshot).not.toHaveBeenCalled();
+    expect(steps.clearCarriedBalances).toHaveBeenCalledOnce();
+  });
+});
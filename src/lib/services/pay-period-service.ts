@@ -1,4 +1,4 @@
-import { createClient } from "@/lib/supabase/client";
+import { createClient, type TypedSupabaseClient } from "@/lib/supabase/client";
 import {
   PayPeriod,
   PayPeriodInsert,
@@ -15,16 +15,66 @@ import {
   ReconciliationAllocation,
   ReconciliationSummary,
   HistoricalTrendData,
+  HouseholdBudgetSettings,
+  PayPeriodDepositWithSource,
+  PayPeriodSnapshot,
+  PayPeriodSnapshotInsert,
+  PayPeriodSnapshotItem,
   VARIANCE_THRESHOLDS,
 } from "@/lib/types/pay-periods";
+import type { AllocationCalculationRequest } from "@/lib/types/allocations";
 import {
   calculateFirstPayPeriod,
+  calculateHouseholdPayPeriod,
   calculateNextPayPeriod,
+  getPayScheduleConfig,
   validatePayPeriod,
 } from "@/lib/utils/pay-period-calculations";
-
+import { withMonthlyIncome } from "@/lib/utils/variable-income";
+import { calculateCarryOver } from "@/lib/utils/rollover";
+import { RecurringExpenseService } from "./recurring-expense-service";
+import { BudgetTrackingService } from "./budget-tracking-service";
 import { logger } from "@/lib/error-handling/logger";
-import type { BudgetItem, IncomeSource } from "@/types/database";
+import type { RecurringPostingResult } from "@/lib/types/recurring-expenses";
+import type { BudgetItem, IncomeSource, RolloverMode } from "@/types/database";
+
+// Parse the stored JSON items of a snapshot row
+function toSnapshot(
+  row: Omit<PayPeriodSnapshot, "items"> & { items: unknown }
+): PayPeriodSnapshot {
+  return {
+    ...row,
+    items: Array.isArray(row.items)
+      ? (row.items as PayPeriodSnapshotItem[])
+      : [],
+  };
+}
+
+// An allocation with its budget item's name and category, read either live
+// or from a completed period's snapshot
+interface PeriodAllocation {
+  id: string;
+  pay_period_id: string;
+  budget_item_id: string;
+  budget_item_name: string;
+  budget_item_category: string;
+  expected_amount: number;
+  actual_amount: number | null;
+  status: "PAID" | "UNPAID";
+}
+
+function snapshotAllocations(snapshot: PayPeriodSnapshot): PeriodAllocation[] {
+  return snapshot.items.map((item) => ({
+    id: item.allocation_id,
+    pay_period_id: snapshot.pay_period_id,
+    budget_item_id: item.budget_item_id,
+    budget_item_name: item.name,
+    budget_item_category: item.category,
+    expected_amount: item.expected_amount,
+    actual_amount: item.actual_amount,
+    status: item.status,
+  }));
+}
 
 // Simple database error handler
 function handleDatabaseError(error: unknown, message: string): Error {
@@ -44,7 +94,14 @@ async function logError(
 }
 
 export class PayPeriodService {
-  private supabase = createClient();
+  private supabase: TypedSupabaseClient;
+  private recurringExpenseService: RecurringExpenseService;
+
+  // Scheduled jobs pass a service role client; the app uses the default
+  constructor(supabase: TypedSupabaseClient = createClient()) {
+    this.supabase = supabase;
+    this.recurringExpenseService = new RecurringExpenseService(supabase);
+  }
 
   /**
    * Get pay periods with optional filtering
@@ -336,20 +393,37 @@ export class PayPeriodService {
         .single();
 
       let calculation;
+      // Pay dates follow the income source's anchor days and business day rules
+      const schedule = getPayScheduleConfig(incomeSource);
+
+      // Variable income budgets each month against its baseline month
+      // rather than a fixed paycheck
+      let expectedNet = config.expected_net;
+      if (incomeSource.is_variable) {
+        const { IncomeDepositService } = await import(
+          "./income-deposit-service"
+        );
+        const { baseline } = await new IncomeDepositService(
+          this.supabase
+        ).getBaselineMonth(config.user_id, incomeSource.id);
+        expectedNet = baseline || incomeSource.net_amount;
+      }
 
       if (latestPeriod) {
         // Calculate next period based on the last one
         calculation = calculateNextPayPeriod(
           config.cadence,
           new Date(latestPeriod.end_date),
-          config.expected_net
+          expectedNet,
+          schedule
         );
       } else {
         // Calculate first period
         calculation = calculateFirstPayPeriod(
           config.cadence,
           config.start_date,
-          config.expected_net
+          expectedNet,
+          schedule
         );
       }
 
@@ -363,51 +437,136 @@ export class PayPeriodService {
         status: "ACTIVE",
       });
 
-      // After creating the pay period, automatically generate allocations
-      try {
-        // Fetch active budget items for the user
-        const { data: budgetItems, error: budgetError } = await this.supabase
-          .from("budget_items")
-          .select("*")
-          .eq("user_id", config.user_id)
-          .eq("is_active", true);
-
-        if (budgetError) {
-          throw new Error(
-            `Failed to fetch budget items: ${budgetError.message}`
-          );
+      const recurringExpenses = await this.setUpNewPayPeriod(
+        newPayPeriod,
+        config.user_id,
+        {
+          income_source: incomeSource.is_variable
+            ? withMonthlyIncome(incomeSource, expectedNet)
+            : (incomeSource as unknown as IncomeSource),
         }
+      );
+
+      return {
+        success: true,
+        pay_period: newPayPeriod,
+        recurring_expenses: recurringExpenses,
+        message: "Pay period generated successfully",
+      };
+    } catch (error) {
+      await logError(error as Error, {
+        context: "PayPeriodService.generateNextPayPeriod",
+        config,
+      });
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to generate pay period",
+      };
+    }
+  }
 
-        if (budgetItems && budgetItems.length > 0) {
-          // Lazily import AllocationService to avoid circular dependencies at top level
-          const { AllocationService } = await import("./allocation-service");
-          const allocationService = new AllocationService();
+  /**
+   * Generate the next household pay period, combining the paychecks of every
+   * active income source that land in its date window
+   */
+  async generateNextHouseholdPayPeriod(
+    userId: string
+  ): Promise<PayPeriodGenerationResult> {
+    try {
+      const settings = await this.getBudgetSettings(userId);
+      if (settings.budget_mode !== "HOUSEHOLD") {
+        return {
+          success: false,
+          error: "Household budgeting is not turned on",
+        };
+      }
 
-          await allocationService.generateAllocationsForPayPeriod({
-            pay_period_id: newPayPeriod.id,
-            budget_items: budgetItems as unknown as BudgetItem[],
-            income_source: incomeSource as unknown as IncomeSource,
-          });
+      const { data: incomeSources, error: incomeError } = await this.supabase
+        .from("income_sources")
+        .select("*")
+        .eq("user_id", userId)
+        .eq("is_active", true);
+
+      if (incomeError) {
+        throw handleDatabaseError(
+          incomeError,
+          "Failed to fetch income sources"
+        );
+      }
+
+      if (!incomeSources || incomeSources.length === 0) {
+        return { success: false, error: "No active income sources" };
+      }
+
+      // Household periods are the ones not bound to an income source
+      const { data: latestPeriod } = await this.supabase
+        .from("pay_periods")
+        .select("*")
+        .is("income_source_id", null)
+        .eq("user_id", userId)
+        .order("end_date", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      const cadence = settings.household_cadence;
+      const { start_date, end_date, expected_net, deposits } =
+        calculateHouseholdPayPeriod(
+          cadence,
+          settings.household_start_date ||
+            new Date().toISOString().split("T")[0],
+          incomeSources as unknown as IncomeSource[],
+          latestPeriod?.end_date ?? null
+        );
+
+      // A window without paychecks still gets its period, with nothing
+      // expected, so later windows can be generated
+      const newPayPeriod = await this.createPayPeriod({
+        user_id: userId,
+        income_source_id: null,
+        start_date,
+        end_date,
+        expected_net,
+        status: "ACTIVE",
+      });
+
+      if (deposits.length > 0) {
+        const { error: depositError } = await this.supabase
+          .from("pay_period_deposits")
+          .insert(
+            deposits.map((deposit) => ({
+              ...deposit,
+              user_id: userId,
+              pay_period_id: newPayPeriod.id,
+            }))
+          );
+
+        if (depositError) {
+          throw handleDatabaseError(depositError, "Failed to save deposits");
         }
-      } catch (allocError) {
-        // Allocation generation failures should not block pay period creation
-        console.error("Automatic allocation generation failed:", allocError);
-        await logError(allocError as Error, {
-          context: "PayPeriodService.generateNextPayPeriod.autoAllocation",
-          payPeriodId: newPayPeriod.id,
-          userId: config.user_id,
-        });
       }
 
+      const recurringExpenses = await this.setUpNewPayPeriod(
+        newPayPeriod,
+        userId,
+        { household: { cadence, deposits } }
+      );
+
       return {
         success: true,
         pay_period: newPayPeriod,
-        message: "Pay period generated successfully",
+        recurring_expenses: recurringExpenses,
+        message:
+          deposits.length > 0
+            ? "Household pay period generated successfully"
+            : "Household pay period generated with no paychecks expected",
       };
     } catch (error) {
       await logError(error as Error, {
-        context: "PayPeriodService.generateNextPayPeriod",
-        config,
+        context: "PayPeriodService.generateNextHouseholdPayPeriod",
+        userId,
       });
       return {
         success: false,
@@ -419,6 +578,569 @@ export class PayPeriodService {
     }
   }
 
+  // Generate allocations and post recurring expenses into a new pay period.
+  // Neither step blocks pay period creation if it fails.
+  private async setUpNewPayPeriod(
+    newPayPeriod: PayPeriod,
+    userId: string,
+    income: Pick<AllocationCalculationRequest, "income_source" | "household">
+  ): Promise<RecurringPostingResult | undefined> {
+    try {
+      // Fetch active budget items for the user
+      const { data: budgetItems, error: budgetError } = await this.supabase
+        .from("budget_items")
+        .select("*")
+        .eq("user_id", userId)
+        .eq("is_active", true);
+
+      if (budgetError) {
+        throw new Error(`Failed to fetch budget items: ${budgetError.message}`);
+      }
+
+      if (budgetItems && budgetItems.length > 0) {
+        // Lazily import AllocationService to avoid circular dependencies at top level
+        const { AllocationService } = await import("./allocation-service");
+        const allocationService = new AllocationService(this.supabase);
+
+        await allocationService.generateAllocationsForPayPeriod({
+          pay_period_id: newPayPeriod.id,
+          budget_items: budgetItems as unknown as BudgetItem[],
+          ...income,
+        });
+
+        // Pick up balances carried out of the period before, if it's done
+        const previousPeriod = await this.findAdjacentPayPeriod(
+          newPayPeriod,
+          "previous"
+        );
+        if (previousPeriod) {
+          await this.applyCarriedBalances(previousPeriod.id, newPayPeriod.id);
+        }
+      }
+    } catch (allocError) {
+      console.error("Automatic allocation generation failed:", allocError);
+      await logError(allocError as Error, {
+        context: "PayPeriodService.setUpNewPayPeriod.autoAllocation",
+        payPeriodId: newPayPeriod.id,
+        userId,
+      });
+    }
+
+    // Post recurring expenses that fall due by the end of the new period
+    try {
+      return await this.recurringExpenseService.postForPayPeriod(
+        userId,
+        newPayPeriod
+      );
+    } catch (recurringError) {
+      console.error("Recurring expense posting failed:", recurringError);
+      await logError(recurringError as Error, {
+        context: "PayPeriodService.setUpNewPayPeriod.recurringExpenses",
+        payPeriodId: newPayPeriod.id,
+        userId,
+      });
+      return undefined;
+    }
+  }
+
+  // Work out what each allocation of a completed period carries forward under
+  // its budget item's rollover mode, then write it into the next period of the
+  // same series if that period has been generated yet
+  private async carryBalancesForward(
+    payPeriod: PayPeriod,
+    userId: string
+  ): Promise<void> {
+    const { data: allocations, error } = await this.supabase
+      .from("allocations")
+      .select("id, budget_item_id, budget_item:budget_items(rollover_mode)")
+      .eq("pay_period_id", payPeriod.id);
+
+    if (error) {
+      throw handleDatabaseError(error, "Failed to fetch allocations");
+    }
+
+    const spending = await new BudgetTrackingService(
+      this.supabase
+    ).getBudgetItemSpending(payPeriod.id, userId);
+
+    for (const allocation of allocations || []) {
+      const mode =
+        (
+          allocation.budget_item as unknown as {
+            rollover_mode: RolloverMode;
+          } | null
+        )?.rollover_mode || "RESET";
+      const itemSpending = spending.find(
+        (item) => item.budget_item_id === allocation.budget_item_id
+      );
+
+      const { error: updateError } = await this.supabase
+        .from("allocations")
+        .update({
+          carried_out: calculateCarryOver(
+            mode,
+            itemSpending?.remaining_amount || 0
+          ),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", allocation.id);
+
+      if (updateError) {
+        throw handleDatabaseError(updateError, "Failed to save rollover");
+      }
+    }
+
+    const nextPeriod = await this.findAdjacentPayPeriod(payPeriod, "next");
+    if (nextPeriod) {
+      await this.applyCarriedBalances(payPeriod.id, nextPeriod.id);
+    }
+  }
+
+  // Take a reactivated period's carried balances back out of the next period
+  private async clearCarriedBalances(payPeriod: PayPeriod): Promise<void> {
+    const { error } = await this.supabase
+      .from("allocations")
+      .update({ carried_out: 0, updated_at: new Date().toISOString() })
+      .eq("pay_period_id", payPeriod.id);
+
+    if (error) {
+      throw handleDatabaseError(error, "Failed to clear rollover");
+    }
+
+    const nextPeriod = await this.findAdjacentPayPeriod(payPeriod, "next");
+    if (nextPeriod) {
+      await this.applyCarriedBalances(payPeriod.id, nextPeriod.id);
+    }
+  }
+
+  // Set each allocation's carried_in in one period to what the same budget
+  // item carried out of another. Setting rather than adding keeps this safe
+  // to repeat.
+  private async applyCarriedBalances(
+    fromPayPeriodId: string,
+    toPayPeriodId: string
+  ): Promise<void> {
+    const [from, to] = await Promise.all([
+      this.supabase
+        .from("allocations")
+        .select("budget_item_id, carried_out")
+        .eq("pay_period_id", fromPayPeriodId),
+      this.supabase
+        .from("allocations")
+        .select("id, budget_item_id, carried_in")
+        .eq("pay_period_id", toPayPeriodId),
+    ]);
+
+    if (from.error || to.error) {
+      throw handleDatabaseError(
+        from.error || to.error,
+        "Failed to fetch allocations"
+      );
+    }
+
+    const carriedOut = new Map(
+      (from.data || []).map((allocation) => [
+        allocation.budget_item_id,
+        allocation.carried_out,
+      ])
+    );
+
+    for (const allocation of to.data || []) {
+      const carriedIn = carriedOut.get(allocation.budget_item_id) || 0;
+      if (carriedIn === allocation.carried_in) continue;
+
+      const { error } = await this.supabase
+        .from("allocations")
+        .update({
+          carried_in: carriedIn,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", allocation.id);
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to save rollover");
+      }
+    }
+  }
+
+  // The period just before or after another in the same series: the same
+  // income source, or the household periods
+  private async findAdjacentPayPeriod(
+    payPeriod: PayPeriod,
+    direction: "previous" | "next"
+  ): Promise<PayPeriod | null> {
+    let query = this.supabase
+      .from("pay_periods")
+      .select("*")
+      .eq("user_id", payPeriod.user_id)
+      .neq("id", payPeriod.id);
+    query = payPeriod.income_source_id
+      ? query.eq("income_source_id", payPeriod.income_source_id)
+      : query.is("income_source_id", null);
+    query =
+      direction === "next"
+        ? query
+            .gt("start_date", payPeriod.end_date)
+            .order("start_date", { ascending: true })
+        : query
+            .lt("end_date", payPeriod.start_date)
+            .order("end_date", { ascending: false });
+
+    const { data, error } = await query.limit(1).maybeSingle();
+
+    if (error) {
+      throw handleDatabaseError(error, "Failed to find adjacent pay period");
+    }
+    return data;
+  }
+
+  /**
+   * Get the frozen budget and income figures of a completed pay period
+   */
+  async getPayPeriodSnapshot(
+    payPeriodId: string,
+    userId: string
+  ): Promise<PayPeriodSnapshot | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from("pay_period_snapshots")
+        .select("*")
+        .eq("pay_period_id", payPeriodId)
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to fetch pay period snapshot");
+      }
+
+      return data ? toSnapshot(data) : null;
+    } catch (error) {
+      await logError(error as Error, {
+        context: "PayPeriodService.getPayPeriodSnapshot",
+        payPeriodId,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  // Freeze the budget items and income figures a completed period was
+  // budgeted with. A period completed again after reactivation replaces its
+  // earlier snapshot.
+  private async takeSnapshot(payPeriod: PayPeriod): Promise<void> {
+    const [allocationsResult, income] = await Promise.all([
+      this.supabase
+        .from("allocations")
+        .select(
+          `
+          *,
+          budget_item:budget_items!allocations_budget_item_id_fkey(
+            name, category, calc_type, value
+          )
+        `
+        )
+        .eq("pay_period_id", payPeriod.id),
+      this.getAllocationIncome(payPeriod.id, payPeriod.user_id),
+    ]);
+
+    if (allocationsResult.error) {
+      throw handleDatabaseError(
+        allocationsResult.error,
+        "Failed to fetch allocations for snapshot"
+      );
+    }
+
+    const items: PayPeriodSnapshotItem[] = (allocationsResult.data || []).map(
+      (allocation) => ({
+        allocation_id: allocation.id,
+        budget_item_id: allocation.budget_item_id,
+        name: allocation.budget_item?.name || "Unknown",
+        category: allocation.budget_item?.category || "Other",
+        calc_type: allocation.budget_item?.calc_type || "FIXED",
+        value: allocation.budget_item?.value || 0,
+        expected_amount: allocation.expected_amount,
+        actual_amount: allocation.actual_amount,
+        status: allocation.status,
+        carried_in: allocation.carried_in,
+        carried_out: allocation.carried_out,
+      })
+    );
+
+    const grossIncome = income?.income_source
+      ? income.income_source.gross_amount
+      : (income?.household?.deposits || []).reduce(
+          (sum, deposit) => sum + deposit.gross_amount,
+          0
+        );
+
+    await this.discardSnapshot(payPeriod.id);
+
+    const snapshot: PayPeriodSnapshotInsert = {
+      user_id: payPeriod.user_id,
+      pay_period_id: payPeriod.id,
+      income_source_name: income?.income_source?.name || "Household",
+      gross_income: grossIncome,
+      expected_net: payPeriod.expected_net,
+      actual_net: payPeriod.actual_net,
+      items: items as unknown as PayPeriodSnapshotInsert["items"],
+    };
+
+    const { error } = await this.supabase
+      .from("pay_period_snapshots")
+      .insert(snapshot);
+
+    if (error) {
+      throw handleDatabaseError(error, "Failed to save pay period snapshot");
+    }
+  }
+
+  // Drop a period's snapshot so it reads live data again
+  private async discardSnapshot(payPeriodId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("pay_period_snapshots")
+      .delete()
+      .eq("pay_period_id", payPeriodId);
+
+    if (error) {
+      throw handleDatabaseError(error, "Failed to discard pay period snapshot");
+    }
+  }
+
+  /**
+   * Get the snapshots of several pay periods by pay period id. Periods
+   * completed before snapshots existed have none and read live data.
+   */
+  async getSnapshotsByPayPeriod(
+    payPeriodIds: string[]
+  ): Promise<Map<string, PayPeriodSnapshot>> {
+    if (payPeriodIds.length === 0) return new Map();
+
+    try {
+      const { data, error } = await this.supabase
+        .from("pay_period_snapshots")
+        .select("*")
+        .in("pay_period_id", payPeriodIds);
+
+      if (error) {
+        throw handleDatabaseError(
+          error,
+          "Failed to fetch pay period snapshots"
+        );
+      }
+
+      return new Map(
+        (data || []).map((row) => [row.pay_period_id, toSnapshot(row)])
+      );
+    } catch (error) {
+      await logError(error as Error, {
+        context: "PayPeriodService.getSnapshotsByPayPeriod",
+        payPeriodIds,
+      });
+      throw error;
+    }
+  }
+
+  // Allocations of completed periods for history and analytics, from each
+  // period's snapshot where it has one
+  private async getCompletedPeriodAllocations(
+    payPeriodIds: string[]
+  ): Promise<PeriodAllocation[]> {
+    const snapshots = await this.getSnapshotsByPayPeriod(payPeriodIds);
+    const liveIds = payPeriodIds.filter((id) => !snapshots.has(id));
+
+    return [
+      ...Array.from(snapshots.values()).flatMap(snapshotAllocations),
+      ...(await this.getLiveAllocations(liveIds)),
+    ];
+  }
+
+  // Allocations as they stand now, named from the live budget items
+  private async getLiveAllocations(
+    payPeriodIds: string[]
+  ): Promise<PeriodAllocation[]> {
+    if (payPeriodIds.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from("allocations")
+      .select(
+        `
+        *,
+        budget_item:budget_items!allocations_budget_item_id_fkey(
+          name, category
+        )
+      `
+      )
+      .in("pay_period_id", payPeriodIds);
+
+    if (error) {
+      throw handleDatabaseError(error, "Failed to fetch allocations");
+    }
+
+    return (data || []).map((allocation) => ({
+      id: allocation.id,
+      pay_period_id: allocation.pay_period_id,
+      budget_item_id: allocation.budget_item_id,
+      budget_item_name: allocation.budget_item?.name || "Unknown",
+      budget_item_category: allocation.budget_item?.category || "Other",
+      expected_amount: allocation.expected_amount,
+      actual_amount: allocation.actual_amount,
+      status: allocation.status,
+    }));
+  }
+
+  /**
+   * Income to allocate a pay period against: its income source, or the
+   * deposits of a household period
+   */
+  async getAllocationIncome(
+    payPeriodId: string,
+    userId: string
+  ): Promise<Pick<
+    AllocationCalculationRequest,
+    "income_source" | "household"
+  > | null> {
+    try {
+      const { data: payPeriod, error } = await this.supabase
+        .from("pay_periods")
+        .select("id, income_source_id, expected_net")
+        .eq("id", payPeriodId)
+        .eq("user_id", userId)
+        .single();
+
+      if (error || !payPeriod) {
+        return null;
+      }
+
+      if (payPeriod.income_source_id) {
+        const { data: incomeSource } = await this.supabase
+          .from("income_sources")
+          .select("*")
+          .eq("id", payPeriod.income_source_id)
+          .single();
+
+        if (!incomeSource) {
+          return null;
+        }
+
+        // A variable income period was budgeted against its baseline month
+        return {
+          income_source: incomeSource.is_variable
+            ? withMonthlyIncome(incomeSource, payPeriod.expected_net)
+            : (incomeSource as unknown as IncomeSource),
+        };
+      }
+
+      const [deposits, settings] = await Promise.all([
+        this.getPayPeriodDeposits(payPeriodId),
+        this.getBudgetSettings(userId),
+      ]);
+
+      return deposits.length > 0
+        ? { household: { cadence: settings.household_cadence, deposits } }
+        : null;
+    } catch (error) {
+      await logError(error as Error, {
+        context: "PayPeriodService.getAllocationIncome",
+        payPeriodId,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the paychecks that make up a pay period, earliest first. Only
+   * household periods have deposits.
+   */
+  async getPayPeriodDeposits(
+    payPeriodId: string
+  ): Promise<PayPeriodDepositWithSource[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from("pay_period_deposits")
+        .select(
+          `
+          *,
+          income_source:income_sources(name)
+        `
+        )
+        .eq("pay_period_id", payPeriodId)
+        .order("pay_date", { ascending: true });
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to fetch deposits");
+      }
+
+      return (data || []).map(({ income_source, ...deposit }) => ({
+        ...deposit,
+        income_source_name:
+          (income_source as unknown as { name: string } | null)?.name ||
+          "Unknown",
+      }));
+    } catch (error) {
+      await logError(error as Error, {
+        context: "PayPeriodService.getPayPeriodDeposits",
+        payPeriodId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the user's budgeting mode and household period settings
+   */
+  async getBudgetSettings(userId: string): Promise<HouseholdBudgetSettings> {
+    try {
+      const { data, error } = await this.supabase
+        .from("users")
+        .select("budget_mode, household_cadence, household_start_date")
+        .eq("id", userId)
+        .single();
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to fetch budget settings");
+      }
+
+      return data;
+    } catch (error) {
+      await logError(error as Error, {
+        context: "PayPeriodService.getBudgetSettings",
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update the user's budgeting mode and household period settings
+   */
+  async updateBudgetSettings(
+    userId: string,
+    updates: Partial<HouseholdBudgetSettings>
+  ): Promise<HouseholdBudgetSettings> {
+    try {
+      const { data, error } = await this.supabase
+        .from("users")
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq("id", userId)
+        .select("budget_mode, household_cadence, household_start_date")
+        .single();
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to update budget settings");
+      }
+
+      return data;
+    } catch (error) {
+      await logError(error as Error, {
+        context: "PayPeriodService.updateBudgetSettings",
+        userId,
+        updates,
+      });
+      throw error;
+    }
+  }
+
   /**
    * Get current active pay period for a user
    */
@@ -464,6 +1186,17 @@ export class PayPeriodService {
     actualNet?: number
   ): Promise<PayPeriod> {
     try {
+      const { data: current, error } = await this.supabase
+        .from("pay_periods")
+        .select("status, actual_net")
+        .eq("id", payPeriodId)
+        .eq("user_id", userId)
+        .single();
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to fetch pay period");
+      }
+
       const updates: PayPeriodUpdate = {
         status: "COMPLETED",
         updated_at: new Date().toISOString(),
@@ -473,7 +1206,28 @@ export class PayPeriodService {
         updates.actual_net = actualNet;
       }
 
-      return await this.updatePayPeriod(payPeriodId, userId, updates);
+      const completed = await this.updatePayPeriod(
+        payPeriodId,
+        userId,
+        updates
+      );
+
+      try {
+        await this.carryBalancesForward(completed, userId);
+        await this.takeSnapshot(completed);
+      } catch (error) {
+        // Put the period back as it was rather than leave it completed
+        // without its carry-over or snapshot
+        const restored = await this.updatePayPeriod(payPeriodId, userId, {
+          status: current.status,
+          actual_net: current.actual_net,
+        });
+        await this.clearCarriedBalances(restored);
+        await this.discardSnapshot(payPeriodId);
+        throw error;
+      }
+
+      return completed;
     } catch (error) {
       await logError(error as Error, {
         context: "PayPeriodService.completePayPeriod",
@@ -499,18 +1253,24 @@ export class PayPeriodService {
         throw new Error("Pay period not found");
       }
 
-      // Check for existing active periods for the same income source
-      const existingActive = await this.supabase
+      // Check for existing active periods for the same income source, or
+      // other household periods for a household period
+      let activeQuery = this.supabase
         .from("pay_periods")
         .select("*")
         .eq("user_id", userId)
-        .eq("income_source_id", payPeriod.income_source_id)
         .eq("status", "ACTIVE")
         .neq("id", payPeriodId);
+      activeQuery = payPeriod.income_source_id
+        ? activeQuery.eq("income_source_id", payPeriod.income_source_id)
+        : activeQuery.is("income_source_id", null);
+      const existingActive = await activeQuery;
 
       if (existingActive.data && existingActive.data.length > 0) {
         throw new Error(
-          "Cannot reactivate: There is already an active pay period for this income source"
+          payPeriod.income_source_id
+            ? "Cannot reactivate: There is already an active pay period for this income source"
+            : "Cannot reactivate: There is already an active household pay period"
         );
       }
 
@@ -519,7 +1279,14 @@ export class PayPeriodService {
         updated_at: new Date().toISOString(),
       };
 
-      return await this.updatePayPeriod(payPeriodId, userId, updates);
+      const reactivated = await this.updatePayPeriod(
+        payPeriodId,
+        userId,
+        updates
+      );
+      await this.clearCarriedBalances(reactivated);
+      await this.discardSnapshot(reactivated.id);
+      return reactivated;
     } catch (error) {
       await logError(error as Error, {
         context: "PayPeriodService.reactivatePayPeriod",
@@ -860,6 +1627,10 @@ export class PayPeriodService {
         };
       }
 
+      const snapshots = await this.getSnapshotsByPayPeriod(
+        periods.filter((p) => p.status === "COMPLETED").map((p) => p.id)
+      );
+
       // Transform data to PayPeriodHistoryItem format
       const historyItems: PayPeriodHistoryItem[] = periods.map((period) => {
         type AllocationFromQuery = {
@@ -869,7 +1640,16 @@ export class PayPeriodService {
           actual_amount: number | null;
         };
 
-        const allocations = (period.allocations as AllocationFromQuery[]) || [];
+        // Completed periods count the allocations they were completed with
+        const snapshot = snapshots.get(period.id);
+        const allocations: AllocationFromQuery[] = snapshot
+          ? snapshot.items.map((item) => ({
+              id: item.allocation_id,
+              status: item.status,
+              expected_amount: item.expected_amount,
+              actual_amount: item.actual_amount,
+            }))
+          : (period.allocations as AllocationFromQuery[]) || [];
         const allocationCount = allocations.length;
         const paidAllocationCount = allocations.filter(
           (a) => a.status === "PAID"
@@ -888,7 +1668,11 @@ export class PayPeriodService {
 
         return {
           ...period,
-          income_source_name: period.income_source?.name || "Unknown",
+          income_source_name:
+            snapshot?.income_source_name ||
+            (period.income_source_id
+              ? period.income_source?.name || "Unknown"
+              : "Household"),
           income_source_cadence: period.income_source?.cadence || "monthly",
           allocation_count: allocationCount,
           paid_allocation_count: paidAllocationCount,
@@ -978,35 +1762,22 @@ export class PayPeriodService {
         return null;
       }
 
-      // Fetch allocations with budget item details
-      const { data: allocations, error: allocationsError } = await this.supabase
-        .from("allocations")
-        .select(
-          `
-          *,
-          budget_item:budget_items!allocations_budget_item_id_fkey(
-            id, name, category
-          )
-        `
-        )
-        .eq("pay_period_id", payPeriodId);
-
-      if (allocationsError) {
-        throw handleDatabaseError(
-          allocationsError,
-          "Failed to fetch allocations for reconciliation"
-        );
-      }
+      // A completed period reads the budget it was completed with
+      const snapshot =
+        payPeriod.status === "COMPLETED"
+          ? await this.getPayPeriodSnapshot(payPeriodId, userId)
+          : null;
 
-      const allocationsList = allocations || [];
+      const allocationsList = snapshot
+        ? snapshotAllocations(snapshot)
+        : await this.getLiveAllocations([payPeriodId]);
+      const expectedNet = snapshot?.expected_net ?? payPeriod.expected_net;
 
       // Calculate net variance
       const actualNet = payPeriod.actual_net || 0;
-      const netVariance = actualNet - payPeriod.expected_net;
+      const netVariance = actualNet - expectedNet;
       const netVariancePercentage =
-        payPeriod.expected_net > 0
-          ? (netVariance / payPeriod.expected_net) * 100
-          : 0;
+        expectedNet > 0 ? (netVariance / expectedNet) * 100 : 0;
 
       // Process allocations
       const reconciliationAllocations: ReconciliationAllocation[] =
@@ -1021,8 +1792,8 @@ export class PayPeriodService {
           return {
             id: allocation.id,
             budget_item_id: allocation.budget_item_id,
-            budget_item_name: allocation.budget_item?.name || "Unknown",
-            budget_item_category: allocation.budget_item?.category || "Other",
+            budget_item_name: allocation.budget_item_name,
+            budget_item_category: allocation.budget_item_category,
             expected_amount: allocation.expected_amount,
             actual_amount: allocation.actual_amount,
             variance,
@@ -1074,7 +1845,7 @@ export class PayPeriodService {
         pay_period_id: payPeriodId,
         start_date: new Date(payPeriod.start_date),
         end_date: new Date(payPeriod.end_date),
-        expected_net: payPeriod.expected_net,
+        expected_net: expectedNet,
         actual_net: payPeriod.actual_net,
         net_variance: netVariance,
         net_variance_percentage: netVariancePercentage,
@@ -1150,20 +1921,9 @@ export class PayPeriodService {
       }
 
       // Fetch allocations for completed periods
-      const completedPeriodIds = completedPeriods.map((p) => p.id);
-      const { data: allocations, error: allocationsError } = await this.supabase
-        .from("allocations")
-        .select("*")
-        .in("pay_period_id", completedPeriodIds);
-
-      if (allocationsError) {
-        throw handleDatabaseError(
-          allocationsError,
-          "Failed to fetch allocations for reconciliation summary"
-        );
-      }
-
-      const allAllocations = allocations || [];
+      const allAllocations = await this.getCompletedPeriodAllocations(
+        completedPeriods.map((p) => p.id)
+      );
 
       // Calculate reconciliation statistics
       let perfectReconciliations = 0;
@@ -1280,27 +2040,9 @@ export class PayPeriodService {
       }
 
       // Fetch allocations for all periods
-      const periodIds = periods.map((p) => p.id);
-      const { data: allocations, error: allocationsError } = await this.supabase
-        .from("allocations")
-        .select(
-          `
-          *,
-          budget_item:budget_items!allocations_budget_item_id_fkey(
-            category
-          )
-        `
-        )
-        .in("pay_period_id", periodIds);
-
-      if (allocationsError) {
-        throw handleDatabaseError(
-          allocationsError,
-          "Failed to fetch allocations for trends"
-        );
-      }
-
-      const allAllocations = allocations || [];
+      const allAllocations = await this.getCompletedPeriodAllocations(
+        periods.map((p) => p.id)
+      );
 
       // Group periods by month
       const monthlyData = new Map<
@@ -1382,7 +2124,7 @@ export class PayPeriodService {
         >();
 
         monthAllocations.forEach((allocation) => {
-          const category = allocation.budget_item?.category || "Other";
+          const category = allocation.budget_item_category;
 
           if (!categoryMap.has(category)) {
             categoryMap.set(category, { expected: 0, actual: 0 });
@@ -0,0 +1,463 @@
+import { createClient, type TypedSupabaseClient } from "@/lib/supabase/client";
+import { toExpenseCategoryKey } from "@/lib/constants/expense-categories";
+import {
+  getNextOccurrenceAfter,
+  getOccurrencesBetween,
+  getTodayIsoDate,
+} from "@/lib/utils/recurring-expenses";
+import type { ExpenseInsert } from "@/lib/types/expenses";
+import type {
+  PendingRecurringExpense,
+  RecurringExpense,
+  RecurringExpenseFormData,
+  RecurringExpenseInsert,
+  RecurringExpenseOccurrence,
+  RecurringExpenseOccurrenceInsert,
+  RecurringExpenseUpdate,
+  RecurringPostingResult,
+} from "@/lib/types/recurring-expenses";
+import type { PayPeriod } from "@/types/database";
+
+// Simple database error handler following existing pattern
+function handleDatabaseError(error: unknown, message: string): Error {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  return new Error(`${message}: ${errorMessage}`);
+}
+
+// Expense row for one occurrence of a recurring expense
+function toExpenseInsert(
+  recurring: RecurringExpense,
+  date: string,
+  payPeriodId: string | null
+): ExpenseInsert {
+  return {
+    user_id: recurring.user_id,
+    description: recurring.description,
+    amount: recurring.amount,
+    date,
+    category: toExpenseCategoryKey(recurring.category),
+    pay_period_id: payPeriodId,
+    budget_item_id: recurring.budget_item_id,
+    type: recurring.budget_item_id ? "BUDGET_PAYMENT" : "EXPENSE",
+    recurring_expense_id: recurring.id,
+  };
+}
+
+export class RecurringExpenseService {
+  constructor(private supabase: TypedSupabaseClient = createClient()) {}
+
+  /**
+   * Get a user's recurring expenses, soonest first
+   */
+  async getRecurringExpenses(userId: string): Promise<RecurringExpense[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from("recurring_expenses")
+        .select("*")
+        .eq("user_id", userId)
+        .order("next_date", { ascending: true });
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to fetch recurring expenses");
+      }
+
+      return data || [];
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to fetch recurring expenses");
+    }
+  }
+
+  /**
+   * Create a recurring expense. Occurrences before today are not posted.
+   */
+  async createRecurringExpense(
+    userId: string,
+    data: RecurringExpenseFormData
+  ): Promise<RecurringExpense> {
+    try {
+      const recurringInsert: RecurringExpenseInsert = {
+        ...data,
+        user_id: userId,
+        next_date: this.getFirstDateFromToday(data),
+      };
+
+      const { data: recurring, error } = await this.supabase
+        .from("recurring_expenses")
+        .insert(recurringInsert)
+        .select()
+        .single();
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to create recurring expense");
+      }
+
+      return recurring;
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to create recurring expense");
+    }
+  }
+
+  /**
+   * Update a recurring expense, restarting its schedule from today
+   */
+  async updateRecurringExpense(
+    recurringExpenseId: string,
+    data: RecurringExpenseFormData,
+    userId: string
+  ): Promise<RecurringExpense> {
+    try {
+      const recurringUpdate: RecurringExpenseUpdate = {
+        ...data,
+        next_date: this.getFirstDateFromToday(data),
+        updated_at: new Date().toISOString(),
+      };
+
+      const { data: recurring, error } = await this.supabase
+        .from("recurring_expenses")
+        .update(recurringUpdate)
+        .eq("id", recurringExpenseId)
+        .eq("user_id", userId)
+        .select()
+        .single();
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to update recurring expense");
+      }
+
+      return recurring;
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to update recurring expense");
+    }
+  }
+
+  /**
+   * Delete a recurring expense. Expenses it already posted are kept.
+   */
+  async deleteRecurringExpense(
+    recurringExpenseId: string,
+    userId: string
+  ): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from("recurring_expenses")
+        .delete()
+        .eq("id", recurringExpenseId)
+        .eq("user_id", userId);
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to delete recurring expense");
+      }
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to delete recurring expense");
+    }
+  }
+
+  /**
+   * Get recorded occurrences (posted, drafted or skipped) on or after a date
+   */
+  async getOccurrences(
+    userId: string,
+    fromDate: string
+  ): Promise<RecurringExpenseOccurrence[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from("recurring_expense_occurrences")
+        .select("*")
+        .eq("user_id", userId)
+        .gte("occurrence_date", fromDate)
+        .order("occurrence_date", { ascending: true });
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to fetch occurrences");
+      }
+
+      return data || [];
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to fetch occurrences");
+    }
+  }
+
+  /**
+   * Get drafted occurrences awaiting confirmation
+   */
+  async getPendingOccurrences(
+    userId: string
+  ): Promise<PendingRecurringExpense[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from("recurring_expense_occurrences")
+        .select("*, recurring_expense:recurring_expenses(*)")
+        .eq("user_id", userId)
+        .eq("status", "PENDING")
+        .order("occurrence_date", { ascending: true });
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to fetch pending expenses");
+      }
+
+      return (data || []) as unknown as PendingRecurringExpense[];
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to fetch pending expenses");
+    }
+  }
+
+  /**
+   * Skip a single occurrence so it is never posted. A pending draft for the
+   * date is dismissed.
+   */
+  async skipOccurrence(
+    userId: string,
+    recurringExpenseId: string,
+    occurrenceDate: string
+  ): Promise<RecurringExpenseOccurrence> {
+    try {
+      const { data, error } = await this.supabase
+        .from("recurring_expense_occurrences")
+        .upsert(
+          {
+            user_id: userId,
+            recurring_expense_id: recurringExpenseId,
+            occurrence_date: occurrenceDate,
+            status: "SKIPPED",
+          },
+          { onConflict: "recurring_expense_id,occurrence_date" }
+        )
+        .select()
+        .single();
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to skip occurrence");
+      }
+
+      return data;
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to skip occurrence");
+    }
+  }
+
+  /**
+   * Undo skipping an occurrence that has not been posted yet
+   */
+  async unskipOccurrence(
+    userId: string,
+    recurringExpenseId: string,
+    occurrenceDate: string
+  ): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from("recurring_expense_occurrences")
+        .delete()
+        .eq("user_id", userId)
+        .eq("recurring_expense_id", recurringExpenseId)
+        .eq("occurrence_date", occurrenceDate)
+        .eq("status", "SKIPPED");
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to restore occurrence");
+      }
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to restore occurrence");
+    }
+  }
+
+  /**
+   * Post a drafted occurrence as a real expense
+   */
+  async confirmOccurrence(
+    userId: string,
+    occurrenceId: string
+  ): Promise<RecurringExpenseOccurrence> {
+    try {
+      const { data: occurrence, error: fetchError } = await this.supabase
+        .from("recurring_expense_occurrences")
+        .select("*, recurring_expense:recurring_expenses(*)")
+        .eq("id", occurrenceId)
+        .eq("user_id", userId)
+        .eq("status", "PENDING")
+        .single();
+
+      if (fetchError || !occurrence) {
+        throw handleDatabaseError(fetchError, "Draft not found");
+      }
+
+      const pending = occurrence as unknown as PendingRecurringExpense;
+      const { data: expense, error: expenseError } = await this.supabase
+        .from("expenses")
+        .insert(
+          toExpenseInsert(
+            pending.recurring_expense,
+            pending.occurrence_date,
+            pending.pay_period_id
+          )
+        )
+        .select()
+        .single();
+
+      if (expenseError || !expense) {
+        throw handleDatabaseError(expenseError, "Failed to create expense");
+      }
+
+      const { data, error } = await this.supabase
+        .from("recurring_expense_occurrences")
+        .update({
+          status: "POSTED",
+          expense_id: expense.id,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", occurrenceId)
+        .eq("user_id", userId)
+        .select()
+        .single();
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to update occurrence");
+      }
+
+      return data;
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to confirm recurring expense");
+    }
+  }
+
+  /**
+   * Post every occurrence due by the end of a new pay period: auto-post
+   * schedules create expenses, the rest create drafts. Skipped or already
+   * recorded occurrences are left alone, then each schedule moves on to its
+   * first date after the period.
+   */
+  async postForPayPeriod(
+    userId: string,
+    payPeriod: Pick<PayPeriod, "id" | "start_date" | "end_date">
+  ): Promise<RecurringPostingResult> {
+    const result: RecurringPostingResult = {
+      posted_count: 0,
+      draft_count: 0,
+      skipped_count: 0,
+    };
+
+    try {
+      const { data: schedules, error } = await this.supabase
+        .from("recurring_expenses")
+        .select("*")
+        .eq("user_id", userId)
+        .eq("is_active", true)
+        .lte("next_date", payPeriod.end_date);
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to fetch recurring expenses");
+      }
+
+      for (const recurring of schedules || []) {
+        const dates = getOccurrencesBetween(
+          recurring,
+          recurring.next_date,
+          payPeriod.end_date
+        );
+
+        const { data: recorded, error: recordedError } = await this.supabase
+          .from("recurring_expense_occurrences")
+          .select("occurrence_date")
+          .eq("recurring_expense_id", recurring.id)
+          .gte("occurrence_date", recurring.next_date)
+          .lte("occurrence_date", payPeriod.end_date);
+
+        if (recordedError) {
+          throw handleDatabaseError(
+            recordedError,
+            "Failed to fetch occurrences"
+          );
+        }
+
+        const recordedDates = new Set(
+          (recorded || []).map((occurrence) => occurrence.occurrence_date)
+        );
+        result.skipped_count += recordedDates.size;
+
+        for (const date of dates.filter((d) => !recordedDates.has(d))) {
+          // Occurrences caught up from before the period have no pay period
+          const payPeriodId =
+            date >= payPeriod.start_date ? payPeriod.id : null;
+          const occurrence: RecurringExpenseOccurrenceInsert = {
+            user_id: userId,
+            recurring_expense_id: recurring.id,
+            occurrence_date: date,
+            status: recurring.auto_post ? "POSTED" : "PENDING",
+            pay_period_id: payPeriodId,
+          };
+
+          if (recurring.auto_post) {
+            const { data: expense, error: expenseError } = await this.supabase
+              .from("expenses")
+              .insert(toExpenseInsert(recurring, date, payPeriodId))
+              .select()
+              .single();
+
+            if (expenseError || !expense) {
+              throw handleDatabaseError(
+                expenseError,
+                "Failed to post recurring expense"
+              );
+            }
+            occurrence.expense_id = expense.id;
+          }
+
+          const { error: occurrenceError } = await this.supabase
+            .from("recurring_expense_occurrences")
+            .insert(occurrence);
+
+          if (occurrenceError) {
+            throw handleDatabaseError(
+              occurrenceError,
+              "Failed to record occurrence"
+            );
+          }
+
+          if (recurring.auto_post) {
+            result.posted_count++;
+          } else {
+            result.draft_count++;
+          }
+        }
+
+        const nextDate = getNextOccurrenceAfter(recurring, payPeriod.end_date);
+        const { error: updateError } = await this.supabase
+          .from("recurring_expenses")
+          .update(
+            nextDate
+              ? { next_date: nextDate, updated_at: new Date().toISOString() }
+              : { is_active: false, updated_at: new Date().toISOString() }
+          )
+          .eq("id", recurring.id)
+          .eq("user_id", userId);
+
+        if (updateError) {
+          throw handleDatabaseError(
+            updateError,
+            "Failed to advance recurring expense"
+          );
+        }
+      }
+
+      return result;
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to post recurring expenses");
+    }
+  }
+
+  /**
+   * First occurrence on or after today (or the start date if later)
+   */
+  private getFirstDateFromToday(data: RecurringExpenseFormData): string {
+    const today = getTodayIsoDate();
+    if (data.start_date >= today) return data.start_date;
+
+    const schedule = { ...data, next_date: data.start_date };
+    const yesterday = new Date(`${today}T00:00:00Z`);
+    yesterday.setUTCDate(yesterday.getUTCDate() - 1);
+
+    return (
+      getNextOccurrenceAfter(schedule, yesterday.toISOString().split("T")[0]) ||
+      data.start_date
+    );
+  }
+}
@@ -0,0 +1,328 @@
+import { createClient, type TypedSupabaseClient } from "@/lib/supabase/client";
+import {
+  calculateGoalProgress,
+  convertCadenceAmount,
+} from "@/lib/utils/savings-goals";
+import type { BudgetItem, IncomeCadence } from "@/types/database";
+import type {
+  SavingsGoal,
+  SavingsGoalFormData,
+  SavingsGoalInsert,
+  SavingsGoalUpdate,
+  SavingsGoalWithProgress,
+} from "@/lib/types/savings-goals";
+
+// Simple database error handler
+function handleDatabaseError(error: unknown, message: string): Error {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  return new Error(`${message}: ${errorMessage}`);
+}
+
+export class SavingsGoalService {
+  constructor(private supabase: TypedSupabaseClient = createClient()) {}
+
+  /**
+   * Get a user's savings goals with their progress as of today (YYYY-MM-DD)
+   */
+  async getSavingsGoals(
+    userId: string,
+    today: string
+  ): Promise<SavingsGoalWithProgress[]> {
+    try {
+      const { data: goals, error } = await this.supabase
+        .from("savings_goals")
+        .select("*")
+        .eq("user_id", userId)
+        .order("priority", { ascending: true })
+        .order("target_date", { ascending: true });
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to fetch savings goals");
+      }
+      if (!goals || goals.length === 0) return [];
+
+      const cadence = await this.getPayCadence(userId);
+      const budgetItemIds = goals
+        .map((goal) => goal.budget_item_id)
+        .filter((id): id is string => id !== null);
+      const budgetItems = await this.getLinkedBudgetItems(budgetItemIds);
+      const planned = await this.getPlannedContributions(
+        budgetItems,
+        cadence,
+        today
+      );
+
+      return goals.map((goal) => {
+        const budgetItem = budgetItems.find(
+          (item) => item.id === goal.budget_item_id
+        );
+        return {
+          ...goal,
+          budget_item_name: budgetItem?.name || null,
+          progress: calculateGoalProgress(
+            goal,
+            cadence,
+            (budgetItem && planned.get(budgetItem.id)) || 0,
+            today
+          ),
+        };
+      });
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to fetch savings goals");
+    }
+  }
+
+  /**
+   * Create a savings goal
+   */
+  async createSavingsGoal(
+    userId: string,
+    data: SavingsGoalFormData
+  ): Promise<SavingsGoal> {
+    try {
+      const goalInsert: SavingsGoalInsert = { ...data, user_id: userId };
+
+      const { data: goal, error } = await this.supabase
+        .from("savings_goals")
+        .insert(goalInsert)
+        .select()
+        .single();
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to create savings goal");
+      }
+
+      return goal;
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to create savings goal");
+    }
+  }
+
+  /**
+   * Update a savings goal
+   */
+  async updateSavingsGoal(
+    goalId: string,
+    data: Partial<SavingsGoalFormData>,
+    userId: string
+  ): Promise<SavingsGoal> {
+    try {
+      const goalUpdate: SavingsGoalUpdate = {
+        ...data,
+        updated_at: new Date().toISOString(),
+      };
+
+      const { data: goal, error } = await this.supabase
+        .from("savings_goals")
+        .update(goalUpdate)
+        .eq("id", goalId)
+        .eq("user_id", userId)
+        .select()
+        .single();
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to update savings goal");
+      }
+
+      return goal;
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to update savings goal");
+    }
+  }
+
+  /**
+   * Delete a savings goal. Its linked budget item is kept.
+   */
+  async deleteSavingsGoal(goalId: string, userId: string): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from("savings_goals")
+        .delete()
+        .eq("id", goalId)
+        .eq("user_id", userId);
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to delete savings goal");
+      }
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to delete savings goal");
+    }
+  }
+
+  /**
+   * Set the goal's budget item to the contribution it needs each pay period,
+   * creating a Savings item when the goal has none. Percentage items become
+   * fixed amounts. Returns the budget item's ID.
+   */
+  async matchBudgetItem(
+    goal: SavingsGoalWithProgress,
+    userId: string
+  ): Promise<string> {
+    try {
+      const { cadence, required_per_period } = goal.progress;
+      if (required_per_period <= 0) {
+        throw new Error("This goal doesn't need any more contributions");
+      }
+
+      const [budgetItem] = goal.budget_item_id
+        ? await this.getLinkedBudgetItems([goal.budget_item_id])
+        : [];
+
+      if (budgetItem) {
+        // Fixed items keep their own cadence
+        const itemCadence =
+          budgetItem.calc_type === "FIXED" ? budgetItem.cadence : cadence;
+        const { error } = await this.supabase
+          .from("budget_items")
+          .update({
+            calc_type: "FIXED",
+            value: convertCadenceAmount(
+              required_per_period,
+              cadence,
+              itemCadence
+            ),
+            cadence: itemCadence,
+            depends_on: [],
+            min_amount: null,
+            max_amount: null,
+            overflow_target_id: null,
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", budgetItem.id)
+          .eq("user_id", userId);
+
+        if (error) {
+          throw handleDatabaseError(error, "Failed to update budget item");
+        }
+        return budgetItem.id;
+      }
+
+      const { data: created, error } = await this.supabase
+        .from("budget_items")
+        .insert({
+          user_id: userId,
+          name: goal.name,
+          category: "Savings",
+          calc_type: "FIXED",
+          value: required_per_period,
+          cadence,
+          priority: goal.priority,
+        })
+        .select("id")
+        .single();
+
+      if (error) {
+        throw handleDatabaseError(error, "Failed to create budget item");
+      }
+
+      await this.updateSavingsGoal(
+        goal.id,
+        { budget_item_id: created.id },
+        userId
+      );
+      return created.id;
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to match budget item to goal");
+    }
+  }
+
+  // The cadence the user's pay periods follow: the household cadence, or
+  // that of their oldest active income source
+  private async getPayCadence(userId: string): Promise<IncomeCadence> {
+    const { data: user, error } = await this.supabase
+      .from("users")
+      .select("budget_mode, household_cadence")
+      .eq("id", userId)
+      .single();
+
+    if (error) {
+      throw handleDatabaseError(error, "Failed to fetch budget settings");
+    }
+    if (user.budget_mode === "HOUSEHOLD") {
+      return user.household_cadence;
+    }
+
+    const { data: incomeSource, error: sourceError } = await this.supabase
+      .from("income_sources")
+      .select("cadence")
+      .eq("user_id", userId)
+      .eq("is_active", true)
+      .order("created_at", { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (sourceError) {
+      throw handleDatabaseError(sourceError, "Failed to fetch income sources");
+    }
+
+    return incomeSource?.cadence || "monthly";
+  }
+
+  private async getLinkedBudgetItems(ids: string[]): Promise<BudgetItem[]> {
+    if (ids.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from("budget_items")
+      .select("*")
+      .in("id", ids);
+
+    if (error) {
+      throw handleDatabaseError(error, "Failed to fetch budget items");
+    }
+
+    return data || [];
+  }
+
+  // What each budget item sets aside per pay period. Fixed items convert
+  // their amount; percentage items use their latest allocation. Inactive
+  // items contribute nothing.
+  private async getPlannedContributions(
+    budgetItems: BudgetItem[],
+    cadence: IncomeCadence,
+    today: string
+  ): Promise<Map<string, number>> {
+    const planned = new Map<string, number>();
+    const active = budgetItems.filter(
+      (item) => item.is_active && (!item.end_date || item.end_date > today)
+    );
+
+    for (const item of active) {
+      if (item.calc_type === "FIXED") {
+        planned.set(
+          item.id,
+          convertCadenceAmount(item.value, item.cadence, cadence)
+        );
+      }
+    }
+
+    const percentageIds = active
+      .filter((item) => item.calc_type !== "FIXED")
+      .map((item) => item.id);
+    if (percentageIds.length === 0) return planned;
+
+    const { data: allocations, error } = await this.supabase
+      .from("allocations")
+      .select("budget_item_id, expected_amount, pay_periods!inner(start_date)")
+      .in("budget_item_id", percentageIds)
+      .lte("pay_periods.start_date", today);
+
+    if (error) {
+      throw handleDatabaseError(error, "Failed to fetch allocations");
+    }
+
+    // Latest allocation per item
+    const latestStart = new Map<string, string>();
+    for (const allocation of allocations || []) {
+      const start = (
+        allocation.pay_periods as unknown as { start_date: string }
+      ).start_date;
+      const current = latestStart.get(allocation.budget_item_id);
+      if (!current || start > current) {
+        latestStart.set(allocation.budget_item_id, start);
+        planned.set(allocation.budget_item_id, allocation.expected_amount);
+      }
+    }
+
+    return planned;
+  }
+}
@@ -0,0 +1,158 @@
+import { createClient, type TypedSupabaseClient } from "@/lib/supabase/client";
+import { getSpendingAmount } from "@/lib/utils/refunds";
+import { projectSinkingFund } from "@/lib/utils/sinking-funds";
+import { roundCents } from "@/lib/utils/currency";
+import { CADENCE_DAYS } from "../../../supabase/functions/_shared/allocation-calculations";
+import { daysBetween } from "@/lib/utils/date-utils";
+import type { BudgetItem } from "@/types/database";
+import type {
+  SinkingFundBalance,
+  SinkingFundContribution,
+} from "@/lib/types/sinking-funds";
+
+// Simple database error handler
+function handleDatabaseError(error: unknown, message: string): Error {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  return new Error(`${message}: ${errorMessage}`);
+}
+
+// Days in a pay period, counting both ends
+function getPeriodDays(period: { start_date: string; end_date: string }) {
+  return daysBetween(period.start_date, period.end_date) + 1;
+}
+
+/**
+ * Balances and projections of sinking-fund budget items. A fund's balance
+ * grows with the allocation of every pay period that has started and falls
+ * with each payment made from it.
+ */
+export class SinkingFundService {
+  private supabase: TypedSupabaseClient;
+
+  constructor(supabase: TypedSupabaseClient = createClient()) {
+    this.supabase = supabase;
+  }
+
+  /**
+   * Get the balance and projection of each of a user's sinking funds as of
+   * today (YYYY-MM-DD)
+   */
+  async getSinkingFundBalances(
+    userId: string,
+    today: string
+  ): Promise<SinkingFundBalance[]> {
+    try {
+      const { data: funds, error: fundsError } = await this.supabase
+        .from("budget_items")
+        .select("*")
+        .eq("user_id", userId)
+        .eq("is_sinking_fund", true);
+
+      if (fundsError) {
+        throw handleDatabaseError(fundsError, "Failed to fetch sinking funds");
+      }
+      if (!funds || funds.length === 0) return [];
+
+      const fundIds = funds.map((fund) => fund.id);
+      const [allocationsResult, expensesResult] = await Promise.all([
+        this.supabase
+          .from("allocations")
+          .select(
+            "budget_item_id, expected_amount, pay_periods!inner(start_date, end_date)"
+          )
+          .in("budget_item_id", fundIds)
+          .lte("pay_periods.start_date", today),
+        this.supabase
+          .from("expenses")
+          .select("budget_item_id, amount, type, date")
+          .eq("user_id", userId)
+          .in("budget_item_id", fundIds)
+          .in("type", ["BUDGET_PAYMENT", "REFUND"])
+          .eq("is_split", false), // Count split lines, not their parent
+      ]);
+
+      const error = allocationsResult.error || expensesResult.error;
+      if (error) {
+        throw handleDatabaseError(
+          error,
+          "Failed to fetch sinking fund history"
+        );
+      }
+
+      return funds.map((fund) => {
+        const allocations = (allocationsResult.data || [])
+          .filter((allocation) => allocation.budget_item_id === fund.id)
+          .map((allocation) => ({
+            amount: allocation.expected_amount,
+            period: allocation.pay_periods as unknown as {
+              start_date: string;
+              end_date: string;
+            },
+          }))
+          .sort((a, b) =>
+            a.period.start_date.localeCompare(b.period.start_date)
+          );
+        const payments = (expensesResult.data || []).filter(
+          (expense) => expense.budget_item_id === fund.id
+        );
+
+        const contributed = allocations.reduce(
+          (sum, allocation) => sum + allocation.amount,
+          0
+        );
+        const paidOut = payments.reduce(
+          (sum, payment) => sum + getSpendingAmount(payment),
+          0
+        );
+        const balance = roundCents(
+          fund.opening_balance + contributed - paidOut
+        );
+        const contribution = this.getContribution(
+          fund,
+          allocations[allocations.length - 1]
+        );
+        const lastPayment = payments
+          .filter((payment) => payment.type !== "REFUND")
+          .reduce<string | null>(
+            (latest, payment) =>
+              !latest || payment.date > latest ? payment.date : latest,
+            null
+          );
+
+        return {
+          budget_item_id: fund.id,
+          balance,
+          contributed: roundCents(contributed),
+          paid_out: roundCents(paidOut),
+          last_paid_out_on: lastPayment,
+          contribution,
+          projection: projectSinkingFund(fund, balance, contribution, today),
+        };
+      });
+    } catch (error) {
+      throw handleDatabaseError(error, "Failed to calculate sinking funds");
+    }
+  }
+
+  // The latest pay period's allocation sets the pace. Before the first
+  // allocation, a fixed fund is assumed to get its amount every cadence.
+  private getContribution(
+    fund: BudgetItem,
+    latest?: {
+      amount: number;
+      period: { start_date: string; end_date: string };
+    }
+  ): SinkingFundContribution {
+    if (latest) {
+      return {
+        amount: latest.amount,
+        period_days: getPeriodDays(latest.period),
+      };
+    }
+
+    return {
+      amount: fund.calc_type === "FIXED" ? fund.value : 0,
+      period_days: CADENCE_DAYS[fund.cadence],
+    };
+  }
+}
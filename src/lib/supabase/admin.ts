@@ -0,0 +1,20 @@
+import { createClient } from "@supabase/supabase-js";
+import type { Database } from "@/types/database";
+
+// Service role client for scheduled jobs. It bypasses row level security, so
+// it must only ever be created on the server.
+export function createAdminClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!serviceKey) {
+    throw new Error("SUPABASE_SERVICE_ROLE_KEY is not set");
+  }
+
+  return createClient<Database>(supabaseUrl, serviceKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
+}
@@ -27,3 +27,5 @@ export function createClient() {
 
   return createServerClient<Database>(supabaseUrl, supabaseKey, opts);
 }
+
+export type TypedSupabaseClient = ReturnType<typeof createClient>;
@@ -6,7 +6,26 @@ export interface BudgetTemplate {
   description: string;
   category: "starter" | "advanced" | "specialized" | "custom";
   icon: string;
-  items: Omit<BudgetItem, "id" | "user_id" | "created_at" | "updated_at">[];
+  // Template items start with the default rollover mode, no limits, no due
+  // dates and aren't sinking funds
+  items: Omit<
+    BudgetItem,
+    | "id"
+    | "user_id"
+    | "rollover_mode"
+    | "deducted_from_paycheck"
+    | "min_amount"
+    | "max_amount"
+    | "overflow_target_id"
+    | "due_date"
+    | "funding_strategy"
+    | "is_sinking_fund"
+    | "target_amount"
+    | "target_date"
+    | "opening_balance"
+    | "created_at"
+    | "updated_at"
+  >[];
   estimatedSetupTime: number; // in minutes
   targetAudience: string[];
   benefits: string[];
@@ -776,7 +795,23 @@ export function generateBudgetItemsFromTemplate(
   template: BudgetTemplate,
   userId: string,
   customizations?: Record<string, unknown>
-): Omit<BudgetItem, "id" | "created_at" | "updated_at">[] {
+): Omit<
+  BudgetItem,
+  | "id"
+  | "rollover_mode"
+  | "deducted_from_paycheck"
+  | "min_amount"
+  | "max_amount"
+  | "overflow_target_id"
+  | "due_date"
+  | "funding_strategy"
+  | "is_sinking_fund"
+  | "target_amount"
+  | "target_date"
+  | "opening_balance"
+  | "created_at"
+  | "updated_at"
+>[] {
   return template.items.map((item, index) => ({
     ...item,
     user_id: userId,
@@ -1,5 +1,6 @@
 import { Database } from "@/types/database";
 import type { BudgetItem, IncomeSource } from "@/types/database";
+import type { HouseholdDeposit, IncomeCadence } from "./pay-periods";
 
 // Re-export database types for convenience
 export type Allocation = Database["public"]["Tables"]["allocations"]["Row"];
@@ -18,6 +19,9 @@ export interface AllocationWithDetails extends Allocation {
     calc_type: Database["public"]["Enums"]["calc_type"];
     value: number;
     priority: number;
+    cadence?: Database["public"]["Enums"]["income_cadence"];
+    due_date?: string | null;
+    funding_strategy?: Database["public"]["Enums"]["bill_funding_strategy"];
   };
   pay_period?: {
     id: string;
@@ -37,16 +41,30 @@ export interface AllocationCalculationResult {
     percentage?: number;
     dependency_total?: number;
     pro_rated_factor?: number;
+    bounded_by?: "MIN" | "MAX";
+    overflow_amount?: number;
+    overflow_to?: string;
+    overflow_received?: number;
+    due_dates?: string[]; // Due dates funded in full by this period
     notes?: string;
   };
 }
 
-// Batch allocation calculation request
+// Combined income of a household pay period
+export interface HouseholdIncome {
+  cadence: IncomeCadence; // The household period cadence
+  deposits: HouseholdDeposit[];
+}
+
+// Batch allocation calculation request; household periods pass their
+// deposits instead of a single income source
 export interface AllocationCalculationRequest {
   pay_period_id: string;
   budget_items: BudgetItem[];
-  income_source: IncomeSource;
+  income_source?: IncomeSource;
+  household?: HouseholdIncome;
   pro_rate_factor?: number; // For partial pay periods
+  period?: { start_date: string; end_date: string }; // Looked up when omitted
 }
 
 // Allocation calculation response
@@ -79,6 +97,8 @@ export interface AllocationBatchCreate {
     budget_item_id: string;
     expected_amount: number;
     status?: AllocationStatus;
+    carried_in?: number;
+    carried_out?: number;
   }>;
 }
 
@@ -0,0 +1,37 @@
+import type {
+  Database,
+  DebtAccount,
+  DebtPayoffPriority,
+} from "@/types/database";
+
+// Re-export database types
+export type { DebtAccount, DebtPayoffPriority };
+
+// Database operation types
+export type DebtAccountInsert =
+  Database["public"]["Tables"]["debt_accounts"]["Insert"];
+export type DebtAccountUpdate =
+  Database["public"]["Tables"]["debt_accounts"]["Update"];
+
+// Debt account creation/update data
+export interface DebtAccountFormData {
+  name: string;
+  balance: number;
+  apr: number;
+  minimum_payment: number;
+  budget_item_id: string | null;
+  payoff_order: number;
+}
+
+// Debt account with the budget item that pays it
+export interface DebtAccountWithBudgetItem extends DebtAccount {
+  budget_item_name: string | null;
+}
+
+// A user's debts and payoff plan
+export interface DebtOverview {
+  accounts: DebtAccountWithBudgetItem[];
+  priority: DebtPayoffPriority;
+  // What the linked fixed budget items set aside each month, all together
+  budgeted_monthly: number;
+}
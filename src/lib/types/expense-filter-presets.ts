@@ -0,0 +1,17 @@
+import type {
+  Database,
+  ExpenseFilterPreset as ExpenseFilterPresetRow,
+} from "@/types/database";
+import type { ExpenseFilters } from "./expenses";
+
+// Database operation types
+export type ExpenseFilterPresetInsert =
+  Database["public"]["Tables"]["expense_filter_presets"]["Insert"];
+export type ExpenseFilterPresetUpdate =
+  Database["public"]["Tables"]["expense_filter_presets"]["Update"];
+
+// A saved preset with its stored filters parsed
+export interface ExpenseFilterPreset
+  extends Omit<ExpenseFilterPresetRow, "filters"> {
+  filters: ExpenseFilters;
+}
@@ -0,0 +1,52 @@
+import type { Database, ExpenseRule } from "@/types/database";
+import type { Expense, ExpenseCreateData } from "./expenses";
+
+// Re-export database types
+export type { ExpenseRule };
+
+// Database operation types
+export type ExpenseRuleInsert =
+  Database["public"]["Tables"]["expense_rules"]["Insert"];
+export type ExpenseRuleUpdate =
+  Database["public"]["Tables"]["expense_rules"]["Update"];
+
+// Rule creation/update data (conditions are ANDed; unset ones are ignored)
+export interface ExpenseRuleFormData {
+  name: string;
+  priority: number;
+  is_active: boolean;
+  description_contains: string | null;
+  description_regex: string | null;
+  min_amount: number | null;
+  max_amount: number | null;
+  set_category: string | null;
+  set_budget_item_id: string | null;
+  set_budget_payment: boolean;
+}
+
+// Fields a rule can fill in on an expense
+export interface ExpenseRuleChanges {
+  category?: string;
+  budget_item_id?: string;
+  type?: ExpenseCreateData["type"];
+}
+
+// Result of running the rules over a new expense
+export interface ExpenseRuleApplication {
+  expense: ExpenseCreateData;
+  applied_rule_ids: string[];
+}
+
+// An existing expense matched by a rule preview
+export interface ExpenseRulePreviewMatch {
+  expense: Expense;
+  changes: ExpenseRuleChanges; // Only fields whose value would differ
+}
+
+// Result of testing a rule against recent expenses
+export interface ExpenseRulePreview {
+  start_date: string;
+  end_date: string;
+  scanned_count: number;
+  matches: ExpenseRulePreviewMatch[];
+}
@@ -4,10 +4,12 @@ import type {
   ExpenseType,
   PayPeriod,
   BudgetItem,
+  ImportProfile,
+  ImportAmountSign,
 } from "@/types/database";
 
 // Re-export database types
-export type { Expense, ExpenseType };
+export type { Expense, ExpenseType, ImportProfile, ImportAmountSign };
 
 // Database operation types
 export type ExpenseInsert = Database["public"]["Tables"]["expenses"]["Insert"];
@@ -17,6 +19,7 @@ export type ExpenseUpdate = Database["public"]["Tables"]["expenses"]["Update"];
 export interface ExpenseWithDetails extends Expense {
   pay_period?: PayPeriod | null;
   budget_item?: BudgetItem | null;
+  refunded_amount?: number; // Total of refunds linked to this expense
 }
 
 // Expense creation data
@@ -28,6 +31,11 @@ export interface ExpenseCreateData {
   pay_period_id?: string | null;
   budget_item_id?: string | null;
   type?: ExpenseType;
+  external_id?: string; // Statement transaction ID, e.g. OFX FITID
+  raw_data?: Record<string, unknown>; // Statement row it was imported from
+  refund_of_expense_id?: string | null; // Expense a REFUND reverses
+  tags?: string[];
+  notes?: string | null;
 }
 
 // Expense update data
@@ -39,6 +47,26 @@ export interface ExpenseUpdateData {
   pay_period_id?: string | null;
   budget_item_id?: string | null;
   type?: ExpenseType;
+  tags?: string[];
+  notes?: string | null;
+}
+
+// How much of an expense has been refunded
+export type RefundStatus = "NONE" | "PARTIAL" | "FULL";
+
+// One line of a split expense
+export interface ExpenseSplitLine {
+  description: string;
+  amount: number;
+  category: string;
+  budget_item_id?: string | null;
+  type?: ExpenseType;
+}
+
+// A split transaction and the lines its amount is divided into
+export interface SplitExpense {
+  parent: Expense;
+  lines: Expense[];
 }
 
 // Expense filtering options
@@ -51,14 +79,16 @@ export interface ExpenseFilters {
   type?: ExpenseType;
   pay_period_id?: string;
   budget_item_id?: string;
-  search?: string; // Search in description
+  search?: string; // Full-text search in description and notes
+  tag?: string;
 }
 
 // Expense summary data
 export interface ExpenseSummary {
   total_expenses: number;
   total_budget_payments: number;
-  total_amount: number;
+  total_refunds: number;
+  total_amount: number; // Net of refunds
   expense_count: number;
   categories: ExpenseCategorySummary[];
   monthly_totals: MonthlyExpenseSummary[];
@@ -88,6 +118,7 @@ export interface ExpenseValidationResult {
   warnings: string[];
   is_duplicate?: boolean;
   duplicate_expense_id?: string;
+  duplicate_match?: DuplicateMatch;
 }
 
 // Expense analytics data
@@ -112,6 +143,23 @@ export interface CategoryBreakdown {
   variance?: number;
 }
 
+// Spending under one tag, across categories and pay periods
+export interface TagBreakdown {
+  tag: string;
+  amount: number; // Net of refunds
+  expense_count: number;
+  categories: string[];
+  pay_period_count: number;
+  first_date: string;
+  last_date: string;
+}
+
+// A tag the user has used, for suggestions
+export interface TagUsage {
+  tag: string;
+  count: number;
+}
+
 export interface BudgetVsActual {
   budget_item_name: string;
   category: string;
@@ -137,6 +185,35 @@ export interface DuplicateDetectionOptions {
   check_category?: boolean; // Default: true
 }
 
+// How closely a candidate matched an expense, for explaining duplicates
+export interface DuplicateScoreBreakdown {
+  description_score: number; // Best of the two scores below, 0-1
+  token_set_score: number; // Shared words regardless of order, 0-1
+  edit_distance_score: number; // Character-level closeness, 0-1
+  amount_difference: number;
+  date_difference_days: number;
+  category_match: boolean | null; // null when categories are not compared
+  overall_score: number; // Weighted summary for display, 0-1
+  is_match: boolean;
+}
+
+// Where a duplicate was found
+export type DuplicateSource = "existing" | "file" | "external_id";
+
+export interface DuplicateMatch {
+  source: DuplicateSource;
+  expense_id?: string; // Matched expense for "existing" and "external_id"
+  file_row?: number; // 1-based row in the same batch for "file"
+  score: DuplicateScoreBreakdown | null; // null for external ID matches
+}
+
+// Duplicate check result for one row of a bulk check
+export interface BulkDuplicateCheckResult {
+  expense: ExpenseCreateData;
+  validation: ExpenseValidationResult;
+  duplicateExpense?: Expense;
+}
+
 // Batch expense operations
 export interface ExpenseBatchCreate {
   expenses: ExpenseCreateData[];
@@ -161,6 +238,7 @@ export interface ExpenseImportData {
   amount: number;
   date: string;
   category?: string;
+  external_id?: string;
   raw_data?: Record<string, unknown>;
 }
 
@@ -175,3 +253,53 @@ export interface ExpenseImportResult {
     data: ExpenseImportData;
   }>;
 }
+
+// CSV import settings
+export type CsvDelimiter = "," | ";" | "\t" | "|";
+
+export type CsvDateFormat =
+  | "YYYY-MM-DD"
+  | "MM/DD/YYYY"
+  | "DD/MM/YYYY"
+  | "MM/DD/YY"
+  | "DD/MM/YY"
+  | "YYYY/MM/DD"
+  | "DD.MM.YYYY";
+
+// Column index for each importable field (null when the CSV lacks it)
+export interface CsvColumnMapping {
+  date: number | null;
+  description: number | null;
+  amount: number | null;
+  debit: number | null;
+  credit: number | null;
+  category: number | null;
+}
+
+export interface CsvImportSettings {
+  delimiter: CsvDelimiter;
+  date_format: CsvDateFormat;
+  amount_sign: ImportAmountSign;
+  has_header: boolean;
+  column_mapping: CsvColumnMapping;
+}
+
+// Parsed CSV file before any mapping is applied
+export interface ParsedCsvFile {
+  headers: string[];
+  rows: string[][];
+  settings: CsvImportSettings;
+}
+
+// Supported statement file formats
+export type StatementFormat = "csv" | "ofx" | "qif";
+
+// Result of turning a statement file into expense rows
+export interface StatementParseResult {
+  rows: ExpenseImportData[];
+  skipped_count: number; // Credits/deposits that are not expenses
+  errors: ExpenseImportResult["errors"];
+}
+
+export type ImportProfileInsert =
+  Database["public"]["Tables"]["import_profiles"]["Insert"];
@@ -0,0 +1,67 @@
+import type {
+  Database,
+  IncomeDeposit as IncomeDepositRow,
+  PayPeriod,
+} from "@/types/database";
+import type {
+  DepositFunding,
+  DepositFundingResult,
+  FundingTarget,
+} from "../../../supabase/functions/_shared/deposit-funding";
+
+// Re-export the shared funding types
+export type { DepositFunding, DepositFundingResult, FundingTarget };
+
+// Database operation types
+export type IncomeDepositInsert =
+  Database["public"]["Tables"]["income_deposits"]["Insert"];
+
+// Income deposit with its fundings parsed from JSON
+export interface IncomeDeposit extends Omit<IncomeDepositRow, "fundings"> {
+  fundings: DepositFunding[];
+}
+
+// Deposit with the name of the income source that paid it
+export interface IncomeDepositWithSource extends IncomeDeposit {
+  income_source_name: string;
+}
+
+// Deposit logging form data
+export interface IncomeDepositFormData {
+  income_source_id: string;
+  deposit_date: string;
+  amount: number;
+  notes?: string | null;
+}
+
+// Request to fund a pay period's allocations from one deposit
+export interface DepositFundingRequest {
+  pay_period_id: string;
+  deposit_amount: number;
+  targets: FundingTarget[];
+}
+
+// Deposit funding response from the allocation engine
+export interface DepositFundingResponse extends DepositFundingResult {
+  success: boolean;
+  pay_period_id: string;
+}
+
+// Result of logging a deposit
+export interface LoggedDeposit {
+  deposit: IncomeDeposit;
+  pay_period: PayPeriod;
+}
+
+// Income received in one calendar month
+export interface MonthlyIncomeTotal {
+  month: string; // YYYY-MM
+  total: number;
+}
+
+// Baseline month for budgeting variable income, from trailing deposit history
+export interface BaselineMonth {
+  baseline: number | null; // The lowest recent month; null without history
+  average: number | null;
+  months: MonthlyIncomeTotal[]; // Complete months considered, oldest first
+}
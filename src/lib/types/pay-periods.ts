@@ -1,4 +1,5 @@
 import { Database } from "@/types/database";
+import type { RecurringPostingResult } from "./recurring-expenses";
 
 // Re-export database types for convenience
 export type PayPeriod = Database["public"]["Tables"]["pay_periods"]["Row"];
@@ -8,6 +9,21 @@ export type PayPeriodUpdate =
   Database["public"]["Tables"]["pay_periods"]["Update"];
 export type PayPeriodStatus = Database["public"]["Enums"]["pay_period_status"];
 export type IncomeCadence = Database["public"]["Enums"]["income_cadence"];
+export type BudgetMode = Database["public"]["Enums"]["budget_mode"];
+export type PayPeriodDeposit =
+  Database["public"]["Tables"]["pay_period_deposits"]["Row"];
+export type PayPeriodDepositInsert =
+  Database["public"]["Tables"]["pay_period_deposits"]["Insert"];
+export type PeriodCompletionPolicy =
+  Database["public"]["Enums"]["period_completion_policy"];
+export type PayPeriodJobLog =
+  Database["public"]["Tables"]["pay_period_job_log"]["Row"];
+export type PayPeriodJobLogInsert =
+  Database["public"]["Tables"]["pay_period_job_log"]["Insert"];
+export type PayPeriodSnapshotRow =
+  Database["public"]["Tables"]["pay_period_snapshots"]["Row"];
+export type PayPeriodSnapshotInsert =
+  Database["public"]["Tables"]["pay_period_snapshots"]["Insert"];
 
 // Extended types for the frontend
 export interface PayPeriodWithDetails extends PayPeriod {
@@ -41,6 +57,76 @@ export interface PayPeriodGenerationConfig {
   expected_net: number;
 }
 
+// Household budgeting settings, stored on the user
+export interface HouseholdBudgetSettings {
+  budget_mode: BudgetMode;
+  household_cadence: IncomeCadence;
+  household_start_date: string | null; // Weekly and bi-weekly windows count from here
+}
+
+// A budget item as it stood when its pay period completed
+export interface PayPeriodSnapshotItem {
+  allocation_id: string;
+  budget_item_id: string; // May no longer exist
+  name: string;
+  category: Database["public"]["Enums"]["budget_category"];
+  calc_type: Database["public"]["Enums"]["calc_type"];
+  value: number;
+  expected_amount: number;
+  actual_amount: number | null;
+  status: "PAID" | "UNPAID";
+  carried_in: number;
+  carried_out: number;
+}
+
+// Frozen budget and income figures of a completed pay period
+export interface PayPeriodSnapshot extends Omit<PayPeriodSnapshotRow, "items"> {
+  items: PayPeriodSnapshotItem[];
+}
+
+// One action taken by the scheduled rollover job for a user
+export type PayPeriodJobEntry = Omit<PayPeriodJobLogInsert, "run_id" | "as_of">;
+
+// Summary of one run of the scheduled rollover job
+export interface PayPeriodRolloverResult {
+  run_id: string;
+  as_of: string; // The date the job treated as today
+  users_processed: number;
+  created: number;
+  completed: number;
+  failed: number;
+  actions: PayPeriodJobEntry[];
+}
+
+// A paycheck landing in a household period's date window
+export interface HouseholdDeposit {
+  income_source_id: string;
+  pay_date: string;
+  expected_net: number;
+  gross_amount: number;
+}
+
+// Dates and expected paychecks of the next household period
+export interface HouseholdPayPeriodCalculation {
+  start_date: string;
+  end_date: string;
+  expected_net: number;
+  deposits: HouseholdDeposit[];
+}
+
+// Deposit with the name of the income source that pays it
+export interface PayPeriodDepositWithSource extends PayPeriodDeposit {
+  income_source_name: string;
+}
+
+// Pay date rules for an income source
+export interface PayScheduleConfig {
+  anchor_days?: number[] | null; // Days of the month; 31 means the last day
+  business_day_adjustment?: Database["public"]["Enums"]["business_day_adjustment"];
+  holiday_calendar?: Database["public"]["Enums"]["holiday_calendar"];
+  income_start_date?: string; // Weekly and bi-weekly pay dates count from here
+}
+
 // Pay period calculation results
 export interface PayPeriodCalculation {
   start_date: Date;
@@ -53,6 +139,7 @@ export interface PayPeriodCalculation {
 export interface PayPeriodGenerationResult {
   success: boolean;
   pay_period?: PayPeriod;
+  recurring_expenses?: RecurringPostingResult; // Posted into the new period
   error?: string;
   message?: string;
 }
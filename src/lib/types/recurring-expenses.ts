@@ -0,0 +1,70 @@
+import type {
+  Database,
+  IncomeCadence,
+  RecurrenceIntervalUnit,
+  RecurringExpense,
+  RecurringExpenseOccurrence,
+  RecurringOccurrenceStatus,
+} from "@/types/database";
+
+// Re-export database types
+export type {
+  RecurringExpense,
+  RecurringExpenseOccurrence,
+  RecurrenceIntervalUnit,
+  RecurringOccurrenceStatus,
+};
+
+// Database operation types
+export type RecurringExpenseInsert =
+  Database["public"]["Tables"]["recurring_expenses"]["Insert"];
+export type RecurringExpenseUpdate =
+  Database["public"]["Tables"]["recurring_expenses"]["Update"];
+export type RecurringExpenseOccurrenceInsert =
+  Database["public"]["Tables"]["recurring_expense_occurrences"]["Insert"];
+
+// The fields that decide when a recurring expense occurs
+export type RecurrenceSchedule = Pick<
+  RecurringExpense,
+  | "cadence"
+  | "interval_count"
+  | "interval_unit"
+  | "start_date"
+  | "next_date"
+  | "end_date"
+>;
+
+// Recurring expense creation/update data. Set either cadence or a custom
+// interval (interval_count + interval_unit).
+export interface RecurringExpenseFormData {
+  description: string;
+  amount: number;
+  category: string;
+  budget_item_id: string | null;
+  cadence: IncomeCadence | null;
+  interval_count: number | null;
+  interval_unit: RecurrenceIntervalUnit | null;
+  start_date: string;
+  end_date: string | null;
+  auto_post: boolean; // false creates drafts to confirm
+  is_active: boolean;
+}
+
+// A future occurrence for display; SCHEDULED means nothing is recorded yet
+export interface UpcomingOccurrence {
+  recurring_expense: RecurringExpense;
+  date: string;
+  status: RecurringOccurrenceStatus | "SCHEDULED";
+}
+
+// A drafted occurrence awaiting confirmation
+export interface PendingRecurringExpense extends RecurringExpenseOccurrence {
+  recurring_expense: RecurringExpense;
+}
+
+// What posting recurring expenses into a pay period did
+export interface RecurringPostingResult {
+  posted_count: number;
+  draft_count: number;
+  skipped_count: number;
+}
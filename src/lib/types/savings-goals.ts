@@ -0,0 +1,41 @@
+import type { Database, IncomeCadence, SavingsGoal } from "@/types/database";
+
+// Re-export database types
+export type { SavingsGoal };
+
+// Database operation types
+export type SavingsGoalInsert =
+  Database["public"]["Tables"]["savings_goals"]["Insert"];
+export type SavingsGoalUpdate =
+  Database["public"]["Tables"]["savings_goals"]["Update"];
+
+// Savings goal creation/update data
+export interface SavingsGoalFormData {
+  name: string;
+  target_amount: number;
+  target_date: string;
+  current_balance: number;
+  budget_item_id: string | null;
+  priority: number;
+}
+
+// COMPLETE has reached its target; BEHIND won't by the target date at the
+// linked budget item's current contribution
+export type SavingsGoalStatus = "COMPLETE" | "ON_TRACK" | "BEHIND";
+
+// How a goal is doing against the user's pay periods
+export interface SavingsGoalProgress {
+  status: SavingsGoalStatus;
+  cadence: IncomeCadence; // The user's pay period cadence
+  remaining_amount: number;
+  periods_remaining: number; // Pay periods left before the target date
+  required_per_period: number; // Contribution that reaches the target in time
+  planned_per_period: number; // What the linked budget item contributes now
+  percent_complete: number;
+}
+
+// Savings goal with its progress and linked budget item
+export interface SavingsGoalWithProgress extends SavingsGoal {
+  budget_item_name: string | null;
+  progress: SavingsGoalProgress;
+}
@@ -0,0 +1,38 @@
+import type { BudgetItem } from "@/types/database";
+
+// FUNDED already holds the target; ON_TRACK will by the target date at the
+// current contribution; BEHIND won't
+export type SinkingFundStatus = "FUNDED" | "ON_TRACK" | "BEHIND";
+
+// The fields that make a budget item a sinking fund
+export type SinkingFundTarget = Pick<
+  BudgetItem,
+  "target_amount" | "target_date" | "opening_balance"
+>;
+
+// What a fund is contributed each pay period, and how long a period lasts
+export interface SinkingFundContribution {
+  amount: number;
+  period_days: number;
+}
+
+// Where a fund is heading at its current contribution
+export interface SinkingFundProjection {
+  status: SinkingFundStatus;
+  periods_remaining: number; // Contributions still to come before the target date
+  projected_balance: number; // Balance on the target date
+  shortfall: number; // Missing from the target on the target date
+  required_per_period: number; // Contribution that would reach the target in time
+  full_by: string | null; // Date the target is reached, if it ever is
+}
+
+// A fund's running balance: opening balance plus allocations, less payouts
+export interface SinkingFundBalance {
+  budget_item_id: string;
+  balance: number;
+  contributed: number; // Allocated in pay periods that have started
+  paid_out: number; // Paid from the fund, less refunds
+  last_paid_out_on: string | null;
+  contribution: SinkingFundContribution;
+  projection: SinkingFundProjection;
+}
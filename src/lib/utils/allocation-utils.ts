@@ -5,7 +5,7 @@ import type {
   AllocationCalculationRequest,
   AllocationCalculationResponse,
 } from "@/lib/types/allocations";
-import type { BudgetItem, IncomeSource } from "@/types/database";
+import type { BudgetItem } from "@/types/database";
 
 const payPeriodService = new PayPeriodService();
 const allocationService = new AllocationService();
@@ -24,23 +24,16 @@ export async function generateAllocationsForPayPeriod(
   error?: string;
 }> {
   try {
-    // Get pay period with income source details
-    const payPeriod = await payPeriodService.getPayPeriodWithDetails(
+    // Get the pay period's income source, or household deposits
+    const income = await payPeriodService.getAllocationIncome(
       payPeriodId,
       userId
     );
 
-    if (!payPeriod) {
+    if (!income) {
       return {
         success: false,
-        error: "Pay period not found",
-      };
-    }
-
-    if (!payPeriod.income_source) {
-      return {
-        success: false,
-        error: "Income source not found for pay period",
+        error: "Income not found for pay period",
       };
     }
 
@@ -58,7 +51,7 @@ export async function generateAllocationsForPayPeriod(
     const request: AllocationCalculationRequest = {
       pay_period_id: payPeriodId,
       budget_items: budgetItems,
-      income_source: payPeriod.income_source as IncomeSource,
+      ...income,
       pro_rate_factor: proRateFactor,
     };
 
@@ -100,23 +93,16 @@ export async function previewAllocations(
   error?: string;
 }> {
   try {
-    // Get pay period with income source details
-    const payPeriod = await payPeriodService.getPayPeriodWithDetails(
+    // Get the pay period's income source, or household deposits
+    const income = await payPeriodService.getAllocationIncome(
       payPeriodId,
       userId
     );
 
-    if (!payPeriod) {
-      return {
-        success: false,
-        error: "Pay period not found",
-      };
-    }
-
-    if (!payPeriod.income_source) {
+    if (!income) {
       return {
         success: false,
-        error: "Income source not found for pay period",
+        error: "Income not found for pay period",
       };
     }
 
@@ -134,7 +120,7 @@ export async function previewAllocations(
     const request: AllocationCalculationRequest = {
       pay_period_id: payPeriodId,
       budget_items: items,
-      income_source: payPeriod.income_source as IncomeSource,
+      ...income,
       pro_rate_factor: proRateFactor,
     };
 
@@ -1,4 +1,8 @@
-import type { IncomeCadence } from "@/types/database";
+import type {
+  BusinessDayAdjustment,
+  HolidayCalendar,
+  IncomeCadence,
+} from "@/types/database";
 
 /**
  * Format income cadence for display
@@ -60,3 +64,31 @@ export function getPayPeriodsPerYear(cadence: IncomeCadence): number {
       return 12;
   }
 }
+
+/**
+ * Get business day adjustment options for form select
+ */
+export function getBusinessDayAdjustmentOptions(): Array<{
+  value: BusinessDayAdjustment;
+  label: string;
+}> {
+  return [
+    { value: "NONE", label: "Keep the date" },
+    { value: "PREVIOUS", label: "Move to the business day before" },
+    { value: "NEXT", label: "Move to the business day after" },
+  ];
+}
+
+/**
+ * Get holiday calendar options for form select
+ */
+export function getHolidayCalendarOptions(): Array<{
+  value: HolidayCalendar;
+  label: string;
+}> {
+  return [
+    { value: "NONE", label: "Weekends only" },
+    { value: "US_FEDERAL", label: "US federal holidays" },
+    { value: "US_BANK", label: "US bank holidays (Federal Reserve)" },
+  ];
+}
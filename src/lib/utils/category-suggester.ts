@@ -0,0 +1,150 @@
+import {
+  EXPENSE_CATEGORIES,
+  EXPENSE_CATEGORY_LIST,
+  type ExpenseCategoryKey,
+} from "@/lib/constants/expense-categories";
+import type { Expense } from "@/lib/types/expenses";
+
+// Token counts per category learned from a user's past expenses
+export interface CategoryModel {
+  expense_count: number;
+  category_counts: Record<string, number>;
+  token_counts: Record<string, Record<string, number>>;
+  category_token_totals: Record<string, number>;
+}
+
+export interface CategorySuggestion {
+  category: string; // Display value, e.g. "Fuel"
+  confidence: number; // 0-1, share of the probability mass
+}
+
+// Words that say nothing about the category
+const STOP_WORDS = new Set([
+  "the",
+  "and",
+  "for",
+  "of",
+  "to",
+  "at",
+  "in",
+  "on",
+  "pos",
+  "purchase",
+  "debit",
+  "card",
+  "payment",
+  "www",
+  "com",
+]);
+
+/**
+ * Split a description into lowercase word tokens, dropping numbers (store and
+ * reference numbers) and very short or common words
+ */
+export function tokenizeDescription(description: string): string[] {
+  const tokens = description
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(
+      (token) =>
+        token.length >= 2 && !/^\d+$/.test(token) && !STOP_WORDS.has(token)
+    );
+
+  return Array.from(new Set(tokens));
+}
+
+/**
+ * The display value of a stored category key, or null for unknown keys
+ */
+export function toCategoryDisplayName(category: string): string | null {
+  return Object.keys(EXPENSE_CATEGORIES).includes(category)
+    ? EXPENSE_CATEGORIES[category as ExpenseCategoryKey]
+    : null;
+}
+
+/**
+ * Count tokens per category across a user's categorized expenses.
+ * Uncategorized expenses are ignored since they teach nothing.
+ */
+export function trainCategoryModel(
+  expenses: Array<Pick<Expense, "description" | "category">>
+): CategoryModel {
+  const model: CategoryModel = {
+    expense_count: 0,
+    category_counts: {},
+    token_counts: {},
+    category_token_totals: {},
+  };
+
+  expenses.forEach((expense) => {
+    const category = toCategoryDisplayName(expense.category);
+    if (!category || category === EXPENSE_CATEGORIES.UNCATEGORIZED) return;
+
+    const tokens = tokenizeDescription(expense.description);
+    if (tokens.length === 0) return;
+
+    model.expense_count++;
+    model.category_counts[category] =
+      (model.category_counts[category] || 0) + 1;
+
+    tokens.forEach((token) => {
+      const counts = (model.token_counts[token] ||= {});
+      counts[category] = (counts[category] || 0) + 1;
+      model.category_token_totals[category] =
+        (model.category_token_totals[category] || 0) + 1;
+    });
+  });
+
+  return model;
+}
+
+/**
+ * Rank categories for a description with a naive Bayes classifier over the
+ * trained token counts (Laplace smoothed). Only tokens seen in training
+ * count, so an empty list means there is no relevant history and callers
+ * should fall back to the standard category order. Ties resolve in
+ * EXPENSE_CATEGORIES order, keeping results deterministic.
+ */
+export function suggestCategories(
+  model: CategoryModel,
+  description: string,
+  options: { limit?: number; minConfidence?: number } = {}
+): CategorySuggestion[] {
+  const { limit = 3, minConfidence = 0.1 } = options;
+
+  const tokens = tokenizeDescription(description).filter(
+    (token) => model.token_counts[token]
+  );
+  if (tokens.length === 0 || model.expense_count === 0) return [];
+
+  const vocabularySize = Object.keys(model.token_counts).length;
+  const categories = EXPENSE_CATEGORY_LIST.filter(
+    (category) => model.category_counts[category]
+  );
+
+  const logScores = categories.map((category) => {
+    let score = Math.log(model.category_counts[category] / model.expense_count);
+    const tokenTotal = model.category_token_totals[category] || 0;
+
+    tokens.forEach((token) => {
+      const count = model.token_counts[token][category] || 0;
+      score += Math.log((count + 1) / (tokenTotal + vocabularySize));
+    });
+
+    return score;
+  });
+
+  // Normalise log scores into probabilities without underflow
+  const maxScore = Math.max(...logScores);
+  const weights = logScores.map((score) => Math.exp(score - maxScore));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  return categories
+    .map((category, index) => ({
+      category,
+      confidence: weights[index] / totalWeight,
+    }))
+    .filter((suggestion) => suggestion.confidence >= minConfidence)
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit);
+}
@@ -0,0 +1,541 @@
+import type {
+  CsvColumnMapping,
+  CsvDateFormat,
+  CsvDelimiter,
+  CsvImportSettings,
+  StatementParseResult,
+  ExpenseImportData,
+  ImportAmountSign,
+  ParsedCsvFile,
+} from "@/lib/types/expenses";
+import { EXPENSE_CATEGORY_LIST } from "@/lib/constants/expense-categories";
+
+export const CSV_DELIMITERS: CsvDelimiter[] = [",", ";", "\t", "|"];
+
+export const CSV_DATE_FORMATS: CsvDateFormat[] = [
+  "YYYY-MM-DD",
+  "MM/DD/YYYY",
+  "DD/MM/YYYY",
+  "MM/DD/YY",
+  "DD/MM/YY",
+  "YYYY/MM/DD",
+  "DD.MM.YYYY",
+];
+
+// Number of rows sampled when auto-detecting settings
+const DETECTION_SAMPLE_SIZE = 20;
+
+// Header keywords used to guess which column holds which field
+const COLUMN_KEYWORDS: Record<keyof CsvColumnMapping, string[]> = {
+  date: ["transaction date", "posted date", "posting date", "date"],
+  description: [
+    "description",
+    "payee",
+    "merchant",
+    "name",
+    "memo",
+    "details",
+    "narrative",
+  ],
+  amount: ["amount", "value", "transaction amount"],
+  debit: ["debit", "withdrawal", "money out", "paid out"],
+  credit: ["credit", "deposit", "money in", "paid in"],
+  category: ["category", "type"],
+};
+
+/**
+ * Split CSV text into rows of cells, honouring quoted fields (RFC 4180)
+ */
+export function parseCsvText(
+  text: string,
+  delimiter: CsvDelimiter
+): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark if the bank added one
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      row.push(cell.trim());
+      if (row.some((value) => value !== "")) {
+        rows.push(row);
+      }
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  // Flush the final row when the file has no trailing newline
+  row.push(cell.trim());
+  if (row.some((value) => value !== "")) {
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Pick the delimiter that splits the first lines into the most consistent,
+ * widest set of columns
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const sample = text.split(/\r?\n/).slice(0, DETECTION_SAMPLE_SIZE).join("\n");
+
+  let best: CsvDelimiter = ",";
+  let bestScore = 0;
+
+  for (const delimiter of CSV_DELIMITERS) {
+    const rows = parseCsvText(sample, delimiter);
+    if (rows.length === 0) continue;
+
+    const widths = rows.map((row) => row.length);
+    const width = widths[0];
+    if (width < 2) continue;
+
+    const consistent = widths.filter((w) => w === width).length / rows.length;
+    const score = consistent * width;
+
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Parse a bank-formatted amount such as "$1,234.56", "(12.00)", "12.00-" or
+ * "1.234,56" into a signed number
+ */
+export function parseAmount(value: string): number | null {
+  let cleaned = value.trim();
+  if (!cleaned) return null;
+
+  let negative = false;
+
+  if (/^\(.*\)$/.test(cleaned)) {
+    negative = true;
+    cleaned = cleaned.slice(1, -1);
+  }
+  if (cleaned.endsWith("-")) {
+    negative = true;
+    cleaned = cleaned.slice(0, -1);
+  }
+  if (cleaned.startsWith("-")) {
+    negative = !negative;
+    cleaned = cleaned.slice(1);
+  }
+  if (cleaned.startsWith("+")) {
+    cleaned = cleaned.slice(1);
+  }
+
+  cleaned = cleaned.replace(/[$€£\s]/g, "").replace(/^(USD|EUR|GBP)/i, "");
+
+  // Treat "1.234,56" and "12,50" as comma-decimal notation
+  if (/^\d{1,3}(\.\d{3})*,\d{1,2}$/.test(cleaned)) {
+    cleaned = cleaned.replace(/\./g, "").replace(",", ".");
+  } else {
+    cleaned = cleaned.replace(/,/g, "");
+  }
+
+  if (!/^\d*\.?\d+$/.test(cleaned)) return null;
+
+  const amount = parseFloat(cleaned);
+  if (isNaN(amount)) return null;
+
+  return negative ? -amount : amount;
+}
+
+/**
+ * Parse a date string in the given format into an ISO date (YYYY-MM-DD)
+ */
+export function parseDateWithFormat(
+  value: string,
+  format: CsvDateFormat
+): string | null {
+  const yearFirst = format.startsWith("YYYY");
+  const separator = format[yearFirst ? 4 : 2];
+  const trimmed = value.trim().split(/[\sT]/)[0];
+  const parts = trimmed.split(separator);
+  if (parts.length !== 3) return null;
+
+  const expectsShortYear = format.endsWith("/YY");
+  const yearLength = parts[yearFirst ? 0 : 2].length;
+  if (expectsShortYear ? yearLength !== 2 : yearLength !== 4) return null;
+
+  let [year, month, day] = [0, 0, 0];
+  switch (format) {
+    case "YYYY-MM-DD":
+    case "YYYY/MM/DD":
+      [year, month, day] = parts.map(Number);
+      break;
+    case "MM/DD/YYYY":
+    case "MM/DD/YY":
+      [month, day, year] = parts.map(Number);
+      break;
+    case "DD/MM/YYYY":
+    case "DD/MM/YY":
+    case "DD.MM.YYYY":
+      [day, month, year] = parts.map(Number);
+      break;
+  }
+
+  // Two-digit years pivot at 70 (e.g. 69 -> 2069, 70 -> 1970)
+  if (expectsShortYear) {
+    year += year < 70 ? 2000 : 1900;
+  }
+
+  if ([year, month, day].some((n) => isNaN(n))) return null;
+  if (month < 1 || month > 12 || day < 1) return null;
+
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day > daysInMonth) return null;
+
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(
+    2,
+    "0"
+  )}`;
+}
+
+/**
+ * Choose the date format that parses the most sampled values, so a stray
+ * malformed row does not defeat detection. Ties (e.g. all days <= 12) resolve
+ * to the earlier format in CSV_DATE_FORMATS.
+ */
+export function detectDateFormat(values: string[]): CsvDateFormat | null {
+  const sample = values
+    .map((value) => value.trim())
+    .filter((value) => value !== "")
+    .slice(0, DETECTION_SAMPLE_SIZE);
+
+  if (sample.length === 0) return null;
+
+  let best: CsvDateFormat | null = null;
+  let bestCount = 0;
+
+  for (const format of CSV_DATE_FORMATS) {
+    const count = sample.filter(
+      (value) => parseDateWithFormat(value, format) !== null
+    ).length;
+    if (count > bestCount) {
+      best = format;
+      bestCount = count;
+    }
+  }
+
+  // Require a majority so free-text columns are not mistaken for dates
+  return bestCount * 2 > sample.length ? best : null;
+}
+
+/**
+ * Guess whether the first row is a header by checking that none of its cells
+ * look like a date or an amount
+ */
+export function detectHasHeader(firstRow: string[]): boolean {
+  return firstRow.every(
+    (cell) => parseAmount(cell) === null && detectDateFormat([cell]) === null
+  );
+}
+
+/**
+ * Guess the column mapping from header names, falling back to the shape of
+ * the data when the file has no header row
+ */
+export function detectColumnMapping(
+  headers: string[],
+  rows: string[][]
+): CsvColumnMapping {
+  const mapping: CsvColumnMapping = {
+    date: null,
+    description: null,
+    amount: null,
+    debit: null,
+    credit: null,
+    category: null,
+  };
+  const used = new Set<number>();
+  const normalized = headers.map((header) => header.trim().toLowerCase());
+
+  // Match exact header names first, then partial matches
+  for (const exact of [true, false]) {
+    for (const field of Object.keys(COLUMN_KEYWORDS) as Array<
+      keyof CsvColumnMapping
+    >) {
+      if (mapping[field] !== null) continue;
+
+      for (const keyword of COLUMN_KEYWORDS[field]) {
+        const index = normalized.findIndex(
+          (header, i) =>
+            !used.has(i) &&
+            (exact ? header === keyword : header.includes(keyword))
+        );
+        if (index !== -1) {
+          mapping[field] = index;
+          used.add(index);
+          break;
+        }
+      }
+    }
+  }
+
+  const sample = rows.slice(0, DETECTION_SAMPLE_SIZE);
+  const columnCount = Math.max(headers.length, ...sample.map((r) => r.length));
+  const columnValues = (index: number) => sample.map((row) => row[index] || "");
+
+  // Fall back to content sniffing for anything the headers did not reveal
+  for (let i = 0; i < columnCount; i++) {
+    if (used.has(i)) continue;
+    const values = columnValues(i).filter((value) => value !== "");
+    if (values.length === 0) continue;
+
+    if (mapping.date === null && detectDateFormat(values) !== null) {
+      mapping.date = i;
+      used.add(i);
+    } else if (
+      mapping.amount === null &&
+      mapping.debit === null &&
+      values.every((value) => parseAmount(value) !== null)
+    ) {
+      mapping.amount = i;
+      used.add(i);
+    }
+  }
+
+  if (mapping.description === null) {
+    // Pick the unused column with the longest average text
+    let bestLength = 0;
+    for (let i = 0; i < columnCount; i++) {
+      if (used.has(i)) continue;
+      const values = columnValues(i);
+      const average =
+        values.reduce((sum, value) => sum + value.length, 0) /
+        Math.max(values.length, 1);
+      if (average > bestLength) {
+        bestLength = average;
+        mapping.description = i;
+      }
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Infer how the statement signs outgoing money. A file with separate debit and
+ * credit columns wins; otherwise the sign held by most rows is assumed to be
+ * spending, since statements are dominated by purchases.
+ */
+export function detectAmountSign(
+  rows: string[][],
+  mapping: CsvColumnMapping
+): ImportAmountSign {
+  if (mapping.debit !== null) {
+    return "DEBIT_CREDIT_COLUMNS";
+  }
+  if (mapping.amount === null) {
+    return "NEGATIVE_IS_EXPENSE";
+  }
+
+  let negative = 0;
+  let positive = 0;
+  for (const row of rows) {
+    const amount = parseAmount(row[mapping.amount] || "");
+    if (amount === null || amount === 0) continue;
+    if (amount < 0) negative++;
+    else positive++;
+  }
+
+  return positive > negative ? "POSITIVE_IS_EXPENSE" : "NEGATIVE_IS_EXPENSE";
+}
+
+/**
+ * Parse a CSV statement and auto-detect its delimiter, header row, column
+ * mapping, date format and sign convention
+ */
+export function parseCsvFile(text: string): ParsedCsvFile {
+  const delimiter = detectDelimiter(text);
+  const allRows = parseCsvText(text, delimiter);
+
+  const hasHeader = allRows.length > 0 && detectHasHeader(allRows[0]);
+  const headers = hasHeader
+    ? allRows[0]
+    : (allRows[0] || []).map((_, index) => `Column ${index + 1}`);
+  const rows = hasHeader ? allRows.slice(1) : allRows;
+
+  const columnMapping = detectColumnMapping(hasHeader ? headers : [], rows);
+  const dateValues =
+    columnMapping.date !== null
+      ? rows.map((row) => row[columnMapping.date as number] || "")
+      : [];
+
+  return {
+    headers,
+    rows,
+    settings: {
+      delimiter,
+      date_format: detectDateFormat(dateValues) || "YYYY-MM-DD",
+      amount_sign: detectAmountSign(rows, columnMapping),
+      has_header: hasHeader,
+      column_mapping: columnMapping,
+    },
+  };
+}
+
+/**
+ * Re-split the raw text after the user overrides the delimiter or header
+ * setting, keeping the rest of the settings
+ */
+export function reparseCsvFile(
+  text: string,
+  settings: CsvImportSettings
+): ParsedCsvFile {
+  const allRows = parseCsvText(text, settings.delimiter);
+  const headers = settings.has_header
+    ? allRows[0] || []
+    : (allRows[0] || []).map((_, index) => `Column ${index + 1}`);
+
+  return {
+    headers,
+    rows: settings.has_header ? allRows.slice(1) : allRows,
+    settings,
+  };
+}
+
+/**
+ * Match a free-text category from the statement to a known expense category
+ */
+export function matchExpenseCategory(value: string): string | undefined {
+  const normalized = value.trim().toLowerCase();
+  if (!normalized) return undefined;
+
+  return EXPENSE_CATEGORY_LIST.find(
+    (category) => category.toLowerCase() === normalized
+  );
+}
+
+/**
+ * Resolve the outgoing amount for a row, or null when the row is a credit
+ */
+function resolveExpenseAmount(
+  row: string[],
+  settings: CsvImportSettings
+): number | null | "invalid" {
+  const { column_mapping: mapping, amount_sign } = settings;
+
+  if (amount_sign === "DEBIT_CREDIT_COLUMNS") {
+    const debit = mapping.debit !== null ? row[mapping.debit] || "" : "";
+    if (debit.trim() === "") {
+      const credit = mapping.credit !== null ? row[mapping.credit] || "" : "";
+      return credit.trim() === "" ? "invalid" : null;
+    }
+    const amount = parseAmount(debit);
+    if (amount === null) return "invalid";
+    return amount === 0 ? null : Math.abs(amount);
+  }
+
+  if (mapping.amount === null) return "invalid";
+  const amount = parseAmount(row[mapping.amount] || "");
+  if (amount === null) return "invalid";
+
+  const outgoing =
+    amount_sign === "NEGATIVE_IS_EXPENSE" ? amount < 0 : amount > 0;
+  return outgoing ? Math.abs(amount) : null;
+}
+
+/**
+ * Apply the column mapping to parsed rows, producing ExpenseImportData with the
+ * original row preserved in raw_data. Row numbers in errors are 1-based and
+ * count the header row, so they match what the user sees in a spreadsheet.
+ */
+export function applyCsvMapping(
+  headers: string[],
+  rows: string[][],
+  settings: CsvImportSettings
+): StatementParseResult {
+  const { column_mapping: mapping } = settings;
+  const result: StatementParseResult = {
+    rows: [],
+    skipped_count: 0,
+    errors: [],
+  };
+  const rowOffset = settings.has_header ? 2 : 1;
+
+  rows.forEach((row, index) => {
+    const rawData: Record<string, unknown> = {};
+    headers.forEach((header, i) => {
+      rawData[header || `Column ${i + 1}`] = row[i] ?? "";
+    });
+
+    const description =
+      mapping.description !== null ? row[mapping.description] || "" : "";
+    const dateValue = mapping.date !== null ? row[mapping.date] || "" : "";
+    const date = parseDateWithFormat(dateValue, settings.date_format);
+    const amount = resolveExpenseAmount(row, settings);
+    const category =
+      mapping.category !== null
+        ? matchExpenseCategory(row[mapping.category] || "")
+        : undefined;
+
+    const data: ExpenseImportData = {
+      description: description.trim(),
+      amount: typeof amount === "number" ? amount : 0,
+      date: date || dateValue,
+      category,
+      raw_data: rawData,
+    };
+
+    if (amount === null) {
+      result.skipped_count++;
+      return;
+    }
+
+    const rowErrors: string[] = [];
+    if (!date) rowErrors.push(`Unrecognized date "${dateValue}"`);
+    if (amount === "invalid") rowErrors.push("Missing or invalid amount");
+    if (!data.description) rowErrors.push("Missing description");
+
+    if (rowErrors.length > 0) {
+      result.errors.push({
+        row: index + rowOffset,
+        error: rowErrors.join(", "),
+        data,
+      });
+      return;
+    }
+
+    result.rows.push(data);
+  });
+
+  return result;
+}
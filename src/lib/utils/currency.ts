@@ -10,6 +10,14 @@ export function formatCurrency(amount: number): string {
   }).format(amount);
 }
 
+/**
+ * Round to two decimal places: whole cents for amounts, hundredths for
+ * percentages and ratios
+ */
+export function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
 /**
  * Parse a currency string back to a number
  */
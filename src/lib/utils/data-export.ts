@@ -0,0 +1,153 @@
+import { roundCents } from "./currency";
+import { buildXlsxWorkbook, type XlsxCell } from "./xlsx-writer";
+
+export type ExportFormat = "csv" | "xlsx" | "json";
+
+export type ExportValue = XlsxCell;
+
+export interface ExportColumn {
+  key: string; // JSON field name
+  header: string; // CSV and spreadsheet column heading
+}
+
+export interface ExportSheet {
+  key: string;
+  name: string;
+  columns: ExportColumn[];
+  rows: Record<string, ExportValue>[];
+}
+
+export interface ExportFile {
+  filename: string;
+  blob: Blob;
+}
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (.xlsx)",
+  json: "JSON",
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv;charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  json: "application/json",
+};
+
+/**
+ * Round money and percentages for export so floating point noise
+ * doesn't reach spreadsheets
+ */
+export function roundForExport(
+  value: number | null | undefined
+): number | null {
+  if (value === null || value === undefined || !Number.isFinite(value)) {
+    return null;
+  }
+  return roundCents(value);
+}
+
+function csvCell(value: ExportValue): string {
+  if (value === null || value === undefined) return "";
+
+  let text = String(value);
+  // Keep spreadsheet apps from running text as a formula
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function sheetToCsv(sheet: ExportSheet): string {
+  const lines = [
+    sheet.columns.map((column) => csvCell(column.header)).join(","),
+    ...sheet.rows.map((row) =>
+      sheet.columns.map((column) => csvCell(row[column.key])).join(",")
+    ),
+  ];
+  return lines.join("\r\n");
+}
+
+/**
+ * Serialize sheets as CSV. Several sheets are written as titled sections
+ * separated by a blank line.
+ */
+export function toCsv(sheets: ExportSheet[]): string {
+  if (sheets.length === 1) return sheetToCsv(sheets[0]);
+
+  return sheets
+    .map((sheet) => `${csvCell(sheet.name)}\r\n${sheetToCsv(sheet)}`)
+    .join("\r\n\r\n");
+}
+
+/**
+ * Serialize sheets as JSON: an array of rows for a single sheet, otherwise
+ * an object keyed by sheet
+ */
+export function toJson(sheets: ExportSheet[]): string {
+  const toRows = (sheet: ExportSheet) =>
+    sheet.rows.map((row) =>
+      Object.fromEntries(
+        sheet.columns.map((column) => [column.key, row[column.key] ?? null])
+      )
+    );
+
+  const data =
+    sheets.length === 1
+      ? toRows(sheets[0])
+      : Object.fromEntries(sheets.map((sheet) => [sheet.key, toRows(sheet)]));
+
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Serialize sheets in the requested format
+ */
+export function createExportFile(
+  sheets: ExportSheet[],
+  format: ExportFormat,
+  baseName: string
+): ExportFile {
+  let content: BlobPart;
+
+  switch (format) {
+    case "xlsx":
+      content = buildXlsxWorkbook(
+        sheets.map((sheet) => ({
+          name: sheet.name,
+          rows: [
+            sheet.columns.map((column) => column.header),
+            ...sheet.rows.map((row) =>
+              sheet.columns.map((column) => row[column.key])
+            ),
+          ],
+        }))
+      );
+      break;
+    case "json":
+      content = toJson(sheets);
+      break;
+    default:
+      // Byte order mark so Excel reads the file as UTF-8
+      content = `\uFEFF${toCsv(sheets)}`;
+  }
+
+  return {
+    filename: `${baseName}.${format}`,
+    blob: new Blob([content], { type: MIME_TYPES[format] }),
+  };
+}
+
+/**
+ * Save a file through the browser's download prompt
+ */
+export function downloadFile({ filename, blob }: ExportFile): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
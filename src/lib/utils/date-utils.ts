@@ -1,5 +1,28 @@
 import type { PayPeriod } from "@/lib/types/pay-periods";
 
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Midnight UTC of an ISO date (YYYY-MM-DD, any time part ignored)
+function toUtc(date: string): number {
+  const [year, month, day] = date.slice(0, 10).split("-").map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+/**
+ * Add days to an ISO date (YYYY-MM-DD), working in UTC so the result doesn't
+ * depend on the time zone
+ */
+export function addDays(date: string, days: number): string {
+  return new Date(toUtc(date) + days * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+/**
+ * Whole days from one ISO date to another; negative when `to` is earlier
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((toUtc(to) - toUtc(from)) / MS_PER_DAY);
+}
+
 /**
  * Format a date range as a readable string
  */
@@ -0,0 +1,244 @@
+import { daysBetween } from "@/lib/utils/date-utils";
+import { roundCents } from "@/lib/utils/currency";
+import type {
+  DuplicateDetectionOptions,
+  DuplicateScoreBreakdown,
+  ExpenseCreateData,
+} from "@/lib/types/expenses";
+
+type ComparableExpense = Pick<
+  ExpenseCreateData,
+  "description" | "amount" | "date" | "category"
+>;
+
+// Defaults used when an option is not provided
+export const DEFAULT_DUPLICATE_OPTIONS: Required<DuplicateDetectionOptions> = {
+  amount_tolerance: 0,
+  date_tolerance_days: 0,
+  description_similarity: 0.8,
+  check_category: true,
+};
+
+// Longest description compared character by character
+const MAX_EDIT_DISTANCE_LENGTH = 100;
+
+/**
+ * Lowercase a description and reduce it to space-separated words
+ */
+export function normalizeDescription(description: string): string {
+  return description
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function toTokenSet(description: string): Set<string> {
+  const normalized = normalizeDescription(description);
+  return new Set(normalized ? normalized.split(" ") : []);
+}
+
+/**
+ * Share of distinct words two descriptions have in common (Jaccard index).
+ * Word order does not matter, and a description is not considered similar to
+ * a longer one just because it is contained in it.
+ */
+export function tokenSetSimilarity(a: string, b: string): number {
+  const tokensA = toTokenSet(a);
+  const tokensB = toTokenSet(b);
+  if (tokensA.size === 0 && tokensB.size === 0) return 1;
+
+  let shared = 0;
+  tokensA.forEach((token) => {
+    if (tokensB.has(token)) shared++;
+  });
+
+  return shared / (tokensA.size + tokensB.size - shared);
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + substitution
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Character-level similarity of two descriptions, 1 minus the edit distance
+ * relative to the longer one. Words are sorted first so reordered merchant
+ * strings still compare closely, while typos only cost a character or two.
+ */
+export function editDistanceSimilarity(a: string, b: string): number {
+  const sortWords = (value: string) =>
+    Array.from(toTokenSet(value))
+      .sort()
+      .join(" ")
+      .slice(0, MAX_EDIT_DISTANCE_LENGTH);
+
+  const sortedA = sortWords(a);
+  const sortedB = sortWords(b);
+  const longest = Math.max(sortedA.length, sortedB.length);
+  if (longest === 0) return 1;
+
+  return 1 - levenshteinDistance(sortedA, sortedB) / longest;
+}
+
+/**
+ * Score how closely a candidate expense matches another expense. It is a
+ * duplicate when the amount and date fall within the tolerances, the category
+ * matches (if checked) and the description score reaches the similarity
+ * threshold.
+ */
+export function scoreDuplicateMatch(
+  candidate: ComparableExpense,
+  other: ComparableExpense,
+  options: DuplicateDetectionOptions = {}
+): DuplicateScoreBreakdown {
+  const settings = { ...DEFAULT_DUPLICATE_OPTIONS, ...options };
+
+  const amountDifference = roundCents(
+    Math.abs(candidate.amount - other.amount)
+  );
+  const dateDifference = Math.abs(daysBetween(candidate.date, other.date));
+  const categoryMatch = settings.check_category
+    ? candidate.category === other.category
+    : null;
+
+  const tokenSetScore = tokenSetSimilarity(
+    candidate.description,
+    other.description
+  );
+  const editScore = editDistanceSimilarity(
+    candidate.description,
+    other.description
+  );
+  const descriptionScore = Math.max(tokenSetScore, editScore);
+
+  const amountScore =
+    1 - Math.min(1, amountDifference / Math.max(candidate.amount, 0.01));
+  const dateScore = 1 / (1 + dateDifference);
+
+  return {
+    description_score: descriptionScore,
+    token_set_score: tokenSetScore,
+    edit_distance_score: editScore,
+    amount_difference: amountDifference,
+    date_difference_days: dateDifference,
+    category_match: categoryMatch,
+    overall_score:
+      descriptionScore * 0.5 + amountScore * 0.25 + dateScore * 0.25,
+    is_match:
+      amountDifference <= settings.amount_tolerance + 0.001 &&
+      dateDifference <= settings.date_tolerance_days &&
+      categoryMatch !== false &&
+      descriptionScore >= settings.description_similarity,
+  };
+}
+
+/**
+ * Find the closest duplicate of a candidate among other expenses
+ */
+export function findBestDuplicate<T extends ComparableExpense>(
+  candidate: ComparableExpense,
+  others: T[],
+  options: DuplicateDetectionOptions = {}
+): { expense: T; score: DuplicateScoreBreakdown } | null {
+  let best: { expense: T; score: DuplicateScoreBreakdown } | null = null;
+
+  for (const expense of others) {
+    const score = scoreDuplicateMatch(candidate, expense, options);
+    if (
+      score.is_match &&
+      (!best || score.overall_score > best.score.overall_score)
+    ) {
+      best = { expense, score };
+    }
+  }
+
+  return best;
+}
+
+export interface BatchDuplicateResult<T> {
+  existing?: { expense: T; score: DuplicateScoreBreakdown };
+  file?: { row: number; score: DuplicateScoreBreakdown }; // 1-based row
+}
+
+/**
+ * Check a batch of new expenses against already-fetched existing expenses and
+ * against earlier rows of the batch itself. Candidates are bucketed by date so
+ * each row is only scored against expenses inside the date tolerance.
+ */
+export function detectDuplicatesInBatch<T extends ComparableExpense>(
+  expenses: ExpenseCreateData[],
+  existing: T[],
+  options: DuplicateDetectionOptions = {}
+): Array<BatchDuplicateResult<T>> {
+  const { date_tolerance_days } = { ...DEFAULT_DUPLICATE_OPTIONS, ...options };
+
+  const existingByDate = new Map<string, T[]>();
+  existing.forEach((expense) => {
+    const date = expense.date.split("T")[0];
+    existingByDate.set(date, [...(existingByDate.get(date) || []), expense]);
+  });
+
+  const rowsByDate = new Map<string, number[]>();
+
+  // Dates within the tolerance of a given date, as ISO strings
+  const nearbyDates = (date: string) => {
+    const [year, month, day] = date.split("-").map(Number);
+    return Array.from(
+      { length: date_tolerance_days * 2 + 1 },
+      (_, i) =>
+        new Date(Date.UTC(year, month - 1, day + i - date_tolerance_days))
+          .toISOString()
+          .split("T")[0]
+    );
+  };
+
+  return expenses.map((expense, index) => {
+    const result: BatchDuplicateResult<T> = {};
+    const date = expense.date.split("T")[0];
+    const dates = nearbyDates(date);
+
+    const existingMatch = findBestDuplicate(
+      expense,
+      dates.flatMap((d) => existingByDate.get(d) || []),
+      options
+    );
+    if (existingMatch) result.existing = existingMatch;
+
+    const earlierRows = dates.flatMap((d) => rowsByDate.get(d) || []);
+    const fileMatch = findBestDuplicate(
+      expense,
+      earlierRows.map((row) => expenses[row]),
+      options
+    );
+    if (fileMatch) {
+      result.file = {
+        row: expenses.indexOf(fileMatch.expense) + 1,
+        score: fileMatch.score,
+      };
+    }
+
+    rowsByDate.set(date, [...(rowsByDate.get(date) || []), index]);
+    return result;
+  });
+}
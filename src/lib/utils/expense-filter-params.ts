@@ -0,0 +1,110 @@
+import { EXPENSE_TYPES } from "@/lib/schemas/expense";
+import type { ExpenseFilters, ExpenseType } from "@/lib/types/expenses";
+
+type FilterKind = "text" | "date" | "number" | "type";
+
+// Every filter that can be saved in a preset or shared in a URL
+const FILTER_KINDS: Record<keyof ExpenseFilters, FilterKind> = {
+  search: "text",
+  start_date: "date",
+  end_date: "date",
+  category: "text",
+  min_amount: "number",
+  max_amount: "number",
+  type: "type",
+  pay_period_id: "text",
+  budget_item_id: "text",
+  tag: "text",
+};
+
+const FILTER_KEYS = Object.keys(FILTER_KINDS) as Array<keyof ExpenseFilters>;
+
+function parseFilterValue(
+  kind: FilterKind,
+  value: unknown
+): string | number | undefined {
+  switch (kind) {
+    case "number": {
+      const number = typeof value === "number" ? value : Number(value);
+      return value !== "" && value !== null && Number.isFinite(number)
+        ? number
+        : undefined;
+    }
+    case "date":
+      return typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)
+        ? value
+        : undefined;
+    case "type":
+      return EXPENSE_TYPES.includes(value as ExpenseType)
+        ? (value as ExpenseType)
+        : undefined;
+    default:
+      return typeof value === "string" && value.trim() !== ""
+        ? value.trim()
+        : undefined;
+  }
+}
+
+/**
+ * Keep only known, well-formed filters from untrusted input such as a saved
+ * preset or a shared link
+ */
+export function sanitizeExpenseFilters(raw: unknown): ExpenseFilters {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return {};
+
+  const source = raw as Record<string, unknown>;
+  const filters: Record<string, string | number> = {};
+
+  FILTER_KEYS.forEach((key) => {
+    const value = parseFilterValue(FILTER_KINDS[key], source[key]);
+    if (value !== undefined) filters[key] = value;
+  });
+
+  return filters as ExpenseFilters;
+}
+
+/**
+ * Read filters from URL query parameters
+ */
+export function filtersFromSearchParams(params: {
+  get: (name: string) => string | null;
+}): ExpenseFilters {
+  return sanitizeExpenseFilters(
+    Object.fromEntries(FILTER_KEYS.map((key) => [key, params.get(key)]))
+  );
+}
+
+/**
+ * Write filters as a URL query string, without the leading "?"
+ */
+export function filtersToQueryString(filters: ExpenseFilters): string {
+  const params = new URLSearchParams();
+  const clean = sanitizeExpenseFilters(filters);
+
+  FILTER_KEYS.forEach((key) => {
+    const value = clean[key];
+    if (value !== undefined) params.set(key, String(value));
+  });
+
+  return params.toString();
+}
+
+/**
+ * Whether two sets of filters select the same expenses
+ */
+export function areFiltersEqual(a: ExpenseFilters, b: ExpenseFilters): boolean {
+  return filtersToQueryString(a) === filtersToQueryString(b);
+}
+
+/**
+ * Turn free text into a prefix-matching tsquery, so "star cof" finds
+ * "Starbucks coffee". Returns null when nothing searchable is left.
+ */
+export function toPrefixTsQuery(search: string): string | null {
+  const terms = search
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+  return terms.length > 0 ? terms.map((term) => `${term}:*`).join(" & ") : null;
+}
@@ -0,0 +1,166 @@
+import {
+  EXPENSE_CATEGORIES,
+  toExpenseCategoryKey,
+} from "@/lib/constants/expense-categories";
+import type { ExpenseCreateData } from "@/lib/types/expenses";
+import type {
+  ExpenseRuleApplication,
+  ExpenseRuleChanges,
+  ExpenseRuleFormData,
+} from "@/lib/types/expense-rules";
+
+type RuleConditions = Pick<
+  ExpenseRuleFormData,
+  "description_contains" | "description_regex" | "min_amount" | "max_amount"
+>;
+
+type RuleActions = Pick<
+  ExpenseRuleFormData,
+  "set_category" | "set_budget_item_id" | "set_budget_payment"
+>;
+
+// Rules as stored, or as edited in the form before saving
+type RuleLike = RuleConditions &
+  RuleActions & { id?: string; priority: number; is_active: boolean };
+
+/**
+ * Check whether a pattern compiles as a (case-insensitive) rule regex
+ */
+export function isValidRuleRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Rules store the category display value; expenses store the key
+const UNCATEGORIZED_KEY = toExpenseCategoryKey(
+  EXPENSE_CATEGORIES.UNCATEGORIZED
+);
+
+/**
+ * Whether an expense category still needs to be chosen
+ */
+export function isUncategorized(category: string | null | undefined): boolean {
+  return !category || category === UNCATEGORIZED_KEY;
+}
+
+/**
+ * Check an expense against a rule's conditions. Every condition that is set
+ * must match; text comparisons are case-insensitive.
+ */
+export function ruleMatchesExpense(
+  rule: RuleConditions,
+  expense: Pick<ExpenseCreateData, "description" | "amount">
+): boolean {
+  const description = expense.description.toLowerCase();
+
+  if (
+    rule.description_contains &&
+    !description.includes(rule.description_contains.toLowerCase())
+  ) {
+    return false;
+  }
+
+  if (rule.description_regex) {
+    if (!isValidRuleRegex(rule.description_regex)) return false;
+    if (!new RegExp(rule.description_regex, "i").test(expense.description)) {
+      return false;
+    }
+  }
+
+  if (rule.min_amount !== null && expense.amount < rule.min_amount) {
+    return false;
+  }
+  if (rule.max_amount !== null && expense.amount > rule.max_amount) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * The values a rule would set on an expense, limited to fields that differ
+ * from the expense's current values
+ */
+export function getRuleChanges(
+  rule: RuleActions,
+  expense: Pick<ExpenseCreateData, "category" | "budget_item_id" | "type">
+): ExpenseRuleChanges {
+  const changes: ExpenseRuleChanges = {};
+
+  const category = rule.set_category && toExpenseCategoryKey(rule.set_category);
+  if (category && category !== expense.category) {
+    changes.category = category;
+  }
+  if (
+    rule.set_budget_item_id &&
+    rule.set_budget_item_id !== expense.budget_item_id
+  ) {
+    changes.budget_item_id = rule.set_budget_item_id;
+  }
+  if (rule.set_budget_payment && expense.type !== "BUDGET_PAYMENT") {
+    changes.type = "BUDGET_PAYMENT";
+  }
+
+  return changes;
+}
+
+/**
+ * Run active rules over a new expense in ascending priority order. Rules only
+ * fill in what the user left open (an uncategorized category, no budget item,
+ * a plain expense type) and the first matching rule to set a field wins.
+ * Budget payments need a budget item, so the type is only changed when one
+ * ends up linked.
+ */
+export function applyExpenseRules(
+  expense: ExpenseCreateData,
+  rules: RuleLike[]
+): ExpenseRuleApplication {
+  const result: ExpenseCreateData = { ...expense };
+  const appliedRuleIds: string[] = [];
+
+  let categoryOpen = isUncategorized(expense.category);
+  let budgetItemOpen = !expense.budget_item_id;
+  let typeOpen = !expense.type || expense.type === "EXPENSE";
+
+  const orderedRules = rules
+    .filter((rule) => rule.is_active)
+    .sort((a, b) => a.priority - b.priority);
+
+  for (const rule of orderedRules) {
+    if (!categoryOpen && !budgetItemOpen && !typeOpen) break;
+    if (!ruleMatchesExpense(rule, expense)) continue;
+
+    let applied = false;
+
+    if (categoryOpen && rule.set_category) {
+      result.category = toExpenseCategoryKey(rule.set_category);
+      categoryOpen = false;
+      applied = true;
+    }
+    if (budgetItemOpen && rule.set_budget_item_id) {
+      result.budget_item_id = rule.set_budget_item_id;
+      budgetItemOpen = false;
+      applied = true;
+    }
+    if (typeOpen && rule.set_budget_payment) {
+      result.type = "BUDGET_PAYMENT";
+      typeOpen = false;
+      applied = true;
+    }
+
+    if (applied && rule.id) appliedRuleIds.push(rule.id);
+  }
+
+  if (result.type === "BUDGET_PAYMENT" && !result.budget_item_id) {
+    result.type = expense.type;
+  }
+  if (isUncategorized(result.category)) {
+    result.category = UNCATEGORIZED_KEY;
+  }
+
+  return { expense: result, applied_rule_ids: appliedRuleIds };
+}
@@ -0,0 +1,56 @@
+import type { TagUsage } from "@/lib/types/expenses";
+
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 40;
+
+/**
+ * Normalize a tag to lowercase words joined by hyphens, e.g.
+ * "Vacation 2026" becomes "vacation-2026". Returns "" if nothing is left.
+ */
+export function normalizeTag(tag: string): string {
+  return tag
+    .trim()
+    .toLowerCase()
+    .replace(/^#+/, "")
+    .replace(/[^a-z0-9\s_-]/g, "")
+    .replace(/[\s_]+/g, "-")
+    .replace(/-+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+/**
+ * Normalize and de-duplicate a list of tags, keeping the first MAX_TAGS
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const unique = new Set<string>();
+
+  tags.forEach((tag) => {
+    const normalized = normalizeTag(tag);
+    if (normalized) unique.add(normalized);
+  });
+
+  return Array.from(unique).slice(0, MAX_TAGS);
+}
+
+/**
+ * Split typed text such as "trip, work-reimbursable" into tags
+ */
+export function parseTagInput(input: string): string[] {
+  return normalizeTags(input.split(/[,;]/));
+}
+
+/**
+ * Count how often each tag is used, most used first
+ */
+export function countTagUsage(rows: Array<{ tags: string[] }>): TagUsage[] {
+  const counts = new Map<string, number>();
+
+  rows.forEach((row) =>
+    row.tags.forEach((tag) => counts.set(tag, (counts.get(tag) || 0) + 1))
+  );
+
+  return Array.from(counts.entries())
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
@@ -1,12 +1,16 @@
 import type {
+  Expense,
   ExpenseCreateData,
   ExpenseUpdateData,
+  ExpenseSplitLine,
   ExpenseValidationResult,
 } from "@/lib/types/expenses";
 import {
   EXPENSE_CATEGORIES,
   getCategoryGroup,
 } from "@/lib/constants/expense-categories";
+import { toCategoryDisplayName } from "./category-suggester";
+import { getRefundableAmount } from "./refunds";
 
 /**
  * Validates expense amount based on category and context
@@ -339,12 +343,16 @@ export function validateExpenseComprehensive(
 ): ExpenseValidationResult {
   const allErrors: string[] = [];
   const allWarnings: string[] = [];
+  // Expenses store category keys; the field checks work with display values
+  const categoryName = expenseData.category
+    ? toCategoryDisplayName(expenseData.category) || ""
+    : "";
 
   // Validate individual fields if they exist
   if (expenseData.amount !== undefined) {
     const amountValidation = validateExpenseAmount(
       expenseData.amount,
-      expenseData.category || "",
+      categoryName,
       {
         isRecurring: context?.isRecurring,
         userBudgetLimit: context?.userBudgetLimit,
@@ -367,7 +375,7 @@ export function validateExpenseComprehensive(
 
   if (expenseData.category && expenseData.description) {
     const categoryValidation = validateExpenseCategory(
-      expenseData.category,
+      categoryName,
       expenseData.description,
       expenseData.amount || 0
     );
@@ -389,7 +397,19 @@ export function validateExpenseComprehensive(
     allErrors.push("Budget payments must be linked to a budget item");
   }
 
-  if (expenseData.budget_item_id && expenseData.type !== "BUDGET_PAYMENT") {
+  if (
+    "refund_of_expense_id" in expenseData &&
+    expenseData.refund_of_expense_id &&
+    expenseData.type !== "REFUND"
+  ) {
+    allErrors.push("Only refunds can be linked to another expense");
+  }
+
+  if (
+    expenseData.budget_item_id &&
+    expenseData.type !== "BUDGET_PAYMENT" &&
+    expenseData.type !== "REFUND"
+  ) {
     allWarnings.push(
       "Expenses linked to budget items should typically be marked as budget payments"
     );
@@ -422,6 +442,95 @@ export function validateExpenseComprehensive(
   };
 }
 
+/**
+ * Validates the lines of a split expense against the transaction total
+ */
+export function validateExpenseSplit(
+  total: number,
+  lines: ExpenseSplitLine[]
+): ExpenseValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (lines.length < 2) {
+    errors.push("A split needs at least two lines");
+  }
+
+  lines.forEach((line, index) => {
+    if (!line.description.trim()) {
+      errors.push(`Line ${index + 1}: Description is required`);
+    }
+    if (!line.category) {
+      errors.push(`Line ${index + 1}: Category is required`);
+    }
+    if (line.amount <= 0) {
+      errors.push(`Line ${index + 1}: Amount must be greater than zero`);
+    }
+    if (line.type === "BUDGET_PAYMENT" && !line.budget_item_id) {
+      errors.push(
+        `Line ${index + 1}: Budget payments must be linked to a budget item`
+      );
+    }
+  });
+
+  // Compare in cents so floating point sums don't fail on rounding
+  const totalCents = Math.round(total * 100);
+  const linesCents = lines.reduce(
+    (sum, line) => sum + Math.round(line.amount * 100),
+    0
+  );
+  if (linesCents !== totalCents) {
+    errors.push(
+      `Split lines must add up to $${total.toFixed(2)} (currently $${(
+        linesCents / 100
+      ).toFixed(2)})`
+    );
+  }
+
+  return {
+    is_valid: errors.length === 0,
+    errors,
+    warnings,
+  };
+}
+
+/**
+ * Validates a refund against the expense it reverses and the refunds
+ * already recorded for it
+ */
+export function validateRefund(
+  original: Pick<Expense, "amount" | "type" | "is_split">,
+  amount: number,
+  alreadyRefunded: number
+): ExpenseValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (original.type === "REFUND") {
+    errors.push("A refund cannot be refunded");
+  }
+  if (original.is_split) {
+    errors.push(
+      "Refund one of the split lines instead of the whole transaction"
+    );
+  }
+
+  const refundable = getRefundableAmount(original.amount, alreadyRefunded);
+  if (Math.round(amount * 100) > Math.round(refundable * 100)) {
+    errors.push(
+      refundable === 0
+        ? "This expense has already been fully refunded"
+        : `Refund cannot exceed the $${refundable.toFixed(2)} left to refund`
+    );
+  }
+
+  return {
+    is_valid: errors.length === 0,
+    errors,
+    warnings,
+  };
+}
+
 /**
  * Validates bulk expense operations
  */
@@ -0,0 +1,110 @@
+/**
+ * Minimal iCalendar (RFC 5545) writer for all-day events
+ */
+
+export interface CalendarEvent {
+  uid: string; // Stable across feed refreshes so calendar apps update in place
+  date: string; // YYYY-MM-DD
+  summary: string;
+  description?: string;
+  reminderDaysBefore?: number; // Adds an alarm this many days ahead
+}
+
+const PRODUCT_ID = "-//Budget Simple//Calendar Feed//EN";
+
+// Lines longer than 75 octets are folded onto continuation lines
+const MAX_LINE_LENGTH = 75;
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_LENGTH) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? MAX_LINE_LENGTH : MAX_LINE_LENGTH - 1;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+// YYYY-MM-DD as an iCalendar DATE
+const toCalendarDate = (date: string) => date.replace(/-/g, "");
+
+function nextDay(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1))
+    .toISOString()
+    .split("T")[0];
+}
+
+function toTimestamp(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+/**
+ * Write a calendar of all-day events
+ */
+export function buildCalendar(
+  name: string,
+  events: CalendarEvent[],
+  generatedAt: Date = new Date()
+): string {
+  const stamp = toTimestamp(generatedAt);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toCalendarDate(event.date)}`,
+      `DTEND;VALUE=DATE:${toCalendarDate(nextDay(event.date))}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      "TRANSP:TRANSPARENT"
+    );
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    if (event.reminderDaysBefore !== undefined) {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        `DESCRIPTION:${escapeText(event.summary)}`,
+        event.reminderDaysBefore > 0
+          ? `TRIGGER:-P${event.reminderDaysBefore}D`
+          : "TRIGGER:PT0S",
+        "END:VALARM"
+      );
+    }
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
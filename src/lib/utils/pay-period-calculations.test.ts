@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { calculateHouseholdPayPeriod } from "./pay-period-calculations";
+import type { IncomeSource } from "@/types/database";
+
+function incomeSource(overrides: Partial<IncomeSource>): IncomeSource {
+  return {
+    id: "salary",
+    user_id: "user-1",
+    name: "Salary",
+    gross_amount: 4000,
+    net_amount: 3000,
+    cadence: "monthly",
+    start_date: "2026-01-01",
+    end_date: null,
+    is_active: true,
+    pay_anchor_days: [1],
+    business_day_adjustment: "NONE",
+    holiday_calendar: "NONE",
+    is_variable: false,
+    paycheck_deductions: [],
+    created_at: "2026-01-01T00:00:00Z",
+    updated_at: "2026-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+describe("calculateHouseholdPayPeriod", () => {
+  it("totals the paychecks landing in the window", () => {
+    const sources = [
+      incomeSource({}),
+      incomeSource({
+        id: "bonus",
+        net_amount: 250.5,
+        start_date: "2025-06-01",
+      }),
+    ];
+
+    expect(
+      calculateHouseholdPayPeriod("monthly", "2026-01-01", sources, null)
+    ).toEqual({
+      start_date: "2026-01-01",
+      end_date: "2026-01-31",
+      expected_net: 3250.5,
+      deposits: [
+        {
+          income_source_id: "salary",
+          pay_date: "2026-01-01",
+          expected_net: 3000,
+          gross_amount: 4000,
+        },
+        {
+          income_source_id: "bonus",
+          pay_date: "2026-01-01",
+          expected_net: 250.5,
+          gross_amount: 4000,
+        },
+      ],
+    });
+  });
+
+  it("keeps generating periods across windows with no paychecks", () => {
+    // The only income starts two months after the household does
+    const sources = [incomeSource({ start_date: "2026-03-01" })];
+
+    const january = calculateHouseholdPayPeriod(
+      "monthly",
+      "2026-01-01",
+      sources,
+      null
+    );
+    const february = calculateHouseholdPayPeriod(
+      "monthly",
+      "2026-01-01",
+      sources,
+      january.end_date
+    );
+    const march = calculateHouseholdPayPeriod(
+      "monthly",
+      "2026-01-01",
+      sources,
+      february.end_date
+    );
+
+    expect(january).toEqual({
+      start_date: "2026-01-01",
+      end_date: "2026-01-31",
+      expected_net: 0,
+      deposits: [],
+    });
+    expect(february).toEqual({
+      start_date: "2026-02-01",
+      end_date: "2026-02-28",
+      expected_net: 0,
+      deposits: [],
+    });
+    expect(march.start_date).toBe("2026-03-01");
+    expect(march.expected_net).toBe(3000);
+  });
+});
@@ -1,151 +1,191 @@
 import {
+  HouseholdDeposit,
+  HouseholdPayPeriodCalculation,
   IncomeCadence,
   PayPeriodCalculation,
   CADENCE_CONFIG,
   PayPeriodValidationResult,
+  PayScheduleConfig,
 } from "@/lib/types/pay-periods";
+import type {
+  BusinessDayAdjustment,
+  HolidayCalendar,
+  IncomeSource,
+} from "@/types/database";
+import { addDays } from "@/lib/utils/date-utils";
+import {
+  getFirstPayPeriodDates,
+  getNextPayPeriodDates,
+  getPayDates,
+  type PayPeriodDates,
+} from "../../../supabase/functions/_shared/pay-schedule";
+
+// Calendar date of a Date parsed from an ISO date string
+const toIsoDate = (date: Date) => date.toISOString().split("T")[0];
 
 /**
- * Calculate the next pay period dates based on cadence and start date
+ * Pay schedule rule for an income source's saved settings
  */
-export function calculateNextPayPeriod(
-  cadence: IncomeCadence,
-  lastPeriodEndDate: Date,
+export function getPayScheduleConfig(incomeSource: {
+  start_date: string;
+  pay_anchor_days?: number[] | null;
+  business_day_adjustment?: BusinessDayAdjustment;
+  holiday_calendar?: HolidayCalendar;
+}): PayScheduleConfig {
+  return {
+    anchor_days: incomeSource.pay_anchor_days,
+    business_day_adjustment: incomeSource.business_day_adjustment,
+    holiday_calendar: incomeSource.holiday_calendar,
+    income_start_date: incomeSource.start_date,
+  };
+}
+
+// Dates are returned at UTC midnight so toISOString() gives the calendar date
+function toCalculation(
+  dates: PayPeriodDates,
   expectedNet: number
 ): PayPeriodCalculation {
-  const startDate = new Date(lastPeriodEndDate);
-  startDate.setDate(startDate.getDate() + 1); // Start the day after the last period ended
-
-  let endDate: Date;
-
-  switch (cadence) {
-    case "weekly":
-      endDate = new Date(startDate);
-      endDate.setDate(endDate.getDate() + 6);
-      break;
-
-    case "bi-weekly":
-      endDate = new Date(startDate);
-      endDate.setDate(endDate.getDate() + 13);
-      break;
-
-    case "semi-monthly":
-      // Semi-monthly: 1st-15th, 16th-end of month
-      if (startDate.getDate() === 1) {
-        endDate = new Date(startDate.getFullYear(), startDate.getMonth(), 15);
-      } else {
-        endDate = new Date(
-          startDate.getFullYear(),
-          startDate.getMonth() + 1,
-          0
-        ); // Last day of month
-      }
-      break;
-
-    case "monthly":
-      endDate = new Date(startDate.getFullYear(), startDate.getMonth() + 1, 0); // Last day of month
-      break;
-
-    case "quarterly":
-      // End of quarter (March 31, June 30, September 30, December 31)
-      const currentQuarter = Math.floor(startDate.getMonth() / 3);
-      const quarterEndMonth = (currentQuarter + 1) * 3 - 1;
-      endDate = new Date(startDate.getFullYear(), quarterEndMonth + 1, 0);
-      break;
-
-    case "annual":
-      endDate = new Date(startDate.getFullYear(), 11, 31); // December 31
-      break;
-
-    default:
-      throw new Error(`Unsupported cadence: ${cadence}`);
-  }
-
-  const daysInPeriod =
-    Math.ceil(
-      (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)
-    ) + 1;
-
   return {
-    start_date: startDate,
-    end_date: endDate,
+    start_date: new Date(dates.start_date),
+    end_date: new Date(dates.end_date),
     expected_net: expectedNet,
-    days_in_period: daysInPeriod,
+    days_in_period: dates.days_in_period,
   };
 }
 
+/**
+ * Calculate the next pay period dates based on cadence and start date.
+ * Without a schedule, semi-monthly periods run 1st–15th and 16th–end of
+ * month and longer cadences follow calendar months, quarters and years.
+ */
+export function calculateNextPayPeriod(
+  cadence: IncomeCadence,
+  lastPeriodEndDate: Date,
+  expectedNet: number,
+  schedule: PayScheduleConfig = {}
+): PayPeriodCalculation {
+  const lastEndDate = toIsoDate(lastPeriodEndDate);
+
+  return toCalculation(
+    getNextPayPeriodDates(
+      cadence,
+      schedule,
+      // Without a start date, weekly periods step on from the last period
+      schedule.income_start_date || addDays(lastEndDate, 1),
+      lastEndDate
+    ),
+    expectedNet
+  );
+}
+
 /**
  * Calculate the first pay period dates based on cadence and income start date
  */
 export function calculateFirstPayPeriod(
   cadence: IncomeCadence,
   incomeStartDate: Date,
-  expectedNet: number
+  expectedNet: number,
+  schedule: PayScheduleConfig = {}
 ): PayPeriodCalculation {
-  const startDate = new Date(incomeStartDate);
-  let endDate: Date;
-
-  switch (cadence) {
-    case "weekly":
-      endDate = new Date(startDate);
-      endDate.setDate(endDate.getDate() + 6);
-      break;
-
-    case "bi-weekly":
-      endDate = new Date(startDate);
-      endDate.setDate(endDate.getDate() + 13);
-      break;
-
-    case "semi-monthly":
-      // Determine if we start on 1st or 16th
-      if (startDate.getDate() <= 15) {
-        // Start period on 1st, end on 15th
-        startDate.setDate(1);
-        endDate = new Date(startDate.getFullYear(), startDate.getMonth(), 15);
-      } else {
-        // Start period on 16th, end on last day of month
-        startDate.setDate(16);
-        endDate = new Date(
-          startDate.getFullYear(),
-          startDate.getMonth() + 1,
-          0
-        );
-      }
-      break;
+  return toCalculation(
+    getFirstPayPeriodDates(cadence, schedule, toIsoDate(incomeStartDate)),
+    expectedNet
+  );
+}
 
-    case "monthly":
-      // Start from the 1st of the month
-      startDate.setDate(1);
-      endDate = new Date(startDate.getFullYear(), startDate.getMonth() + 1, 0);
-      break;
+/**
+ * The next few pay dates on or after a date, for previewing a schedule
+ */
+export function getUpcomingPayDates(
+  cadence: IncomeCadence,
+  schedule: PayScheduleConfig,
+  count: number,
+  fromDate: string
+): string[] {
+  return getPayDates(
+    cadence,
+    schedule,
+    schedule.income_start_date || fromDate,
+    fromDate,
+    addDays(fromDate, 400 * count)
+  ).slice(0, count);
+}
 
-    case "quarterly":
-      // Start from the beginning of the quarter
-      const quarterStartMonth = Math.floor(startDate.getMonth() / 3) * 3;
-      startDate.setMonth(quarterStartMonth, 1);
-      endDate = new Date(startDate.getFullYear(), quarterStartMonth + 3, 0);
-      break;
+/**
+ * Paychecks from each income source that land between two dates (inclusive),
+ * skipping pay dates before a source starts or after it ends. Variable
+ * sources have no paydays and are logged as deposits instead.
+ */
+export function getHouseholdDeposits(
+  incomeSources: IncomeSource[],
+  startDate: string,
+  endDate: string
+): HouseholdDeposit[] {
+  const deposits: HouseholdDeposit[] = [];
+
+  for (const source of incomeSources) {
+    if (source.is_variable) continue;
+
+    const from = source.start_date > startDate ? source.start_date : startDate;
+    const to =
+      source.end_date && source.end_date < endDate ? source.end_date : endDate;
+    if (from > to) continue;
+
+    const payDates = getPayDates(
+      source.cadence,
+      getPayScheduleConfig(source),
+      source.start_date,
+      from,
+      to
+    );
+    for (const payDate of payDates) {
+      deposits.push({
+        income_source_id: source.id,
+        pay_date: payDate,
+        expected_net: source.net_amount,
+        gross_amount: source.gross_amount,
+      });
+    }
+  }
 
-    case "annual":
-      // Start from January 1st
-      startDate.setMonth(0, 1);
-      endDate = new Date(startDate.getFullYear(), 11, 31);
-      break;
+  return deposits.sort((a, b) => a.pay_date.localeCompare(b.pay_date));
+}
 
-    default:
-      throw new Error(`Unsupported cadence: ${cadence}`);
-  }
+/**
+ * The household period after the last one (or the first, starting from the
+ * household start date) and the paychecks landing in it. A window with no
+ * paychecks still yields a period with nothing expected, so the series moves
+ * past gaps between incomes instead of stalling on them.
+ */
+export function calculateHouseholdPayPeriod(
+  cadence: IncomeCadence,
+  householdStartDate: string,
+  incomeSources: IncomeSource[],
+  lastPeriodEndDate: string | null
+): HouseholdPayPeriodCalculation {
+  const schedule = { income_start_date: householdStartDate };
+  const calculation = lastPeriodEndDate
+    ? calculateNextPayPeriod(cadence, new Date(lastPeriodEndDate), 0, schedule)
+    : calculateFirstPayPeriod(
+        cadence,
+        new Date(householdStartDate),
+        0,
+        schedule
+      );
 
-  const daysInPeriod =
-    Math.ceil(
-      (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)
-    ) + 1;
+  const startDate = toIsoDate(calculation.start_date);
+  const endDate = toIsoDate(calculation.end_date);
+  const deposits = getHouseholdDeposits(incomeSources, startDate, endDate);
 
   return {
     start_date: startDate,
     end_date: endDate,
-    expected_net: expectedNet,
-    days_in_period: daysInPeriod,
+    expected_net: Number(
+      deposits
+        .reduce((sum, deposit) => sum + deposit.expected_net, 0)
+        .toFixed(2)
+    ),
+    deposits,
   };
 }
 
@@ -156,10 +196,16 @@ export function generatePayPeriodsBetweenDates(
   cadence: IncomeCadence,
   startDate: Date,
   endDate: Date,
-  expectedNet: number
+  expectedNet: number,
+  schedule: PayScheduleConfig = {}
 ): PayPeriodCalculation[] {
   const periods: PayPeriodCalculation[] = [];
-  let currentPeriod = calculateFirstPayPeriod(cadence, startDate, expectedNet);
+  let currentPeriod = calculateFirstPayPeriod(
+    cadence,
+    startDate,
+    expectedNet,
+    schedule
+  );
 
   while (currentPeriod.start_date <= endDate) {
     periods.push(currentPeriod);
@@ -169,7 +215,8 @@ export function generatePayPeriodsBetweenDates(
       currentPeriod = calculateNextPayPeriod(
         cadence,
         currentPeriod.end_date,
-        expectedNet
+        expectedNet,
+        { income_start_date: toIsoDate(startDate), ...schedule }
       );
       // eslint-disable-next-line @typescript-eslint/no-unused-vars
     } catch (_error) {
@@ -250,71 +297,6 @@ export function validatePayPeriod(
   };
 }
 
-/**
- * Get the current active pay period date range for a given cadence
- */
-export function getCurrentPayPeriodRange(cadence: IncomeCadence): {
-  start: Date;
-  end: Date;
-} {
-  const now = new Date();
-
-  switch (cadence) {
-    case "weekly":
-      // Week starts on Sunday
-      const startOfWeek = new Date(now);
-      startOfWeek.setDate(now.getDate() - now.getDay());
-      const endOfWeek = new Date(startOfWeek);
-      endOfWeek.setDate(startOfWeek.getDate() + 6);
-      return { start: startOfWeek, end: endOfWeek };
-
-    case "bi-weekly":
-      // Find the start of the current bi-weekly period
-      const daysSinceEpoch = Math.floor(now.getTime() / (1000 * 60 * 60 * 24));
-      const biWeeklyPeriod = Math.floor(daysSinceEpoch / 14);
-      const biWeeklyStart = new Date(biWeeklyPeriod * 14 * 24 * 60 * 60 * 1000);
-      const biWeeklyEnd = new Date(
-        biWeeklyStart.getTime() + 13 * 24 * 60 * 60 * 1000
-      );
-      return { start: biWeeklyStart, end: biWeeklyEnd };
-
-    case "semi-monthly":
-      if (now.getDate() <= 15) {
-        return {
-          start: new Date(now.getFullYear(), now.getMonth(), 1),
-          end: new Date(now.getFullYear(), now.getMonth(), 15),
-        };
-      } else {
-        return {
-          start: new Date(now.getFullYear(), now.getMonth(), 16),
-          end: new Date(now.getFullYear(), now.getMonth() + 1, 0),
-        };
-      }
-
-    case "monthly":
-      return {
-        start: new Date(now.getFullYear(), now.getMonth(), 1),
-        end: new Date(now.getFullYear(), now.getMonth() + 1, 0),
-      };
-
-    case "quarterly":
-      const quarterStartMonth = Math.floor(now.getMonth() / 3) * 3;
-      return {
-        start: new Date(now.getFullYear(), quarterStartMonth, 1),
-        end: new Date(now.getFullYear(), quarterStartMonth + 3, 0),
-      };
-
-    case "annual":
-      return {
-        start: new Date(now.getFullYear(), 0, 1),
-        end: new Date(now.getFullYear(), 11, 31),
-      };
-
-    default:
-      throw new Error(`Unsupported cadence: ${cadence}`);
-  }
-}
-
 /**
  * Check if a date falls within a pay period
  */
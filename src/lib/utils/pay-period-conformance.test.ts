@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateFirstPayPeriod,
+  calculateNextPayPeriod,
+  getPayScheduleConfig,
+} from "./pay-period-calculations";
+import {
+  getFirstPayPeriodDates,
+  getNextPayPeriodDates,
+} from "../../../supabase/functions/_shared/pay-schedule";
+import { runPayPeriodConformance } from "../../../supabase/functions/_shared/pay-period-conformance";
+
+const toIsoDate = (date: Date) => date.toISOString().split("T")[0];
+
+describe("pay period conformance", () => {
+  it("passes every case through the app's calculations", () => {
+    const failures = runPayPeriodConformance((source, lastEndDate) => {
+      const schedule = getPayScheduleConfig(source);
+      const calculation = lastEndDate
+        ? calculateNextPayPeriod(
+            source.cadence,
+            new Date(lastEndDate),
+            0,
+            schedule
+          )
+        : calculateFirstPayPeriod(
+            source.cadence,
+            new Date(source.start_date),
+            0,
+            schedule
+          );
+      return {
+        start_date: toIsoDate(calculation.start_date),
+        end_date: toIsoDate(calculation.end_date),
+        days_in_period: calculation.days_in_period,
+      };
+    });
+
+    expect(failures).toEqual([]);
+  });
+
+  it("passes every case the way the edge function builds its rule", () => {
+    const failures = runPayPeriodConformance((source, lastEndDate) => {
+      const rule = {
+        anchor_days: source.pay_anchor_days,
+        business_day_adjustment: source.business_day_adjustment,
+        holiday_calendar: source.holiday_calendar,
+      };
+      return lastEndDate
+        ? getNextPayPeriodDates(
+            source.cadence,
+            rule,
+            source.start_date,
+            lastEndDate
+          )
+        : getFirstPayPeriodDates(source.cadence, rule, source.start_date);
+    });
+
+    expect(failures).toEqual([]);
+  });
+});
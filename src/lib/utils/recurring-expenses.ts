@@ -0,0 +1,228 @@
+import { formatCadence } from "./cadence";
+import { addDays, daysBetween } from "@/lib/utils/date-utils";
+import type { RecurrenceSchedule } from "@/lib/types/recurring-expenses";
+
+// Stop runaway loops; scans start near the date asked about, so this only
+// bounds how far ahead they look
+const MAX_OCCURRENCES = 1000;
+
+const INTERVAL_UNIT_LABELS = {
+  DAYS: "day",
+  WEEKS: "week",
+  MONTHS: "month",
+} as const;
+
+/**
+ * Today's date as YYYY-MM-DD in local time
+ */
+export function getTodayIsoDate(): string {
+  const today = new Date();
+  return [
+    today.getFullYear(),
+    String(today.getMonth() + 1).padStart(2, "0"),
+    String(today.getDate()).padStart(2, "0"),
+  ].join("-");
+}
+
+function parseIsoDate(date: string): [number, number, number] {
+  const [year, month, day] = date.split("T")[0].split("-").map(Number);
+  return [year, month - 1, day];
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Add months to a date, clamping to the end of shorter months
+ * (Jan 31 + 1 month = Feb 28/29)
+ */
+function addMonths(date: string, months: number): string {
+  const [year, month, day] = parseIsoDate(date);
+  const lastDay = new Date(Date.UTC(year, month + months + 1, 0)).getUTCDate();
+  return toIsoDate(
+    new Date(Date.UTC(year, month + months, Math.min(day, lastDay)))
+  );
+}
+
+/**
+ * Date of the nth occurrence (0 = start_date). Counting from the start date
+ * rather than the previous occurrence keeps monthly dates from drifting.
+ */
+export function getOccurrenceDate(
+  schedule: RecurrenceSchedule,
+  n: number
+): string {
+  const { start_date } = schedule;
+
+  if (schedule.cadence) {
+    switch (schedule.cadence) {
+      case "weekly":
+        return addDays(start_date, 7 * n);
+      case "bi-weekly":
+        return addDays(start_date, 14 * n);
+      case "semi-monthly":
+        // Twice a month: the start day and 15 days later
+        return n % 2 === 0
+          ? addMonths(start_date, n / 2)
+          : addDays(addMonths(start_date, (n - 1) / 2), 15);
+      case "monthly":
+        return addMonths(start_date, n);
+      case "quarterly":
+        return addMonths(start_date, 3 * n);
+      case "annual":
+        return addMonths(start_date, 12 * n);
+    }
+  }
+
+  const count = schedule.interval_count || 1;
+  switch (schedule.interval_unit) {
+    case "DAYS":
+      return addDays(start_date, count * n);
+    case "WEEKS":
+      return addDays(start_date, count * 7 * n);
+    case "MONTHS":
+      return addMonths(start_date, count * n);
+    default:
+      throw new Error("Recurring expense has no cadence or interval");
+  }
+}
+
+// Whole calendar months from one date's month to another's
+function monthsBetween(from: string, to: string): number {
+  const [fromYear, fromMonth] = parseIsoDate(from);
+  const [toYear, toMonth] = parseIsoDate(to);
+  return (toYear - fromYear) * 12 + toMonth - fromMonth;
+}
+
+/**
+ * An occurrence index at or before the first occurrence on or after a date,
+ * so scans can start there instead of at the start date
+ */
+function getFirstIndexNear(schedule: RecurrenceSchedule, date: string): number {
+  const { start_date } = schedule;
+  if (date <= start_date) return 0;
+
+  const days = daysBetween(start_date, date);
+  const months = monthsBetween(start_date, date);
+  const count = schedule.interval_count || 1;
+
+  let index: number;
+  switch (schedule.cadence || schedule.interval_unit) {
+    case "weekly":
+      index = Math.floor(days / 7);
+      break;
+    case "bi-weekly":
+      index = Math.floor(days / 14);
+      break;
+    case "semi-monthly":
+      index = 2 * months;
+      break;
+    case "monthly":
+      index = months;
+      break;
+    case "quarterly":
+      index = Math.floor(months / 3);
+      break;
+    case "annual":
+      index = Math.floor(months / 12);
+      break;
+    case "DAYS":
+      index = Math.floor(days / count);
+      break;
+    case "WEEKS":
+      index = Math.floor(days / (count * 7));
+      break;
+    case "MONTHS":
+      index = Math.floor(months / count);
+      break;
+    default:
+      return 0;
+  }
+
+  // Month lengths and semi-monthly's second date can put the estimate one
+  // past the answer
+  return Math.max(0, index - 1);
+}
+
+/**
+ * Occurrence dates within [from, to], starting no earlier than the
+ * schedule's next date and ending at its end date
+ */
+export function getOccurrencesBetween(
+  schedule: RecurrenceSchedule,
+  from: string,
+  to: string
+): string[] {
+  const start = from > schedule.next_date ? from : schedule.next_date;
+  const end =
+    schedule.end_date && schedule.end_date < to ? schedule.end_date : to;
+  const dates: string[] = [];
+  const first = getFirstIndexNear(schedule, start);
+
+  for (let n = first; n < first + MAX_OCCURRENCES; n++) {
+    const date = getOccurrenceDate(schedule, n);
+    if (date > end) break;
+    if (date >= start) dates.push(date);
+  }
+
+  return dates;
+}
+
+/**
+ * The next occurrence dates from the schedule's next date
+ */
+export function getUpcomingOccurrences(
+  schedule: RecurrenceSchedule,
+  count: number
+): string[] {
+  const dates: string[] = [];
+  const first = getFirstIndexNear(schedule, schedule.next_date);
+
+  for (
+    let n = first;
+    n < first + MAX_OCCURRENCES && dates.length < count;
+    n++
+  ) {
+    const date = getOccurrenceDate(schedule, n);
+    if (schedule.end_date && date > schedule.end_date) break;
+    if (date >= schedule.next_date) dates.push(date);
+  }
+
+  return dates;
+}
+
+/**
+ * First occurrence strictly after a date, or null once the schedule has ended
+ */
+export function getNextOccurrenceAfter(
+  schedule: RecurrenceSchedule,
+  date: string
+): string | null {
+  const first = getFirstIndexNear(schedule, date);
+
+  for (let n = first; n < first + MAX_OCCURRENCES; n++) {
+    const occurrence = getOccurrenceDate(schedule, n);
+    if (schedule.end_date && occurrence > schedule.end_date) return null;
+    if (occurrence > date) return occurrence;
+  }
+  return null;
+}
+
+/**
+ * Describe how often a recurring expense occurs, e.g. "Monthly" or
+ * "Every 3 months"
+ */
+export function formatRecurrence(
+  schedule: Pick<
+    RecurrenceSchedule,
+    "cadence" | "interval_count" | "interval_unit"
+  >
+): string {
+  if (schedule.cadence) return formatCadence(schedule.cadence);
+  if (!schedule.interval_unit) return "Unknown";
+
+  const count = schedule.interval_count || 1;
+  const unit = INTERVAL_UNIT_LABELS[schedule.interval_unit];
+  return count === 1 ? `Every ${unit}` : `Every ${count} ${unit}s`;
+}
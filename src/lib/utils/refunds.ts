@@ -0,0 +1,43 @@
+import type { Expense, RefundStatus } from "@/lib/types/expenses";
+
+type SpendingRow = Pick<Expense, "amount" | "type">;
+
+/**
+ * Amount an expense adds to spending. Refunds are stored as positive
+ * amounts and count against spending.
+ */
+export function getSpendingAmount(expense: SpendingRow): number {
+  return expense.type === "REFUND" ? -expense.amount : expense.amount;
+}
+
+/**
+ * Net spending for a set of expenses, with refunds subtracted
+ */
+export function sumSpending(expenses: SpendingRow[]): number {
+  return expenses.reduce((sum, expense) => sum + getSpendingAmount(expense), 0);
+}
+
+/**
+ * How much of an expense is still refundable
+ */
+export function getRefundableAmount(
+  amount: number,
+  refundedAmount: number
+): number {
+  // Work in cents so repeated partial refunds don't drift
+  return (
+    Math.max(0, Math.round(amount * 100) - Math.round(refundedAmount * 100)) /
+    100
+  );
+}
+
+/**
+ * Whether an expense has been refunded in full, in part or not at all
+ */
+export function getRefundStatus(
+  amount: number,
+  refundedAmount: number
+): RefundStatus {
+  if (refundedAmount <= 0) return "NONE";
+  return getRefundableAmount(amount, refundedAmount) === 0 ? "FULL" : "PARTIAL";
+}
@@ -0,0 +1,24 @@
+import type { RolloverMode } from "@/types/database";
+
+/**
+ * Amount an allocation carries into the next pay period under its budget
+ * item's rollover mode. The balance is carried in plus allocated minus spent;
+ * a negative result carries a deficit.
+ */
+export function calculateCarryOver(
+  mode: RolloverMode,
+  balance: number
+): number {
+  const rounded = Number(balance.toFixed(2));
+
+  switch (mode) {
+    case "CARRY_SURPLUS":
+      return Math.max(rounded, 0);
+    case "CARRY_DEFICIT":
+      return Math.min(rounded, 0);
+    case "CARRY_BOTH":
+      return rounded;
+    default:
+      return 0;
+  }
+}
@@ -0,0 +1,81 @@
+import { getPayPeriodsPerYear } from "@/lib/utils/cadence";
+import { roundCents } from "@/lib/utils/currency";
+import { daysBetween } from "@/lib/utils/date-utils";
+import type { IncomeCadence } from "@/types/database";
+import type {
+  SavingsGoal,
+  SavingsGoalProgress,
+} from "@/lib/types/savings-goals";
+
+const DAYS_PER_YEAR = 365.25;
+
+/**
+ * Whole pay periods of a cadence between today and a date (both YYYY-MM-DD)
+ */
+export function getPayPeriodsUntil(
+  date: string,
+  cadence: IncomeCadence,
+  today: string
+): number {
+  const days = daysBetween(today, date);
+  if (days <= 0) return 0;
+
+  return Math.floor((days / DAYS_PER_YEAR) * getPayPeriodsPerYear(cadence));
+}
+
+/**
+ * Convert an amount between cadences, e.g. a monthly budget item to what it
+ * sets aside each bi-weekly pay period
+ */
+export function convertCadenceAmount(
+  amount: number,
+  from: IncomeCadence,
+  to: IncomeCadence
+): number {
+  return roundCents(
+    (amount * getPayPeriodsPerYear(from)) / getPayPeriodsPerYear(to)
+  );
+}
+
+/**
+ * Progress of a savings goal as of today (YYYY-MM-DD), given the user's pay
+ * period cadence and what the linked budget item contributes each period
+ */
+export function calculateGoalProgress(
+  goal: Pick<SavingsGoal, "target_amount" | "target_date" | "current_balance">,
+  cadence: IncomeCadence,
+  plannedPerPeriod: number,
+  today: string
+): SavingsGoalProgress {
+  const remaining = roundCents(
+    Math.max(0, goal.target_amount - goal.current_balance)
+  );
+  const periodsRemaining = getPayPeriodsUntil(goal.target_date, cadence, today);
+  // With no periods left, everything still needed is due now
+  const requiredPerPeriod = roundCents(
+    remaining / Math.max(periodsRemaining, 1)
+  );
+
+  let status: SavingsGoalProgress["status"] = "ON_TRACK";
+  if (remaining === 0) {
+    status = "COMPLETE";
+  } else if (
+    periodsRemaining === 0 ||
+    plannedPerPeriod * periodsRemaining < remaining
+  ) {
+    status = "BEHIND";
+  }
+
+  return {
+    status,
+    cadence,
+    remaining_amount: remaining,
+    periods_remaining: periodsRemaining,
+    required_per_period: requiredPerPeriod,
+    planned_per_period: roundCents(plannedPerPeriod),
+    percent_complete: Math.min(
+      100,
+      Math.round((goal.current_balance / goal.target_amount) * 100)
+    ),
+  };
+}
@@ -0,0 +1,55 @@
+import type {
+  SinkingFundContribution,
+  SinkingFundProjection,
+  SinkingFundTarget,
+} from "@/lib/types/sinking-funds";
+import { roundCents } from "@/lib/utils/currency";
+import { addDays, daysBetween } from "@/lib/utils/date-utils";
+
+/**
+ * Project a sinking fund from its balance today (YYYY-MM-DD) to its target
+ * date, assuming each remaining pay period contributes the same amount
+ */
+export function projectSinkingFund(
+  fund: SinkingFundTarget,
+  balance: number,
+  contribution: SinkingFundContribution,
+  today: string
+): SinkingFundProjection {
+  const target = fund.target_amount ?? 0;
+  const daysLeft = fund.target_date
+    ? Math.max(0, daysBetween(today, fund.target_date))
+    : 0;
+  const periodsRemaining =
+    contribution.period_days > 0
+      ? Math.floor(daysLeft / contribution.period_days)
+      : 0;
+
+  const needed = Math.max(0, target - balance);
+  const projectedBalance = roundCents(
+    balance + contribution.amount * periodsRemaining
+  );
+
+  let fullBy: string | null = null;
+  if (needed === 0) {
+    fullBy = today;
+  } else if (contribution.amount > 0) {
+    const periods = Math.ceil(needed / contribution.amount);
+    fullBy = addDays(today, Math.round(periods * contribution.period_days));
+  }
+
+  return {
+    status:
+      needed === 0
+        ? "FUNDED"
+        : projectedBalance >= target
+        ? "ON_TRACK"
+        : "BEHIND",
+    periods_remaining: periodsRemaining,
+    projected_balance: projectedBalance,
+    shortfall: roundCents(Math.max(0, target - projectedBalance)),
+    // Everything still needed is due now once no periods are left
+    required_per_period: roundCents(needed / Math.max(periodsRemaining, 1)),
+    full_by: fullBy,
+  };
+}
@@ -0,0 +1,361 @@
+import type {
+  CsvDateFormat,
+  ExpenseImportData,
+  StatementFormat,
+  StatementParseResult,
+} from "@/lib/types/expenses";
+import {
+  detectDateFormat,
+  matchExpenseCategory,
+  parseAmount,
+  parseDateWithFormat,
+} from "./csv-import";
+
+// OFX elements copied into raw_data for each transaction
+const OFX_RAW_FIELDS = [
+  "TRNTYPE",
+  "DTPOSTED",
+  "TRNAMT",
+  "FITID",
+  "CHECKNUM",
+  "NAME",
+  "MEMO",
+];
+
+/**
+ * Work out the statement format from the file extension, falling back to
+ * sniffing the content for files saved with a generic extension
+ */
+export function detectStatementFormat(
+  fileName: string,
+  text: string
+): StatementFormat {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "ofx" || extension === "qfx") return "ofx";
+  if (extension === "qif") return "qif";
+
+  const head = text.slice(0, 1000).trimStart();
+  if (/^OFXHEADER:/i.test(head) || /<OFX>/i.test(head)) return "ofx";
+  if (/^!(Type|Account|Option)/i.test(head)) return "qif";
+
+  return "csv";
+}
+
+/**
+ * Short, stable hash (FNV-1a) used to scope external IDs to an account
+ * without storing the account number itself
+ */
+function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&lt;/gi, "<")
+    .replace(/&gt;/gi, ">")
+    .replace(/&quot;/gi, '"')
+    .replace(/&apos;/gi, "'")
+    .replace(/&nbsp;/gi, " ")
+    .replace(/&amp;/gi, "&");
+}
+
+/**
+ * Read a leaf element from an OFX block. Works for both SGML (OFX 1.x, no
+ * closing tags) and XML (OFX 2.x) documents.
+ */
+function readOfxElement(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  if (!match) return undefined;
+
+  const value = decodeEntities(match[1]).trim();
+  return value || undefined;
+}
+
+/**
+ * Split a document on an aggregate's opening tag, returning the content of
+ * each occurrence up to its closing tag (or the next occurrence)
+ */
+function splitOfxAggregates(text: string, tag: string): string[] {
+  return text
+    .split(new RegExp(`<${tag}>`, "i"))
+    .slice(1)
+    .map((block) => block.split(new RegExp(`</${tag}>`, "i"))[0]);
+}
+
+/**
+ * Parse an OFX date (YYYYMMDD[HHMMSS[.XXX]][gmt offset]) into an ISO date
+ */
+function parseOfxDate(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+
+  return parseDateWithFormat(
+    `${match[1]}-${match[2]}-${match[3]}`,
+    "YYYY-MM-DD"
+  );
+}
+
+/**
+ * Parse an OFX or QFX statement. Debits (negative TRNAMT) become expenses and
+ * credits are counted as skipped. Each transaction's FITID, scoped to its
+ * account, is kept as the external ID so overlapping statements can be
+ * re-imported safely. The account comes from the statement's BANKID and
+ * ACCTID, or else the account name the user picked. FITIDs are only unique
+ * within an account, so statements with neither get no external ID and rely
+ * on fuzzy duplicate detection instead. Row numbers in errors are the 1-based
+ * transaction position in the file.
+ */
+export function parseOfxStatement(
+  text: string,
+  accountName = ""
+): StatementParseResult {
+  const result: StatementParseResult = {
+    rows: [],
+    skipped_count: 0,
+    errors: [],
+  };
+
+  // Bank (STMTRS) and credit card (CCSTMTRS) statements can share a file
+  const statements = [
+    ...splitOfxAggregates(text, "STMTRS"),
+    ...splitOfxAggregates(text, "CCSTMTRS"),
+  ];
+  if (statements.length === 0) statements.push(text);
+
+  let rowNumber = 0;
+
+  statements.forEach((statement) => {
+    const account = [
+      readOfxElement(statement, "BANKID"),
+      readOfxElement(statement, "ACCTID"),
+    ]
+      .filter(Boolean)
+      .join(":");
+    const scope = account || accountName.trim();
+    const accountKey = scope ? hashString(scope) : null;
+
+    splitOfxAggregates(statement, "STMTTRN").forEach((block) => {
+      rowNumber++;
+
+      const rawData: Record<string, unknown> = {};
+      OFX_RAW_FIELDS.forEach((field) => {
+        const value = readOfxElement(block, field);
+        if (value !== undefined) rawData[field] = value;
+      });
+
+      const dateValue = readOfxElement(block, "DTPOSTED") || "";
+      const date = parseOfxDate(dateValue);
+      const amountValue = readOfxElement(block, "TRNAMT") || "";
+      const amount = parseAmount(amountValue);
+      const fitId = readOfxElement(block, "FITID");
+      const checkNumber = readOfxElement(block, "CHECKNUM");
+      const description =
+        readOfxElement(block, "NAME") ||
+        readOfxElement(block, "MEMO") ||
+        (checkNumber ? `Check #${checkNumber}` : "");
+
+      if (amount !== null && amount >= 0) {
+        result.skipped_count++;
+        return;
+      }
+
+      const data: ExpenseImportData = {
+        description,
+        amount: amount !== null ? Math.abs(amount) : 0,
+        date: date || dateValue,
+        external_id:
+          fitId && accountKey ? `ofx:${accountKey}:${fitId}` : undefined,
+        raw_data: rawData,
+      };
+
+      const rowErrors: string[] = [];
+      if (!date) rowErrors.push(`Unrecognized date "${dateValue}"`);
+      if (amount === null) rowErrors.push("Missing or invalid amount");
+      if (!description) rowErrors.push("Missing description");
+
+      if (rowErrors.length > 0) {
+        result.errors.push({
+          row: rowNumber,
+          error: rowErrors.join(", "),
+          data,
+        });
+        return;
+      }
+
+      result.rows.push(data);
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Normalise Quicken date quirks ("1/ 5'26", "01-05-2026") so the values can be
+ * read with the CSV date formats
+ */
+function normalizeQifDate(value: string): string {
+  return value
+    .replace(/\s/g, "")
+    .replace(/'(\d{1,2})$/, (_, year) => `/20${year.padStart(2, "0")}`)
+    .replace(/^(\d{1,2})-(\d{1,2})-(\d{2,4})$/, "$1/$2/$3");
+}
+
+function parseQifDate(value: string, dayFirst: boolean): string | null {
+  let format: CsvDateFormat;
+  if (/^\d{4}-/.test(value)) {
+    format = "YYYY-MM-DD";
+  } else if (value.includes(".")) {
+    format = "DD.MM.YYYY";
+  } else if (/\/\d{2}$/.test(value)) {
+    format = dayFirst ? "DD/MM/YY" : "MM/DD/YY";
+  } else {
+    format = dayFirst ? "DD/MM/YYYY" : "MM/DD/YYYY";
+  }
+
+  return parseDateWithFormat(value, format);
+}
+
+/**
+ * Match a Quicken category ("Auto:Fuel") to an expense category, trying the
+ * full name first and then each subcategory from the most specific
+ */
+function matchQifCategory(value: string): string | undefined {
+  if (!value || value.startsWith("[")) return undefined;
+
+  const candidates = [value, ...value.split(":").reverse()];
+  for (const candidate of candidates) {
+    const category = matchExpenseCategory(candidate);
+    if (category) return category;
+  }
+  return undefined;
+}
+
+/**
+ * Parse a QIF statement. Payments (negative amounts) become expenses and
+ * deposits are counted as skipped. QIF has no transaction IDs, so the
+ * external ID is derived from the account, date, amount and check number,
+ * numbering repeats within the file; a re-downloaded statement yields the
+ * same IDs even if the payee text changed. The account comes from the file's
+ * !Account header, or else the account name the user picked. Single-account
+ * files with neither get no external ID, since the same date and amount on
+ * two cards would collide; those rows rely on fuzzy duplicate detection
+ * instead. Row numbers in errors are the 1-based transaction position in the
+ * file.
+ */
+export function parseQifStatement(
+  text: string,
+  accountName = ""
+): StatementParseResult {
+  const result: StatementParseResult = {
+    rows: [],
+    skipped_count: 0,
+    errors: [],
+  };
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const records: Array<{ account: string; fields: Record<string, string> }> =
+    [];
+  let section = "";
+  let account = "";
+  let fields: Record<string, string> = {};
+
+  input.split(/\r\n|\n|\r/).forEach((rawLine) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    if (line.startsWith("!")) {
+      section = line.toLowerCase();
+      fields = {};
+      return;
+    }
+
+    if (line === "^") {
+      if (section === "!account") {
+        account = fields.N || "";
+      } else if (
+        (section === "" || section.startsWith("!type:")) &&
+        !section.startsWith("!type:invst") &&
+        Object.keys(fields).length > 0
+      ) {
+        records.push({ account, fields });
+      }
+      fields = {};
+      return;
+    }
+
+    const code = line[0];
+    // Split lines (S, E, $) describe parts of the transaction; the total is
+    // imported as a single expense
+    if (code === "S" || code === "E" || code === "$") return;
+    if (fields[code] === undefined) fields[code] = line.slice(1).trim();
+  });
+
+  const dateValues = records.map(({ fields }) =>
+    normalizeQifDate(fields.D || "")
+  );
+  const dayFirst = detectDateFormat(dateValues)?.startsWith("DD") || false;
+  const occurrences = new Map<string, number>();
+
+  records.forEach(({ account, fields }, index) => {
+    const rawData: Record<string, unknown> = { ...fields };
+    const dateValue = fields.D || "";
+    const date = parseQifDate(dateValues[index], dayFirst);
+    const amount = parseAmount(fields.T ?? fields.U ?? "");
+    const checkNumber = /^\d+$/.test(fields.N || "") ? fields.N : undefined;
+    const description =
+      fields.P || fields.M || (checkNumber ? `Check #${checkNumber}` : "");
+
+    if (amount !== null && amount >= 0) {
+      result.skipped_count++;
+      return;
+    }
+
+    const scope = account || accountName.trim();
+    let externalId: string | undefined;
+    if (scope && date && amount !== null) {
+      const key = [
+        hashString(scope),
+        date,
+        Math.round(Math.abs(amount) * 100),
+        checkNumber || "",
+      ].join(":");
+      const occurrence = (occurrences.get(key) || 0) + 1;
+      occurrences.set(key, occurrence);
+      externalId = `qif:${key}:${occurrence}`;
+    }
+
+    const data: ExpenseImportData = {
+      description,
+      amount: amount !== null ? Math.abs(amount) : 0,
+      date: date || dateValue,
+      category: matchQifCategory(fields.L || ""),
+      external_id: externalId,
+      raw_data: rawData,
+    };
+
+    const rowErrors: string[] = [];
+    if (!date) rowErrors.push(`Unrecognized date "${dateValue}"`);
+    if (amount === null) rowErrors.push("Missing or invalid amount");
+    if (!description) rowErrors.push("Missing description");
+
+    if (rowErrors.length > 0) {
+      result.errors.push({
+        row: index + 1,
+        error: rowErrors.join(", "),
+        data,
+      });
+      return;
+    }
+
+    result.rows.push(data);
+  });
+
+  return result;
+}
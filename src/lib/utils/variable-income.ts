@@ -0,0 +1,77 @@
+import type { IncomeSource } from "@/types/database";
+import type {
+  BaselineMonth,
+  MonthlyIncomeTotal,
+} from "@/lib/types/income-deposits";
+
+// Complete months of deposit history the baseline looks back over
+export const BASELINE_MONTHS = 6;
+
+// Calendar month (YYYY-MM) a number of months before another
+function shiftMonth(month: string, offset: number): string {
+  const [year, monthNumber] = month.split("-").map(Number);
+  const date = new Date(Date.UTC(year, monthNumber - 1 + offset, 1));
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Baseline month for variable income: the lowest total over the trailing
+ * complete months, so the budget holds up in a slow month. Months before
+ * the earliest deposit are left out, so a new earner's baseline isn't zero.
+ */
+export function calculateBaselineMonth(
+  deposits: Array<{ deposit_date: string; amount: number }>,
+  asOfDate: string,
+  historyStartDate: string | null,
+  months: number = BASELINE_MONTHS
+): BaselineMonth {
+  const currentMonth = asOfDate.slice(0, 7);
+  const firstMonth = historyStartDate ? historyStartDate.slice(0, 7) : null;
+
+  const totals = new Map<string, number>();
+  for (const deposit of deposits) {
+    const month = deposit.deposit_date.slice(0, 7);
+    totals.set(month, (totals.get(month) || 0) + deposit.amount);
+  }
+
+  const trailing: MonthlyIncomeTotal[] = [];
+  for (let offset = months; offset >= 1; offset--) {
+    const month = shiftMonth(currentMonth, -offset);
+    if (!firstMonth || month < firstMonth) continue;
+    trailing.push({
+      month,
+      total: Number((totals.get(month) || 0).toFixed(2)),
+    });
+  }
+
+  if (trailing.length === 0) {
+    return { baseline: null, average: null, months: [] };
+  }
+
+  const sum = trailing.reduce((total, month) => total + month.total, 0);
+  return {
+    baseline: Math.min(...trailing.map((month) => month.total)),
+    average: Number((sum / trailing.length).toFixed(2)),
+    months: trailing,
+  };
+}
+
+/**
+ * A variable income source with its amounts set to a month's expected net
+ * pay, keeping the source's gross-to-net ratio for gross percentage items
+ */
+export function withMonthlyIncome(
+  incomeSource: IncomeSource,
+  netAmount: number
+): IncomeSource {
+  const grossRatio =
+    incomeSource.net_amount > 0
+      ? incomeSource.gross_amount / incomeSource.net_amount
+      : 1;
+
+  return {
+    ...incomeSource,
+    net_amount: netAmount,
+    gross_amount: Number((netAmount * grossRatio).toFixed(2)),
+  };
+}
@@ -17,6 +17,12 @@ export interface Database {
           id: string;
           email: string;
           name: string | null;
+          budget_mode: Database["public"]["Enums"]["budget_mode"];
+          household_cadence: Database["public"]["Enums"]["income_cadence"];
+          household_start_date: string | null;
+          period_completion_policy: Database["public"]["Enums"]["period_completion_policy"];
+          calendar_feed_token: string | null;
+          debt_payoff_priority: Database["public"]["Enums"]["debt_payoff_priority"];
           created_at: string;
           updated_at: string;
         };
@@ -24,12 +30,24 @@ export interface Database {
           id: string;
           email: string;
           name?: string | null;
+          budget_mode?: Database["public"]["Enums"]["budget_mode"];
+          household_cadence?: Database["public"]["Enums"]["income_cadence"];
+          household_start_date?: string | null;
+          period_completion_policy?: Database["public"]["Enums"]["period_completion_policy"];
+          calendar_feed_token?: string | null;
+          debt_payoff_priority?: Database["public"]["Enums"]["debt_payoff_priority"];
           created_at?: string;
           updated_at?: string;
         };
         Update: {
           email?: string;
           name?: string | null;
+          budget_mode?: Database["public"]["Enums"]["budget_mode"];
+          household_cadence?: Database["public"]["Enums"]["income_cadence"];
+          household_start_date?: string | null;
+          period_completion_policy?: Database["public"]["Enums"]["period_completion_policy"];
+          calendar_feed_token?: string | null;
+          debt_payoff_priority?: Database["public"]["Enums"]["debt_payoff_priority"];
           updated_at?: string;
         };
       };
@@ -44,6 +62,11 @@ export interface Database {
           start_date: string;
           end_date: string | null;
           is_active: boolean;
+          pay_anchor_days: number[] | null;
+          business_day_adjustment: Database["public"]["Enums"]["business_day_adjustment"];
+          holiday_calendar: Database["public"]["Enums"]["holiday_calendar"];
+          is_variable: boolean;
+          paycheck_deductions: Json;
           created_at: string;
           updated_at: string;
         };
@@ -57,6 +80,11 @@ export interface Database {
           start_date: string;
           end_date?: string | null;
           is_active?: boolean;
+          pay_anchor_days?: number[] | null;
+          business_day_adjustment?: Database["public"]["Enums"]["business_day_adjustment"];
+          holiday_calendar?: Database["public"]["Enums"]["holiday_calendar"];
+          is_variable?: boolean;
+          paycheck_deductions?: Json;
           created_at?: string;
           updated_at?: string;
         };
@@ -68,6 +96,11 @@ export interface Database {
           start_date?: string;
           end_date?: string | null;
           is_active?: boolean;
+          pay_anchor_days?: number[] | null;
+          business_day_adjustment?: Database["public"]["Enums"]["business_day_adjustment"];
+          holiday_calendar?: Database["public"]["Enums"]["holiday_calendar"];
+          is_variable?: boolean;
+          paycheck_deductions?: Json;
           updated_at?: string;
         };
       };
@@ -82,6 +115,17 @@ export interface Database {
           cadence: Database["public"]["Enums"]["income_cadence"];
           depends_on: string[] | null;
           priority: number;
+          rollover_mode: Database["public"]["Enums"]["rollover_mode"];
+          deducted_from_paycheck: boolean;
+          min_amount: number | null;
+          max_amount: number | null;
+          overflow_target_id: string | null;
+          due_date: string | null;
+          funding_strategy: Database["public"]["Enums"]["bill_funding_strategy"];
+          is_sinking_fund: boolean;
+          target_amount: number | null;
+          target_date: string | null;
+          opening_balance: number;
           end_date: string | null;
           is_active: boolean;
           created_at: string;
@@ -97,6 +141,17 @@ export interface Database {
           cadence: Database["public"]["Enums"]["income_cadence"];
           depends_on?: string[] | null;
           priority?: number;
+          rollover_mode?: Database["public"]["Enums"]["rollover_mode"];
+          deducted_from_paycheck?: boolean;
+          min_amount?: number | null;
+          max_amount?: number | null;
+          overflow_target_id?: string | null;
+          due_date?: string | null;
+          funding_strategy?: Database["public"]["Enums"]["bill_funding_strategy"];
+          is_sinking_fund?: boolean;
+          target_amount?: number | null;
+          target_date?: string | null;
+          opening_balance?: number;
           end_date?: string | null;
           is_active?: boolean;
           created_at?: string;
@@ -110,6 +165,17 @@ export interface Database {
           cadence?: Database["public"]["Enums"]["income_cadence"];
           depends_on?: string[] | null;
           priority?: number;
+          rollover_mode?: Database["public"]["Enums"]["rollover_mode"];
+          deducted_from_paycheck?: boolean;
+          min_amount?: number | null;
+          max_amount?: number | null;
+          overflow_target_id?: string | null;
+          due_date?: string | null;
+          funding_strategy?: Database["public"]["Enums"]["bill_funding_strategy"];
+          is_sinking_fund?: boolean;
+          target_amount?: number | null;
+          target_date?: string | null;
+          opening_balance?: number;
           end_date?: string | null;
           is_active?: boolean;
           updated_at?: string;
@@ -121,7 +187,7 @@ export interface Database {
           user_id: string;
           start_date: string;
           end_date: string;
-          income_source_id: string;
+          income_source_id: string | null;
           expected_net: number;
           actual_net: number | null;
           status: Database["public"]["Enums"]["pay_period_status"];
@@ -133,7 +199,7 @@ export interface Database {
           user_id: string;
           start_date: string;
           end_date: string;
-          income_source_id: string;
+          income_source_id: string | null;
           expected_net: number;
           actual_net?: number | null;
           status?: Database["public"]["Enums"]["pay_period_status"];
@@ -143,7 +209,7 @@ export interface Database {
         Update: {
           start_date?: string;
           end_date?: string;
-          income_source_id?: string;
+          income_source_id?: string | null;
           expected_net?: number;
           actual_net?: number | null;
           status?: Database["public"]["Enums"]["pay_period_status"];
@@ -157,6 +223,9 @@ export interface Database {
           budget_item_id: string;
           expected_amount: number;
           actual_amount: number | null;
+          funded_amount: number;
+          carried_in: number;
+          carried_out: number;
           status: Database["public"]["Enums"]["allocation_status"];
           created_at: string;
           updated_at: string;
@@ -167,6 +236,9 @@ export interface Database {
           budget_item_id: string;
           expected_amount: number;
           actual_amount?: number | null;
+          funded_amount?: number;
+          carried_in?: number;
+          carried_out?: number;
           status?: Database["public"]["Enums"]["allocation_status"];
           created_at?: string;
           updated_at?: string;
@@ -174,6 +246,9 @@ export interface Database {
         Update: {
           expected_amount?: number;
           actual_amount?: number | null;
+          funded_amount?: number;
+          carried_in?: number;
+          carried_out?: number;
           status?: Database["public"]["Enums"]["allocation_status"];
           updated_at?: string;
         };
@@ -189,6 +264,15 @@ export interface Database {
           date: string;
           budget_item_id: string | null;
           type: Database["public"]["Enums"]["expense_type"];
+          external_id: string | null;
+          raw_data: Json | null;
+          parent_expense_id: string | null;
+          is_split: boolean;
+          recurring_expense_id: string | null;
+          refund_of_expense_id: string | null;
+          tags: string[];
+          notes: string | null;
+          search_vector: unknown;
           created_at: string;
           updated_at: string;
         };
@@ -202,6 +286,14 @@ export interface Database {
           date: string;
           budget_item_id?: string | null;
           type?: Database["public"]["Enums"]["expense_type"];
+          external_id?: string | null;
+          raw_data?: Json | null;
+          parent_expense_id?: string | null;
+          is_split?: boolean;
+          recurring_expense_id?: string | null;
+          refund_of_expense_id?: string | null;
+          tags?: string[];
+          notes?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -213,6 +305,11 @@ export interface Database {
           date?: string;
           budget_item_id?: string | null;
           type?: Database["public"]["Enums"]["expense_type"];
+          external_id?: string | null;
+          is_split?: boolean;
+          refund_of_expense_id?: string | null;
+          tags?: string[];
+          notes?: string | null;
           updated_at?: string;
         };
       };
@@ -291,6 +388,389 @@ export interface Database {
           change_reason?: string | null;
         };
       };
+      import_profiles: {
+        Row: {
+          id: string;
+          user_id: string;
+          bank_name: string;
+          delimiter: string;
+          date_format: string;
+          amount_sign: Database["public"]["Enums"]["import_amount_sign"];
+          has_header: boolean;
+          column_mapping: Json;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          bank_name: string;
+          delimiter?: string;
+          date_format?: string;
+          amount_sign?: Database["public"]["Enums"]["import_amount_sign"];
+          has_header?: boolean;
+          column_mapping?: Json;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          bank_name?: string;
+          delimiter?: string;
+          date_format?: string;
+          amount_sign?: Database["public"]["Enums"]["import_amount_sign"];
+          has_header?: boolean;
+          column_mapping?: Json;
+          updated_at?: string;
+        };
+      };
+      expense_rules: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          priority: number;
+          is_active: boolean;
+          description_contains: string | null;
+          description_regex: string | null;
+          min_amount: number | null;
+          max_amount: number | null;
+          set_category: string | null;
+          set_budget_item_id: string | null;
+          set_budget_payment: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          priority?: number;
+          is_active?: boolean;
+          description_contains?: string | null;
+          description_regex?: string | null;
+          min_amount?: number | null;
+          max_amount?: number | null;
+          set_category?: string | null;
+          set_budget_item_id?: string | null;
+          set_budget_payment?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          name?: string;
+          priority?: number;
+          is_active?: boolean;
+          description_contains?: string | null;
+          description_regex?: string | null;
+          min_amount?: number | null;
+          max_amount?: number | null;
+          set_category?: string | null;
+          set_budget_item_id?: string | null;
+          set_budget_payment?: boolean;
+          updated_at?: string;
+        };
+      };
+      expense_filter_presets: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          filters: Json;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          filters?: Json;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          name?: string;
+          filters?: Json;
+          updated_at?: string;
+        };
+      };
+      pay_period_deposits: {
+        Row: {
+          id: string;
+          user_id: string;
+          pay_period_id: string;
+          income_source_id: string;
+          pay_date: string;
+          expected_net: number;
+          gross_amount: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          pay_period_id: string;
+          income_source_id: string;
+          pay_date: string;
+          expected_net: number;
+          gross_amount: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          pay_date?: string;
+          expected_net?: number;
+          gross_amount?: number;
+          updated_at?: string;
+        };
+      };
+      income_deposits: {
+        Row: {
+          id: string;
+          user_id: string;
+          income_source_id: string;
+          pay_period_id: string | null;
+          deposit_date: string;
+          amount: number;
+          notes: string | null;
+          fundings: Json;
+          unallocated_amount: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          income_source_id: string;
+          pay_period_id?: string | null;
+          deposit_date: string;
+          amount: number;
+          notes?: string | null;
+          fundings?: Json;
+          unallocated_amount?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          pay_period_id?: string | null;
+          deposit_date?: string;
+          amount?: number;
+          notes?: string | null;
+          fundings?: Json;
+          unallocated_amount?: number;
+          updated_at?: string;
+        };
+      };
+      pay_period_job_log: {
+        Row: {
+          id: string;
+          run_id: string;
+          user_id: string;
+          pay_period_id: string | null;
+          income_source_id: string | null;
+          action: Database["public"]["Enums"]["pay_period_job_action"];
+          message: string;
+          as_of: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          run_id: string;
+          user_id: string;
+          pay_period_id?: string | null;
+          income_source_id?: string | null;
+          action: Database["public"]["Enums"]["pay_period_job_action"];
+          message: string;
+          as_of: string;
+          created_at?: string;
+        };
+        Update: {
+          message?: string;
+        };
+      };
+      pay_period_snapshots: {
+        Row: {
+          id: string;
+          user_id: string;
+          pay_period_id: string;
+          income_source_name: string;
+          gross_income: number;
+          expected_net: number;
+          actual_net: number | null;
+          items: Json;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          pay_period_id: string;
+          income_source_name: string;
+          gross_income?: number;
+          expected_net: number;
+          actual_net?: number | null;
+          items?: Json;
+          created_at?: string;
+        };
+        Update: Record<string, never>;
+      };
+      recurring_expenses: {
+        Row: {
+          id: string;
+          user_id: string;
+          description: string;
+          amount: number;
+          category: string;
+          budget_item_id: string | null;
+          cadence: Database["public"]["Enums"]["income_cadence"] | null;
+          interval_count: number | null;
+          interval_unit:
+            | Database["public"]["Enums"]["recurrence_interval_unit"]
+            | null;
+          start_date: string;
+          next_date: string;
+          end_date: string | null;
+          auto_post: boolean;
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          description: string;
+          amount: number;
+          category: string;
+          budget_item_id?: string | null;
+          cadence?: Database["public"]["Enums"]["income_cadence"] | null;
+          interval_count?: number | null;
+          interval_unit?:
+            | Database["public"]["Enums"]["recurrence_interval_unit"]
+            | null;
+          start_date: string;
+          next_date: string;
+          end_date?: string | null;
+          auto_post?: boolean;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          description?: string;
+          amount?: number;
+          category?: string;
+          budget_item_id?: string | null;
+          cadence?: Database["public"]["Enums"]["income_cadence"] | null;
+          interval_count?: number | null;
+          interval_unit?:
+            | Database["public"]["Enums"]["recurrence_interval_unit"]
+            | null;
+          start_date?: string;
+          next_date?: string;
+          end_date?: string | null;
+          auto_post?: boolean;
+          is_active?: boolean;
+          updated_at?: string;
+        };
+      };
+      recurring_expense_occurrences: {
+        Row: {
+          id: string;
+          user_id: string;
+          recurring_expense_id: string;
+          occurrence_date: string;
+          status: Database["public"]["Enums"]["recurring_occurrence_status"];
+          pay_period_id: string | null;
+          expense_id: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          recurring_expense_id: string;
+          occurrence_date: string;
+          status: Database["public"]["Enums"]["recurring_occurrence_status"];
+          pay_period_id?: string | null;
+          expense_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          status?: Database["public"]["Enums"]["recurring_occurrence_status"];
+          pay_period_id?: string | null;
+          expense_id?: string | null;
+          updated_at?: string;
+        };
+      };
+      savings_goals: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          target_amount: number;
+          target_date: string;
+          current_balance: number;
+          budget_item_id: string | null;
+          priority: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          target_amount: number;
+          target_date: string;
+          current_balance?: number;
+          budget_item_id?: string | null;
+          priority?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          name?: string;
+          target_amount?: number;
+          target_date?: string;
+          current_balance?: number;
+          budget_item_id?: string | null;
+          priority?: number;
+          updated_at?: string;
+        };
+      };
+      debt_accounts: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          balance: number;
+          apr: number;
+          minimum_payment: number;
+          budget_item_id: string | null;
+          payoff_order: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          balance: number;
+          apr?: number;
+          minimum_payment?: number;
+          budget_item_id?: string | null;
+          payoff_order?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          name?: string;
+          balance?: number;
+          apr?: number;
+          minimum_payment?: number;
+          budget_item_id?: string | null;
+          payoff_order?: number;
+          updated_at?: string;
+        };
+      };
     };
     Views: {
       [_ in never]: never;
@@ -320,7 +800,7 @@ export interface Database {
         | "REMAINING_PERCENT";
       pay_period_status: "ACTIVE" | "COMPLETED";
       allocation_status: "PAID" | "UNPAID";
-      expense_type: "BUDGET_PAYMENT" | "EXPENSE";
+      expense_type: "BUDGET_PAYMENT" | "EXPENSE" | "REFUND";
       suggestion_status: "PENDING" | "APPLIED";
       income_change_type:
         | "CREATED"
@@ -328,6 +808,20 @@ export interface Database {
         | "ACTIVATED"
         | "DEACTIVATED"
         | "DELETED";
+      import_amount_sign:
+        | "NEGATIVE_IS_EXPENSE"
+        | "POSITIVE_IS_EXPENSE"
+        | "DEBIT_CREDIT_COLUMNS";
+      recurrence_interval_unit: "DAYS" | "WEEKS" | "MONTHS";
+      recurring_occurrence_status: "PENDING" | "POSTED" | "SKIPPED";
+      business_day_adjustment: "NONE" | "PREVIOUS" | "NEXT";
+      holiday_calendar: "NONE" | "US_FEDERAL" | "US_BANK";
+      budget_mode: "PER_SOURCE" | "HOUSEHOLD";
+      period_completion_policy: "MANUAL" | "WHEN_PAID" | "ON_END";
+      pay_period_job_action: "CREATED" | "COMPLETED" | "FAILED";
+      rollover_mode: "RESET" | "CARRY_SURPLUS" | "CARRY_DEFICIT" | "CARRY_BOTH";
+      bill_funding_strategy: "SPLIT_EVENLY" | "BEFORE_DUE_DATE";
+      debt_payoff_priority: "highest_interest" | "smallest_balance" | "custom";
     };
     CompositeTypes: {
       [_ in never]: never;
@@ -346,6 +840,25 @@ export type Expense = Database["public"]["Tables"]["expenses"]["Row"];
 export type Suggestion = Database["public"]["Tables"]["suggestions"]["Row"];
 export type IncomeHistory =
   Database["public"]["Tables"]["income_history"]["Row"];
+export type ImportProfile =
+  Database["public"]["Tables"]["import_profiles"]["Row"];
+export type ExpenseRule = Database["public"]["Tables"]["expense_rules"]["Row"];
+export type ExpenseFilterPreset =
+  Database["public"]["Tables"]["expense_filter_presets"]["Row"];
+export type PayPeriodDeposit =
+  Database["public"]["Tables"]["pay_period_deposits"]["Row"];
+export type IncomeDeposit =
+  Database["public"]["Tables"]["income_deposits"]["Row"];
+export type PayPeriodJobLog =
+  Database["public"]["Tables"]["pay_period_job_log"]["Row"];
+export type PayPeriodSnapshot =
+  Database["public"]["Tables"]["pay_period_snapshots"]["Row"];
+export type RecurringExpense =
+  Database["public"]["Tables"]["recurring_expenses"]["Row"];
+export type RecurringExpenseOccurrence =
+  Database["public"]["Tables"]["recurring_expense_occurrences"]["Row"];
+export type SavingsGoal = Database["public"]["Tables"]["savings_goals"]["Row"];
+export type DebtAccount = Database["public"]["Tables"]["debt_accounts"]["Row"];
 
 export type IncomeCadence = Database["public"]["Enums"]["income_cadence"];
 export type BudgetCategory = Database["public"]["Enums"]["budget_category"];
@@ -356,3 +869,22 @@ export type ExpenseType = Database["public"]["Enums"]["expense_type"];
 export type SuggestionStatus = Database["public"]["Enums"]["suggestion_status"];
 export type IncomeChangeType =
   Database["public"]["Enums"]["income_change_type"];
+export type ImportAmountSign =
+  Database["public"]["Enums"]["import_amount_sign"];
+export type RecurrenceIntervalUnit =
+  Database["public"]["Enums"]["recurrence_interval_unit"];
+export type RecurringOccurrenceStatus =
+  Database["public"]["Enums"]["recurring_occurrence_status"];
+export type BusinessDayAdjustment =
+  Database["public"]["Enums"]["business_day_adjustment"];
+export type HolidayCalendar = Database["public"]["Enums"]["holiday_calendar"];
+export type BudgetMode = Database["public"]["Enums"]["budget_mode"];
+export type PeriodCompletionPolicy =
+  Database["public"]["Enums"]["period_completion_policy"];
+export type PayPeriodJobAction =
+  Database["public"]["Enums"]["pay_period_job_action"];
+export type RolloverMode = Database["public"]["Enums"]["rollover_mode"];
+export type BillFundingStrategy =
+  Database["public"]["Enums"]["bill_funding_strategy"];
+export type DebtPayoffPriority =
+  Database["public"]["Enums"]["debt_payoff_priority"];
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateAllocations,
+  type AllocationBudgetItem,
+} from "./allocation-calculations";
+
+function item(
+  id: string,
+  fields: Partial<AllocationBudgetItem> &
+    Pick<AllocationBudgetItem, "calc_type" | "value">
+): AllocationBudgetItem {
+  return {
+    id,
+    name: id,
+    cadence: "monthly",
+    depends_on: null,
+    priority: 1,
+    is_active: true,
+    ...fields,
+  };
+}
+
+const INCOME = { gross_amount: 3500, net_amount: 3000, cadence: "monthly" };
+
+// Half of what's left after rent, capped at 600 with the rest overflowing
+const capped = (overflowTargetId: string) =>
+  item("fun", {
+    calc_type: "REMAINING_PERCENT",
+    value: 50,
+    depends_on: ["rent"],
+    max_amount: 600,
+    overflow_target_id: overflowTargetId,
+    priority: 3,
+  });
+
+describe("overflow above the maximum", () => {
+  it("is sent to the overflow item", () => {
+    const run = calculateAllocations(
+      [
+        item("rent", { calc_type: "FIXED", value: 1200 }),
+        item("savings", { calc_type: "NET_PERCENT", value: 5, priority: 2 }),
+        capped("savings"),
+      ],
+      INCOME
+    );
+
+    const fun = run.allocations.find((a) => a.budget_item_id === "fun");
+    expect(fun?.calculation_details).toMatchObject({
+      overflow_amount: 300,
+      overflow_to: "savings",
+    });
+    const savings = run.allocations.find((a) => a.budget_item_id === "savings");
+    expect(savings?.expected_amount).toBe(450);
+    expect(savings?.calculation_details.overflow_received).toBe(300);
+    expect(run.total_allocated).toBe(2250);
+    expect(run.total_remaining).toBe(750);
+    expect(run.errors).toEqual([]);
+  });
+
+  it.each([
+    ["inactive", { is_active: false }],
+    ["withheld from the paycheck", { deducted_from_paycheck: true }],
+  ])("stays unallocated when the overflow item is %s", (_, fields) => {
+    const run = calculateAllocations(
+      [
+        item("rent", { calc_type: "FIXED", value: 1200 }),
+        item("savings", {
+          calc_type: "NET_PERCENT",
+          value: 5,
+          priority: 2,
+          ...fields,
+        }),
+        capped("savings"),
+      ],
+      INCOME
+    );
+
+    const fun = run.allocations.find((a) => a.budget_item_id === "fun");
+    expect(fun?.expected_amount).toBe(600);
+    expect(fun?.calculation_details.overflow_to).toBeUndefined();
+    expect(fun?.calculation_details.overflow_amount).toBeUndefined();
+    expect(fun?.calculation_details.notes).toContain(
+      "300.00 above the maximum left unallocated"
+    );
+    expect(run.total_remaining).toBe(1200);
+  });
+});
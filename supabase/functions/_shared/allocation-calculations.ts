@@ -0,0 +1,557 @@
+/**
+ * Budget allocation math shared by the app and the allocation-engine and
+ * budget-calculations edge functions. This module has no imports so it runs
+ * unchanged under Node and Deno, and previews in the app match the
+ * allocations the engine generates.
+ *
+ * Items are calculated in priority order (lowest number first), after any
+ * items they depend on. Amounts for items on a different cadence than the
+ * income are pro-rated to the income's cadence, rounded, and never negative.
+ * Percentage items can be held between a minimum and maximum amount, with
+ * anything above the maximum going to an overflow item instead, or left
+ * unallocated when that item isn't allocated itself. Fixed bills
+ * with a due date can instead be funded in full by the pay period they fall
+ * due in, i.e. from the paycheck before the due date.
+ * Every change here must keep allocation-conformance.ts passing.
+ */
+
+export type AllocationCalcType =
+  | "FIXED"
+  | "GROSS_PERCENT"
+  | "NET_PERCENT"
+  | "REMAINING_PERCENT";
+
+export interface AllocationBudgetItem {
+  id: string;
+  name: string;
+  calc_type: AllocationCalcType;
+  value: number;
+  cadence: string;
+  depends_on: string[] | null;
+  priority: number;
+  is_active: boolean;
+  deducted_from_paycheck?: boolean; // Withheld before take-home pay
+  // Bounds on percentage items, on the item's cadence like a fixed value
+  min_amount?: number | null;
+  max_amount?: number | null;
+  overflow_target_id?: string | null; // Receives anything above max_amount
+  due_date?: string | null; // Any one due date; repeats at the item's cadence
+  funding_strategy?: BillFundingStrategy;
+}
+
+export type BillFundingStrategy = "SPLIT_EVENLY" | "BEFORE_DUE_DATE";
+
+// The pay period being allocated, as YYYY-MM-DD dates
+export interface AllocationPeriod {
+  start_date: string;
+  end_date: string;
+}
+
+export interface AllocationIncomeSource {
+  gross_amount: number;
+  net_amount: number;
+  cadence: string;
+}
+
+export interface AllocationConfig {
+  enable_pro_rating: boolean;
+  handle_rounding: "up" | "down" | "nearest";
+  max_iterations: number; // Dependency resolution passes
+  precision_decimals: number;
+}
+
+export interface AllocationDetails {
+  base_amount: number;
+  calculation_type: AllocationCalcType;
+  percentage?: number;
+  dependency_total?: number;
+  pro_rated_factor?: number;
+  bounded_by?: "MIN" | "MAX";
+  overflow_amount?: number; // Cut above the maximum and sent to overflow_to
+  overflow_to?: string;
+  overflow_received?: number; // Added from items capped at their maximum
+  due_dates?: string[]; // Funded in full for each of these
+  notes?: string;
+}
+
+export interface CalculatedAllocation {
+  budget_item_id: string;
+  expected_amount: number;
+  calculation_details: AllocationDetails;
+}
+
+export interface AllocationRun {
+  allocations: CalculatedAllocation[];
+  calculation_order: string[];
+  total_allocated: number;
+  total_remaining: number;
+  errors: string[];
+}
+
+export interface AllocationOptions {
+  config?: Partial<AllocationConfig>;
+  pro_rate_factor?: number; // Overrides cadence pro-rating, e.g. partial periods
+  period?: AllocationPeriod; // Needed to fund bills by due date
+}
+
+export const DEFAULT_ALLOCATION_CONFIG: AllocationConfig = {
+  enable_pro_rating: true,
+  handle_rounding: "nearest",
+  max_iterations: 10,
+  precision_decimals: 2,
+};
+
+const PERCENTAGE_CALC_TYPES: AllocationCalcType[] = [
+  "GROSS_PERCENT",
+  "NET_PERCENT",
+  "REMAINING_PERCENT",
+];
+
+// Average length of each cadence, used to pro-rate between cadences
+export const CADENCE_DAYS: Record<string, number> = {
+  weekly: 7,
+  "bi-weekly": 14,
+  "semi-monthly": 15.22, // Approximately 365.25 / 24
+  monthly: 30.44, // Approximately 365.25 / 12
+  quarterly: 91.31, // Approximately 365.25 / 4
+  annual: 365.25,
+};
+
+const DEFAULT_CADENCE_DAYS = CADENCE_DAYS.monthly;
+
+// Stop runaway loops on due dates far from the period
+const MAX_DUE_DATES = 1000;
+
+function parseDate(date: string): [number, number, number] {
+  const [year, month, day] = date.split("T")[0].split("-").map(Number);
+  return [year, month - 1, day];
+}
+
+function shiftDate(date: string, months: number, days: number): string {
+  const [year, month, day] = parseDate(date);
+  // Clamp to the end of shorter months (Jan 31 + 1 month = Feb 28/29)
+  const lastDay = new Date(Date.UTC(year, month + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month + months, Math.min(day, lastDay) + days))
+    .toISOString()
+    .split("T")[0];
+}
+
+// The nth due date from dueDate, counting backwards for negative n
+function getDueDate(dueDate: string, cadence: string, n: number): string {
+  switch (cadence) {
+    case "weekly":
+      return shiftDate(dueDate, 0, 7 * n);
+    case "bi-weekly":
+      return shiftDate(dueDate, 0, 14 * n);
+    case "semi-monthly": {
+      // Twice a month: the due day and 15 days later
+      const months = Math.floor(n / 2);
+      return shiftDate(dueDate, months, n - months * 2 === 1 ? 15 : 0);
+    }
+    case "quarterly":
+      return shiftDate(dueDate, 3 * n, 0);
+    case "annual":
+      return shiftDate(dueDate, 12 * n, 0);
+    case "monthly":
+    default:
+      return shiftDate(dueDate, n, 0);
+  }
+}
+
+/**
+ * Due dates of a bill within [from, to], given any one of its due dates
+ */
+export function getDueDatesBetween(
+  dueDate: string,
+  cadence: string,
+  from: string,
+  to: string
+): string[] {
+  // Step back to the last due date before the range
+  let n = 0;
+  while (n > -MAX_DUE_DATES && getDueDate(dueDate, cadence, n) >= from) {
+    n--;
+  }
+
+  const dates: string[] = [];
+  for (; n < MAX_DUE_DATES; n++) {
+    const date = getDueDate(dueDate, cadence, n);
+    if (date > to) break;
+    if (date >= from) dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * Round an amount as configured
+ */
+export function roundAmount(
+  amount: number,
+  config: AllocationConfig = DEFAULT_ALLOCATION_CONFIG
+): number {
+  const factor = Math.pow(10, config.precision_decimals);
+  // Drop floating point noise so 33.34 doesn't round up to 33.35
+  const scaled = Number((amount * factor).toPrecision(12));
+
+  switch (config.handle_rounding) {
+    case "up":
+      return Math.ceil(scaled) / factor;
+    case "down":
+      return Math.floor(scaled) / factor;
+    case "nearest":
+    default:
+      return Math.round(scaled) / factor;
+  }
+}
+
+/**
+ * Factor that converts an amount on the item's cadence to the income's
+ */
+export function getProRateFactor(
+  itemCadence: string,
+  incomeCadence: string,
+  customFactor?: number
+): number {
+  if (customFactor !== undefined) {
+    return customFactor;
+  }
+
+  if (itemCadence === incomeCadence) {
+    return 1;
+  }
+
+  const itemDays = CADENCE_DAYS[itemCadence] || DEFAULT_CADENCE_DAYS;
+  const incomeDays = CADENCE_DAYS[incomeCadence] || DEFAULT_CADENCE_DAYS;
+
+  return incomeDays / itemDays;
+}
+
+/**
+ * Order active items by priority, with each item after the items it depends
+ * on and after any items that overflow into it. Items caught in a circular
+ * dependency are calculated last.
+ */
+export function resolveBudgetItemDependencies<T extends AllocationBudgetItem>(
+  budgetItems: T[],
+  maxIterations: number = DEFAULT_ALLOCATION_CONFIG.max_iterations
+): T[] {
+  const resolved: T[] = [];
+  let pending = budgetItems
+    .filter((item) => item.is_active)
+    .sort((a, b) => a.priority - b.priority);
+  const resolvedIds = new Set<string>();
+
+  // An overflow item waits for the items that overflow into it
+  const overflowSources = new Map<string, string[]>();
+  for (const item of pending) {
+    if (item.overflow_target_id) {
+      const sources = overflowSources.get(item.overflow_target_id) || [];
+      overflowSources.set(item.overflow_target_id, [...sources, item.id]);
+    }
+  }
+
+  let iterations = 0;
+  while (pending.length > 0 && iterations < maxIterations) {
+    const previousLength = pending.length;
+
+    // Walk in priority order so independent items keep their priority
+    for (const item of pending) {
+      const dependencies = [
+        ...(item.depends_on || []),
+        ...(overflowSources.get(item.id) || []),
+      ];
+      const allDependenciesResolved = dependencies.every((depId) =>
+        resolvedIds.has(depId)
+      );
+
+      if (allDependenciesResolved) {
+        resolved.push(item);
+        resolvedIds.add(item.id);
+      }
+    }
+    pending = pending.filter((item) => !resolvedIds.has(item.id));
+
+    if (pending.length === previousLength) {
+      console.warn(
+        "Circular dependency detected in budget items:",
+        pending.map((item) => `${item.name} (${item.id})`)
+      );
+      break;
+    }
+
+    iterations++;
+  }
+
+  // Unresolved items are still allocated rather than dropped
+  resolved.push(...pending);
+  return resolved;
+}
+
+/**
+ * Calculate one item's allocation, given the allocations calculated so far
+ */
+export function calculateItemAllocation(
+  budgetItem: AllocationBudgetItem,
+  incomeSource: AllocationIncomeSource,
+  existingAllocations: CalculatedAllocation[],
+  config: AllocationConfig = DEFAULT_ALLOCATION_CONFIG,
+  customProRateFactor?: number,
+  period?: AllocationPeriod
+): CalculatedAllocation {
+  let expectedAmount = 0;
+  const details: AllocationDetails = {
+    base_amount: 0,
+    calculation_type: budgetItem.calc_type,
+  };
+
+  // Bills funded by due date aren't pro-rated
+  const dueDates = getFundedDueDates(budgetItem, period);
+  const proRateFactor =
+    config.enable_pro_rating && !dueDates
+      ? getProRateFactor(
+          budgetItem.cadence,
+          incomeSource.cadence,
+          customProRateFactor
+        )
+      : 1;
+
+  if (proRateFactor !== 1) {
+    details.pro_rated_factor = proRateFactor;
+    details.notes = `Pro-rated from ${budgetItem.cadence} to ${incomeSource.cadence}`;
+  }
+
+  switch (budgetItem.calc_type) {
+    case "FIXED":
+      details.base_amount = budgetItem.value;
+      if (dueDates) {
+        expectedAmount = budgetItem.value * dueDates.length;
+        details.due_dates = dueDates;
+        details.notes =
+          dueDates.length > 0
+            ? `Funded in full for ${dueDates.join(", ")}`
+            : "Not due this pay period";
+      } else {
+        expectedAmount = budgetItem.value * proRateFactor;
+      }
+      break;
+
+    case "GROSS_PERCENT":
+      expectedAmount =
+        (incomeSource.gross_amount * budgetItem.value * proRateFactor) / 100;
+      details.base_amount = incomeSource.gross_amount;
+      details.percentage = budgetItem.value;
+      break;
+
+    case "NET_PERCENT":
+      expectedAmount =
+        (incomeSource.net_amount * budgetItem.value * proRateFactor) / 100;
+      details.base_amount = incomeSource.net_amount;
+      details.percentage = budgetItem.value;
+      break;
+
+    case "REMAINING_PERCENT": {
+      const dependencyTotal = (budgetItem.depends_on || []).reduce(
+        (total, depId) => {
+          const dependency = existingAllocations.find(
+            (a) => a.budget_item_id === depId
+          );
+          return total + (dependency?.expected_amount || 0);
+        },
+        0
+      );
+
+      const remainingAmount = incomeSource.net_amount - dependencyTotal;
+      expectedAmount =
+        (remainingAmount * budgetItem.value * proRateFactor) / 100;
+      details.base_amount = remainingAmount;
+      details.percentage = budgetItem.value;
+      details.dependency_total = dependencyTotal;
+
+      if (remainingAmount < 0) {
+        details.notes = `Warning: Remaining amount is negative (${remainingAmount.toFixed(
+          2
+        )})`;
+      }
+      break;
+    }
+
+    default:
+      console.warn(`Unknown calculation type: ${budgetItem.calc_type}`);
+      details.notes = `Error: Unknown calculation type ${budgetItem.calc_type}`;
+  }
+
+  if (PERCENTAGE_CALC_TYPES.includes(budgetItem.calc_type)) {
+    expectedAmount = applyBounds(
+      budgetItem,
+      expectedAmount,
+      proRateFactor,
+      details,
+      config
+    );
+  }
+
+  // Overflow from capped items comes on top of the item's own amount
+  const overflowReceived = existingAllocations.reduce(
+    (total, a) =>
+      a.calculation_details.overflow_to === budgetItem.id
+        ? total + (a.calculation_details.overflow_amount || 0)
+        : total,
+    0
+  );
+  if (overflowReceived > 0) {
+    expectedAmount += overflowReceived;
+    details.overflow_received = overflowReceived;
+  }
+
+  expectedAmount = roundAmount(expectedAmount, config);
+
+  if (expectedAmount < 0) {
+    expectedAmount = 0;
+    details.notes =
+      (details.notes || "") + " Amount adjusted to zero (was negative).";
+  }
+
+  return {
+    budget_item_id: budgetItem.id,
+    expected_amount: expectedAmount,
+    calculation_details: details,
+  };
+}
+
+// Due dates in the period for a bill funded by due date, which gets its whole
+// amount for each of them and nothing in other periods; null otherwise
+function getFundedDueDates(
+  budgetItem: AllocationBudgetItem,
+  period?: AllocationPeriod
+): string[] | null {
+  if (
+    budgetItem.funding_strategy !== "BEFORE_DUE_DATE" ||
+    budgetItem.calc_type !== "FIXED" ||
+    !budgetItem.due_date ||
+    !period
+  ) {
+    return null;
+  }
+
+  return getDueDatesBetween(
+    budgetItem.due_date,
+    budgetItem.cadence,
+    period.start_date,
+    period.end_date
+  );
+}
+
+// Hold a percentage item's amount between its bounds, recording what's cut
+// above the maximum when it overflows to another item
+function applyBounds(
+  budgetItem: AllocationBudgetItem,
+  amount: number,
+  proRateFactor: number,
+  details: AllocationDetails,
+  config: AllocationConfig
+): number {
+  const min = budgetItem.min_amount ?? null;
+  const max = budgetItem.max_amount ?? null;
+
+  if (max !== null && amount > max * proRateFactor) {
+    details.bounded_by = "MAX";
+    if (budgetItem.overflow_target_id) {
+      details.overflow_amount = roundAmount(
+        amount - max * proRateFactor,
+        config
+      );
+      details.overflow_to = budgetItem.overflow_target_id;
+    }
+    return max * proRateFactor;
+  }
+
+  if (min !== null && amount < min * proRateFactor) {
+    details.bounded_by = "MIN";
+    return min * proRateFactor;
+  }
+
+  return amount;
+}
+
+// Overflow to an item that isn't allocated, because it's inactive or withheld
+// from the paycheck, stays in the unallocated remainder instead
+function keepOverflowUnallocated(
+  allocation: CalculatedAllocation,
+  allocatedIds: Set<string>
+): void {
+  const details = allocation.calculation_details;
+  if (!details.overflow_to || allocatedIds.has(details.overflow_to)) return;
+
+  details.notes = `${details.overflow_amount?.toFixed(
+    2
+  )} above the maximum left unallocated because the overflow item is inactive or withheld from the paycheck`;
+  delete details.overflow_amount;
+  delete details.overflow_to;
+}
+
+/**
+ * Calculate allocations for all active items against one income. Items
+ * withheld from the paycheck are not allocated from take-home pay.
+ */
+export function calculateAllocations(
+  budgetItems: AllocationBudgetItem[],
+  incomeSource: AllocationIncomeSource,
+  options: AllocationOptions = {}
+): AllocationRun {
+  const config = { ...DEFAULT_ALLOCATION_CONFIG, ...options.config };
+
+  const sortedItems = resolveBudgetItemDependencies(
+    budgetItems.filter((item) => !item.deducted_from_paycheck),
+    config.max_iterations
+  );
+  const allocations: CalculatedAllocation[] = [];
+  const errors: string[] = [];
+  const allocatedIds = new Set(sortedItems.map((item) => item.id));
+
+  for (const item of sortedItems) {
+    try {
+      const allocation = calculateItemAllocation(
+        item,
+        incomeSource,
+        allocations,
+        config,
+        options.pro_rate_factor,
+        options.period
+      );
+      keepOverflowUnallocated(allocation, allocatedIds);
+      allocations.push(allocation);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      errors.push(
+        `Failed to calculate allocation for ${item.name}: ${message}`
+      );
+
+      // Failed items are allocated nothing
+      allocations.push({
+        budget_item_id: item.id,
+        expected_amount: 0,
+        calculation_details: {
+          base_amount: 0,
+          calculation_type: item.calc_type,
+          notes: `Calculation failed: ${message}`,
+        },
+      });
+    }
+  }
+
+  const totalAllocated = allocations.reduce(
+    (sum, allocation) => sum + allocation.expected_amount,
+    0
+  );
+
+  return {
+    allocations,
+    calculation_order: sortedItems.map((item) => item.id),
+    total_allocated: roundAmount(totalAllocated, config),
+    total_remaining: roundAmount(
+      incomeSource.net_amount - totalAllocated,
+      config
+    ),
+    errors,
+  };
+}
@@ -0,0 +1,9 @@
+import { describe, expect, it } from "vitest";
+import { calculateAllocations } from "./allocation-calculations";
+import { runAllocationConformance } from "./allocation-conformance";
+
+describe("allocation conformance", () => {
+  it("passes every case under Node", () => {
+    expect(runAllocationConformance(calculateAllocations)).toEqual([]);
+  });
+});
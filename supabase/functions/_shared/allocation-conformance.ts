@@ -0,0 +1,554 @@
+/**
+ * Conformance cases for allocation-calculations.ts: budgets and the
+ * allocations every runtime must produce for them. This module has no
+ * imports so it runs unchanged under Node and Deno; each runtime passes in
+ * the calculateAllocations it loads, and a release must show no failures in
+ * both. The Node side runs with `npm run test:conformance` and the Deno side,
+ * conformance_test.ts, with `npm run test:conformance:deno`; CI runs both.
+ */
+
+interface ConformanceItem {
+  id: string;
+  name: string;
+  calc_type: "FIXED" | "GROSS_PERCENT" | "NET_PERCENT" | "REMAINING_PERCENT";
+  value: number;
+  cadence: string;
+  depends_on: string[] | null;
+  priority: number;
+  is_active: boolean;
+  deducted_from_paycheck?: boolean;
+  min_amount?: number | null;
+  max_amount?: number | null;
+  overflow_target_id?: string | null;
+  due_date?: string | null;
+  funding_strategy?: "SPLIT_EVENLY" | "BEFORE_DUE_DATE";
+}
+
+interface ConformanceIncome {
+  gross_amount: number;
+  net_amount: number;
+  cadence: string;
+}
+
+interface ConformanceOptions {
+  config?: {
+    enable_pro_rating?: boolean;
+    handle_rounding?: "up" | "down" | "nearest";
+    max_iterations?: number;
+    precision_decimals?: number;
+  };
+  pro_rate_factor?: number;
+  period?: { start_date: string; end_date: string };
+}
+
+export interface AllocationConformanceCase {
+  name: string;
+  income: ConformanceIncome;
+  items: ConformanceItem[];
+  options?: ConformanceOptions;
+  expected: {
+    allocations: Record<string, number>; // Expected amount by item id
+    calculation_order?: string[];
+    total_allocated: number;
+    total_remaining: number;
+  };
+}
+
+export interface AllocationConformanceFailure {
+  case_name: string;
+  message: string;
+}
+
+type CalculateAllocations = (
+  items: ConformanceItem[],
+  income: ConformanceIncome,
+  options?: ConformanceOptions
+) => {
+  allocations: { budget_item_id: string; expected_amount: number }[];
+  calculation_order: string[];
+  total_allocated: number;
+  total_remaining: number;
+};
+
+// Amounts are rounded to cents, so anything closer than this is equal
+const TOLERANCE = 0.001;
+
+// Monthly item with the given fields, active and independent by default
+function item(
+  id: string,
+  fields: Partial<ConformanceItem> &
+    Pick<ConformanceItem, "calc_type" | "value">
+): ConformanceItem {
+  return {
+    id,
+    name: id,
+    cadence: "monthly",
+    depends_on: null,
+    priority: 1,
+    is_active: true,
+    ...fields,
+  };
+}
+
+const MONTHLY_INCOME: ConformanceIncome = {
+  gross_amount: 2500,
+  net_amount: 2000,
+  cadence: "monthly",
+};
+
+const BI_WEEKLY_INCOME: ConformanceIncome = {
+  gross_amount: 2500,
+  net_amount: 2000,
+  cadence: "bi-weekly",
+};
+
+// Rent due on the 1st, funded by the paycheck before it
+const RENT_DUE_FIRST = item("rent", {
+  calc_type: "FIXED",
+  value: 1200,
+  due_date: "2026-11-01",
+  funding_strategy: "BEFORE_DUE_DATE",
+});
+
+export const ALLOCATION_CONFORMANCE_CASES: AllocationConformanceCase[] = [
+  {
+    name: "fixed and percentage items on the income's cadence",
+    income: MONTHLY_INCOME,
+    items: [
+      item("rent", { calc_type: "FIXED", value: 800, priority: 1 }),
+      item("retirement", {
+        calc_type: "GROSS_PERCENT",
+        value: 10,
+        priority: 2,
+      }),
+      item("groceries", { calc_type: "NET_PERCENT", value: 15, priority: 3 }),
+    ],
+    expected: {
+      allocations: { rent: 800, retirement: 250, groceries: 300 },
+      calculation_order: ["rent", "retirement", "groceries"],
+      total_allocated: 1350,
+      total_remaining: 650,
+    },
+  },
+  {
+    name: "items on other cadences are pro-rated to the income's",
+    income: { gross_amount: 2500, net_amount: 2000, cadence: "bi-weekly" },
+    items: [
+      item("rent", { calc_type: "FIXED", value: 1000, priority: 1 }),
+      item("gas", {
+        calc_type: "FIXED",
+        value: 60,
+        cadence: "bi-weekly",
+        priority: 2,
+      }),
+      item("savings", { calc_type: "NET_PERCENT", value: 10, priority: 3 }),
+    ],
+    expected: {
+      allocations: { rent: 459.92, gas: 60, savings: 91.98 },
+      total_allocated: 611.9,
+      total_remaining: 1388.1,
+    },
+  },
+  {
+    name: "annual items are pro-rated to a monthly income",
+    income: MONTHLY_INCOME,
+    items: [
+      item("insurance", { calc_type: "FIXED", value: 1200, cadence: "annual" }),
+    ],
+    expected: {
+      allocations: { insurance: 100.01 },
+      total_allocated: 100.01,
+      total_remaining: 1899.99,
+    },
+  },
+  {
+    name: "remaining percent items use what their dependencies leave",
+    income: MONTHLY_INCOME,
+    items: [
+      item("rent", { calc_type: "FIXED", value: 1200, priority: 1 }),
+      item("savings", {
+        calc_type: "REMAINING_PERCENT",
+        value: 50,
+        depends_on: ["rent"],
+        priority: 2,
+      }),
+      item("fun", {
+        calc_type: "REMAINING_PERCENT",
+        value: 25,
+        depends_on: ["rent", "savings"],
+        priority: 3,
+      }),
+    ],
+    expected: {
+      allocations: { rent: 1200, savings: 400, fun: 100 },
+      calculation_order: ["rent", "savings", "fun"],
+      total_allocated: 1700,
+      total_remaining: 300,
+    },
+  },
+  {
+    name: "dependencies are calculated before higher priority items",
+    income: MONTHLY_INCOME,
+    items: [
+      item("savings", {
+        calc_type: "REMAINING_PERCENT",
+        value: 10,
+        depends_on: ["rent"],
+        priority: 1,
+      }),
+      item("rent", { calc_type: "FIXED", value: 1000, priority: 5 }),
+    ],
+    expected: {
+      allocations: { rent: 1000, savings: 100 },
+      calculation_order: ["rent", "savings"],
+      total_allocated: 1100,
+      total_remaining: 900,
+    },
+  },
+  {
+    name: "negative remaining amounts allocate nothing",
+    income: MONTHLY_INCOME,
+    items: [
+      item("rent", { calc_type: "FIXED", value: 2500, priority: 1 }),
+      item("savings", {
+        calc_type: "REMAINING_PERCENT",
+        value: 10,
+        depends_on: ["rent"],
+        priority: 2,
+      }),
+    ],
+    expected: {
+      allocations: { rent: 2500, savings: 0 },
+      total_allocated: 2500,
+      total_remaining: -500,
+    },
+  },
+  {
+    name: "inactive and paycheck-deducted items are not allocated",
+    income: MONTHLY_INCOME,
+    items: [
+      item("rent", { calc_type: "FIXED", value: 800, priority: 1 }),
+      item("retirement", {
+        calc_type: "GROSS_PERCENT",
+        value: 5,
+        deducted_from_paycheck: true,
+      }),
+      item("gym", { calc_type: "FIXED", value: 40, is_active: false }),
+    ],
+    expected: {
+      allocations: { rent: 800 },
+      calculation_order: ["rent"],
+      total_allocated: 800,
+      total_remaining: 1200,
+    },
+  },
+  {
+    name: "circular dependencies are still allocated",
+    income: MONTHLY_INCOME,
+    items: [
+      item("a", {
+        calc_type: "FIXED",
+        value: 100,
+        depends_on: ["b"],
+        priority: 1,
+      }),
+      item("b", {
+        calc_type: "FIXED",
+        value: 50,
+        depends_on: ["a"],
+        priority: 2,
+      }),
+    ],
+    expected: {
+      allocations: { a: 100, b: 50 },
+      total_allocated: 150,
+      total_remaining: 1850,
+    },
+  },
+  {
+    name: "percentage items are held within their bounds",
+    income: MONTHLY_INCOME,
+    items: [
+      item("floored", {
+        calc_type: "NET_PERCENT",
+        value: 10,
+        min_amount: 250,
+        priority: 1,
+      }),
+      item("capped", {
+        calc_type: "GROSS_PERCENT",
+        value: 50,
+        max_amount: 500,
+        priority: 2,
+      }),
+      item("within", {
+        calc_type: "NET_PERCENT",
+        value: 5,
+        min_amount: 50,
+        max_amount: 150,
+        priority: 3,
+      }),
+    ],
+    expected: {
+      allocations: { floored: 250, capped: 500, within: 100 },
+      total_allocated: 850,
+      total_remaining: 1150,
+    },
+  },
+  {
+    name: "amounts above the maximum go to the overflow item",
+    income: { gross_amount: 3500, net_amount: 3000, cadence: "monthly" },
+    items: [
+      item("rent", { calc_type: "FIXED", value: 1200, priority: 1 }),
+      item("savings", { calc_type: "NET_PERCENT", value: 5, priority: 2 }),
+      item("fun", {
+        calc_type: "REMAINING_PERCENT",
+        value: 50,
+        depends_on: ["rent"],
+        max_amount: 600,
+        overflow_target_id: "savings",
+        priority: 3,
+      }),
+    ],
+    expected: {
+      allocations: { rent: 1200, fun: 600, savings: 450 },
+      calculation_order: ["rent", "fun", "savings"],
+      total_allocated: 2250,
+      total_remaining: 750,
+    },
+  },
+  {
+    name: "overflow to an inactive item is left unallocated",
+    income: { gross_amount: 3500, net_amount: 3000, cadence: "monthly" },
+    items: [
+      item("rent", { calc_type: "FIXED", value: 1200, priority: 1 }),
+      item("savings", {
+        calc_type: "NET_PERCENT",
+        value: 5,
+        priority: 2,
+        is_active: false,
+      }),
+      item("fun", {
+        calc_type: "REMAINING_PERCENT",
+        value: 50,
+        depends_on: ["rent"],
+        max_amount: 600,
+        overflow_target_id: "savings",
+        priority: 3,
+      }),
+    ],
+    expected: {
+      allocations: { rent: 1200, fun: 600 },
+      calculation_order: ["rent", "fun"],
+      total_allocated: 1800,
+      total_remaining: 1200,
+    },
+  },
+  {
+    name: "overflow to an item withheld from the paycheck is left unallocated",
+    income: { gross_amount: 3500, net_amount: 3000, cadence: "monthly" },
+    items: [
+      item("rent", { calc_type: "FIXED", value: 1200, priority: 1 }),
+      item("401k", {
+        calc_type: "GROSS_PERCENT",
+        value: 5,
+        priority: 2,
+        deducted_from_paycheck: true,
+      }),
+      item("fun", {
+        calc_type: "REMAINING_PERCENT",
+        value: 50,
+        depends_on: ["rent"],
+        max_amount: 600,
+        overflow_target_id: "401k",
+        priority: 3,
+      }),
+    ],
+    expected: {
+      allocations: { rent: 1200, fun: 600 },
+      calculation_order: ["rent", "fun"],
+      total_allocated: 1800,
+      total_remaining: 1200,
+    },
+  },
+  {
+    name: "bounds are pro-rated with the item",
+    income: { gross_amount: 2500, net_amount: 2000, cadence: "bi-weekly" },
+    items: [
+      item("savings", {
+        calc_type: "NET_PERCENT",
+        value: 10,
+        min_amount: 300,
+      }),
+    ],
+    expected: {
+      allocations: { savings: 137.98 },
+      total_allocated: 137.98,
+      total_remaining: 1862.02,
+    },
+  },
+  {
+    name: "bills are funded in full by the period they fall due in",
+    income: BI_WEEKLY_INCOME,
+    items: [RENT_DUE_FIRST],
+    options: { period: { start_date: "2026-10-30", end_date: "2026-11-12" } },
+    expected: {
+      allocations: { rent: 1200 },
+      total_allocated: 1200,
+      total_remaining: 800,
+    },
+  },
+  {
+    name: "bills get nothing in periods they aren't due in",
+    income: BI_WEEKLY_INCOME,
+    items: [RENT_DUE_FIRST],
+    options: { period: { start_date: "2026-11-13", end_date: "2026-11-26" } },
+    expected: {
+      allocations: { rent: 0 },
+      total_allocated: 0,
+      total_remaining: 2000,
+    },
+  },
+  {
+    name: "due dates repeat before and after the one given",
+    income: MONTHLY_INCOME,
+    items: [
+      item("phone", {
+        calc_type: "FIXED",
+        value: 80,
+        due_date: "2027-03-15",
+        funding_strategy: "BEFORE_DUE_DATE",
+        priority: 1,
+      }),
+      item("groceries", {
+        calc_type: "FIXED",
+        value: 50,
+        cadence: "weekly",
+        due_date: "2026-10-02",
+        funding_strategy: "BEFORE_DUE_DATE",
+        priority: 2,
+      }),
+    ],
+    options: { period: { start_date: "2026-10-01", end_date: "2026-10-31" } },
+    expected: {
+      allocations: { phone: 80, groceries: 250 },
+      total_allocated: 330,
+      total_remaining: 1670,
+    },
+  },
+  {
+    name: "bills split evenly are pro-rated whatever their due date",
+    income: BI_WEEKLY_INCOME,
+    items: [{ ...RENT_DUE_FIRST, funding_strategy: "SPLIT_EVENLY" }],
+    options: { period: { start_date: "2026-11-13", end_date: "2026-11-26" } },
+    expected: {
+      allocations: { rent: 551.91 },
+      total_allocated: 551.91,
+      total_remaining: 1448.09,
+    },
+  },
+  {
+    name: "a custom pro-rate factor replaces cadence pro-rating",
+    income: { gross_amount: 2500, net_amount: 2000, cadence: "bi-weekly" },
+    items: [item("rent", { calc_type: "FIXED", value: 1000 })],
+    options: { pro_rate_factor: 0.5 },
+    expected: {
+      allocations: { rent: 500 },
+      total_allocated: 500,
+      total_remaining: 1500,
+    },
+  },
+  {
+    name: "pro-rating can be turned off",
+    income: { gross_amount: 2500, net_amount: 2000, cadence: "weekly" },
+    items: [item("rent", { calc_type: "FIXED", value: 1000 })],
+    options: { config: { enable_pro_rating: false } },
+    expected: {
+      allocations: { rent: 1000 },
+      total_allocated: 1000,
+      total_remaining: 1000,
+    },
+  },
+  {
+    name: "amounts round as configured",
+    income: { gross_amount: 100, net_amount: 100, cadence: "monthly" },
+    items: [
+      item("up", { calc_type: "NET_PERCENT", value: 33.333, priority: 1 }),
+    ],
+    options: { config: { handle_rounding: "up" } },
+    expected: {
+      allocations: { up: 33.34 },
+      total_allocated: 33.34,
+      total_remaining: 66.66,
+    },
+  },
+];
+
+const isClose = (actual: number, expected: number) =>
+  Math.abs(actual - expected) < TOLERANCE;
+
+/**
+ * Run every conformance case against a runtime's calculateAllocations and
+ * list the differences; an empty list means the runtime conforms
+ */
+export function runAllocationConformance(
+  calculate: CalculateAllocations,
+  cases: AllocationConformanceCase[] = ALLOCATION_CONFORMANCE_CASES
+): AllocationConformanceFailure[] {
+  const failures: AllocationConformanceFailure[] = [];
+
+  for (const testCase of cases) {
+    const fail = (message: string) =>
+      failures.push({ case_name: testCase.name, message });
+
+    let result: ReturnType<CalculateAllocations>;
+    try {
+      result = calculate(testCase.items, testCase.income, testCase.options);
+    } catch (error) {
+      fail(`threw ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+
+    const { expected } = testCase;
+    const actual = new Map(
+      result.allocations.map((a) => [a.budget_item_id, a.expected_amount])
+    );
+
+    for (const [id, amount] of Object.entries(expected.allocations)) {
+      const actualAmount = actual.get(id);
+      if (actualAmount === undefined) {
+        fail(`${id} was not allocated`);
+      } else if (!isClose(actualAmount, amount)) {
+        fail(`${id} allocated ${actualAmount}, expected ${amount}`);
+      }
+    }
+    for (const id of actual.keys()) {
+      if (!(id in expected.allocations)) {
+        fail(`${id} was allocated but shouldn't be`);
+      }
+    }
+
+    if (
+      expected.calculation_order &&
+      expected.calculation_order.join() !== result.calculation_order.join()
+    ) {
+      fail(
+        `calculated in order ${result.calculation_order.join(
+          ", "
+        )}, expected ${expected.calculation_order.join(", ")}`
+      );
+    }
+    if (!isClose(result.total_allocated, expected.total_allocated)) {
+      fail(
+        `total allocated ${result.total_allocated}, expected ${expected.total_allocated}`
+      );
+    }
+    if (!isClose(result.total_remaining, expected.total_remaining)) {
+      fail(
+        `total remaining ${result.total_remaining}, expected ${expected.total_remaining}`
+      );
+    }
+  }
+
+  return failures;
+}
@@ -0,0 +1,38 @@
+// The Deno side of the conformance suites, run with
+// `npm run test:conformance:deno`. The Node side runs with
+// `npm run test:conformance`.
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { calculateAllocations } from "./allocation-calculations.ts";
+import { runAllocationConformance } from "./allocation-conformance.ts";
+import {
+  getFirstPayPeriodDates,
+  getNextPayPeriodDates,
+} from "./pay-schedule.ts";
+import { runPayPeriodConformance } from "./pay-period-conformance.ts";
+
+Deno.test("allocation conformance passes every case under Deno", () => {
+  assertEquals(runAllocationConformance(calculateAllocations), []);
+});
+
+Deno.test(
+  "pay period conformance passes every case the way the edge function builds its rule",
+  () => {
+    const failures = runPayPeriodConformance((source, lastEndDate) => {
+      const rule = {
+        anchor_days: source.pay_anchor_days,
+        business_day_adjustment: source.business_day_adjustment,
+        holiday_calendar: source.holiday_calendar,
+      };
+      return lastEndDate
+        ? getNextPayPeriodDates(
+            source.cadence,
+            rule,
+            source.start_date,
+            lastEndDate
+          )
+        : getFirstPayPeriodDates(source.cadence, rule, source.start_date);
+    });
+
+    assertEquals(failures, []);
+  }
+);
@@ -0,0 +1,251 @@
+/**
+ * Debt payoff planning shared by the app and the recommendation-engine edge
+ * function. This module has no imports so it runs unchanged under Node and
+ * Deno.
+ *
+ * Every debt gets its minimum payment each month. Money beyond the minimums
+ * goes to one debt at a time in plan order, and once a debt is paid off its
+ * minimum rolls over to the next, so the total paid each month stays the
+ * same until the last debt is gone. Interest accrues monthly at APR / 12.
+ */
+
+// highest_interest is the avalanche method, smallest_balance the snowball
+export type DebtPayoffPriority =
+  | "highest_interest"
+  | "smallest_balance"
+  | "custom";
+
+export interface PayoffDebt {
+  id: string;
+  name: string;
+  balance: number;
+  apr: number; // Annual percentage rate, e.g. 19.99
+  minimum_payment: number;
+  payoff_order?: number | null; // Custom plans, lowest first
+}
+
+export interface DebtPayment {
+  debt_id: string;
+  payment: number;
+  interest: number;
+  principal: number;
+  balance: number; // After this month's payment
+}
+
+export interface PayoffMonth {
+  month: number; // 1 for the first payment
+  date: string; // First of the month, YYYY-MM-DD
+  payments: DebtPayment[];
+  total_payment: number;
+  total_interest: number;
+  total_balance: number;
+}
+
+export interface DebtPayoffSummary {
+  debt_id: string;
+  name: string;
+  payoff_month: number | null;
+  payoff_date: string | null;
+  total_interest: number;
+}
+
+export interface DebtPayoffPlan {
+  priority: DebtPayoffPriority;
+  monthly_payment: number; // Minimums plus the extra payment
+  months: PayoffMonth[];
+  debts: DebtPayoffSummary[]; // In plan order
+  total_interest: number;
+  total_paid: number;
+  // Null when the payments never clear the debts, e.g. minimums below the
+  // interest they accrue
+  months_to_payoff: number | null;
+  debt_free_date: string | null;
+}
+
+export interface DebtPayoffOptions {
+  priority: DebtPayoffPriority;
+  extra_payment: number; // Each month, beyond the minimums
+  start_date: string; // YYYY-MM-DD in the month of the first payment
+  max_months?: number;
+}
+
+export interface ExtraDebtPayment {
+  debt_id: string;
+  amount: number;
+}
+
+export const DEBT_PAYOFF_MAX_MONTHS = 600;
+
+// Amounts are worked in whole cents so balances don't drift
+const toCents = (amount: number) => Math.round(amount * 100);
+const fromCents = (cents: number) => cents / 100;
+
+function addMonths(date: string, months: number): string {
+  const [year, month] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1 + months, 1))
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * Debts in the order a plan pays them off. Avalanche breaks APR ties by the
+ * smaller balance and snowball breaks balance ties by the higher APR; other
+ * ties, and custom plans without an order, keep the order given.
+ */
+export function orderDebts<T extends PayoffDebt>(
+  debts: T[],
+  priority: DebtPayoffPriority
+): T[] {
+  const compare = (a: T, b: T): number => {
+    switch (priority) {
+      case "highest_interest":
+        return b.apr - a.apr || a.balance - b.balance;
+      case "smallest_balance":
+        return a.balance - b.balance || b.apr - a.apr;
+      case "custom":
+        return (
+          (a.payoff_order ?? Number.MAX_SAFE_INTEGER) -
+          (b.payoff_order ?? Number.MAX_SAFE_INTEGER)
+        );
+    }
+  };
+
+  return debts
+    .map((debt, index) => ({ debt, index }))
+    .sort((a, b) => compare(a.debt, b.debt) || a.index - b.index)
+    .map(({ debt }) => debt);
+}
+
+// Pour cents into balances in order, returning what each debt receives
+function pourInOrder(balances: number[], cents: number): number[] {
+  let remaining = cents;
+  return balances.map((balance) => {
+    const amount = Math.min(balance, remaining);
+    remaining -= amount;
+    return amount;
+  });
+}
+
+/**
+ * Split an extra payment across debts by a plan: all of it to the first debt
+ * in order, and anything beyond its balance to the next
+ */
+export function allocateExtraPayment(
+  debts: PayoffDebt[],
+  priority: DebtPayoffPriority,
+  amount: number
+): ExtraDebtPayment[] {
+  const ordered = orderDebts(
+    debts.filter((debt) => debt.balance > 0),
+    priority
+  );
+  const amounts = pourInOrder(
+    ordered.map((debt) => toCents(debt.balance)),
+    Math.max(toCents(amount), 0)
+  );
+
+  return ordered
+    .map((debt, index) => ({
+      debt_id: debt.id,
+      amount: fromCents(amounts[index]),
+    }))
+    .filter((payment) => payment.amount > 0);
+}
+
+/**
+ * Simulate paying off debts month by month under a plan
+ */
+export function simulateDebtPayoff(
+  debts: PayoffDebt[],
+  options: DebtPayoffOptions
+): DebtPayoffPlan {
+  const ordered = orderDebts(
+    debts.filter((debt) => debt.balance > 0),
+    options.priority
+  );
+  const maxMonths = options.max_months ?? DEBT_PAYOFF_MAX_MONTHS;
+  const balances = ordered.map((debt) => toCents(debt.balance));
+  const minimums = ordered.map((debt) => toCents(debt.minimum_payment));
+  const interestPaid = ordered.map(() => 0);
+  const payoffMonths: (number | null)[] = ordered.map(() => null);
+  const monthlyPayment =
+    minimums.reduce((sum, cents) => sum + cents, 0) +
+    Math.max(toCents(options.extra_payment), 0);
+
+  const months: PayoffMonth[] = [];
+  let totalPaid = 0;
+
+  while (balances.some((cents) => cents > 0) && months.length < maxMonths) {
+    const month = months.length + 1;
+
+    const interest = balances.map((cents, index) =>
+      cents > 0 ? Math.round((cents * ordered[index].apr) / 100 / 12) : 0
+    );
+    const owed = balances.map((cents, index) => cents + interest[index]);
+
+    // Minimums first, then whatever is left in plan order
+    const payments = owed.map((cents, index) =>
+      Math.min(cents, minimums[index])
+    );
+    const available =
+      monthlyPayment - payments.reduce((sum, cents) => sum + cents, 0);
+    const extra = pourInOrder(
+      owed.map((cents, index) => cents - payments[index]),
+      Math.max(available, 0)
+    );
+
+    const monthPayments: DebtPayment[] = [];
+    ordered.forEach((debt, index) => {
+      if (balances[index] === 0) return;
+
+      const payment = payments[index] + extra[index];
+      balances[index] = owed[index] - payment;
+      interestPaid[index] += interest[index];
+      totalPaid += payment;
+      if (balances[index] === 0) payoffMonths[index] = month;
+
+      monthPayments.push({
+        debt_id: debt.id,
+        payment: fromCents(payment),
+        interest: fromCents(interest[index]),
+        principal: fromCents(payment - interest[index]),
+        balance: fromCents(balances[index]),
+      });
+    });
+
+    months.push({
+      month,
+      date: addMonths(options.start_date, month - 1),
+      payments: monthPayments,
+      total_payment: fromCents(
+        monthPayments.reduce((sum, p) => sum + toCents(p.payment), 0)
+      ),
+      total_interest: fromCents(
+        interest.reduce((sum, cents) => sum + cents, 0)
+      ),
+      total_balance: fromCents(balances.reduce((sum, cents) => sum + cents, 0)),
+    });
+  }
+
+  const paidOff = balances.every((cents) => cents === 0);
+  const monthDate = (month: number | null) =>
+    month ? addMonths(options.start_date, month - 1) : null;
+  const monthsToPayoff = paidOff ? months.length : null;
+
+  return {
+    priority: options.priority,
+    monthly_payment: fromCents(monthlyPayment),
+    months,
+    debts: ordered.map((debt, index) => ({
+      debt_id: debt.id,
+      name: debt.name,
+      payoff_month: payoffMonths[index],
+      payoff_date: monthDate(payoffMonths[index]),
+      total_interest: fromCents(interestPaid[index]),
+    })),
+    total_interest: fromCents(interestPaid.reduce((sum, c) => sum + c, 0)),
+    total_paid: fromCents(totalPaid),
+    months_to_payoff: monthsToPayoff,
+    debt_free_date: monthDate(monthsToPayoff),
+  };
+}
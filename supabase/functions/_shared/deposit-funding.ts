@@ -0,0 +1,72 @@
+/**
+ * Deposit funding shared by the app and the allocation-engine edge function.
+ * This module has no imports so it runs unchanged under Node and Deno.
+ *
+ * Variable income is budgeted one deposit at a time: each deposit tops up
+ * the pay period's allocations in priority order (lowest number first) until
+ * the money runs out, and whatever is left over stays unallocated.
+ */
+
+export interface FundingTarget {
+  allocation_id: string;
+  budget_item_id: string;
+  priority: number;
+  expected_amount: number;
+  funded_amount: number; // Already covered by earlier deposits
+}
+
+export interface DepositFunding {
+  allocation_id: string;
+  budget_item_id: string;
+  amount: number;
+}
+
+export interface DepositFundingResult {
+  fundings: DepositFunding[];
+  funded_total: number;
+  unallocated_amount: number;
+}
+
+// Amounts are worked in whole cents so repeated top-ups don't drift
+const toCents = (amount: number) => Math.round(amount * 100);
+const fromCents = (cents: number) => cents / 100;
+
+/**
+ * Split a deposit across allocations in priority order. Ties keep the order
+ * the targets were given in.
+ */
+export function fundDeposit(
+  amount: number,
+  targets: FundingTarget[]
+): DepositFundingResult {
+  const total = Math.max(toCents(amount), 0);
+  let remaining = total;
+  const fundings: DepositFunding[] = [];
+
+  const ordered = targets
+    .map((target, index) => ({ target, index }))
+    .sort((a, b) => a.target.priority - b.target.priority || a.index - b.index)
+    .map(({ target }) => target);
+
+  for (const target of ordered) {
+    if (remaining === 0) break;
+
+    const shortfall =
+      toCents(target.expected_amount) - toCents(target.funded_amount);
+    if (shortfall <= 0) continue;
+
+    const cents = Math.min(shortfall, remaining);
+    fundings.push({
+      allocation_id: target.allocation_id,
+      budget_item_id: target.budget_item_id,
+      amount: fromCents(cents),
+    });
+    remaining -= cents;
+  }
+
+  return {
+    fundings,
+    funded_total: fromCents(total - remaining),
+    unallocated_amount: fromCents(remaining),
+  };
+}
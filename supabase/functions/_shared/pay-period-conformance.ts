@@ -0,0 +1,229 @@
+/**
+ * Conformance cases for pay period dates: income sources and the periods
+ * every runtime must generate for them. The app goes through
+ * calculateFirstPayPeriod/calculateNextPayPeriod and the
+ * pay-period-generation edge function calls pay-schedule.ts directly, each
+ * building the schedule rule from the income source row its own way. This
+ * module has no imports so it runs unchanged under Node and Deno; each
+ * runtime passes in a function that generates a period the way it does in
+ * production, and a release must show no failures in both. The Node side
+ * runs with `npm run test:conformance` and the Deno side, conformance_test.ts,
+ * with `npm run test:conformance:deno`; CI runs both.
+ */
+
+// The income source columns that decide its pay dates
+interface ConformanceIncomeSource {
+  cadence:
+    | "weekly"
+    | "bi-weekly"
+    | "semi-monthly"
+    | "monthly"
+    | "quarterly"
+    | "annual";
+  start_date: string;
+  pay_anchor_days: number[] | null;
+  business_day_adjustment: "NONE" | "PREVIOUS" | "NEXT";
+  holiday_calendar: "NONE" | "US_FEDERAL" | "US_BANK";
+}
+
+export interface PayPeriodConformanceCase {
+  name: string;
+  income_source: ConformanceIncomeSource;
+  last_period_end_date: string | null; // Null for the first period
+  expected: {
+    start_date: string;
+    end_date: string;
+    days_in_period: number;
+  };
+}
+
+export interface PayPeriodConformanceFailure {
+  case_name: string;
+  message: string;
+}
+
+type GeneratePayPeriod = (
+  incomeSource: ConformanceIncomeSource,
+  lastPeriodEndDate: string | null
+) => { start_date: string; end_date: string; days_in_period: number };
+
+// Source paid on the given cadence with no anchor days or business day rules
+function source(
+  cadence: ConformanceIncomeSource["cadence"],
+  start_date: string,
+  fields: Partial<ConformanceIncomeSource> = {}
+): ConformanceIncomeSource {
+  return {
+    cadence,
+    start_date,
+    pay_anchor_days: null,
+    business_day_adjustment: "NONE",
+    holiday_calendar: "NONE",
+    ...fields,
+  };
+}
+
+// Paid on the 15th and last day, early for weekends and bank holidays
+const MID_AND_MONTH_END = source("semi-monthly", "2027-12-15", {
+  pay_anchor_days: [15, 31],
+  business_day_adjustment: "PREVIOUS",
+  holiday_calendar: "US_BANK",
+});
+
+export const PAY_PERIOD_CONFORMANCE_CASES: PayPeriodConformanceCase[] = [
+  {
+    name: "bi-weekly periods start on the income start date",
+    income_source: source("bi-weekly", "2026-01-02"),
+    last_period_end_date: null,
+    expected: {
+      start_date: "2026-01-02",
+      end_date: "2026-01-15",
+      days_in_period: 14,
+    },
+  },
+  {
+    name: "bi-weekly periods follow on from the last one",
+    income_source: source("bi-weekly", "2026-01-02"),
+    last_period_end_date: "2026-01-15",
+    expected: {
+      start_date: "2026-01-16",
+      end_date: "2026-01-29",
+      days_in_period: 14,
+    },
+  },
+  {
+    name: "weekly periods count from the income start date",
+    income_source: source("weekly", "2026-01-01"),
+    last_period_end_date: "2026-03-04",
+    expected: {
+      start_date: "2026-03-05",
+      end_date: "2026-03-11",
+      days_in_period: 7,
+    },
+  },
+  {
+    name: "semi-monthly periods default to the 1st and 16th",
+    income_source: source("semi-monthly", "2026-02-10"),
+    last_period_end_date: null,
+    expected: {
+      start_date: "2026-02-01",
+      end_date: "2026-02-15",
+      days_in_period: 15,
+    },
+  },
+  {
+    name: "semi-monthly pay on a Saturday moves to the Friday before",
+    income_source: MID_AND_MONTH_END,
+    last_period_end_date: "2028-01-13",
+    expected: {
+      start_date: "2028-01-14",
+      end_date: "2028-01-30",
+      days_in_period: 17,
+    },
+  },
+  {
+    name: "the bank calendar doesn't observe a Saturday New Year's Day",
+    income_source: MID_AND_MONTH_END,
+    last_period_end_date: "2027-12-14",
+    expected: {
+      start_date: "2027-12-15",
+      end_date: "2027-12-30",
+      days_in_period: 16,
+    },
+  },
+  {
+    name: "the federal calendar observes a Saturday New Year's Day on Friday",
+    income_source: { ...MID_AND_MONTH_END, holiday_calendar: "US_FEDERAL" },
+    last_period_end_date: "2027-12-14",
+    expected: {
+      start_date: "2027-12-15",
+      end_date: "2027-12-29",
+      days_in_period: 15,
+    },
+  },
+  {
+    name: "a monthly anchor on the 31st falls on the leap day",
+    income_source: source("monthly", "2027-11-30", { pay_anchor_days: [31] }),
+    last_period_end_date: "2028-01-30",
+    expected: {
+      start_date: "2028-01-31",
+      end_date: "2028-02-28",
+      days_in_period: 29,
+    },
+  },
+  {
+    name: "a Sunday New Year's Day pay date moves past the observed Monday",
+    income_source: source("monthly", "2022-12-01", {
+      pay_anchor_days: [1],
+      business_day_adjustment: "NEXT",
+      holiday_calendar: "US_BANK",
+    }),
+    last_period_end_date: null,
+    expected: {
+      start_date: "2022-12-01",
+      end_date: "2023-01-02",
+      days_in_period: 33,
+    },
+  },
+  {
+    name: "quarterly periods start in January, April, July and October",
+    income_source: source("quarterly", "2026-05-10"),
+    last_period_end_date: null,
+    expected: {
+      start_date: "2026-04-01",
+      end_date: "2026-06-30",
+      days_in_period: 91,
+    },
+  },
+  {
+    name: "annual periods run with the calendar year",
+    income_source: source("annual", "2026-03-15"),
+    last_period_end_date: null,
+    expected: {
+      start_date: "2026-01-01",
+      end_date: "2026-12-31",
+      days_in_period: 365,
+    },
+  },
+];
+
+/**
+ * Run every conformance case against a runtime's pay period generation and
+ * list the differences; an empty list means the runtime conforms
+ */
+export function runPayPeriodConformance(
+  generate: GeneratePayPeriod,
+  cases: PayPeriodConformanceCase[] = PAY_PERIOD_CONFORMANCE_CASES
+): PayPeriodConformanceFailure[] {
+  const failures: PayPeriodConformanceFailure[] = [];
+
+  for (const testCase of cases) {
+    const fail = (message: string) =>
+      failures.push({ case_name: testCase.name, message });
+
+    let result: ReturnType<GeneratePayPeriod>;
+    try {
+      result = generate(testCase.income_source, testCase.last_period_end_date);
+    } catch (error) {
+      fail(`threw ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+
+    const { expected } = testCase;
+    if (
+      result.start_date !== expected.start_date ||
+      result.end_date !== expected.end_date
+    ) {
+      fail(
+        `generated ${result.start_date} to ${result.end_date}, expected ${expected.start_date} to ${expected.end_date}`
+      );
+    }
+    if (result.days_in_period !== expected.days_in_period) {
+      fail(
+        `${result.days_in_period} days in period, expected ${expected.days_in_period}`
+      );
+    }
+  }
+
+  return failures;
+}
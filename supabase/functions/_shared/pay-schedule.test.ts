@@ -0,0 +1,177 @@
+import { describe, expect, it } from "vitest";
+import {
+  getFirstPayPeriodDates,
+  getNextPayPeriodDates,
+  type PayPeriodDates,
+  type PayScheduleCadence,
+  type PayScheduleRule,
+} from "./pay-schedule";
+
+// Successive periods from an income start date until one ends on or after a
+// date
+function periodsUntil(
+  cadence: PayScheduleCadence,
+  rule: PayScheduleRule,
+  incomeStartDate: string,
+  until: string
+): PayPeriodDates[] {
+  const periods = [getFirstPayPeriodDates(cadence, rule, incomeStartDate)];
+  while (periods[periods.length - 1].end_date < until) {
+    periods.push(
+      getNextPayPeriodDates(
+        cadence,
+        rule,
+        incomeStartDate,
+        periods[periods.length - 1].end_date
+      )
+    );
+  }
+  return periods;
+}
+
+const spans = (periods: PayPeriodDates[]) =>
+  periods.map((period) => [period.start_date, period.end_date]);
+
+describe("semi-monthly on the 15th and last day", () => {
+  const rule: PayScheduleRule = {
+    anchor_days: [15, 31],
+    business_day_adjustment: "PREVIOUS",
+    holiday_calendar: "US_BANK",
+  };
+
+  it("pays early for weekends from December 2027 to March 2028", () => {
+    const periods = periodsUntil(
+      "semi-monthly",
+      rule,
+      "2027-12-15",
+      "2028-03-30"
+    );
+
+    expect(spans(periods)).toEqual([
+      ["2027-12-15", "2027-12-30"],
+      // The bank calendar doesn't observe New Year's Day 2028 (a Saturday)
+      // on December 31
+      ["2027-12-31", "2028-01-13"],
+      // January 15 is a Saturday
+      ["2028-01-14", "2028-01-30"],
+      ["2028-01-31", "2028-02-14"],
+      ["2028-02-15", "2028-02-28"],
+      // The last day in a leap year
+      ["2028-02-29", "2028-03-14"],
+      ["2028-03-15", "2028-03-30"],
+    ]);
+  });
+
+  it("counts the days in each period", () => {
+    const periods = periodsUntil(
+      "semi-monthly",
+      rule,
+      "2027-12-15",
+      "2028-03-30"
+    );
+
+    expect(periods.map((period) => period.days_in_period)).toEqual([
+      16, 14, 17, 15, 14, 15, 16,
+    ]);
+  });
+
+  it("starts from the last pay date before the income start date", () => {
+    expect(getFirstPayPeriodDates("semi-monthly", rule, "2028-01-20")).toEqual({
+      start_date: "2028-01-14",
+      end_date: "2028-01-30",
+      days_in_period: 17,
+    });
+  });
+});
+
+describe("monthly on the 31st", () => {
+  const rule: PayScheduleRule = { anchor_days: [31] };
+
+  it("falls back to the last day of shorter months through 2028-02-29", () => {
+    const periods = periodsUntil("monthly", rule, "2027-11-30", "2028-03-30");
+
+    expect(spans(periods)).toEqual([
+      ["2027-11-30", "2027-12-30"],
+      ["2027-12-31", "2028-01-30"],
+      ["2028-01-31", "2028-02-28"],
+      ["2028-02-29", "2028-03-30"],
+    ]);
+    expect(periods.map((period) => period.days_in_period)).toEqual([
+      31, 31, 29, 31,
+    ]);
+  });
+
+  it("follows on from the leap day", () => {
+    expect(
+      getNextPayPeriodDates("monthly", rule, "2027-11-30", "2028-02-28")
+    ).toEqual({
+      start_date: "2028-02-29",
+      end_date: "2028-03-30",
+      days_in_period: 31,
+    });
+  });
+});
+
+describe("holidays at New Year", () => {
+  it("observes a Saturday New Year's Day on December 31 for federal offices", () => {
+    const rule: PayScheduleRule = {
+      anchor_days: [15, 31],
+      business_day_adjustment: "PREVIOUS",
+      holiday_calendar: "US_FEDERAL",
+    };
+
+    expect(
+      getNextPayPeriodDates("semi-monthly", rule, "2027-12-15", "2027-12-14")
+    ).toEqual({
+      start_date: "2027-12-15",
+      end_date: "2027-12-29",
+      days_in_period: 15,
+    });
+  });
+
+  it("moves a New Year's Day pay date to the next business day", () => {
+    const rule: PayScheduleRule = {
+      anchor_days: [1],
+      business_day_adjustment: "NEXT",
+      holiday_calendar: "US_BANK",
+    };
+
+    // January 1, 2023 is a Sunday, observed on Monday January 2, so pay
+    // comes on Tuesday January 3
+    expect(getFirstPayPeriodDates("monthly", rule, "2022-12-01")).toEqual({
+      start_date: "2022-12-01",
+      end_date: "2023-01-02",
+      days_in_period: 33,
+    });
+  });
+
+  it("moves a New Year's Day pay date to the previous business day", () => {
+    const rule: PayScheduleRule = {
+      anchor_days: [1],
+      business_day_adjustment: "PREVIOUS",
+      holiday_calendar: "US_BANK",
+    };
+
+    // January 1, 2027 is a Friday, so pay comes on Thursday December 31
+    expect(
+      getNextPayPeriodDates("monthly", rule, "2026-11-01", "2026-11-30")
+    ).toEqual({
+      start_date: "2026-12-01",
+      end_date: "2026-12-30",
+      days_in_period: 30,
+    });
+  });
+
+  it("leaves pay dates alone without a holiday calendar", () => {
+    const rule: PayScheduleRule = {
+      anchor_days: [1],
+      business_day_adjustment: "PREVIOUS",
+    };
+
+    expect(getFirstPayPeriodDates("monthly", rule, "2027-01-01")).toEqual({
+      start_date: "2027-01-01",
+      end_date: "2027-01-31",
+      days_in_period: 31,
+    });
+  });
+});
@@ -0,0 +1,410 @@
+/**
+ * Pay schedule rules shared by the app and the pay-period-generation edge
+ * function. This module has no imports so it runs unchanged under Node and
+ * Deno. Dates are ISO strings (YYYY-MM-DD) and all arithmetic is done in UTC
+ * so results don't depend on the server's time zone.
+ *
+ * A pay period starts on a pay date and ends the day before the next one.
+ * Pay dates come from the cadence and its anchor days, then move off weekends
+ * and holidays according to the business day adjustment.
+ */
+
+export type PayScheduleCadence =
+  | "weekly"
+  | "bi-weekly"
+  | "semi-monthly"
+  | "monthly"
+  | "quarterly"
+  | "annual";
+
+export type BusinessDayAdjustment = "NONE" | "PREVIOUS" | "NEXT";
+
+export type HolidayCalendar = "NONE" | "US_FEDERAL" | "US_BANK";
+
+export interface PayScheduleRule {
+  anchor_days?: number[] | null; // Days of the month; 31 means the last day
+  business_day_adjustment?: BusinessDayAdjustment | null;
+  holiday_calendar?: HolidayCalendar | null;
+}
+
+export interface PayPeriodDates {
+  start_date: string;
+  end_date: string;
+  days_in_period: number;
+}
+
+export const LAST_DAY_OF_MONTH = 31;
+
+// Anchor days each cadence takes, and the days used when none are set
+const ANCHOR_DAY_COUNT: Record<PayScheduleCadence, number> = {
+  weekly: 0,
+  "bi-weekly": 0,
+  "semi-monthly": 2,
+  monthly: 1,
+  quarterly: 1,
+  annual: 1,
+};
+
+const DEFAULT_ANCHOR_DAYS: Record<PayScheduleCadence, number[]> = {
+  weekly: [],
+  "bi-weekly": [],
+  "semi-monthly": [1, 16],
+  monthly: [1],
+  quarterly: [1],
+  annual: [1],
+};
+
+// How far ahead to look for the next pay date; covers an annual cadence plus
+// any weekend or holiday shift
+const MAX_LOOKAHEAD_DAYS = 400;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ========================================
+// DATE HELPERS
+// ========================================
+
+function toUtc(date: string): number {
+  const [year, month, day] = date.slice(0, 10).split("-").map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+function fromUtc(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function isoDate(year: number, monthIndex: number, day: number): string {
+  return fromUtc(Date.UTC(year, monthIndex, day));
+}
+
+export function addDays(date: string, days: number): string {
+  return fromUtc(toUtc(date) + days * DAY_MS);
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((toUtc(to) - toUtc(from)) / DAY_MS);
+}
+
+function daysInMonth(year: number, monthIndex: number): number {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+}
+
+// Day of the week, 0 = Sunday
+function weekday(date: string): number {
+  return new Date(toUtc(date)).getUTCDay();
+}
+
+/**
+ * The nth given weekday of a month; a negative n counts from the end
+ */
+function nthWeekday(
+  year: number,
+  monthIndex: number,
+  day: number,
+  n: number
+): string {
+  if (n > 0) {
+    const first = weekday(isoDate(year, monthIndex, 1));
+    return isoDate(year, monthIndex, 1 + ((day - first + 7) % 7) + (n - 1) * 7);
+  }
+  const lastDay = daysInMonth(year, monthIndex);
+  const last = weekday(isoDate(year, monthIndex, lastDay));
+  return isoDate(year, monthIndex, lastDay - ((last - day + 7) % 7));
+}
+
+// ========================================
+// HOLIDAY CALENDARS
+// ========================================
+
+/**
+ * US federal holidays on their actual dates
+ */
+function usFederalHolidays(year: number): string[] {
+  const holidays = [
+    isoDate(year, 0, 1), // New Year's Day
+    nthWeekday(year, 0, 1, 3), // Birthday of Martin Luther King, Jr.
+    nthWeekday(year, 1, 1, 3), // Washington's Birthday
+    nthWeekday(year, 4, 1, -1), // Memorial Day
+    isoDate(year, 6, 4), // Independence Day
+    nthWeekday(year, 8, 1, 1), // Labor Day
+    nthWeekday(year, 9, 1, 2), // Columbus Day
+    isoDate(year, 10, 11), // Veterans Day
+    nthWeekday(year, 10, 4, 4), // Thanksgiving Day
+    isoDate(year, 11, 25), // Christmas Day
+  ];
+  if (year >= 2021) {
+    holidays.push(isoDate(year, 5, 19)); // Juneteenth
+  }
+  return holidays;
+}
+
+/**
+ * Holidays observed in a year. Federal offices observe a Saturday holiday on
+ * the Friday before and a Sunday holiday on the Monday after; the Federal
+ * Reserve, which settles payroll deposits, only moves Sunday holidays.
+ */
+export function getHolidays(calendar: HolidayCalendar, year: number): string[] {
+  if (calendar === "NONE") return [];
+
+  const observed = new Set<string>();
+
+  // New Year's Day on a Saturday is observed on December 31 of the year before
+  [year - 1, year, year + 1].forEach((y) =>
+    usFederalHolidays(y).forEach((holiday) => {
+      const day = weekday(holiday);
+      let date = holiday;
+      if (day === 0) date = addDays(holiday, 1);
+      if (day === 6) {
+        if (calendar === "US_BANK") return;
+        date = addDays(holiday, -1);
+      }
+      if (date.startsWith(`${year}-`)) observed.add(date);
+    })
+  );
+
+  return Array.from(observed).sort();
+}
+
+const holidayCache = new Map<string, Set<string>>();
+
+function isHoliday(date: string, calendar: HolidayCalendar): boolean {
+  if (calendar === "NONE") return false;
+
+  const year = Number(date.slice(0, 4));
+  const key = `${calendar}:${year}`;
+  let holidays = holidayCache.get(key);
+  if (!holidays) {
+    holidays = new Set(getHolidays(calendar, year));
+    holidayCache.set(key, holidays);
+  }
+  return holidays.has(date);
+}
+
+/**
+ * Whether a date is a weekday that is not a holiday
+ */
+export function isBusinessDay(
+  date: string,
+  calendar: HolidayCalendar = "NONE"
+): boolean {
+  const day = weekday(date);
+  return day !== 0 && day !== 6 && !isHoliday(date, calendar);
+}
+
+/**
+ * Move a pay date off weekends and holidays
+ */
+export function adjustToBusinessDay(
+  date: string,
+  adjustment: BusinessDayAdjustment,
+  calendar: HolidayCalendar = "NONE"
+): string {
+  if (adjustment === "NONE") return date;
+
+  const step = adjustment === "PREVIOUS" ? -1 : 1;
+  let adjusted = date;
+  while (!isBusinessDay(adjusted, calendar)) {
+    adjusted = addDays(adjusted, step);
+  }
+  return adjusted;
+}
+
+// ========================================
+// PAY DATES
+// ========================================
+
+/**
+ * Anchor days in effect for a cadence, falling back to the defaults
+ */
+export function getAnchorDays(
+  cadence: PayScheduleCadence,
+  rule: PayScheduleRule = {}
+): number[] {
+  const count = ANCHOR_DAY_COUNT[cadence];
+  const days = rule.anchor_days || [];
+  return days.length === count
+    ? [...days].sort((a, b) => a - b)
+    : DEFAULT_ANCHOR_DAYS[cadence];
+}
+
+/**
+ * Problem with a rule's anchor days for a cadence, or null if they are usable
+ */
+export function validateAnchorDays(
+  cadence: PayScheduleCadence,
+  anchorDays: number[] | null | undefined
+): string | null {
+  if (!anchorDays || anchorDays.length === 0) return null;
+
+  const count = ANCHOR_DAY_COUNT[cadence];
+  if (count === 0) {
+    return "Weekly and bi-weekly pay dates follow the start date";
+  }
+  if (anchorDays.length !== count) {
+    return count === 2
+      ? "Semi-monthly pay needs two pay days"
+      : "Choose a single pay day";
+  }
+  if (
+    anchorDays.some(
+      (day) => !Number.isInteger(day) || day < 1 || day > LAST_DAY_OF_MONTH
+    )
+  ) {
+    return "Pay days must be between 1 and 31";
+  }
+  if (new Set(anchorDays).size !== anchorDays.length) {
+    return "Pay days must be different";
+  }
+  return null;
+}
+
+/**
+ * Scheduled pay dates between two dates (inclusive), before any business day
+ * adjustment. Weekly and bi-weekly dates count from the anchor date.
+ */
+function getNominalPayDates(
+  cadence: PayScheduleCadence,
+  rule: PayScheduleRule,
+  anchorDate: string,
+  from: string,
+  to: string
+): string[] {
+  if (cadence === "weekly" || cadence === "bi-weekly") {
+    const step = cadence === "weekly" ? 7 : 14;
+    const first = Math.ceil(daysBetween(anchorDate, from) / step);
+    const dates: string[] = [];
+    for (let k = first; ; k++) {
+      const date = addDays(anchorDate, k * step);
+      if (date > to) break;
+      dates.push(date);
+    }
+    return dates;
+  }
+
+  const monthStep = cadence === "quarterly" ? 3 : cadence === "annual" ? 12 : 1;
+  const anchorDays = getAnchorDays(cadence, rule);
+  const dates: string[] = [];
+
+  let year = Number(from.slice(0, 4));
+  let month = Number(from.slice(5, 7)) - 1;
+  // Quarterly dates fall in January, April, July and October; annual in January
+  month -= month % monthStep;
+
+  while (isoDate(year, month, 1) <= to) {
+    const monthLength = daysInMonth(year, month);
+    anchorDays.forEach((day) => {
+      const date = isoDate(year, month, Math.min(day, monthLength));
+      if (date >= from && date <= to) dates.push(date);
+    });
+    month += monthStep;
+    if (month > 11) {
+      year += Math.floor(month / 12);
+      month %= 12;
+    }
+  }
+  return dates;
+}
+
+/**
+ * Actual pay dates between two dates (inclusive), after moving off weekends
+ * and holidays
+ */
+export function getPayDates(
+  cadence: PayScheduleCadence,
+  rule: PayScheduleRule,
+  anchorDate: string,
+  from: string,
+  to: string
+): string[] {
+  const adjustment = rule.business_day_adjustment || "NONE";
+  const calendar = rule.holiday_calendar || "NONE";
+
+  // Look a little past the range so shifted dates near the edges are found
+  const dates = getNominalPayDates(
+    cadence,
+    rule,
+    anchorDate,
+    addDays(from, -10),
+    addDays(to, 10)
+  )
+    .map((date) => adjustToBusinessDay(date, adjustment, calendar))
+    .filter((date) => date >= from && date <= to);
+
+  return Array.from(new Set(dates)).sort();
+}
+
+function nextPayDateAfter(
+  cadence: PayScheduleCadence,
+  rule: PayScheduleRule,
+  anchorDate: string,
+  date: string
+): string {
+  const [next] = getPayDates(
+    cadence,
+    rule,
+    anchorDate,
+    addDays(date, 1),
+    addDays(date, MAX_LOOKAHEAD_DAYS)
+  );
+  if (!next) {
+    throw new Error(`No pay date found after ${date} for ${cadence} cadence`);
+  }
+  return next;
+}
+
+function toPeriod(startDate: string, endDate: string): PayPeriodDates {
+  return {
+    start_date: startDate,
+    end_date: endDate,
+    days_in_period: daysBetween(startDate, endDate) + 1,
+  };
+}
+
+/**
+ * The first pay period for an income source: from the last pay date on or
+ * before the income start date up to the day before the next one
+ */
+export function getFirstPayPeriodDates(
+  cadence: PayScheduleCadence,
+  rule: PayScheduleRule,
+  incomeStartDate: string
+): PayPeriodDates {
+  const previous = getPayDates(
+    cadence,
+    rule,
+    incomeStartDate,
+    addDays(incomeStartDate, -MAX_LOOKAHEAD_DAYS),
+    incomeStartDate
+  );
+  const startDate = previous[previous.length - 1] || incomeStartDate;
+  const nextPayDate = nextPayDateAfter(
+    cadence,
+    rule,
+    incomeStartDate,
+    startDate
+  );
+
+  return toPeriod(startDate, addDays(nextPayDate, -1));
+}
+
+/**
+ * The pay period following one that ended on the given date. It starts the
+ * next day so periods never overlap or leave gaps, and ends the day before
+ * the following pay date.
+ */
+export function getNextPayPeriodDates(
+  cadence: PayScheduleCadence,
+  rule: PayScheduleRule,
+  incomeStartDate: string,
+  lastPeriodEndDate: string
+): PayPeriodDates {
+  const startDate = addDays(lastPeriodEndDate, 1);
+  const nextPayDate = nextPayDateAfter(
+    cadence,
+    rule,
+    incomeStartDate,
+    startDate
+  );
+
+  return toPeriod(startDate, addDays(nextPayDate, -1));
+}
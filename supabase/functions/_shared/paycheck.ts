@@ -0,0 +1,143 @@
+/**
+ * Gross-to-net paycheck breakdown shared by the app and the
+ * income-calculations edge function. This module has no imports so it runs
+ * unchanged under Node and Deno.
+ *
+ * Take-home pay is gross less pre-tax deductions, taxes and post-tax
+ * deductions. An employer match is paid on top of gross, so it adds to total
+ * compensation without touching take-home pay.
+ */
+
+export type PaycheckDeductionType =
+  | "PRE_TAX"
+  | "TAX"
+  | "POST_TAX"
+  | "EMPLOYER_MATCH";
+
+export interface PaycheckDeduction {
+  name: string;
+  type: PaycheckDeductionType;
+  amount: number; // Per paycheck
+}
+
+export interface PaycheckBreakdown {
+  gross: number;
+  pre_tax: number;
+  taxes: number;
+  post_tax: number;
+  employer_match: number;
+  net: number;
+  total_compensation: number; // Gross plus employer match
+}
+
+export const PAYCHECK_DEDUCTION_TYPES: PaycheckDeductionType[] = [
+  "PRE_TAX",
+  "TAX",
+  "POST_TAX",
+  "EMPLOYER_MATCH",
+];
+
+// Amounts are worked in whole cents so the parts add up to the net exactly
+const toCents = (amount: number) => Math.round(amount * 100);
+const fromCents = (cents: number) => cents / 100;
+
+/**
+ * Break a paycheck down from its gross amount and deductions
+ */
+export function calculatePaycheckBreakdown(
+  gross: number,
+  deductions: PaycheckDeduction[]
+): PaycheckBreakdown {
+  const totals: Record<PaycheckDeductionType, number> = {
+    PRE_TAX: 0,
+    TAX: 0,
+    POST_TAX: 0,
+    EMPLOYER_MATCH: 0,
+  };
+  for (const deduction of deductions) {
+    totals[deduction.type] += toCents(deduction.amount);
+  }
+
+  const grossCents = toCents(gross);
+  return {
+    gross: fromCents(grossCents),
+    pre_tax: fromCents(totals.PRE_TAX),
+    taxes: fromCents(totals.TAX),
+    post_tax: fromCents(totals.POST_TAX),
+    employer_match: fromCents(totals.EMPLOYER_MATCH),
+    net: fromCents(grossCents - totals.PRE_TAX - totals.TAX - totals.POST_TAX),
+    total_compensation: fromCents(grossCents + totals.EMPLOYER_MATCH),
+  };
+}
+
+/**
+ * Scale a breakdown to a different period length, e.g. a prorated period
+ */
+export function scalePaycheckBreakdown(
+  breakdown: PaycheckBreakdown,
+  factor: number
+): PaycheckBreakdown {
+  const scale = (amount: number) => fromCents(toCents(amount * factor));
+  const gross = scale(breakdown.gross);
+  const preTax = scale(breakdown.pre_tax);
+  const taxes = scale(breakdown.taxes);
+  const postTax = scale(breakdown.post_tax);
+  const employerMatch = scale(breakdown.employer_match);
+
+  return {
+    gross,
+    pre_tax: preTax,
+    taxes,
+    post_tax: postTax,
+    employer_match: employerMatch,
+    net: fromCents(
+      toCents(gross) - toCents(preTax) - toCents(taxes) - toCents(postTax)
+    ),
+    total_compensation: fromCents(toCents(gross) + toCents(employerMatch)),
+  };
+}
+
+/**
+ * Check a paycheck's deductions, returning a message for the first problem
+ * or null when they are valid
+ */
+export function validatePaycheckDeductions(
+  gross: number,
+  deductions: PaycheckDeduction[]
+): string | null {
+  for (const deduction of deductions) {
+    if (!deduction.name.trim()) {
+      return "Each deduction needs a name";
+    }
+    if (!PAYCHECK_DEDUCTION_TYPES.includes(deduction.type)) {
+      return `Unknown deduction type: ${deduction.type}`;
+    }
+    if (!Number.isFinite(deduction.amount) || deduction.amount <= 0) {
+      return `${deduction.name} must be an amount greater than 0`;
+    }
+  }
+
+  if (
+    deductions.length > 0 &&
+    calculatePaycheckBreakdown(gross, deductions).net <= 0
+  ) {
+    return "Deductions leave no take-home pay";
+  }
+  return null;
+}
+
+/**
+ * Read stored deductions, dropping anything malformed
+ */
+export function parsePaycheckDeductions(value: unknown): PaycheckDeduction[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.filter(
+    (entry): entry is PaycheckDeduction =>
+      typeof entry === "object" &&
+      entry !== null &&
+      typeof entry.name === "string" &&
+      PAYCHECK_DEDUCTION_TYPES.includes(entry.type) &&
+      typeof entry.amount === "number"
+  );
+}
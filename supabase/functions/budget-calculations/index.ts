@@ -1,24 +1,6 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { corsHeaders } from "../_shared/cors.ts";
-
-interface BudgetItem {
-  id: string;
-  name: string;
-  category: string;
-  calc_type: "FIXED" | "GROSS_PERCENT" | "NET_PERCENT" | "REMAINING_PERCENT";
-  value: number;
-  cadence: string;
-  depends_on: string[];
-  priority: number;
-  is_active: boolean;
-}
-
-interface IncomeSource {
-  id: string;
-  gross_amount: number;
-  net_amount: number;
-  cadence: string;
-}
+import { calculateAllocations } from "../_shared/allocation-calculations.ts";
 
 interface CalculationRequest {
   user_id: string;
@@ -27,17 +9,6 @@ interface CalculationRequest {
   pay_period_end: string;
 }
 
-interface AllocationResult {
-  budget_item_id: string;
-  expected_amount: number;
-  calculation_details: {
-    base_amount: number;
-    calculation_type: string;
-    percentage?: number;
-    depends_on_total?: number;
-  };
-}
-
 Deno.serve(async (req: Request) => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -103,26 +74,19 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    // Calculate allocations
-    const allocations = calculateBudgetAllocations(
-      budgetItems || [],
-      incomeSource
-    );
+    // Same calculation as the allocation engine
+    const { allocations, total_allocated, total_remaining } =
+      calculateAllocations(budgetItems || [], incomeSource);
 
     return new Response(
       JSON.stringify({
         success: true,
         allocations,
         summary: {
-          total_allocated: allocations.reduce(
-            (sum, alloc) => sum + alloc.expected_amount,
-            0
-          ),
+          total_allocated,
           gross_income: incomeSource.gross_amount,
           net_income: incomeSource.net_amount,
-          remaining:
-            incomeSource.net_amount -
-            allocations.reduce((sum, alloc) => sum + alloc.expected_amount, 0),
+          remaining: total_remaining,
         },
       }),
       {
@@ -144,77 +108,3 @@ Deno.serve(async (req: Request) => {
     );
   }
 });
-
-function calculateBudgetAllocations(
-  budgetItems: BudgetItem[],
-  incomeSource: IncomeSource
-): AllocationResult[] {
-  const allocations: AllocationResult[] = [];
-
-  for (const item of budgetItems) {
-    const allocation = calculateSingleAllocation(
-      item,
-      incomeSource,
-      allocations
-    );
-    allocations.push(allocation);
-  }
-
-  return allocations;
-}
-
-function calculateSingleAllocation(
-  budgetItem: BudgetItem,
-  incomeSource: IncomeSource,
-  existingAllocations: AllocationResult[]
-): AllocationResult {
-  let expectedAmount = 0;
-  const calculationDetails: AllocationResult["calculation_details"] = {
-    base_amount: 0,
-    calculation_type: budgetItem.calc_type,
-  };
-
-  switch (budgetItem.calc_type) {
-    case "FIXED":
-      expectedAmount = budgetItem.value;
-      calculationDetails.base_amount = budgetItem.value;
-      break;
-
-    case "GROSS_PERCENT":
-      expectedAmount = (incomeSource.gross_amount * budgetItem.value) / 100;
-      calculationDetails.base_amount = incomeSource.gross_amount;
-      calculationDetails.percentage = budgetItem.value;
-      break;
-
-    case "NET_PERCENT":
-      expectedAmount = (incomeSource.net_amount * budgetItem.value) / 100;
-      calculationDetails.base_amount = incomeSource.net_amount;
-      calculationDetails.percentage = budgetItem.value;
-      break;
-
-    case "REMAINING_PERCENT":
-      const dependentTotal = budgetItem.depends_on.reduce((total, depId) => {
-        const depAllocation = existingAllocations.find(
-          (a) => a.budget_item_id === depId
-        );
-        return total + (depAllocation?.expected_amount || 0);
-      }, 0);
-
-      const remainingAmount = incomeSource.net_amount - dependentTotal;
-      expectedAmount = (remainingAmount * budgetItem.value) / 100;
-      calculationDetails.base_amount = remainingAmount;
-      calculationDetails.percentage = budgetItem.value;
-      calculationDetails.depends_on_total = dependentTotal;
-      break;
-
-    default:
-      console.warn(`Unknown calculation type: ${budgetItem.calc_type}`);
-      expectedAmount = 0;
-  }
-
-  return {
-    budget_item_id: budgetItem.id,
-    expected_amount: Math.round(expectedAmount * 100) / 100,
-    calculation_details: calculationDetails,
-  };
-}
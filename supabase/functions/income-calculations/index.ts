@@ -1,5 +1,10 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { corsHeaders } from "../_shared/cors.ts";
+import {
+  calculatePaycheckBreakdown,
+  parsePaycheckDeductions,
+  scalePaycheckBreakdown,
+} from "../_shared/paycheck.ts";
 
 interface IncomeCalculationRequest {
   user_id: string;
@@ -81,11 +86,24 @@ Deno.serve(async (req: Request) => {
       end_date
     );
 
+    // Gross-to-net breakdown of one paycheck, and of the target period
+    const paycheck = calculatePaycheckBreakdown(
+      incomeSource.gross_amount,
+      parsePaycheckDeductions(incomeSource.paycheck_deductions)
+    );
+    const targetPeriodPaycheck = scalePaycheckBreakdown(
+      paycheck,
+      incomeSource.gross_amount > 0
+        ? prorationResult.prorated_gross / incomeSource.gross_amount
+        : 0
+    );
+
     return new Response(
       JSON.stringify({
         success: true,
         income_source: incomeSource,
         proration: prorationResult,
+        paycheck,
         calculations: {
           original_annual_gross: convertToAnnual(
             incomeSource.gross_amount,
@@ -97,6 +115,7 @@ Deno.serve(async (req: Request) => {
           ),
           target_period_gross: prorationResult.prorated_gross,
           target_period_net: prorationResult.prorated_net,
+          target_period_paycheck: targetPeriodPaycheck,
         },
       }),
       {
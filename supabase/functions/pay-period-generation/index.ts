@@ -1,5 +1,11 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  getFirstPayPeriodDates,
+  getNextPayPeriodDates,
+  type PayScheduleCadence,
+  type PayScheduleRule,
+} from "../_shared/pay-schedule.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -13,145 +19,6 @@ interface PayPeriodGenerationRequest {
   force_generate?: boolean; // Optional flag to force generation even if one exists
 }
 
-interface PayPeriodCalculation {
-  start_date: string;
-  end_date: string;
-  expected_net: number;
-  days_in_period: number;
-}
-
-// Cadence calculation functions
-function calculateNextPayPeriod(
-  cadence: string,
-  lastPeriodEndDate: string,
-  expectedNet: number
-): PayPeriodCalculation {
-  const startDate = new Date(lastPeriodEndDate);
-  startDate.setDate(startDate.getDate() + 1); // Start the day after the last period ended
-
-  let endDate: Date;
-
-  switch (cadence) {
-    case "weekly":
-      endDate = new Date(startDate);
-      endDate.setDate(endDate.getDate() + 6);
-      break;
-
-    case "bi-weekly":
-      endDate = new Date(startDate);
-      endDate.setDate(endDate.getDate() + 13);
-      break;
-
-    case "semi-monthly":
-      // Semi-monthly: 1st-15th, 16th-end of month
-      if (startDate.getDate() === 1) {
-        endDate = new Date(startDate.getFullYear(), startDate.getMonth(), 15);
-      } else {
-        endDate = new Date(
-          startDate.getFullYear(),
-          startDate.getMonth() + 1,
-          0
-        ); // Last day of month
-      }
-      break;
-
-    case "monthly":
-      endDate = new Date(startDate.getFullYear(), startDate.getMonth() + 1, 0); // Last day of month
-      break;
-
-    case "quarterly":
-      const currentQuarter = Math.floor(startDate.getMonth() / 3);
-      const quarterEndMonth = (currentQuarter + 1) * 3 - 1;
-      endDate = new Date(startDate.getFullYear(), quarterEndMonth + 1, 0);
-      break;
-
-    case "annual":
-      endDate = new Date(startDate.getFullYear(), 11, 31); // December 31
-      break;
-
-    default:
-      throw new Error(`Unsupported cadence: ${cadence}`);
-  }
-
-  const daysInPeriod =
-    Math.ceil(
-      (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)
-    ) + 1;
-
-  return {
-    start_date: startDate.toISOString().split("T")[0],
-    end_date: endDate.toISOString().split("T")[0],
-    expected_net: expectedNet,
-    days_in_period: daysInPeriod,
-  };
-}
-
-function calculateFirstPayPeriod(
-  cadence: string,
-  incomeStartDate: string,
-  expectedNet: number
-): PayPeriodCalculation {
-  const startDate = new Date(incomeStartDate);
-  let endDate: Date;
-
-  switch (cadence) {
-    case "weekly":
-      endDate = new Date(startDate);
-      endDate.setDate(endDate.getDate() + 6);
-      break;
-
-    case "bi-weekly":
-      endDate = new Date(startDate);
-      endDate.setDate(endDate.getDate() + 13);
-      break;
-
-    case "semi-monthly":
-      if (startDate.getDate() <= 15) {
-        startDate.setDate(1);
-        endDate = new Date(startDate.getFullYear(), startDate.getMonth(), 15);
-      } else {
-        startDate.setDate(16);
-        endDate = new Date(
-          startDate.getFullYear(),
-          startDate.getMonth() + 1,
-          0
-        );
-      }
-      break;
-
-    case "monthly":
-      startDate.setDate(1);
-      endDate = new Date(startDate.getFullYear(), startDate.getMonth() + 1, 0);
-      break;
-
-    case "quarterly":
-      const quarterStartMonth = Math.floor(startDate.getMonth() / 3) * 3;
-      startDate.setMonth(quarterStartMonth, 1);
-      endDate = new Date(startDate.getFullYear(), quarterStartMonth + 3, 0);
-      break;
-
-    case "annual":
-      startDate.setMonth(0, 1);
-      endDate = new Date(startDate.getFullYear(), 11, 31);
-      break;
-
-    default:
-      throw new Error(`Unsupported cadence: ${cadence}`);
-  }
-
-  const daysInPeriod =
-    Math.ceil(
-      (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)
-    ) + 1;
-
-  return {
-    start_date: startDate.toISOString().split("T")[0],
-    end_date: endDate.toISOString().split("T")[0],
-    expected_net: expectedNet,
-    days_in_period: daysInPeriod,
-  };
-}
-
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -252,23 +119,24 @@ serve(async (req) => {
       .limit(1)
       .single();
 
-    let calculation: PayPeriodCalculation;
-
-    if (latestPeriod) {
-      // Calculate next period based on the last one
-      calculation = calculateNextPayPeriod(
-        incomeSource.cadence,
-        latestPeriod.end_date,
-        incomeSource.net_amount
-      );
-    } else {
-      // Calculate first period
-      calculation = calculateFirstPayPeriod(
-        incomeSource.cadence,
-        incomeSource.start_date,
-        incomeSource.net_amount
-      );
-    }
+    // Pay dates follow the income source's anchor days and business day rules
+    const cadence = incomeSource.cadence as PayScheduleCadence;
+    const schedule: PayScheduleRule = {
+      anchor_days: incomeSource.pay_anchor_days,
+      business_day_adjustment: incomeSource.business_day_adjustment,
+      holiday_calendar: incomeSource.holiday_calendar,
+    };
+
+    const calculation = latestPeriod
+      ? // Calculate next period based on the last one
+        getNextPayPeriodDates(
+          cadence,
+          schedule,
+          incomeSource.start_date,
+          latestPeriod.end_date
+        )
+      : // Calculate first period
+        getFirstPayPeriodDates(cadence, schedule, incomeSource.start_date);
 
     // Create the new pay period
     const { data: newPayPeriod, error: createError } = await supabaseClient
@@ -278,7 +146,7 @@ serve(async (req) => {
         income_source_id: income_source_id,
         start_date: calculation.start_date,
         end_date: calculation.end_date,
-        expected_net: calculation.expected_net,
+        expected_net: incomeSource.net_amount,
         status: "ACTIVE",
       })
       .select()
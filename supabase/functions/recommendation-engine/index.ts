@@ -1,5 +1,10 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { corsHeaders } from "../_shared/cors.ts";
+import {
+  allocateExtraPayment,
+  type DebtPayoffPriority,
+  type PayoffDebt,
+} from "../_shared/debt-payoff.ts";
 
 interface RecommendationRequest {
   user_id: string;
@@ -7,7 +12,7 @@ interface RecommendationRequest {
   surplus_amount: number;
   user_preferences?: {
     emergency_fund_target?: number;
-    debt_payoff_priority?: "highest_interest" | "smallest_balance" | "custom";
+    debt_payoff_priority?: DebtPayoffPriority; // Defaults to the user's plan
     savings_goals?: Array<{
       name: string;
       target_amount: number;
@@ -80,10 +85,25 @@ Deno.serve(async (req: Request) => {
       .eq("user_id", user_id)
       .eq("is_active", true);
 
+    const { data: debtAccounts } = await supabase
+      .from("debt_accounts")
+      .select("id, name, balance, apr, minimum_payment, payoff_order")
+      .eq("user_id", user_id);
+
+    const { data: user } = await supabase
+      .from("users")
+      .select("debt_payoff_priority")
+      .eq("id", user_id)
+      .single();
+
     // Generate recommendations
     const recommendations = generateRecommendations(
       surplus_amount,
-      budgetItems || []
+      budgetItems || [],
+      debtAccounts || [],
+      user_preferences?.debt_payoff_priority ||
+        user?.debt_payoff_priority ||
+        "highest_interest"
     );
 
     return new Response(
@@ -116,9 +136,25 @@ Deno.serve(async (req: Request) => {
   }
 });
 
+function getDebtPaymentReason(
+  priority: DebtPayoffPriority,
+  debt: PayoffDebt
+): string {
+  switch (priority) {
+    case "highest_interest":
+      return `Avalanche plan: pay the highest interest rate first (${debt.apr}% APR)`;
+    case "smallest_balance":
+      return `Snowball plan: clear the smallest balance first ($${debt.balance} left)`;
+    case "custom":
+      return "Next in your payoff order";
+  }
+}
+
 function generateRecommendations(
   surplusAmount: number,
-  budgetItems: any[]
+  budgetItems: any[],
+  debtAccounts: PayoffDebt[],
+  debtPayoffPriority: DebtPayoffPriority
 ): Recommendation[] {
   const recommendations: Recommendation[] = [];
   let remainingAmount = surplusAmount;
@@ -148,12 +184,49 @@ function generateRecommendations(
     remainingAmount -= emergencyAllocation;
   }
 
-  // Debt Payment
+  // Debt Payment, directed at debt accounts by the payoff plan
+  const openDebts = debtAccounts.filter((debt) => debt.balance > 0);
+
+  if (openDebts.length > 0 && remainingAmount > 0) {
+    const debtAllocation = Math.min(remainingAmount * 0.4, remainingAmount);
+    const payments = allocateExtraPayment(
+      openDebts,
+      debtPayoffPriority,
+      debtAllocation
+    );
+
+    for (const payment of payments) {
+      const debt = openDebts.find((d) => d.id === payment.debt_id);
+      if (!debt) continue;
+
+      recommendations.push({
+        id: crypto.randomUUID(),
+        type: "debt_payment",
+        target_item: debt.name,
+        amount: payment.amount,
+        priority: 2,
+        reason: getDebtPaymentReason(debtPayoffPriority, debt),
+        impact_description:
+          payment.amount >= debt.balance
+            ? "Pays this debt off, freeing its minimum payment for the next"
+            : `Reduces interest charged at ${debt.apr}% APR`,
+      });
+
+      remainingAmount -= payment.amount;
+    }
+  }
+
+  // Without debt accounts there are no balances or rates to plan by, so
+  // extra money goes to the first Debt budget item
   const debtItems = budgetItems.filter((item) =>
     item.category.toLowerCase().includes("debt")
   );
 
-  if (debtItems.length > 0 && remainingAmount > 0) {
+  if (
+    debtAccounts.length === 0 &&
+    debtItems.length > 0 &&
+    remainingAmount > 0
+  ) {
     const debtAllocation = Math.min(remainingAmount * 0.4, remainingAmount);
 
     recommendations.push({